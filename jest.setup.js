@@ -1,21 +1,26 @@
 import '@testing-library/jest-dom'
-import { server } from './src/__tests__/__mocks__/server'
 
-// Establish API mocking before all tests
-beforeAll(() => {
-  server.listen({ onUnhandledRequest: 'error' })
-})
+// API mocking for component tests. Server code is tested with
+// `@jest-environment node` and stubs fetch itself.
+if (typeof window !== 'undefined') {
+  const { server } = require('./src/__tests__/__mocks__/server')
 
-// Reset any request handlers that we may add during the tests,
-// so they don't affect other tests
-afterEach(() => {
-  server.resetHandlers()
-})
+  // Establish API mocking before all tests
+  beforeAll(() => {
+    server.listen({ onUnhandledRequest: 'error' })
+  })
 
-// Clean up after the tests are finished
-afterAll(() => {
-  server.close()
-})
+  // Reset any request handlers that we may add during the tests,
+  // so they don't affect other tests
+  afterEach(() => {
+    server.resetHandlers()
+  })
+
+  // Clean up after the tests are finished
+  afterAll(() => {
+    server.close()
+  })
+}
 
 // Mock Next.js router
 jest.mock('next/router', () => ({
@@ -116,54 +121,57 @@ jest.mock('reactflow', () => ({
   },
 }))
 
-// Mock Web APIs
-Object.defineProperty(window, 'matchMedia', {
-  writable: true,
-  value: jest.fn().mockImplementation(query => ({
-    matches: false,
-    media: query,
-    onchange: null,
-    addListener: jest.fn(), // deprecated
-    removeListener: jest.fn(), // deprecated
-    addEventListener: jest.fn(),
-    removeEventListener: jest.fn(),
-    dispatchEvent: jest.fn(),
-  })),
-})
+// Browser APIs for component tests
+if (typeof window !== 'undefined') {
+  // Mock Web APIs
+  Object.defineProperty(window, 'matchMedia', {
+    writable: true,
+    value: jest.fn().mockImplementation(query => ({
+      matches: false,
+      media: query,
+      onchange: null,
+      addListener: jest.fn(), // deprecated
+      removeListener: jest.fn(), // deprecated
+      addEventListener: jest.fn(),
+      removeEventListener: jest.fn(),
+      dispatchEvent: jest.fn(),
+    })),
+  })
 
-// Mock IntersectionObserver
-global.IntersectionObserver = class IntersectionObserver {
-  constructor() {}
-  observe() {
-    return null
-  }
-  disconnect() {
-    return null
-  }
-  unobserve() {
-    return null
+  // Mock IntersectionObserver
+  global.IntersectionObserver = class IntersectionObserver {
+    constructor() {}
+    observe() {
+      return null
+    }
+    disconnect() {
+      return null
+    }
+    unobserve() {
+      return null
+    }
   }
-}
 
-// Mock ResizeObserver
-global.ResizeObserver = class ResizeObserver {
-  constructor(cb) {
-    this.cb = cb
-  }
-  observe() {
-    return null
-  }
-  unobserve() {
-    return null
-  }
-  disconnect() {
-    return null
+  // Mock ResizeObserver
+  global.ResizeObserver = class ResizeObserver {
+    constructor(cb) {
+      this.cb = cb
+    }
+    observe() {
+      return null
+    }
+    unobserve() {
+      return null
+    }
+    disconnect() {
+      return null
+    }
   }
-}
 
-// Mock crypto for testing
-Object.defineProperty(global, 'crypto', {
-  value: {
-    randomUUID: () => 'test-uuid-' + Math.random().toString(36).substr(2, 9),
-  },
-})
\ No newline at end of file
+  // Mock crypto for testing
+  Object.defineProperty(global, 'crypto', {
+    value: {
+      randomUUID: () => 'test-uuid-' + Math.random().toString(36).substr(2, 9),
+    },
+  })
+}
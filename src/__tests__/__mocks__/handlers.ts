@@ -0,0 +1,4 @@
+import type { RestHandler } from 'msw';
+
+// Request handlers shared by every test; tests add their own with server.use()
+export const handlers: RestHandler[] = [];
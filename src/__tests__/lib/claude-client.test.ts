@@ -0,0 +1,66 @@
+/**
+ * @jest-environment node
+ */
+import { ClaudeClient } from '../../lib/claude-client';
+import { InMemoryConversationStore } from '../../lib/conversation-store';
+import type { LLMProvider, LLMRequest } from '../../lib/llm';
+import { InMemoryUsageStore } from '../../lib/usage';
+
+describe('ClaudeClient continueTurn', () => {
+  let requests: LLMRequest[];
+  let client: ClaudeClient;
+  let store: InMemoryConversationStore;
+
+  beforeEach(() => {
+    requests = [];
+    store = new InMemoryConversationStore();
+    const provider: LLMProvider = {
+      name: 'anthropic',
+      complete: async () => { throw new Error('not used'); },
+      async *stream(request) {
+        requests.push({ ...request, messages: JSON.parse(JSON.stringify(request.messages)) });
+        yield {
+          type: 'done',
+          response: {
+            id: `msg_${requests.length}`,
+            model: 'test-model',
+            provider: 'anthropic',
+            content: [{ type: 'text', text: `reply ${requests.length}` }],
+            stopReason: 'end_turn',
+            usage: { inputTokens: 1, outputTokens: 1 },
+          },
+        };
+      },
+    };
+    client = new ClaudeClient({ model: 'claude-test', store, usageStore: new InMemoryUsageStore(), providers: { anthropic: provider } });
+  });
+
+  it('stores only the reply of a continued turn, after the previous one', async () => {
+    const conversationId = await client.createConversation('u1');
+    const options = { conversationId, userId: 'u1', toolImplementations: {} };
+
+    await client.runToolLoop('fix the build', options);
+    await client.runToolLoop('Another agent handed this over to you.', { ...options, continueTurn: true });
+
+    const conversation = await store.get(conversationId, 'u1');
+    expect(conversation!.messages.map(message => [message.role, message.content])).toEqual([
+      ['user', 'fix the build'],
+      ['assistant', 'reply 1'],
+      ['assistant', 'reply 2'],
+    ]);
+    expect(conversation!.messages[2].parentId).toBe(conversation!.messages[1].id);
+    expect(requests[1].messages).toEqual([
+      { role: 'user', content: 'fix the build' },
+      { role: 'assistant', content: 'reply 1' },
+      { role: 'user', content: 'Another agent handed this over to you.' },
+    ]);
+
+    // Back-to-back replies are replayed as one assistant turn
+    await client.runToolLoop('thanks', options);
+    expect(requests[2].messages).toEqual([
+      { role: 'user', content: 'fix the build' },
+      { role: 'assistant', content: 'reply 1\n\nreply 2' },
+      { role: 'user', content: 'thanks' },
+    ]);
+  });
+});
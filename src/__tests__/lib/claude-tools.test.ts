@@ -0,0 +1,127 @@
+/**
+ * @jest-environment node
+ */
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { bashTool, grepTool, readTool } from '../../lib/claude-tools';
+import { WorkspacePolicy, createWorkspacePolicy } from '../../lib/workspace';
+
+describe('bashTool', () => {
+  let base: string;
+  let policy: WorkspacePolicy;
+
+  beforeEach(async () => {
+    base = await fs.mkdtemp(path.join(os.tmpdir(), 'bash-tool-test-'));
+    process.env.WORKSPACES_ROOT = base;
+    policy = createWorkspacePolicy('user', 'project');
+    await fs.mkdir(path.join(policy.root, 'src'), { recursive: true });
+    await fs.writeFile(path.join(policy.root, 'src', 'a.txt'), 'hello\n');
+    await fs.writeFile(path.join(policy.root, '.env'), 'SECRET=1\n');
+  });
+
+  afterEach(async () => {
+    delete process.env.WORKSPACES_ROOT;
+    delete process.env.TOOL_COMMAND_ALLOWLIST;
+    await fs.rm(base, { recursive: true, force: true });
+  });
+
+  it('runs allowed commands in the workspace root', async () => {
+    await expect(bashTool({ command: 'cat src/a.txt' }, policy)).resolves.toMatchObject({
+      success: true,
+      data: { stdout: 'hello', code: 0 },
+    });
+  });
+
+  it('refuses find -exec, which would run a denied command', async () => {
+    const result = await bashTool({ command: 'find . -maxdepth 0 -exec bash -c "cat /etc/hostname" ";"' }, policy);
+    expect(result).toMatchObject({ success: false, code: 'COMMAND_NOT_ALLOWED' });
+
+    // Still refused when an operator allows find
+    process.env.TOOL_COMMAND_ALLOWLIST = 'find';
+    const allowed = await bashTool({ command: 'find . -maxdepth 0 -exec cat src/a.txt ";"' }, policy);
+    expect(allowed).toMatchObject({ success: false, code: 'COMMAND_NOT_ALLOWED', error: expect.stringContaining('-exec') });
+  });
+
+  it('refuses interpreters that can read files outside the workspace', async () => {
+    const result = await bashTool({ command: `node -e "require('fs').readFileSync('/etc/hostname')"` }, policy);
+    expect(result).toMatchObject({ success: false, code: 'COMMAND_NOT_ALLOWED' });
+  });
+
+  it('applies the workspace deny list to arguments, as readTool does', async () => {
+    await expect(readTool({ file_path: '.env' }, policy)).resolves.toMatchObject({ code: 'PATH_DENIED' });
+    await expect(bashTool({ command: 'cat .env' }, policy)).resolves.toMatchObject({ success: false, code: 'PATH_DENIED' });
+    await expect(bashTool({ command: 'cat -- .env' }, policy)).resolves.toMatchObject({ code: 'PATH_DENIED' });
+    await expect(bashTool({ command: 'cp src/a.txt .env.local' }, policy)).resolves.toMatchObject({ code: 'PATH_DENIED' });
+  });
+
+  it('checks option values', async () => {
+    await expect(bashTool({ command: 'sort -o/etc/passwd src/a.txt' }, policy)).resolves.toMatchObject({ code: 'PATH_OUTSIDE_WORKSPACE' });
+    await expect(bashTool({ command: 'sort --output=.env src/a.txt' }, policy)).resolves.toMatchObject({ code: 'PATH_DENIED' });
+  });
+
+  it('resolves relative symlinks before checking them', async () => {
+    await fs.symlink('.env', path.join(policy.root, 'settings'));
+    await fs.symlink('../../..', path.join(policy.root, 'up'));
+    await expect(bashTool({ command: 'cat settings' }, policy)).resolves.toMatchObject({ code: 'PATH_DENIED' });
+    await expect(bashTool({ command: 'ls up' }, policy)).resolves.toMatchObject({ code: 'PATH_OUTSIDE_WORKSPACE' });
+  });
+
+  it('refuses paths outside the workspace', async () => {
+    await expect(bashTool({ command: 'cat /etc/hostname' }, policy)).resolves.toMatchObject({ code: 'PATH_OUTSIDE_WORKSPACE' });
+    await expect(bashTool({ command: 'cat ../../x' }, policy)).resolves.toMatchObject({ code: 'PATH_OUTSIDE_WORKSPACE' });
+  });
+});
+
+describe('grepTool', () => {
+  let base: string;
+  let policy: WorkspacePolicy;
+
+  beforeEach(async () => {
+    base = await fs.mkdtemp(path.join(os.tmpdir(), 'grep-tool-test-'));
+    process.env.WORKSPACES_ROOT = base;
+    policy = createWorkspacePolicy('user', 'project');
+    await fs.mkdir(path.join(policy.root, 'src'), { recursive: true });
+    await fs.writeFile(path.join(policy.root, 'src', 'a.ts'), 'one\nconst x = 1;\nthree\n');
+    await fs.writeFile(path.join(policy.root, 'src', 'b:c.md'), 'const y = 2;\n');
+    await fs.writeFile(path.join(policy.root, 'data.bin'), Buffer.from([0, 1, 2, 99, 111, 110, 115, 116]));
+    await fs.writeFile(path.join(policy.root, '.env'), 'const SECRET = 1\n');
+  });
+
+  afterEach(async () => {
+    delete process.env.WORKSPACES_ROOT;
+    await fs.rm(base, { recursive: true, force: true });
+  });
+
+  it('finds matches with context, skipping denied and binary files', async () => {
+    const result = await grepTool({ pattern: 'const [a-z]', context: 1 }, policy);
+    expect(result.success).toBe(true);
+    const { matches, truncated } = result.data as { matches: unknown[]; truncated: boolean };
+    expect(truncated).toBe(false);
+    expect(matches).toEqual(expect.arrayContaining([
+      { file: 'src/a.ts', line: 2, text: 'const x = 1;', before: ['one'], after: ['three'] },
+      { file: 'src/b:c.md', line: 1, text: 'const y = 2;', before: [], after: [''] },
+    ]));
+    expect(matches).toHaveLength(2);
+  });
+
+  it('applies include patterns and case folding', async () => {
+    const result = await grepTool({ pattern: 'CONST', include: '*.ts', case_insensitive: true }, policy);
+    expect(result.data).toEqual({ matches: [{ file: 'src/a.ts', line: 2, text: 'const x = 1;' }], truncated: false });
+  });
+
+  it('caps the number of results', async () => {
+    await fs.writeFile(path.join(policy.root, 'many.txt'), 'hit\n'.repeat(2000));
+    const result = await grepTool({ pattern: 'hit', max_results: 1000000 }, policy);
+    expect(result.data).toMatchObject({ truncated: true });
+    expect((result.data as { matches: unknown[] }).matches).toHaveLength(1000);
+  });
+
+  it('reports invalid patterns', async () => {
+    await expect(grepTool({ pattern: 'a(' }, policy)).resolves.toMatchObject({ success: false, code: 'INVALID_PATTERN' });
+  });
+
+  it('refuses paths outside the workspace', async () => {
+    await expect(grepTool({ pattern: 'root', path: '/etc' }, policy)).resolves.toMatchObject({ code: 'PATH_OUTSIDE_WORKSPACE' });
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * @jest-environment node
+ */
+import crypto from 'crypto';
+import { applyVercelWebhookEvent, verifyVercelSignature } from '../../lib/vercel/deployment-sync';
+import { getDeploymentStore } from '../../lib/vercel/deployments';
+import { getVercelIntegrationStore } from '../../lib/vercel/integrations';
+
+const secret = 'vercel-secret';
+
+function sign(body: string, key = secret): string {
+  return crypto.createHmac('sha1', key).update(body).digest('hex');
+}
+
+describe('verifyVercelSignature', () => {
+  const body = JSON.stringify({ id: 'evt_1', type: 'deployment.succeeded' });
+
+  it('accepts the HMAC-SHA1 of the body', () => {
+    expect(verifyVercelSignature(body, sign(body), secret)).toBe(true);
+  });
+
+  it('rejects a changed body, another secret or a malformed signature', () => {
+    expect(verifyVercelSignature(`${body} `, sign(body), secret)).toBe(false);
+    expect(verifyVercelSignature(body, sign(body, 'other'), secret)).toBe(false);
+    expect(verifyVercelSignature(body, sign(body).slice(1), secret)).toBe(false);
+    expect(verifyVercelSignature(body, '', secret)).toBe(false);
+  });
+});
+
+describe('applyVercelWebhookEvent', () => {
+  beforeAll(() => {
+    delete process.env.DATABASE_URL;
+  });
+
+  it('updates the mirror and leaves the follow-up to the caller', async () => {
+    await getVercelIntegrationStore().save('user-1', { accountId: 'team_1', teamId: 'team_1', name: 'Team', accessToken: 'encrypted' });
+
+    const updates = await applyVercelWebhookEvent({
+      id: 'evt_1',
+      type: 'deployment.succeeded',
+      createdAt: Date.now(),
+      payload: { team: { id: 'team_1' }, deployment: { id: 'dpl_1', name: 'site' }, project: { id: 'prj_1' } },
+    });
+
+    expect(updates).toHaveLength(1);
+    expect(updates[0].record).toMatchObject({ userId: 'user-1', deploymentId: 'dpl_1', status: 'ready' });
+    expect(updates[0].followUp).toBeDefined();
+    expect((await getDeploymentStore().get('user-1', 'dpl_1'))?.status).toBe('ready');
+
+    // Without a URL there is nothing to check, and no workflow waits on it
+    const followUp = await updates[0].followUp!();
+    expect(followUp.firings).toEqual([]);
+    expect(followUp.record.health).toBeUndefined();
+  });
+
+  it('ignores events for unknown accounts or types', async () => {
+    const event = { id: 'evt_2', createdAt: Date.now(), payload: { team: { id: 'team_2' }, deployment: { id: 'dpl_2' } } };
+
+    expect(await applyVercelWebhookEvent({ ...event, type: 'deployment.succeeded' })).toEqual([]);
+    expect(await applyVercelWebhookEvent({ ...event, type: 'project.created' })).toEqual([]);
+  });
+});
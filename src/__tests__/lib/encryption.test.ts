@@ -0,0 +1,37 @@
+/**
+ * @jest-environment node
+ */
+import { DecryptionError, decryptSecret, encryptSecret } from '../../lib/security/encryption';
+
+function setEnv(values: Record<string, string | undefined>) {
+  jest.replaceProperty(process, 'env', { ...process.env, ...values });
+}
+
+describe('secret encryption', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('decrypts what it encrypted and rejects a tampered value', () => {
+    setEnv({ ENCRYPTION_KEY: 'test-key' });
+    const value = encryptSecret('vercel-token');
+
+    expect(decryptSecret(value)).toBe('vercel-token');
+    expect(() => decryptSecret(`${value.slice(0, -2)}AA`)).toThrow(DecryptionError);
+  });
+
+  it('does not decrypt with another key', () => {
+    setEnv({ ENCRYPTION_KEY: 'old-key' });
+    const value = encryptSecret('vercel-token');
+
+    setEnv({ ENCRYPTION_KEY: 'new-key' });
+    expect(() => decryptSecret(value)).toThrow(DecryptionError);
+  });
+
+  it('refuses to run without ENCRYPTION_KEY in production', () => {
+    setEnv({ ENCRYPTION_KEY: undefined, NODE_ENV: 'test' });
+    const value = encryptSecret('vercel-token');
+
+    setEnv({ ENCRYPTION_KEY: undefined, NODE_ENV: 'production', JWT_SECRET: 'jwt-secret' });
+    expect(() => encryptSecret('vercel-token')).toThrow(/ENCRYPTION_KEY is not set/);
+    expect(() => decryptSecret(value)).toThrow(/ENCRYPTION_KEY is not set/);
+  });
+});
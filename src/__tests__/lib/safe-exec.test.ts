@@ -0,0 +1,145 @@
+/**
+ * @jest-environment node
+ */
+import os from 'os';
+import {
+  CommandPolicy,
+  CommandPolicyError,
+  DEFAULT_COMMAND_ALLOWLIST,
+  DEFAULT_COMMAND_DENYLIST,
+  assertCommandAllowed,
+  getCommandPolicy,
+  getPathArguments,
+  parseCommandLine,
+  runCommand,
+} from '../../lib/safe-exec';
+
+const defaultPolicy: CommandPolicy = { allow: DEFAULT_COMMAND_ALLOWLIST, deny: DEFAULT_COMMAND_DENYLIST };
+
+describe('parseCommandLine', () => {
+  it('splits on whitespace and honours quotes and escapes', () => {
+    expect(parseCommandLine('ls  -la src')).toEqual(['ls', '-la', 'src']);
+    expect(parseCommandLine(`echo "a b" 'c d' e\\ f ""`)).toEqual(['echo', 'a b', 'c d', 'e f', '']);
+    expect(parseCommandLine('echo "say \\"hi\\""')).toEqual(['echo', 'say "hi"']);
+  });
+
+  it.each(['ls | cat', 'ls; rm x', 'ls && rm x', 'cat < x', 'echo $(id)', 'echo `id`', 'echo $HOME', 'ls > out'])(
+    'rejects shell operators in %s',
+    (command) => {
+      expect(() => parseCommandLine(command)).toThrow(CommandPolicyError);
+    }
+  );
+
+  it('keeps operators inside quotes as text', () => {
+    expect(parseCommandLine('echo "a | b; c"')).toEqual(['echo', 'a | b; c']);
+  });
+
+  it('rejects unterminated quotes', () => {
+    expect(() => parseCommandLine('echo "abc')).toThrow('Unterminated quote');
+  });
+});
+
+describe('assertCommandAllowed', () => {
+  it('allows file utilities by default', () => {
+    expect(() => assertCommandAllowed(['cat', 'a.txt'], defaultPolicy)).not.toThrow();
+    expect(() => assertCommandAllowed(['ls', '-la'], defaultPolicy)).not.toThrow();
+  });
+
+  it.each(['node', 'npx', 'npm', 'pnpm', 'yarn', 'find', 'git', 'python3'])(
+    'does not allow %s by default',
+    (command) => {
+      expect(() => assertCommandAllowed([command, '--version'], defaultPolicy)).toThrow('not in the allowlist');
+    }
+  );
+
+  it('refuses denied commands even when everything is allowed', () => {
+    const policy = { allow: ['*'], deny: DEFAULT_COMMAND_DENYLIST };
+    expect(() => assertCommandAllowed(['bash', '-c', 'id'], policy)).toThrow('Command is denied: bash');
+    expect(() => assertCommandAllowed(['xargs', 'rm'], policy)).toThrow('Command is denied: xargs');
+  });
+
+  it('refuses executables given by path', () => {
+    expect(() => assertCommandAllowed(['/bin/cat', 'x'], defaultPolicy)).toThrow('by name');
+    expect(() => assertCommandAllowed(['./cat', 'x'], defaultPolicy)).toThrow('by name');
+  });
+
+  it('refuses options that run other programs', () => {
+    expect(() => assertCommandAllowed(['sort', '--compress-program=bash', 'x'], defaultPolicy)).toThrow('Option is denied');
+    const withFind = { allow: [...DEFAULT_COMMAND_ALLOWLIST, 'find'], deny: DEFAULT_COMMAND_DENYLIST };
+    expect(() => assertCommandAllowed(['find', '.', '-exec', 'bash', '-c', 'id', ';'], withFind)).toThrow('Option is denied: find -exec');
+    expect(() => assertCommandAllowed(['find', '.', '-name', '*.ts'], withFind)).not.toThrow();
+  });
+
+  it('refuses an empty command', () => {
+    expect(() => assertCommandAllowed([], defaultPolicy)).toThrow('empty');
+  });
+});
+
+describe('getCommandPolicy', () => {
+  afterEach(() => {
+    delete process.env.TOOL_COMMAND_ALLOWLIST;
+    delete process.env.TOOL_COMMAND_DENYLIST;
+  });
+
+  it('replaces the allowlist and extends the denylist from the environment', () => {
+    process.env.TOOL_COMMAND_ALLOWLIST = 'ls, cat';
+    process.env.TOOL_COMMAND_DENYLIST = 'rm';
+    const policy = getCommandPolicy();
+    expect(policy.allow).toEqual(['ls', 'cat']);
+    expect(policy.deny).toEqual(expect.arrayContaining(['bash', 'rm']));
+  });
+});
+
+describe('getPathArguments', () => {
+  it('returns operands and option values', () => {
+    expect(getPathArguments(['-n', '5', 'src/a.ts'])).toEqual(['5', 'src/a.ts']);
+    expect(getPathArguments(['--output=/etc/passwd', '--verbose'])).toEqual(['/etc/passwd']);
+    expect(getPathArguments(['-o/etc/passwd', '-o.env', '-n5'])).toEqual(['/etc/passwd', '.env']);
+  });
+
+  it('treats everything after -- as operands', () => {
+    expect(getPathArguments(['--', '-rf', '.env'])).toEqual(['-rf', '.env']);
+  });
+});
+
+describe('runCommand', () => {
+  const cwd = os.tmpdir();
+
+  it('runs argv without a shell', async () => {
+    const result = await runCommand(['echo', '$HOME', '; id'], { cwd });
+    expect(result).toMatchObject({ stdout: '$HOME ; id\n', exitCode: 0, timedOut: false, truncated: false });
+  });
+
+  it('reports non-zero exit codes', async () => {
+    const result = await runCommand(['ls', 'does-not-exist-here'], { cwd });
+    expect(result.exitCode).not.toBe(0);
+    expect(result.stderr).toContain('does-not-exist-here');
+  });
+
+  it('does not pass secrets from the environment to the child', async () => {
+    process.env.ANTHROPIC_API_KEY = 'sk-secret';
+    const result = await runCommand(['printenv'], { cwd, env: { EXTRA: '1' } });
+    expect(result.stdout).not.toContain('sk-secret');
+    expect(result.stdout).toContain('EXTRA=1');
+    expect(result.stdout).toContain(`HOME=${cwd}`);
+  });
+
+  it('kills commands that run past the timeout', async () => {
+    const result = await runCommand(['sleep', '5'], { cwd, timeout: 200 });
+    expect(result.timedOut).toBe(true);
+    expect(result.exitCode).toBeNull();
+  });
+
+  it('kills commands whose output exceeds the limit', async () => {
+    const result = await runCommand(['yes'], { cwd, maxOutputBytes: 1024 });
+    expect(result.truncated).toBe(true);
+    expect(result.stdout.length).toBe(1024);
+  });
+
+  it('stops when the signal is aborted', async () => {
+    const controller = new AbortController();
+    const running = runCommand(['sleep', '5'], { cwd, signal: controller.signal });
+    controller.abort();
+    await expect(running).resolves.toMatchObject({ aborted: true });
+  });
+});
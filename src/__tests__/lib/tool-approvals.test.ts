@@ -0,0 +1,223 @@
+/**
+ * @jest-environment node
+ */
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { ClaudeClient } from '../../lib/claude-client';
+import { CLAUDE_TOOLS, createToolImplementations } from '../../lib/claude-tools';
+import { InMemoryConversationStore } from '../../lib/conversation-store';
+import type { LLMProvider, LLMRequest, LLMResponse } from '../../lib/llm';
+import {
+  InMemoryToolApprovalStore,
+  ToolApprovalError,
+  createToolAuthorizer,
+  decideToolApproval,
+  getToolApprovalStore,
+  resumeToolLoop,
+  saveSuspendedToolLoop,
+} from '../../lib/tool-approvals';
+import { InMemoryUsageStore } from '../../lib/usage';
+import { WorkspacePolicy, createWorkspacePolicy } from '../../lib/workspace';
+
+// The shared store is picked on first use; keep it in memory
+delete process.env.DATABASE_URL;
+
+const expiresAt = () => new Date(Date.now() + 60000);
+
+// An approval whose turn has been saved, as the chat route leaves it
+async function createSavedApproval(toolUseId: string, expires = expiresAt()) {
+  const store = getToolApprovalStore();
+  const approval = await store.createApproval({ userId: 'decide-user', toolUseId, toolName: 'write', input: {}, expiresAt: expires });
+  await store.saveResumeState(approval.id, 'decide-user', { loop: { model: 'm' }, options: {} } as never);
+  return approval;
+}
+
+describe('InMemoryToolApprovalStore', () => {
+  it('moves a pending approval to a decided state exactly once', async () => {
+    const store = new InMemoryToolApprovalStore();
+    const approval = await store.createApproval({ userId: 'u1', toolUseId: 't1', toolName: 'bash', input: {}, expiresAt: expiresAt() });
+    expect(approval.status).toBe('pending');
+    expect(await store.listPendingApprovals('u1')).toHaveLength(1);
+
+    expect(await store.decideApproval(approval.id, 'u2', 'approved')).toBeNull();
+    const decided = await store.decideApproval(approval.id, 'u1', 'rejected', 'no');
+    expect(decided).toMatchObject({ status: 'rejected', reason: 'no', decidedAt: expect.any(Date) });
+    expect(await store.decideApproval(approval.id, 'u1', 'approved')).toBeNull();
+    expect(await store.listPendingApprovals('u1')).toHaveLength(0);
+  });
+
+  it('hands out resume state once, and only to its owner', async () => {
+    const store = new InMemoryToolApprovalStore();
+    const approval = await store.createApproval({ userId: 'u1', toolUseId: 't1', toolName: 'bash', input: {}, expiresAt: expiresAt() });
+    const state = { loop: { model: 'm' }, options: {} } as never;
+    await store.saveResumeState(approval.id, 'u1', state);
+
+    expect(await store.takeResumeState(approval.id, 'u2')).toBeNull();
+    expect(await store.takeResumeState(approval.id, 'u1')).toEqual(state);
+    expect(await store.takeResumeState(approval.id, 'u1')).toBeNull();
+  });
+});
+
+describe('decideToolApproval', () => {
+  it('decides pending approvals and refuses decided ones', async () => {
+    const approval = await createSavedApproval('t1');
+    await expect(decideToolApproval(approval.id, 'decide-user', 'approved')).resolves.toMatchObject({ status: 'approved' });
+    await expect(decideToolApproval(approval.id, 'decide-user', 'rejected')).rejects.toMatchObject({
+      status: 409,
+      message: 'Approval has already been approved',
+    });
+  });
+
+  it('marks approvals past their expiry as expired', async () => {
+    const approval = await createSavedApproval('t2', new Date(Date.now() - 1));
+    await expect(decideToolApproval(approval.id, 'decide-user', 'approved')).rejects.toMatchObject({ status: 409, message: 'Approval has expired' });
+    await expect(getToolApprovalStore().getApproval(approval.id, 'decide-user')).resolves.toMatchObject({ status: 'expired' });
+  });
+
+  it('hides other users\' approvals', async () => {
+    const approval = await createSavedApproval('t3');
+    const error = await decideToolApproval(approval.id, 'someone-else', 'approved').catch(e => e);
+    expect(error).toBeInstanceOf(ToolApprovalError);
+    expect(error.status).toBe(404);
+  });
+});
+
+describe('suspending and resuming the tool loop', () => {
+  let base: string;
+  let workspace: WorkspacePolicy;
+  let requests: LLMRequest[];
+  let responses: LLMResponse[];
+  let client: ClaudeClient;
+
+  const reply = (content: LLMResponse['content'], stopReason: LLMResponse['stopReason']): LLMResponse => ({
+    id: `msg_${requests.length}`,
+    model: 'test-model',
+    provider: 'anthropic',
+    content,
+    stopReason,
+    usage: { inputTokens: 1, outputTokens: 1 },
+  });
+
+  beforeEach(async () => {
+    base = await fs.mkdtemp(path.join(os.tmpdir(), 'approval-test-'));
+    process.env.WORKSPACES_ROOT = base;
+    workspace = createWorkspacePolicy('loop-user', undefined);
+    await fs.mkdir(workspace.root, { recursive: true });
+    requests = [];
+    responses = [];
+    const provider: LLMProvider = {
+      name: 'anthropic',
+      complete: async () => { throw new Error('not used'); },
+      async *stream(request) {
+        requests.push(JSON.parse(JSON.stringify({ ...request, signal: undefined })));
+        yield { type: 'done', response: responses.shift()! };
+      },
+    };
+    client = new ClaudeClient({
+      model: 'claude-test',
+      store: new InMemoryConversationStore(),
+      usageStore: new InMemoryUsageStore(),
+      providers: { anthropic: provider },
+    });
+  });
+
+  afterEach(async () => {
+    delete process.env.WORKSPACES_ROOT;
+    await fs.rm(base, { recursive: true, force: true });
+  });
+
+  async function runUntilApproval(send: (event: unknown) => void) {
+    responses.push(reply([
+      { type: 'text', text: 'Writing. ' },
+      { type: 'tool_use', id: 'call_1', name: 'write', input: { file_path: 'a.txt', content: 'hi' } },
+    ], 'tool_use'));
+    return client.runToolLoop('write a file', {
+      userId: 'loop-user',
+      tools: CLAUDE_TOOLS,
+      toolImplementations: createToolImplementations(workspace) as never,
+      authorizeToolCall: await createToolAuthorizer({ userId: 'loop-user', workspace, interactive: true }),
+      onEvent: send,
+    });
+  }
+
+  async function startTurn(events: unknown[]) {
+    const send = (event: unknown) => { events.push(event); };
+    const result = await runUntilApproval(send);
+    await saveSuspendedToolLoop('loop-user', result, { options: { tools: CLAUDE_TOOLS } }, send);
+    return result;
+  }
+
+  it('ends the turn at a call that needs approval without running it', async () => {
+    const events: Array<{ type: string }> = [];
+    const result = await startTurn(events);
+
+    expect(result).toMatchObject({ stopReason: 'approval_required', approvalId: expect.any(String), iterations: 1 });
+    expect(events.map(event => event.type)).toEqual(['tool_use', 'tool_approval_required']);
+    await expect(fs.stat(path.join(workspace.root, 'a.txt'))).rejects.toThrow();
+    await expect(getToolApprovalStore().getApproval(result.approvalId!, 'loop-user')).resolves.toMatchObject({
+      status: 'pending',
+      preview: { type: 'diff', path: 'a.txt' },
+    });
+  });
+
+  it('refuses a decision until the stopped turn is saved', async () => {
+    const events: Array<{ type: string }> = [];
+    const send = (event: unknown) => { events.push(event as { type: string }); };
+    const result = await runUntilApproval(send);
+
+    // The client has not been asked yet, but could find the call among the pending approvals
+    expect(events.map(event => event.type)).toEqual(['tool_use']);
+    await expect(decideToolApproval(result.approvalId!, 'loop-user', 'approved')).rejects.toMatchObject({ status: 409 });
+    await expect(getToolApprovalStore().getApproval(result.approvalId!, 'loop-user')).resolves.toMatchObject({ status: 'pending' });
+
+    await saveSuspendedToolLoop('loop-user', result, { options: { tools: CLAUDE_TOOLS } }, send);
+    expect(events.map(event => event.type)).toEqual(['tool_use', 'tool_approval_required']);
+    const approval = await decideToolApproval(result.approvalId!, 'loop-user', 'approved');
+
+    responses.push(reply([{ type: 'text', text: 'Done.' }], 'end_turn'));
+    await expect(resumeToolLoop(client, approval)).resolves.toMatchObject({ stopReason: 'end_turn' });
+    await expect(fs.readFile(path.join(workspace.root, 'a.txt'), 'utf-8')).resolves.toBe('hi');
+  });
+
+  it('runs an approved call and finishes the turn from the decision', async () => {
+    const { approvalId } = await startTurn([]);
+    const approval = await decideToolApproval(approvalId!, 'loop-user', 'approved');
+
+    responses.push(reply([{ type: 'text', text: 'Done.' }], 'end_turn'));
+    const events: Array<{ type: string }> = [];
+    const result = await resumeToolLoop(client, approval, { send: event => events.push(event as { type: string }) });
+
+    expect(result).toMatchObject({ stopReason: 'end_turn', text: 'Writing. Done.', iterations: 2 });
+    expect(result!.toolCalls).toEqual([expect.objectContaining({ id: 'call_1', result: expect.objectContaining({ success: true }) })]);
+    await expect(fs.readFile(path.join(workspace.root, 'a.txt'), 'utf-8')).resolves.toBe('hi');
+    expect(events.map(event => event.type)).toEqual(['tool_approval_resolved', 'tool_result']);
+    expect(requests[1].messages[2]).toEqual({
+      role: 'user',
+      content: [expect.objectContaining({ type: 'tool_result', toolUseId: 'call_1' })],
+    });
+
+    // A turn is only resumed once
+    await expect(resumeToolLoop(client, approval)).resolves.toBeNull();
+  });
+
+  it('reports a rejected call to the model as an error', async () => {
+    const { approvalId } = await startTurn([]);
+    const approval = await decideToolApproval(approvalId!, 'loop-user', 'rejected', 'not that file');
+
+    responses.push(reply([{ type: 'text', text: 'Ok.' }], 'end_turn'));
+    const result = await resumeToolLoop(client, approval);
+
+    expect(result!.toolCalls[0].error).toBe('Tool call was not approved: not that file');
+    expect(requests[1].messages[2].content).toEqual([
+      { type: 'tool_result', toolUseId: 'call_1', content: 'Tool call was not approved: not that file', isError: true },
+    ]);
+    await expect(fs.stat(path.join(workspace.root, 'a.txt'))).rejects.toThrow();
+  });
+
+  it('rejects calls that need approval when the request cannot be resumed', async () => {
+    const authorize = await createToolAuthorizer({ userId: 'loop-user', workspace, interactive: false });
+    await expect(authorize({ id: 'c', name: 'bash', input: {}, iteration: 1 })).resolves.toMatchObject({ approved: false });
+    await expect(authorize({ id: 'c', name: 'read', input: {}, iteration: 1 })).resolves.toEqual({ approved: true });
+  });
+});
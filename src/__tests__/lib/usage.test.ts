@@ -0,0 +1,54 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import { InMemoryUsageStore, UsageBudgetError, assertWithinBudget, getBudgetStatus } from '../../lib/usage';
+import { authenticateRequest, getApiKeyManager } from '../../lib/security/api-keys';
+
+async function storeWithUsage(tokens: number): Promise<InMemoryUsageStore> {
+  const store = new InMemoryUsageStore();
+  await store.record({ userId: 'user-1', provider: 'anthropic', model: 'claude-sonnet-4', inputTokens: tokens, outputTokens: 0, costUsd: 0 });
+  return store;
+}
+
+describe('budgets', () => {
+  it('use the tier of the API key over the user tier', async () => {
+    const store = await storeWithUsage(200_000);
+
+    await expect(assertWithinBudget('user-1', { store })).rejects.toThrow(UsageBudgetError);
+    await expect(assertWithinBudget('user-1', { store, tier: 'pro' })).resolves.toBeUndefined();
+    expect(await getBudgetStatus('user-1', { store, tier: 'pro' })).toMatchObject({ tier: 'pro', budget: 10_000_000, used: 200_000 });
+  });
+
+  it('hold a free key to the free budget of a pro user', async () => {
+    const store = await storeWithUsage(200_000);
+    store.setBudgetSettings('user-1', { tier: 'pro' });
+
+    await expect(assertWithinBudget('user-1', { store })).resolves.toBeUndefined();
+    await expect(assertWithinBudget('user-1', { store, tier: 'free' })).rejects.toThrow(UsageBudgetError);
+  });
+
+  it('keep the user budget override whatever the tier', async () => {
+    const store = await storeWithUsage(200_000);
+    store.setBudgetSettings('user-1', { tier: 'free', monthlyTokenBudget: 150_000 });
+
+    expect(await getBudgetStatus('user-1', { store, tier: 'enterprise' })).toMatchObject({ tier: 'enterprise', budget: 150_000, remaining: 0 });
+  });
+});
+
+describe('authenticateRequest', () => {
+  it('returns the owner and tier of a valid API key', async () => {
+    const { key } = await getApiKeyManager().create({ name: 'CI', userId: 'user-1', tier: 'pro' });
+
+    const headerRequest = new NextRequest('http://localhost/api/claude', { headers: { 'X-API-Key': key } });
+    expect(await authenticateRequest(headerRequest)).toEqual({ userId: 'user-1', tier: 'pro' });
+
+    const bearerRequest = new NextRequest('http://localhost/api/claude', { headers: { Authorization: `Bearer ${key}` } });
+    expect(await authenticateRequest(bearerRequest)).toEqual({ userId: 'user-1', tier: 'pro' });
+  });
+
+  it('authenticates nobody with an unknown API key', async () => {
+    const request = new NextRequest('http://localhost/api/claude', { headers: { 'X-API-Key': 'nex7_unknown' } });
+    expect(await authenticateRequest(request)).toBeNull();
+  });
+});
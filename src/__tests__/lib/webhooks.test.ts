@@ -0,0 +1,29 @@
+/**
+ * @jest-environment node
+ */
+import { generateWebhookSignature, verifyWebhookSignature } from '../../lib/security/webhooks';
+
+describe('verifyWebhookSignature', () => {
+  const body = JSON.stringify({ hello: 'world' });
+  const secret = 'whsec_test';
+
+  it('accepts a signature made with the same secret and timestamp', () => {
+    const timestamp = Date.now();
+    expect(verifyWebhookSignature(body, generateWebhookSignature(body, secret, timestamp), secret, timestamp)).toBe(true);
+  });
+
+  it('rejects a changed body, another secret or another timestamp', () => {
+    const timestamp = Date.now();
+    const signature = generateWebhookSignature(body, secret, timestamp);
+
+    expect(verifyWebhookSignature(`${body} `, signature, secret, timestamp)).toBe(false);
+    expect(verifyWebhookSignature(body, signature, 'whsec_other', timestamp)).toBe(false);
+    expect(verifyWebhookSignature(body, signature, secret, timestamp + 1)).toBe(false);
+    expect(verifyWebhookSignature(body, 'v1=abc', secret, timestamp)).toBe(false);
+  });
+
+  it('rejects a timestamp more than five minutes away', () => {
+    const timestamp = Date.now() - 6 * 60 * 1000;
+    expect(verifyWebhookSignature(body, generateWebhookSignature(body, secret, timestamp), secret, timestamp)).toBe(false);
+  });
+});
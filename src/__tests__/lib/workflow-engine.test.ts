@@ -0,0 +1,91 @@
+/**
+ * @jest-environment node
+ */
+import { NODE_EXECUTORS, WorkflowExecutionError, orderNodes } from '../../lib/workflow-engine';
+import type { WorkflowEdge, WorkflowNode } from '../../lib/workflows';
+
+function node(id: string, type = 'code', data: Record<string, unknown> = {}): WorkflowNode {
+  return { id, type, position: { x: 0, y: 0 }, data };
+}
+
+function edge(source: string, target: string): WorkflowEdge {
+  return { id: `${source}-${target}`, source, target };
+}
+
+function run(workflowNode: WorkflowNode, input: Record<string, unknown> = {}) {
+  return NODE_EXECUTORS[workflowNode.type]({
+    node: workflowNode,
+    input,
+    userId: 'user-1',
+    signal: new AbortController().signal,
+    timeoutMs: 10000,
+  });
+}
+
+describe('orderNodes', () => {
+  it('orders nodes after the nodes they depend on', () => {
+    const nodes = [node('c'), node('b'), node('a')];
+    const edges = [edge('a', 'b'), edge('b', 'c'), edge('a', 'c')];
+
+    expect(orderNodes({ nodes, edges }).map(item => item.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('rejects a cycle and names the nodes on it', () => {
+    const nodes = [node('start'), node('a'), node('b')];
+    const edges = [edge('start', 'a'), edge('a', 'b'), edge('b', 'a')];
+
+    expect(() => orderNodes({ nodes, edges })).toThrow(WorkflowExecutionError);
+    expect(() => orderNodes({ nodes, edges })).toThrow(/cycle through nodes: a, b/);
+  });
+
+  it('rejects a node that feeds itself', () => {
+    expect(() => orderNodes({ nodes: [node('a')], edges: [edge('a', 'a')] })).toThrow(/cycle/);
+  });
+});
+
+describe('code nodes', () => {
+  it('return the value of the code', async () => {
+    const code = "const { createHash } = require('crypto');\nreturn createHash('sha256').update(input.text).digest('hex').slice(0, 8);";
+    await expect(run(node('n1', 'code', { code }), { text: 'abc' })).resolves.toBe('ba7816bf');
+  });
+
+  it('cannot load network modules', async () => {
+    await expect(run(node('n1', 'code', { code: "return require('net');" }))).rejects.toThrow(/Cannot require net/);
+    await expect(run(node('n1', 'code', { code: "return require('node:http');" }))).rejects.toThrow(/Cannot require node:http/);
+    await expect(run(node('n1', 'code', { code: "return import('node:net');" }))).rejects.toThrow();
+  });
+
+  it('have no fetch and cannot evaluate strings', async () => {
+    await expect(run(node('n1', 'code', { code: 'return typeof fetch;' }))).resolves.toBe('undefined');
+    await expect(run(node('n1', 'code', { code: "return Function('return 1')();" }))).rejects.toThrow();
+  });
+});
+
+describe('api nodes', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('refuse a redirect to a private address', async () => {
+    const fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue(
+      new Response(null, { status: 302, headers: { location: 'http://127.0.0.1:8080/admin' } })
+    );
+
+    await expect(run(node('n1', 'api', { url: 'https://example.com/start' }))).rejects.toThrow(/127\.0\.0\.1 are not allowed/);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][1]).toMatchObject({ redirect: 'manual' });
+  });
+
+  it('drop credentials on a redirect to another origin', async () => {
+    const fetchMock = jest.spyOn(global, 'fetch')
+      .mockResolvedValueOnce(new Response(null, { status: 301, headers: { location: 'https://other.example.org/next' } }))
+      .mockResolvedValueOnce(new Response('{"ok":true}', { headers: { 'content-type': 'application/json' } }));
+
+    const output = await run(node('n1', 'api', {
+      url: 'https://example.com/start',
+      headers: { Authorization: 'Bearer abc', Accept: 'application/json' },
+    }));
+
+    expect(output).toEqual({ ok: true });
+    expect(String(fetchMock.mock.calls[1][0])).toBe('https://other.example.org/next');
+    expect(fetchMock.mock.calls[1][1]?.headers).toEqual({ Accept: 'application/json' });
+  });
+});
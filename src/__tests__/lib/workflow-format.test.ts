@@ -0,0 +1,37 @@
+/**
+ * @jest-environment node
+ */
+import { exportWorkflow, redactWorkflowSecrets } from '../../lib/workflow-format';
+import type { WorkflowNode } from '../../lib/workflows';
+
+const nodes: WorkflowNode[] = [
+  {
+    id: 'n1',
+    type: 'api',
+    position: { x: 0, y: 0 },
+    data: { url: 'https://example.com', headers: { Authorization: 'Bearer abc' }, apiKey: 'sk-1' },
+  },
+  { id: 'n2', type: 'api', position: { x: 1, y: 0 }, data: { token: 'sk-1', label: 'Second' } },
+];
+
+describe('redactWorkflowSecrets', () => {
+  it('replaces secret-looking values with placeholders and keeps the rest', () => {
+    const graph = { name: 'Shared', nodes, edges: [] };
+    const redacted = redactWorkflowSecrets(graph);
+
+    expect(redacted.name).toBe('Shared');
+    expect(redacted.nodes[0].data).toEqual({
+      url: 'https://example.com',
+      headers: { Authorization: '{{secrets.API_HEADERS_AUTHORIZATION}}' },
+      apiKey: '{{secrets.API_APIKEY}}',
+    });
+    // The same value gets the same placeholder
+    expect(redacted.nodes[1].data).toEqual({ token: '{{secrets.API_APIKEY}}', label: 'Second' });
+    expect(nodes[0].data.apiKey).toBe('sk-1');
+  });
+
+  it('matches what an export of the graph contains', () => {
+    const exported = exportWorkflow({ name: 'Shared', nodes, edges: [] });
+    expect(redactWorkflowSecrets({ nodes }).nodes).toEqual(exported.workflow.nodes);
+  });
+});
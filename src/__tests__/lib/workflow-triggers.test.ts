@@ -0,0 +1,94 @@
+/**
+ * @jest-environment node
+ */
+import { InMemoryWorkflowRunStore, failStaleRuns, getWorkflowRunStore } from '../../lib/workflow-engine';
+import { fireTrigger, nextCronTime, parseCron, syncWorkflowTriggers } from '../../lib/workflow-triggers';
+import { WorkflowError, getWorkflowStore } from '../../lib/workflows';
+
+describe('parseCron', () => {
+  it('expands lists, ranges and steps', () => {
+    const schedule = parseCron('0,30 9-11 */10 1-12/6 1-5');
+
+    expect(Array.from(schedule.minutes)).toEqual([0, 30]);
+    expect(Array.from(schedule.hours)).toEqual([9, 10, 11]);
+    expect(Array.from(schedule.days)).toEqual([1, 11, 21, 31]);
+    expect(Array.from(schedule.months)).toEqual([1, 7]);
+    expect(Array.from(schedule.weekdays)).toEqual([1, 2, 3, 4, 5]);
+    expect(schedule.anyDay).toBe(false);
+  });
+
+  it('accepts aliases and 7 for Sunday', () => {
+    expect(Array.from(parseCron('@daily').hours)).toEqual([0]);
+    expect(Array.from(parseCron('0 0 * * 7').weekdays)).toEqual([0]);
+  });
+
+  it('rejects malformed expressions', () => {
+    for (const expression of ['* * * *', '60 * * * *', '5-1 * * * *', '*/0 * * * *', 'a * * * *', '0 0 0 * *']) {
+      expect(() => parseCron(expression)).toThrow(WorkflowError);
+    }
+  });
+});
+
+describe('nextCronTime', () => {
+  it('returns the next matching minute after the given time', () => {
+    expect(nextCronTime('*/15 * * * *', new Date('2024-01-01T10:07:30Z'))).toEqual(new Date('2024-01-01T10:15:00Z'));
+    // Never the given minute itself
+    expect(nextCronTime('* * * * *', new Date('2024-01-01T10:07:00Z'))).toEqual(new Date('2024-01-01T10:08:00Z'));
+  });
+
+  it('rolls over hours, days, months and years', () => {
+    expect(nextCronTime('@hourly', new Date('2024-12-31T23:30:00Z'))).toEqual(new Date('2025-01-01T00:00:00Z'));
+    expect(nextCronTime('0 9 * * 1-5', new Date('2024-01-05T10:00:00Z'))).toEqual(new Date('2024-01-08T09:00:00Z'));
+    expect(nextCronTime('0 0 29 2 *', new Date('2024-03-01T00:00:00Z'))).toEqual(new Date('2028-02-29T00:00:00Z'));
+  });
+
+  it('runs on either day field when both are restricted', () => {
+    // The 15th or a Monday, whichever comes first
+    expect(nextCronTime('0 0 15 * 1', new Date('2024-01-01T12:00:00Z'))).toEqual(new Date('2024-01-08T00:00:00Z'));
+    expect(nextCronTime('0 0 15 * 1', new Date('2024-01-09T12:00:00Z'))).toEqual(new Date('2024-01-15T00:00:00Z'));
+  });
+
+  it('rejects an expression that never matches', () => {
+    expect(() => nextCronTime('0 0 31 2 *', new Date('2024-01-01T00:00:00Z'))).toThrow(/never matches/);
+  });
+});
+
+describe('fireTrigger', () => {
+  beforeAll(() => {
+    delete process.env.DATABASE_URL;
+  });
+
+  it('records a running run and executes it separately, once per dedupe key', async () => {
+    const { workflow } = await getWorkflowStore().create('user-1', {
+      name: 'Hook',
+      nodes: [{ id: 'hook', type: 'webhook', position: { x: 0, y: 0 }, data: {} }],
+      edges: [],
+    });
+    const [trigger] = await syncWorkflowTriggers(workflow);
+
+    const firing = await fireTrigger(trigger, { hello: 'world' }, 'webhook:delivery-1');
+    expect(firing.duplicate).toBe(false);
+    expect(firing.run?.status).toBe('running');
+    expect((await getWorkflowRunStore().get(firing.run!.id, 'user-1'))?.status).toBe('running');
+
+    const finished = await firing.execute!();
+    expect(finished.id).toBe(firing.run!.id);
+    expect(finished.status).toBe('succeeded');
+    expect(finished.output).toEqual({ [workflow.nodes[0].id]: { hello: 'world' } });
+
+    const repeated = await fireTrigger(trigger, { hello: 'world' }, 'webhook:delivery-1');
+    expect(repeated).toEqual({ triggerId: trigger.id, duplicate: true });
+  });
+});
+
+describe('failStaleRuns', () => {
+  it('fails runs left running past the cut-off', async () => {
+    const store = new InMemoryWorkflowRunStore();
+    const stale = await store.create({ workflowId: 'wf-1', userId: 'user-1' });
+    const later = new Date(stale.startedAt.getTime() + 21 * 60 * 1000);
+
+    expect(await failStaleRuns(new Date(stale.startedAt.getTime() + 60 * 1000), store)).toBe(0);
+    expect(await failStaleRuns(later, store)).toBe(1);
+    expect(await store.get(stale.id, 'user-1')).toMatchObject({ status: 'failed', error: 'Run stopped before it finished' });
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * @jest-environment node
+ */
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  WorkspacePolicy,
+  WorkspacePolicyError,
+  assertFileSize,
+  createWorkspacePolicy,
+  globToRegExp,
+  matchesGlob,
+  resolveWorkspacePath,
+} from '../../lib/workspace';
+
+async function expectViolation(promise: Promise<unknown>, code: WorkspacePolicyError['code']) {
+  await expect(promise).rejects.toBeInstanceOf(WorkspacePolicyError);
+  await expect(promise).rejects.toMatchObject({ code });
+}
+
+describe('globToRegExp', () => {
+  it('matches single segments with * and any depth with **', () => {
+    expect(globToRegExp('*.ts').test('a.ts')).toBe(true);
+    expect(globToRegExp('*.ts').test('src/a.ts')).toBe(false);
+    expect(globToRegExp('**/*.ts').test('a.ts')).toBe(true);
+    expect(globToRegExp('**/*.ts').test('src/lib/a.ts')).toBe(true);
+    expect(globToRegExp('src/**').test('src/lib/a.ts')).toBe(true);
+  });
+
+  it('escapes regular expression characters', () => {
+    expect(globToRegExp('a+b.(c)').test('a+b.(c)')).toBe(true);
+    expect(globToRegExp('a.b').test('axb')).toBe(false);
+  });
+
+  it('denies .env and .git at any depth by default', () => {
+    const { deny } = createWorkspacePolicy('user', 'project');
+    expect(matchesGlob('.env', deny)).toBe(true);
+    expect(matchesGlob('apps/web/.env.local', deny)).toBe(true);
+    expect(matchesGlob('.git/config', deny)).toBe(true);
+    expect(matchesGlob('src/env.ts', deny)).toBe(false);
+  });
+});
+
+describe('resolveWorkspacePath', () => {
+  let base: string;
+  let outside: string;
+  let policy: WorkspacePolicy;
+
+  beforeEach(async () => {
+    base = await fs.mkdtemp(path.join(os.tmpdir(), 'workspace-test-'));
+    outside = await fs.mkdtemp(path.join(os.tmpdir(), 'workspace-outside-'));
+    process.env.WORKSPACES_ROOT = base;
+    policy = createWorkspacePolicy('user', 'project');
+    await fs.mkdir(path.join(policy.root, 'src'), { recursive: true });
+    await fs.writeFile(path.join(policy.root, 'src', 'index.ts'), 'export {};');
+    await fs.writeFile(path.join(policy.root, '.env'), 'SECRET=1');
+    await fs.writeFile(path.join(outside, 'secret.txt'), 'secret');
+  });
+
+  afterEach(async () => {
+    delete process.env.WORKSPACES_ROOT;
+    await fs.rm(base, { recursive: true, force: true });
+    await fs.rm(outside, { recursive: true, force: true });
+  });
+
+  it('gives each user and project its own root', () => {
+    expect(policy.root).toBe(path.join(base, 'user', 'project'));
+    expect(createWorkspacePolicy('../user', undefined).root).toBe(path.join(base, '___user', 'default'));
+  });
+
+  it('resolves relative and absolute paths inside the workspace', async () => {
+    const real = await fs.realpath(path.join(policy.root, 'src', 'index.ts'));
+    await expect(resolveWorkspacePath(policy, 'src/index.ts')).resolves.toBe(real);
+    await expect(resolveWorkspacePath(policy, path.join(policy.root, 'src', 'index.ts'))).resolves.toBe(real);
+  });
+
+  it('resolves paths that do not exist yet', async () => {
+    const root = await fs.realpath(policy.root);
+    await expect(resolveWorkspacePath(policy, 'src/new/file.ts')).resolves.toBe(path.join(root, 'src', 'new', 'file.ts'));
+  });
+
+  it('rejects empty paths', async () => {
+    await expectViolation(resolveWorkspacePath(policy, ''), 'INVALID_PATH');
+    await expectViolation(resolveWorkspacePath(policy, 'a\0b'), 'INVALID_PATH');
+  });
+
+  it('rejects parent directory references', async () => {
+    await expectViolation(resolveWorkspacePath(policy, '../other/file'), 'PATH_OUTSIDE_WORKSPACE');
+    await expectViolation(resolveWorkspacePath(policy, 'src/../../file'), 'PATH_OUTSIDE_WORKSPACE');
+  });
+
+  it('rejects absolute paths outside the workspace', async () => {
+    await expectViolation(resolveWorkspacePath(policy, '/etc/hostname'), 'PATH_OUTSIDE_WORKSPACE');
+    await expectViolation(resolveWorkspacePath(policy, path.join(outside, 'secret.txt')), 'PATH_OUTSIDE_WORKSPACE');
+  });
+
+  it('rejects symlinks that lead outside the workspace', async () => {
+    await fs.symlink(outside, path.join(policy.root, 'link'));
+    await fs.symlink(path.join(outside, 'secret.txt'), path.join(policy.root, 'secret-link'));
+    await expectViolation(resolveWorkspacePath(policy, 'link/secret.txt'), 'PATH_OUTSIDE_WORKSPACE');
+    await expectViolation(resolveWorkspacePath(policy, 'secret-link'), 'PATH_OUTSIDE_WORKSPACE');
+  });
+
+  it('applies the deny list to symlink targets', async () => {
+    await fs.symlink('.env', path.join(policy.root, 'config'));
+    await expectViolation(resolveWorkspacePath(policy, 'config'), 'PATH_DENIED');
+  });
+
+  it('rejects denied paths', async () => {
+    await expectViolation(resolveWorkspacePath(policy, '.env'), 'PATH_DENIED');
+    await expectViolation(resolveWorkspacePath(policy, '.git/config'), 'PATH_DENIED');
+  });
+
+  it('only allows paths in the allow list when one is set', async () => {
+    const restricted = createWorkspacePolicy('user', 'project', { allow: ['src/**'] });
+    await expect(resolveWorkspacePath(restricted, 'src/index.ts')).resolves.toBeDefined();
+    await expectViolation(resolveWorkspacePath(restricted, 'package.json'), 'PATH_NOT_ALLOWED');
+  });
+
+  it('adds project deny patterns to the defaults', async () => {
+    const restricted = createWorkspacePolicy('user', 'project', { deny: ['src/**'] });
+    await expectViolation(resolveWorkspacePath(restricted, 'src/index.ts'), 'PATH_DENIED');
+    await expectViolation(resolveWorkspacePath(restricted, '.env'), 'PATH_DENIED');
+  });
+});
+
+describe('assertFileSize', () => {
+  it('rejects files over the limit', () => {
+    const policy = createWorkspacePolicy('user', 'project', { maxFileSize: 10 });
+    expect(() => assertFileSize(policy, 10, 'a.txt')).not.toThrow();
+    expect(() => assertFileSize(policy, 11, 'a.txt')).toThrow(WorkspacePolicyError);
+  });
+});
@@ -0,0 +1,266 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getClaudeClient } from '../../../../lib/claude-client';
+import { apiRateLimiter, streamRateLimiter } from '../../../../lib/rate-limiter';
+import { getUserIdFromRequest } from '../../../../lib/jwt';
+import { authenticateRequest } from '../../../../lib/security/api-keys';
+import { streamSSE } from '../../../../lib/sse-utils';
+import { LLMProviderError } from '../../../../lib/llm';
+import { UsageBudgetError, assertWithinBudget } from '../../../../lib/usage';
+import { getWorkspacePolicy } from '../../../../lib/workspace';
+import { getAgentGreeting } from '../../../../lib/agents';
+import { orchestrateAgentTurn } from '../../../../lib/agent-orchestrator';
+import { DEFAULT_AGENT_ID, getAgent } from '../../../../lib/agent-registry';
+import type { VoiceSession } from '../../../../lib/types/agent';
+
+function parseVoiceSession(value: Record<string, unknown>): VoiceSession | null {
+  const { id, source, language, durationMs, confidence, edited } = value;
+  if (
+    typeof id !== 'string' || id.length > 100 ||
+    (source !== 'browser' && source !== 'server') ||
+    typeof durationMs !== 'number' || durationMs < 0
+  ) {
+    return null;
+  }
+  return {
+    id,
+    source,
+    durationMs: Math.round(durationMs),
+    ...(typeof language === 'string' && { language: language.slice(0, 35) }),
+    ...(typeof confidence === 'number' && { confidence }),
+    ...(edited === true && { edited }),
+  };
+}
+
+// Start a conversation with an agent
+export async function PUT(request: NextRequest) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Check rate limit
+    const { allowed, retryAfter } = await apiRateLimiter.checkLimit(userId);
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded', retryAfter },
+        {
+          status: 429,
+          headers: {
+            'Retry-After': retryAfter?.toString() || '60',
+          },
+        }
+      );
+    }
+
+    const body = await request.json();
+    const agent = await getAgent(body.agentId || DEFAULT_AGENT_ID, userId);
+    if (!agent) {
+      return NextResponse.json(
+        { error: 'Agent not found' },
+        { status: 404 }
+      );
+    }
+
+    // Get API key from environment
+    const apiKey = process.env.ANTHROPIC_API_KEY;
+    if (!apiKey) {
+      return NextResponse.json(
+        { error: 'API key not configured' },
+        { status: 500 }
+      );
+    }
+
+    const conversationId = await getClaudeClient(apiKey).createConversation(userId, {
+      title: `Chat with ${agent.name}`,
+    });
+
+    return NextResponse.json({
+      conversationId,
+      agent,
+      greeting: getAgentGreeting(agent),
+    });
+  } catch (error) {
+    console.error('Agent conversation creation error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Send a message to an agent; with "stream": true the reply arrives as SSE
+// `chunk` events followed by a `done` event carrying the message metadata.
+// The agent may hand off to or consult other agents; `message.agentId` is
+// the agent that answered in the end and `message.voice` its speaking voice.
+// A `voice` session sent with a spoken message is saved in its metadata.
+export async function POST(request: NextRequest) {
+  try {
+    // A message sent with an API key is budgeted by the key's tier
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    const { userId, tier: usageTier } = auth;
+
+    const body = await request.json();
+    const { conversationId, message, agentId = DEFAULT_AGENT_ID, stream = false, projectId, voice } = body;
+
+    // Check rate limit
+    const rateLimiter = stream ? streamRateLimiter : apiRateLimiter;
+    const { allowed, retryAfter } = await rateLimiter.checkLimit(userId);
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded', retryAfter },
+        {
+          status: 429,
+          headers: {
+            'Retry-After': retryAfter?.toString() || '60',
+          },
+        }
+      );
+    }
+
+    if (typeof message !== 'string' || message.trim().length === 0 || typeof conversationId !== 'string') {
+      return NextResponse.json(
+        { error: 'conversationId and message are required' },
+        { status: 400 }
+      );
+    }
+
+    const voiceSession = voice ? parseVoiceSession(voice) : undefined;
+    if (voiceSession === null) {
+      return NextResponse.json(
+        { error: 'voice needs an id, a source of browser or server, and durationMs' },
+        { status: 400 }
+      );
+    }
+
+    const agent = await getAgent(agentId, userId);
+    if (!agent) {
+      return NextResponse.json(
+        { error: 'Agent not found' },
+        { status: 404 }
+      );
+    }
+    if (agent.status === 'inactive') {
+      return NextResponse.json(
+        { error: `${agent.name} is inactive` },
+        { status: 409 }
+      );
+    }
+
+    // Get API key from environment
+    const apiKey = process.env.ANTHROPIC_API_KEY;
+    if (!apiKey) {
+      return NextResponse.json(
+        { error: 'API key not configured' },
+        { status: 500 }
+      );
+    }
+
+    const client = getClaudeClient(apiKey);
+    if (!(await client.getConversation(conversationId, userId))) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+
+    // Refuse before streaming starts so the client gets a proper status code
+    await assertWithinBudget(userId, { tier: usageTier });
+
+    // File and shell tools are confined to the user's project workspace
+    const workspace = await getWorkspacePolicy(userId, projectId);
+    if (!workspace) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    const turnOptions = {
+      userId,
+      usageTier,
+      conversationId,
+      workspace,
+      signal: request.signal,
+      ...(voiceSession && { metadata: { voice: voiceSession } }),
+    };
+
+    if (stream) {
+      return streamSSE(async (send) => {
+        try {
+          const turn = await orchestrateAgentTurn(client, agent, message, {
+            ...turnOptions,
+            onEvent: (event) => {
+              if (event.type === 'delta') {
+                send({ type: 'chunk', content: event.content });
+              } else {
+                send(event);
+              }
+            },
+            onCollaboration: (collaboration) => {
+              send({ type: 'collaboration', collaboration });
+            },
+          });
+
+          send({
+            type: 'done',
+            conversationId,
+            message: {
+              role: 'assistant',
+              content: turn.text,
+              agentId: turn.agent.id,
+              metadata: turn.metadata,
+              voice: turn.agent.voice,
+            },
+            collaborations: turn.collaborations,
+            usage: turn.usage,
+          });
+        } catch (error) {
+          send({ type: 'error', error: error instanceof Error ? error.message : 'Stream processing failed' });
+        }
+      });
+    }
+
+    const turn = await orchestrateAgentTurn(client, agent, message, turnOptions);
+
+    return NextResponse.json({
+      conversationId,
+      message: {
+        role: 'assistant',
+        content: turn.text,
+        agentId: turn.agent.id,
+        metadata: turn.metadata,
+        voice: turn.agent.voice,
+      },
+      collaborations: turn.collaborations,
+      usage: turn.usage,
+    });
+  } catch (error) {
+    if (error instanceof UsageBudgetError) {
+      return NextResponse.json(
+        { error: 'Monthly token budget exceeded', code: 'BUDGET_EXCEEDED', details: error.status },
+        { status: 402 }
+      );
+    }
+    if (error instanceof LLMProviderError) {
+      return NextResponse.json(
+        { error: 'The model provider returned an error. Please try again later.' },
+        { status: 503 }
+      );
+    }
+    console.error('Agent chat error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,307 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getClaudeClient } from '../../../../lib/claude-client';
+import { apiRateLimiter, streamRateLimiter } from '../../../../lib/rate-limiter';
+import { getUserIdFromRequest } from '../../../../lib/jwt';
+import { authenticateRequest } from '../../../../lib/security/api-keys';
+import { streamSSE } from '../../../../lib/sse-utils';
+import { LLMProviderError } from '../../../../lib/llm';
+import { UsageBudgetError, assertWithinBudget } from '../../../../lib/usage';
+import { getWorkspacePolicy } from '../../../../lib/workspace';
+import { buildCollaborationContext, runAgentTurn } from '../../../../lib/agents';
+import { getAgent } from '../../../../lib/agent-registry';
+import { getCollaborationChain } from '../../../../lib/agent-orchestrator';
+import type { Agent } from '../../../../lib/types/agent';
+
+const MAX_COLLABORATORS = 5;
+
+interface CollaborationRequest {
+  conversationId?: string;
+  task: string;
+  agents: Agent[];
+  projectId?: string;
+}
+
+// Validate the body shared by both endpoints; returns an error message on failure
+async function parseCollaboration(userId: string, body: Record<string, unknown>): Promise<CollaborationRequest | string> {
+  const { conversationId, task, agents, projectId } = body;
+  if (typeof task !== 'string' || task.trim().length === 0) {
+    return 'A task is required';
+  }
+  if (!Array.isArray(agents) || agents.length === 0 || agents.length > MAX_COLLABORATORS) {
+    return `Between 1 and ${MAX_COLLABORATORS} agents are required`;
+  }
+  const resolved = await Promise.all(
+    agents.map(agentId => (typeof agentId === 'string' ? getAgent(agentId, userId) : null))
+  );
+  const unknown = agents.filter((_, index) => !resolved[index]);
+  if (unknown.length > 0) {
+    return `Unknown agents: ${unknown.join(', ')}`;
+  }
+  const inactive = resolved.filter(agent => agent?.status === 'inactive');
+  if (inactive.length > 0) {
+    return `Inactive agents: ${inactive.map(agent => agent!.name).join(', ')}`;
+  }
+  return {
+    conversationId: typeof conversationId === 'string' ? conversationId : undefined,
+    task,
+    agents: resolved as Agent[],
+    projectId: typeof projectId === 'string' ? projectId : undefined,
+  };
+}
+
+function errorResponse(error: unknown, action: string) {
+  if (error instanceof UsageBudgetError) {
+    return NextResponse.json(
+      { error: 'Monthly token budget exceeded', code: 'BUDGET_EXCEEDED', details: error.status },
+      { status: 402 }
+    );
+  }
+  if (error instanceof LLMProviderError) {
+    return NextResponse.json(
+      { error: 'The model provider returned an error. Please try again later.' },
+      { status: 503 }
+    );
+  }
+  console.error(`${action} error:`, error);
+  return NextResponse.json(
+    { error: 'Internal server error' },
+    { status: 500 }
+  );
+}
+
+// The handoffs and consultations in a conversation, oldest first:
+// /api/agents/collaborate?conversationId=...
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const conversationId = searchParams.get('conversationId');
+
+    if (!conversationId) {
+      return NextResponse.json(
+        { error: 'Conversation ID is required' },
+        { status: 400 }
+      );
+    }
+
+    // Get API key from environment
+    const apiKey = process.env.ANTHROPIC_API_KEY;
+    if (!apiKey) {
+      return NextResponse.json(
+        { error: 'API key not configured' },
+        { status: 500 }
+      );
+    }
+
+    if (!(await getClaudeClient(apiKey).getConversation(conversationId, userId))) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+
+    const collaborations = await getCollaborationChain(conversationId, userId);
+
+    return NextResponse.json({ conversationId, collaborations });
+  } catch (error) {
+    console.error('Get collaborations error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Ask several agents the same task at once; answers are returned together.
+// Collaborations are one-off and are not saved to the conversation.
+export async function POST(request: NextRequest) {
+  try {
+    // A task sent with an API key is budgeted by the key's tier
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    const { userId, tier: usageTier } = auth;
+
+    // Check rate limit
+    const { allowed, retryAfter } = await apiRateLimiter.checkLimit(userId);
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded', retryAfter },
+        {
+          status: 429,
+          headers: {
+            'Retry-After': retryAfter?.toString() || '60',
+          },
+        }
+      );
+    }
+
+    const collaboration = await parseCollaboration(userId, await request.json());
+    if (typeof collaboration === 'string') {
+      return NextResponse.json(
+        { error: collaboration },
+        { status: 400 }
+      );
+    }
+
+    // Get API key from environment
+    const apiKey = process.env.ANTHROPIC_API_KEY;
+    if (!apiKey) {
+      return NextResponse.json(
+        { error: 'API key not configured' },
+        { status: 500 }
+      );
+    }
+
+    const client = getClaudeClient(apiKey);
+    if (collaboration.conversationId && !(await client.getConversation(collaboration.conversationId, userId))) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+
+    await assertWithinBudget(userId, { tier: usageTier });
+
+    const workspace = await getWorkspacePolicy(userId, collaboration.projectId);
+    if (!workspace) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    const results = await Promise.all(collaboration.agents.map(async (agent) => {
+      const turn = await runAgentTurn(client, agent, collaboration.task, {
+        userId,
+        usageTier,
+        workspace,
+        signal: request.signal,
+      });
+      return {
+        agentId: agent.id,
+        response: turn.text,
+        metadata: turn.metadata,
+        timestamp: new Date().toISOString(),
+      };
+    }));
+
+    return NextResponse.json({
+      conversationId: collaboration.conversationId,
+      task: collaboration.task,
+      parallel: true,
+      results,
+    });
+  } catch (error) {
+    return errorResponse(error, 'Parallel collaboration');
+  }
+}
+
+// Run the agents one after another, each building on the answers before it.
+// Streams `agent_start`, `agent_chunk` and `agent_complete` events per agent.
+export async function PUT(request: NextRequest) {
+  try {
+    // A task sent with an API key is budgeted by the key's tier
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    const { userId, tier: usageTier } = auth;
+
+    // Check rate limit
+    const { allowed, retryAfter } = await streamRateLimiter.checkLimit(userId);
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded', retryAfter },
+        {
+          status: 429,
+          headers: {
+            'Retry-After': retryAfter?.toString() || '60',
+          },
+        }
+      );
+    }
+
+    const collaboration = await parseCollaboration(userId, await request.json());
+    if (typeof collaboration === 'string') {
+      return NextResponse.json(
+        { error: collaboration },
+        { status: 400 }
+      );
+    }
+
+    // Get API key from environment
+    const apiKey = process.env.ANTHROPIC_API_KEY;
+    if (!apiKey) {
+      return NextResponse.json(
+        { error: 'API key not configured' },
+        { status: 500 }
+      );
+    }
+
+    const client = getClaudeClient(apiKey);
+    if (collaboration.conversationId && !(await client.getConversation(collaboration.conversationId, userId))) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+
+    await assertWithinBudget(userId, { tier: usageTier });
+
+    const workspace = await getWorkspacePolicy(userId, collaboration.projectId);
+    if (!workspace) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    return streamSSE(async (send) => {
+      const previous: Array<{ agent: Agent; text: string }> = [];
+      try {
+        for (const agent of collaboration.agents) {
+          send({ type: 'agent_start', agentId: agent.id });
+          const turn = await runAgentTurn(client, agent, collaboration.task, {
+            userId,
+            usageTier,
+            workspace,
+            context: buildCollaborationContext(previous),
+            signal: request.signal,
+            onEvent: (event) => {
+              if (event.type === 'delta') {
+                send({ type: 'agent_chunk', agentId: agent.id, content: event.content });
+              }
+            },
+          });
+          previous.push({ agent, text: turn.text });
+          send({ type: 'agent_complete', agentId: agent.id, metadata: turn.metadata });
+        }
+
+        send({
+          type: 'done',
+          conversationId: collaboration.conversationId,
+          results: previous.map(({ agent, text }) => ({ agentId: agent.id, response: text })),
+        });
+      } catch (error) {
+        send({ type: 'error', error: error instanceof Error ? error.message : 'Collaboration failed' });
+      }
+    });
+  } catch (error) {
+    return errorResponse(error, 'Sequential collaboration');
+  }
+}
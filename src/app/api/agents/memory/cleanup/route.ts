@@ -0,0 +1,35 @@
+import crypto from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { cleanupExpiredMemories } from '../../../../../lib/agent-memory';
+
+// Deletes expired agent memories. Call it periodically with
+// `Authorization: Bearer $CRON_SECRET`, as Vercel Cron does (see vercel.json).
+export async function GET(request: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET;
+    if (!secret) {
+      return NextResponse.json(
+        { error: 'CRON_SECRET is not configured' },
+        { status: 503 }
+      );
+    }
+
+    const received = Buffer.from(request.headers.get('authorization') || '');
+    const expected = Buffer.from(`Bearer ${secret}`);
+    if (received.length !== expected.length || !crypto.timingSafeEqual(received, expected)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const deleted = await cleanupExpiredMemories();
+    return NextResponse.json({ deleted });
+  } catch (error) {
+    console.error('Agent memory cleanup error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,179 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiRateLimiter } from '../../../../lib/rate-limiter';
+import { getUserIdFromRequest } from '../../../../lib/jwt';
+import { agentMemory } from '../../../../lib/agent-memory';
+import { getAgent } from '../../../../lib/agent-registry';
+
+// Read an agent's memories: /api/agents/memory?agentId=dev[&key=...|&search=...]
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const agentId = searchParams.get('agentId');
+    const key = searchParams.get('key');
+    const search = searchParams.get('search');
+
+    if (!agentId) {
+      return NextResponse.json(
+        { error: 'agentId is required' },
+        { status: 400 }
+      );
+    }
+
+    if (key) {
+      const memory = await agentMemory.get(userId, agentId, key);
+      return NextResponse.json({ memories: memory ? [memory] : [] });
+    }
+
+    const memories = search
+      ? await agentMemory.search(userId, agentId, search)
+      : await agentMemory.retrieve(userId, agentId);
+
+    return NextResponse.json({ memories });
+  } catch (error) {
+    console.error('Get agent memory error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Store a memory; `expiresIn` is in seconds
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Check rate limit
+    const { allowed, retryAfter } = await apiRateLimiter.checkLimit(userId);
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded', retryAfter },
+        {
+          status: 429,
+          headers: {
+            'Retry-After': retryAfter?.toString() || '60',
+          },
+        }
+      );
+    }
+
+    const body = await request.json();
+    const { agentId, key, value, expiresIn, metadata } = body;
+
+    if (typeof agentId !== 'string' || typeof key !== 'string' || key.length === 0 || value == null) {
+      return NextResponse.json(
+        { error: 'agentId, key and value are required' },
+        { status: 400 }
+      );
+    }
+    if (!(await getAgent(agentId, userId))) {
+      return NextResponse.json(
+        { error: 'Agent not found' },
+        { status: 404 }
+      );
+    }
+    if (expiresIn !== undefined && (typeof expiresIn !== 'number' || expiresIn <= 0)) {
+      return NextResponse.json(
+        { error: 'expiresIn must be a positive number of seconds' },
+        { status: 400 }
+      );
+    }
+
+    const memory = await agentMemory.store(userId, agentId, key, value, {
+      expiresAt: expiresIn ? new Date(Date.now() + expiresIn * 1000) : undefined,
+      metadata,
+    });
+
+    return NextResponse.json({ memory });
+  } catch (error) {
+    console.error('Store agent memory error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Forget one memory (`key`) or everything an agent remembers about the user
+export async function DELETE(request: NextRequest) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const agentId = searchParams.get('agentId');
+    const key = searchParams.get('key');
+
+    if (!agentId) {
+      return NextResponse.json(
+        { error: 'agentId is required' },
+        { status: 400 }
+      );
+    }
+
+    const cleared = key
+      ? Number(await agentMemory.delete(userId, agentId, key))
+      : await agentMemory.clear(userId, agentId);
+
+    return NextResponse.json({ cleared });
+  } catch (error) {
+    console.error('Clear agent memory error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Memory maintenance: { action: 'analytics' } returns stats for the user,
+// { action: 'cleanup' } drops expired memories
+export async function PUT(request: NextRequest) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+
+    switch (body.action) {
+      case 'analytics':
+        return NextResponse.json(await agentMemory.stats(userId));
+      case 'cleanup':
+        return NextResponse.json({ removed: await agentMemory.cleanupExpired() });
+      default:
+        return NextResponse.json(
+          { error: 'Unknown action' },
+          { status: 400 }
+        );
+    }
+  } catch (error) {
+    console.error('Agent memory action error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,210 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiRateLimiter } from '../../../lib/rate-limiter';
+import { getUserIdFromRequest } from '../../../lib/jwt';
+import { agentMemory } from '../../../lib/agent-memory';
+import {
+  AgentRegistryError,
+  getAgent,
+  getAgentStore,
+  getAgentTools,
+  isBuiltInAgent,
+  listAgents,
+  parseAgentData,
+} from '../../../lib/agent-registry';
+
+// List the built-in and your own agents, or get one with ?id=... and the
+// tools its capabilities grant
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+
+    if (!id) {
+      return NextResponse.json({ agents: await listAgents(userId) });
+    }
+
+    const agent = await getAgent(id, userId);
+    if (!agent) {
+      return NextResponse.json(
+        { error: 'Agent not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      agent,
+      builtIn: isBuiltInAgent(agent.id),
+      tools: getAgentTools(agent).map(tool => tool.name),
+    });
+  } catch (error) {
+    console.error('Get agents error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Create a custom agent, e.g. { "name": "Reviewer", "description": "...",
+// "personality": {...}, "capabilities": [{ "name": "Read files", ... }], "color": "#0ea5e9" }
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Check rate limit
+    const { allowed, retryAfter } = await apiRateLimiter.checkLimit(userId);
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded', retryAfter },
+        {
+          status: 429,
+          headers: {
+            'Retry-After': retryAfter?.toString() || '60',
+          },
+        }
+      );
+    }
+
+    const data = parseAgentData(await request.json());
+    const agent = await getAgentStore().create(userId, data);
+
+    return NextResponse.json({ agent }, { status: 201 });
+  } catch (error) {
+    if (error instanceof AgentRegistryError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error('Create agent error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Update a custom agent: { "id": "agent_id", ...fields to change }
+export async function PATCH(request: NextRequest) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Check rate limit
+    const { allowed, retryAfter } = await apiRateLimiter.checkLimit(userId);
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded', retryAfter },
+        {
+          status: 429,
+          headers: {
+            'Retry-After': retryAfter?.toString() || '60',
+          },
+        }
+      );
+    }
+
+    const body = await request.json();
+    const { id, ...fields } = body;
+
+    if (typeof id !== 'string') {
+      return NextResponse.json(
+        { error: 'Agent ID is required' },
+        { status: 400 }
+      );
+    }
+    if (isBuiltInAgent(id)) {
+      return NextResponse.json(
+        { error: 'Built-in agents cannot be changed' },
+        { status: 403 }
+      );
+    }
+
+    const agent = await getAgentStore().update(id, userId, parseAgentData(fields, true));
+    if (!agent) {
+      return NextResponse.json(
+        { error: 'Agent not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ agent });
+  } catch (error) {
+    if (error instanceof AgentRegistryError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error('Update agent error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Delete a custom agent and what it remembers: /api/agents?id=agent_id
+export async function DELETE(request: NextRequest) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Agent ID is required' },
+        { status: 400 }
+      );
+    }
+    if (isBuiltInAgent(id)) {
+      return NextResponse.json(
+        { error: 'Built-in agents cannot be deleted' },
+        { status: 403 }
+      );
+    }
+
+    const deleted = await getAgentStore().delete(id, userId);
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Agent not found' },
+        { status: 404 }
+      );
+    }
+    await agentMemory.clear(userId, id);
+
+    return NextResponse.json({ message: 'Agent deleted successfully' });
+  } catch (error) {
+    console.error('Delete agent error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiRateLimiter } from '../../../../lib/rate-limiter';
+import { getUserIdFromRequest } from '../../../../lib/jwt';
+import { ToolImplementation } from '../../../../lib/claude-client';
+import { createToolImplementations } from '../../../../lib/claude-tools';
+import { getWorkspacePolicy } from '../../../../lib/workspace';
+import { getToolPolicies } from '../../../../lib/tool-approvals';
+import { getAgent, getAgentTools } from '../../../../lib/agent-registry';
+
+// List the tools an agent can use: /api/agents/tools?agentId=nexy
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const agent = await getAgent(searchParams.get('agentId') || '', userId);
+    if (!agent) {
+      return NextResponse.json(
+        { error: 'Agent not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ agentId: agent.id, tools: getAgentTools(agent) });
+  } catch (error) {
+    console.error('Get agent tools error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Run one of the agent's tools on the user's behalf. Only tools the user's
+// policy allows outright can run; ask and deny tools are refused.
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Check rate limit
+    const { allowed, retryAfter } = await apiRateLimiter.checkLimit(userId);
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded', retryAfter },
+        {
+          status: 429,
+          headers: {
+            'Retry-After': retryAfter?.toString() || '60',
+          },
+        }
+      );
+    }
+
+    const body = await request.json();
+    const { agentId, toolName, toolInput, projectId } = body;
+
+    if (typeof agentId !== 'string' || typeof toolName !== 'string') {
+      return NextResponse.json(
+        { error: 'agentId and toolName are required' },
+        { status: 400 }
+      );
+    }
+
+    const agent = await getAgent(agentId, userId);
+    if (!agent) {
+      return NextResponse.json(
+        { error: 'Agent not found' },
+        { status: 404 }
+      );
+    }
+    if (!getAgentTools(agent).some(tool => tool.name === toolName)) {
+      return NextResponse.json(
+        { error: `${agent.name} cannot use the ${toolName} tool` },
+        { status: 403 }
+      );
+    }
+
+    // Calls set to ask cannot be reviewed here, so like the non-streaming
+    // chat endpoints only tools the policy allows outright run
+    const mode = (await getToolPolicies(userId))[toolName] || 'ask';
+    if (mode !== 'allow') {
+      return NextResponse.json(
+        {
+          error: mode === 'deny'
+            ? `The ${toolName} tool is disabled by your tool policy`
+            : `The ${toolName} tool requires approval; run it from a streaming chat to review the call`,
+        },
+        { status: 403 }
+      );
+    }
+
+    const workspace = await getWorkspacePolicy(userId, projectId);
+    if (!workspace) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    const implementations = createToolImplementations(workspace) as Record<string, ToolImplementation>;
+    try {
+      const result = await implementations[toolName](toolInput ?? {}, { signal: request.signal });
+      return NextResponse.json({ agentId: agent.id, toolName, result });
+    } catch (error) {
+      // Tool failures are the caller's input problem, not a server error
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Tool execution failed' },
+        { status: 422 }
+      );
+    }
+  } catch (error) {
+    console.error('Agent tool execution error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
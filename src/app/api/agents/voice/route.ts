@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiRateLimiter } from '../../../../lib/rate-limiter';
+import { getUserIdFromRequest } from '../../../../lib/jwt';
+import { TranscriptionError, getTranscriptionProvider } from '../../../../lib/transcription';
+
+const MAX_AUDIO_BYTES = 10 * 1024 * 1024;
+
+// Transcribe a push-to-talk recording for browsers without speech
+// recognition. Multipart form with an `audio` file and optional `language`.
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Check rate limit
+    const { allowed, retryAfter } = await apiRateLimiter.checkLimit(userId);
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded', retryAfter },
+        {
+          status: 429,
+          headers: {
+            'Retry-After': retryAfter?.toString() || '60',
+          },
+        }
+      );
+    }
+
+    const provider = getTranscriptionProvider();
+    if (!provider) {
+      return NextResponse.json(
+        { error: 'Transcription is not configured' },
+        { status: 503 }
+      );
+    }
+
+    const form = await request.formData();
+    const audio = form.get('audio');
+    const language = form.get('language');
+
+    if (!(audio instanceof Blob) || audio.size === 0) {
+      return NextResponse.json(
+        { error: 'An audio file is required' },
+        { status: 400 }
+      );
+    }
+    if (audio.size > MAX_AUDIO_BYTES) {
+      return NextResponse.json(
+        { error: 'Audio must be 10 MB or smaller' },
+        { status: 413 }
+      );
+    }
+
+    const transcript = await provider.transcribe({
+      audio,
+      language: typeof language === 'string' && language ? language : undefined,
+      signal: request.signal,
+    });
+
+    return NextResponse.json({ ...transcript, provider: provider.name });
+  } catch (error) {
+    if (error instanceof TranscriptionError) {
+      return NextResponse.json(
+        { error: 'The transcription service returned an error. Please try again later.' },
+        { status: 503 }
+      );
+    }
+    console.error('Transcription error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiRateLimiter } from '../../../../lib/rate-limiter';
+import { authenticateRequest } from '../../../../lib/security/api-keys';
+import { getBillingPeriod, getBudgetStatus, getUsageStore } from '../../../../lib/usage';
+
+// Monthly token usage, estimated cost and budget for the signed-in user;
+// asked with an API key, the budget is the one of the key's tier
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    const { userId, tier } = auth;
+
+    // Check rate limit
+    const { allowed, retryAfter } = await apiRateLimiter.checkLimit(userId);
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded', retryAfter },
+        {
+          status: 429,
+          headers: {
+            'Retry-After': retryAfter?.toString() || '60',
+          },
+        }
+      );
+    }
+
+    // Optional ?month=YYYY-MM, defaulting to the current month
+    const { searchParams } = new URL(request.url);
+    const month = searchParams.get('month');
+    let reference = new Date();
+    if (month) {
+      const match = /^(\d{4})-(\d{2})$/.exec(month);
+      if (!match || Number(match[2]) < 1 || Number(match[2]) > 12) {
+        return NextResponse.json(
+          { error: 'month must be formatted as YYYY-MM' },
+          { status: 400 }
+        );
+      }
+      reference = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, 1));
+    }
+
+    const { start, end } = getBillingPeriod(reference);
+    const [totals, budget] = await Promise.all([
+      getUsageStore().getTotals(userId, start, end),
+      getBudgetStatus(userId, { tier }),
+    ]);
+
+    return NextResponse.json({
+      month: start.toISOString().slice(0, 7),
+      periodStart: start,
+      periodEnd: end,
+      ...totals,
+      totalTokens: totals.inputTokens + totals.outputTokens,
+      // The budget always describes the current month
+      budget,
+    });
+  } catch (error) {
+    console.error('Usage analytics error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load usage' },
+      { status: 500 }
+    );
+  }
+}
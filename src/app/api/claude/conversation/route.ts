@@ -1,15 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getClaudeClient } from '../../../../lib/claude-client';
 import { apiRateLimiter } from '../../../../lib/rate-limiter';
+import { getUserIdFromRequest } from '../../../../lib/jwt';
+import { isContextStrategy } from '../../../../lib/context-manager';
+import { PromptTemplateError, isVariableMap, resolvePromptTemplate } from '../../../../lib/prompt-templates';
 
 // Create a new conversation
 export async function POST(request: NextRequest) {
   try {
-    // Get client IP for rate limiting
-    const ip = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown';
-    
+    // Conversations are scoped to the authenticated user
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
     // Check rate limit
-    const { allowed, retryAfter } = await apiRateLimiter.checkLimit(ip);
+    const { allowed, retryAfter } = await apiRateLimiter.checkLimit(userId);
     if (!allowed) {
       return NextResponse.json(
         { error: 'Rate limit exceeded', retryAfter },
@@ -36,16 +45,55 @@ export async function POST(request: NextRequest) {
 
     // Parse request body
     const body = await request.json();
-    const { id } = body;
+    const { id, title, model, contextStrategy, systemPrompt, templateId, templateVersion, variables } = body;
+
+    if (contextStrategy !== undefined && !isContextStrategy(contextStrategy)) {
+      return NextResponse.json(
+        { error: 'contextStrategy must be one of sliding, summarize or hybrid' },
+        { status: 400 }
+      );
+    }
+    if (
+      (systemPrompt !== undefined && typeof systemPrompt !== 'string') ||
+      (templateId !== undefined && typeof templateId !== 'string') ||
+      (templateVersion !== undefined && !(Number.isInteger(templateVersion) && templateVersion > 0)) ||
+      (variables !== undefined && !isVariableMap(variables))
+    ) {
+      return NextResponse.json(
+        { error: 'Invalid systemPrompt, templateId, templateVersion or variables' },
+        { status: 400 }
+      );
+    }
+
+    // The template's system prompt is rendered once, when the conversation is created
+    const template = templateId
+      ? await resolvePromptTemplate(userId, { templateId, version: templateVersion, variables })
+      : undefined;
 
     // Create new conversation
-    const conversationId = client.createConversation(id);
+    const conversationId = await client.createConversation(userId, {
+      id,
+      title: title || template?.metadata.template.name,
+      model,
+      contextStrategy,
+      systemPrompt: systemPrompt ?? template?.system,
+      ...(template && {
+        templateId: template.metadata.template.id,
+        templateVersion: template.metadata.template.version,
+      }),
+    });
 
     return NextResponse.json({
       conversationId,
       message: 'Conversation created successfully',
     });
   } catch (error) {
+    if (error instanceof PromptTemplateError) {
+      return NextResponse.json(
+        { error: error.message, ...(error.missing && { missing: error.missing }) },
+        { status: error.status }
+      );
+    }
     console.error('Conversation creation error:', error);
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -57,6 +105,14 @@ export async function POST(request: NextRequest) {
 // Get conversation details
 export async function GET(request: NextRequest) {
   try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
     const { searchParams } = new URL(request.url);
     const conversationId = searchParams.get('id');
 
@@ -78,7 +134,7 @@ export async function GET(request: NextRequest) {
 
     // Get Claude client
     const client = getClaudeClient(apiKey);
-    const conversation = client.getConversation(conversationId);
+    const conversation = await client.getConversation(conversationId, userId);
 
     if (!conversation) {
       return NextResponse.json(
@@ -100,11 +156,17 @@ export async function GET(request: NextRequest) {
 // Update conversation
 export async function PUT(request: NextRequest) {
   try {
-    // Get client IP for rate limiting
-    const ip = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown';
-    
+    // Conversations are scoped to the authenticated user
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
     // Check rate limit
-    const { allowed, retryAfter } = await apiRateLimiter.checkLimit(ip);
+    const { allowed, retryAfter } = await apiRateLimiter.checkLimit(userId);
     if (!allowed) {
       return NextResponse.json(
         { error: 'Rate limit exceeded', retryAfter },
@@ -121,7 +183,7 @@ export async function PUT(request: NextRequest) {
     const body = await request.json();
     const { conversationId, messages } = body;
 
-    if (!conversationId || !messages) {
+    if (!conversationId || !Array.isArray(messages)) {
       return NextResponse.json(
         { error: 'Conversation ID and messages are required' },
         { status: 400 }
@@ -139,17 +201,136 @@ export async function PUT(request: NextRequest) {
 
     // Get Claude client
     const client = getClaudeClient(apiKey);
-    const conversation = client.getConversation(conversationId);
+    const updated = await client.updateConversation(conversationId, userId, messages);
 
-    if (!conversation) {
+    if (!updated) {
       return NextResponse.json(
         { error: 'Conversation not found' },
         { status: 404 }
       );
     }
 
-    // Update conversation
-    client.updateConversation(conversationId, messages);
+    return NextResponse.json({
+      message: 'Conversation updated successfully',
+      conversationId,
+    });
+  } catch (error) {
+    console.error('Update conversation error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Change the context strategy or pin/unpin a message
+export async function PATCH(request: NextRequest) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Check rate limit
+    const { allowed, retryAfter } = await apiRateLimiter.checkLimit(userId);
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded', retryAfter },
+        { 
+          status: 429,
+          headers: {
+            'Retry-After': retryAfter?.toString() || '60',
+          },
+        }
+      );
+    }
+
+    // Parse request body
+    const body = await request.json();
+    const { conversationId, contextStrategy, messageId, pinned, activeMessageId, systemPrompt } = body;
+
+    if (!conversationId) {
+      return NextResponse.json(
+        { error: 'Conversation ID is required' },
+        { status: 400 }
+      );
+    }
+    if (contextStrategy !== undefined && !isContextStrategy(contextStrategy)) {
+      return NextResponse.json(
+        { error: 'contextStrategy must be one of sliding, summarize or hybrid' },
+        { status: 400 }
+      );
+    }
+    if (messageId !== undefined && (typeof messageId !== 'string' || typeof pinned !== 'boolean')) {
+      return NextResponse.json(
+        { error: 'messageId and a boolean pinned are required to pin a message' },
+        { status: 400 }
+      );
+    }
+    if (activeMessageId !== undefined && typeof activeMessageId !== 'string') {
+      return NextResponse.json(
+        { error: 'activeMessageId must be a string' },
+        { status: 400 }
+      );
+    }
+    if (systemPrompt !== undefined && typeof systemPrompt !== 'string') {
+      return NextResponse.json(
+        { error: 'systemPrompt must be a string' },
+        { status: 400 }
+      );
+    }
+    if (
+      contextStrategy === undefined &&
+      messageId === undefined &&
+      activeMessageId === undefined &&
+      systemPrompt === undefined
+    ) {
+      return NextResponse.json(
+        { error: 'Nothing to update' },
+        { status: 400 }
+      );
+    }
+
+    // Get API key from environment
+    const apiKey = process.env.ANTHROPIC_API_KEY;
+    if (!apiKey) {
+      return NextResponse.json(
+        { error: 'API key not configured' },
+        { status: 500 }
+      );
+    }
+
+    // Get Claude client
+    const client = getClaudeClient(apiKey);
+
+    if (contextStrategy !== undefined && !(await client.setContextStrategy(conversationId, userId, contextStrategy))) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+    if (systemPrompt !== undefined && !(await client.setSystemPrompt(conversationId, userId, systemPrompt))) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+    if (messageId !== undefined && !(await client.pinMessage(conversationId, userId, messageId, pinned))) {
+      return NextResponse.json(
+        { error: 'Message not found' },
+        { status: 404 }
+      );
+    }
+    // Switch to the branch through activeMessageId (its latest continuation)
+    if (activeMessageId !== undefined && !(await client.switchBranch(conversationId, userId, activeMessageId))) {
+      return NextResponse.json(
+        { error: 'Message not found' },
+        { status: 404 }
+      );
+    }
 
     return NextResponse.json({
       message: 'Conversation updated successfully',
@@ -167,6 +348,14 @@ export async function PUT(request: NextRequest) {
 // Delete conversation
 export async function DELETE(request: NextRequest) {
   try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
     const { searchParams } = new URL(request.url);
     const conversationId = searchParams.get('id');
 
@@ -188,7 +377,7 @@ export async function DELETE(request: NextRequest) {
 
     // Get Claude client
     const client = getClaudeClient(apiKey);
-    const deleted = client.deleteConversation(conversationId);
+    const deleted = await client.deleteConversation(conversationId, userId);
 
     if (!deleted) {
       return NextResponse.json(
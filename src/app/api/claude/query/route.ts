@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getClaudeClient } from '../../../../lib/claude-client';
+import { getResponseText } from '../../../../lib/llm';
+import { UsageBudgetError, assertWithinBudget } from '../../../../lib/usage';
 import { apiRateLimiter, streamRateLimiter } from '../../../../lib/rate-limiter';
+import { authenticateRequest } from '../../../../lib/security/api-keys';
 
 export async function POST(request: NextRequest) {
   try {
@@ -43,9 +46,31 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Every call is charged to a user's budget, so anonymous calls are refused;
+    // a call made with an API key is budgeted by the key's tier
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { userId, tier: usageTier } = auth;
+
     // Get or create Claude client
     const client = getClaudeClient(apiKey);
 
+    if (conversationId && !(await client.getConversation(conversationId, userId))) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+
+    // Held to the monthly token budget before streaming starts
+    await assertWithinBudget(userId, { tier: usageTier });
+
     // Handle streaming response
     if (stream) {
       // Create SSE stream
@@ -53,34 +78,17 @@ export async function POST(request: NextRequest) {
       const readable = new ReadableStream({
         async start(controller) {
           try {
-            const stream = await client.sendMessageStream(message, conversationId, tools);
-            
-            let fullContent = '';
-            
+            const stream = await client.sendMessageStream(message, { conversationId, userId, usageTier, tools });
+
             for await (const event of stream) {
-              if (event.type === 'content_block_delta') {
-                const delta = event.delta;
-                if (delta.type === 'text_delta') {
-                  fullContent += delta.text;
-                  const data = JSON.stringify({ 
-                    type: 'delta', 
-                    content: delta.text 
-                  });
-                  controller.enqueue(encoder.encode(`data: ${data}\n\n`));
-                }
-              } else if (event.type === 'message_stop') {
-                // Update conversation with full response
-                if (conversationId) {
-                  const conversation = client.getConversation(conversationId);
-                  if (conversation) {
-                    conversation.messages.push({
-                      role: 'assistant',
-                      content: fullContent,
-                    });
-                    client.updateConversation(conversationId, conversation.messages);
-                  }
-                }
-                
+              if (event.type === 'text') {
+                const data = JSON.stringify({ 
+                  type: 'delta', 
+                  content: event.text 
+                });
+                controller.enqueue(encoder.encode(`data: ${data}\n\n`));
+              } else {
+                // The client saves the finished turn to the conversation
                 const data = JSON.stringify({ 
                   type: 'done',
                   conversationId,
@@ -110,12 +118,11 @@ export async function POST(request: NextRequest) {
     }
 
     // Handle non-streaming response
-    const response = await client.sendMessage(message, conversationId, tools);
+    const response = await client.sendMessage(message, { conversationId, userId, usageTier, tools });
 
     // Extract response content
-    const content = response.content[0];
     const responseData = {
-      content: content.type === 'text' ? content.text : content,
+      content: getResponseText(response),
       usage: response.usage,
       model: response.model,
       conversationId,
@@ -125,6 +132,13 @@ export async function POST(request: NextRequest) {
   } catch (error) {
     console.error('Claude API error:', error);
     
+    if (error instanceof UsageBudgetError) {
+      return NextResponse.json(
+        { error: 'Monthly token budget exceeded', code: 'BUDGET_EXCEEDED', details: error.status },
+        { status: 402 }
+      );
+    }
+
     if (error instanceof Error) {
       // Handle specific error types
       if (error.message.includes('rate limit')) {
@@ -1,16 +1,49 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyJWT } from '../../../lib/jwt';
-import { getClaudeClient, ClaudeTool } from '../../../lib/claude-client';
+import { getUserIdFromRequest } from '../../../lib/jwt';
+import { authenticateRequest } from '../../../lib/security/api-keys';
+import {
+  getClaudeClient,
+  ClaudeTool,
+  SendMessageOptions,
+  ToolCallRecord,
+  ToolImplementation,
+  DEFAULT_MAX_TOOL_ITERATIONS,
+} from '../../../lib/claude-client';
+import { CLAUDE_TOOLS, createToolImplementations } from '../../../lib/claude-tools';
+import { getWorkspacePolicy } from '../../../lib/workspace';
+import { createToolAuthorizer, saveSuspendedToolLoop } from '../../../lib/tool-approvals';
 import { apiRateLimiter, streamRateLimiter } from '../../../lib/rate-limiter';
 import { streamSSE } from '../../../lib/sse-utils';
-import { Stream } from '@anthropic-ai/sdk/streaming';
-import Anthropic from '@anthropic-ai/sdk';
+import { LLMProviderError, getResponseText } from '../../../lib/llm';
+import { UsageBudgetError, assertWithinBudget } from '../../../lib/usage';
+import {
+  PromptTemplateError,
+  RenderedPromptTemplate,
+  isVariableMap,
+  resolvePromptTemplate,
+} from '../../../lib/prompt-templates';
 
 // Request body type
 interface ClaudeRequestBody {
+  // Optional when regenerating, which reuses the stored prompt, or when the
+  // template's user prompt supplies it
   message: string;
   conversationId?: string;
+  // Send `message` as an edit of this earlier prompt, on a new branch
+  editMessageId?: string;
+  // Answer this prompt (or the prompt of this reply) again
+  regenerateMessageId?: string;
+  model?: string;
+  // Saved on new conversations; overrides the stored one for this turn otherwise
+  systemPrompt?: string;
+  // Render this prompt template (latest version unless templateVersion is set)
+  templateId?: string;
+  templateVersion?: number;
+  variables?: Record<string, string>;
   tools?: ClaudeTool[];
+  enableTools?: boolean;
+  maxIterations?: number;
+  projectId?: string;
   stream?: boolean;
 }
 
@@ -22,37 +55,16 @@ interface ClaudeResponse {
     inputTokens: number;
     outputTokens: number;
   };
+  toolCalls?: ToolCallRecord[];
+  iterations?: number;
+  stopReason?: string | null;
 }
 
 interface ClaudeError {
   error: string;
   code?: string;
   retryAfter?: number;
-}
-
-// Extract user ID from request for rate limiting
-async function getUserIdFromRequest(request: NextRequest): Promise<string | null> {
-  try {
-    // Get token from cookies or Authorization header
-    let token = request.cookies.get('auth-token')?.value;
-    
-    if (!token) {
-      const authHeader = request.headers.get('Authorization');
-      if (authHeader?.startsWith('Bearer ')) {
-        token = authHeader.substring(7);
-      }
-    }
-
-    if (!token) {
-      return null;
-    }
-
-    const payload = await verifyJWT(token);
-    return payload.userId;
-  } catch (error) {
-    console.error('Error extracting user ID:', error);
-    return null;
-  }
+  details?: unknown;
 }
 
 // Validate request body
@@ -61,10 +73,50 @@ function validateRequestBody(body: unknown): body is ClaudeRequestBody {
     return false;
   }
 
-  const { message, conversationId, tools, stream } = body as Record<string, unknown>;
+  const {
+    message,
+    conversationId,
+    editMessageId,
+    regenerateMessageId,
+    model,
+    systemPrompt,
+    templateId,
+    templateVersion,
+    variables,
+    tools,
+    enableTools,
+    maxIterations,
+    projectId,
+    stream,
+  } = body as Record<string, unknown>;
+
+  // Regenerating needs an existing conversation and may not carry new text
+  if (regenerateMessageId !== undefined) {
+    if (
+      typeof regenerateMessageId !== 'string' ||
+      typeof conversationId !== 'string' ||
+      message !== undefined ||
+      templateId !== undefined
+    ) {
+      return false;
+    }
+  } else if (templateId !== undefined) {
+    // Templates may provide the message themselves
+    if (typeof templateId !== 'string' || (message !== undefined && typeof message !== 'string')) {
+      return false;
+    }
+  } else if (typeof message !== 'string' || message.trim().length === 0) {
+    // Otherwise message is required and must be a string
+    return false;
+  }
 
-  // Message is required and must be a string
-  if (typeof message !== 'string' || message.trim().length === 0) {
+  if (systemPrompt !== undefined && typeof systemPrompt !== 'string') {
+    return false;
+  }
+  if (templateVersion !== undefined && !(Number.isInteger(templateVersion) && (templateVersion as number) > 0)) {
+    return false;
+  }
+  if (variables !== undefined && !isVariableMap(variables)) {
     return false;
   }
 
@@ -73,11 +125,36 @@ function validateRequestBody(body: unknown): body is ClaudeRequestBody {
     return false;
   }
 
+  // Editing needs an existing conversation
+  if (editMessageId !== undefined && (typeof editMessageId !== 'string' || typeof conversationId !== 'string')) {
+    return false;
+  }
+
+  // Model is optional but must be a non-empty string if provided
+  if (model !== undefined && (typeof model !== 'string' || model.trim().length === 0)) {
+    return false;
+  }
+
   // Tools is optional but must be an array if provided
   if (tools !== undefined && !Array.isArray(tools)) {
     return false;
   }
 
+  // EnableTools is optional but must be a boolean if provided
+  if (enableTools !== undefined && typeof enableTools !== 'boolean') {
+    return false;
+  }
+
+  // MaxIterations is optional but must be a positive integer if provided
+  if (maxIterations !== undefined && (!Number.isInteger(maxIterations) || (maxIterations as number) < 1)) {
+    return false;
+  }
+
+  // ProjectId is optional but must be a string if provided
+  if (projectId !== undefined && typeof projectId !== 'string') {
+    return false;
+  }
+
   // Stream is optional but must be a boolean if provided
   if (stream !== undefined && typeof stream !== 'boolean') {
     return false;
@@ -86,6 +163,12 @@ function validateRequestBody(body: unknown): body is ClaudeRequestBody {
   return true;
 }
 
+// Cap the tool loop at the server-wide budget, whatever the client asks for
+function resolveMaxIterations(requested?: number): number {
+  const limit = Number(process.env.CLAUDE_MAX_TOOL_ITERATIONS) || DEFAULT_MAX_TOOL_ITERATIONS;
+  return Math.min(requested ?? limit, limit);
+}
+
 // Log request for monitoring
 function logRequest(
   userId: string | null,
@@ -125,10 +208,13 @@ export async function POST(request: NextRequest) {
         { status: 400 }
       );
     }
-    requestBody = body;
+    requestBody = { ...body, message: body.message ?? '' };
 
     // Extract user ID for authentication and rate limiting
-    userId = await getUserIdFromRequest(request);
+    // A request made with an API key is budgeted by the key's tier
+    const auth = await authenticateRequest(request);
+    userId = auth?.userId ?? null;
+    const usageTier = auth?.tier;
     if (!userId) {
       return NextResponse.json<ClaudeError>(
         { error: 'Unauthorized. Please log in to use Claude API.' },
@@ -160,6 +246,10 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Refuse up front once the monthly token budget is spent, so streaming
+    // requests still get a proper status code
+    await assertWithinBudget(userId, { tier: usageTier });
+
     // Log request start
     logRequest(userId, requestBody.conversationId, requestBody.message, !!requestBody.stream, 'start');
 
@@ -176,92 +266,226 @@ export async function POST(request: NextRequest) {
     // Initialize Claude client
     const claudeClient = getClaudeClient(apiKey);
 
-    // Create conversation if not provided
+    // Render the prompt template before anything is stored, so missing
+    // variables are reported without side effects
+    let template: RenderedPromptTemplate | undefined;
+    if (requestBody.templateId) {
+      template = await resolvePromptTemplate(userId, {
+        templateId: requestBody.templateId,
+        version: requestBody.templateVersion,
+        variables: requestBody.variables,
+        message: requestBody.message,
+      });
+    }
+    const systemPrompt = requestBody.systemPrompt ?? template?.system;
+    const promptOptions: Pick<SendMessageOptions, 'system' | 'metadata'> = {
+      ...(systemPrompt !== undefined && { system: systemPrompt }),
+      // Recorded on the stored turn so it can be reproduced
+      ...(template && { metadata: template.metadata }),
+    };
+
+    // Create conversation if not provided; the model and system prompt only
+    // apply to new conversations, existing ones keep what they were created with
+    const createOptions = {
+      title: (requestBody.message.trim() || template?.metadata.template.name || '').slice(0, 80),
+      model: requestBody.model,
+      systemPrompt,
+      ...(template && {
+        templateId: template.metadata.template.id,
+        templateVersion: template.metadata.template.version,
+      }),
+    };
     let conversationId = requestBody.conversationId;
     if (!conversationId) {
-      conversationId = claudeClient.createConversation();
-    } else {
-      // Verify conversation exists
-      const conversation = claudeClient.getConversation(conversationId);
-      if (!conversation) {
-        // Create new conversation with provided ID
-        conversationId = claudeClient.createConversation(conversationId);
+      // Edits and regenerations refer to messages of an existing conversation
+      if (requestBody.regenerateMessageId || requestBody.editMessageId) {
+        return NextResponse.json<ClaudeError>(
+          { error: 'conversationId is required to edit or regenerate a message.' },
+          { status: 400 }
+        );
+      }
+      conversationId = await claudeClient.createConversation(userId, createOptions);
+    } else if (!(await claudeClient.getConversation(conversationId, userId))) {
+      // Ids are never chosen by the caller; unknown and other users'
+      // conversations look the same
+      return NextResponse.json<ClaudeError>(
+        { error: 'Conversation not found.' },
+        { status: 404 }
+      );
+    }
+
+    // Edits fork a new branch next to the edited prompt; regenerating answers
+    // a stored prompt again next to its earlier replies
+    let message = template?.message ?? requestBody.message;
+    let branchOptions: Pick<SendMessageOptions, 'parentId' | 'regenerateFrom'> = {};
+    if (requestBody.regenerateMessageId) {
+      const regeneration = await claudeClient.getRegenerateOptions(conversationId, userId, requestBody.regenerateMessageId);
+      if (!regeneration) {
+        return NextResponse.json<ClaudeError>(
+          { error: 'Message not found.' },
+          { status: 404 }
+        );
+      }
+      message = regeneration.message;
+      branchOptions = regeneration.options;
+    } else if (requestBody.editMessageId) {
+      const edit = await claudeClient.getEditOptions(conversationId, userId, requestBody.editMessageId);
+      if (!edit) {
+        return NextResponse.json<ClaudeError>(
+          { error: 'Message not found.' },
+          { status: 404 }
+        );
+      }
+      branchOptions = edit;
+    }
+
+    // Run the agentic tool loop when tools are in play
+    const tools = requestBody.tools ?? (requestBody.enableTools ? CLAUDE_TOOLS : undefined);
+    if (tools && tools.length > 0) {
+      // File and shell tools are confined to the user's project workspace
+      const workspace = await getWorkspacePolicy(userId, requestBody.projectId);
+      if (!workspace) {
+        return NextResponse.json<ClaudeError>(
+          { error: 'Project not found.' },
+          { status: 404 }
+        );
+      }
+
+      const loopOptions = {
+        conversationId,
+        userId,
+        usageTier,
+        ...branchOptions,
+        ...promptOptions,
+        tools,
+        toolImplementations: createToolImplementations(workspace) as Record<string, ToolImplementation>,
+        maxIterations: resolveMaxIterations(requestBody.maxIterations),
+        // Stop running tools once the client disconnects
+        signal: request.signal,
+      };
+
+      if (requestBody.stream) {
+        return streamSSE(async (send) => {
+          try {
+            // Text deltas, tool calls and tool results are forwarded as they happen
+            // A risky call ends the turn here; deciding its approval resumes it
+            const authorizeToolCall = await createToolAuthorizer({
+              userId: userId!,
+              conversationId,
+              workspace,
+              interactive: true,
+            });
+            const result = await claudeClient.runToolLoop(message, {
+              ...loopOptions,
+              authorizeToolCall,
+              onEvent: send,
+            });
+            await saveSuspendedToolLoop(userId!, result, {
+              projectId: requestBody.projectId,
+              options: {
+                ...branchOptions,
+                ...(promptOptions.metadata && { metadata: promptOptions.metadata }),
+                tools,
+                maxIterations: loopOptions.maxIterations,
+                usageTier,
+              },
+            }, send);
+
+            send({
+              type: 'done',
+              conversationId,
+              iterations: result.iterations,
+              stopReason: result.stopReason,
+              usage: result.usage,
+              ...(result.approvalId && { approvalId: result.approvalId }),
+            });
+
+            logRequest(userId, conversationId, message, true, 'success');
+          } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Stream processing failed';
+            logRequest(userId, conversationId, message, true, 'error', errorMessage);
+            send({ type: 'error', error: errorMessage });
+          }
+        });
       }
+
+      const result = await claudeClient.runToolLoop(message, {
+        ...loopOptions,
+        authorizeToolCall: await createToolAuthorizer({
+          userId,
+          conversationId,
+          workspace,
+          interactive: false,
+        }),
+      });
+
+      logRequest(userId, conversationId, message, false, 'success');
+
+      return NextResponse.json<ClaudeResponse>({
+        message: result.text,
+        conversationId,
+        usage: result.usage,
+        toolCalls: result.toolCalls,
+        iterations: result.iterations,
+        stopReason: result.stopReason,
+      });
     }
 
     // Handle streaming response
     if (requestBody.stream) {
       return streamSSE(async (send) => {
         try {
-          let fullResponse = '';
-          const stream = await claudeClient.sendMessageStream(
-            requestBody.message,
+          const stream = await claudeClient.sendMessageStream(message, {
             conversationId,
-            requestBody.tools
-          );
+            userId: userId!,
+            usageTier,
+            ...branchOptions,
+            ...promptOptions,
+          });
 
           // Process stream chunks
-          for await (const chunk of stream as Stream<Anthropic.MessageStreamEvent>) {
-            if (chunk.type === 'content_block_delta' && chunk.delta.type === 'text_delta') {
-              const text = chunk.delta.text;
-              fullResponse += text;
-              send({ type: 'delta', content: text });
-            } else if (chunk.type === 'message_stop') {
-              // Update conversation with full response
-              const conversation = claudeClient.getConversation(conversationId!);
-              if (conversation) {
-                const messages = [...conversation.messages];
-                messages.push({ role: 'assistant', content: fullResponse });
-                claudeClient.updateConversation(conversationId!, messages);
-              }
-
-              // Send completion signal
+          for await (const event of stream) {
+            if (event.type === 'text') {
+              send({ type: 'delta', content: event.text });
+            } else {
+              // The client has persisted the turn by now; send completion signal
               send({ 
                 type: 'done', 
                 conversationId,
-                usage: {
-                  inputTokens: 0, // Would need to extract from stream metadata
-                  outputTokens: 0
-                }
+                usage: event.response.usage
               });
             }
           }
 
-          logRequest(userId, conversationId, requestBody.message, true, 'success');
+          logRequest(userId, conversationId, message, true, 'success');
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : 'Stream processing failed';
-          logRequest(userId, conversationId, requestBody.message, true, 'error', errorMessage);
+          logRequest(userId, conversationId, message, true, 'error', errorMessage);
           send({ type: 'error', error: errorMessage });
         }
       });
     }
 
     // Handle non-streaming response
-    const response = await claudeClient.sendMessage(
-      requestBody.message,
+    const response = await claudeClient.sendMessage(message, {
       conversationId,
-      requestBody.tools
-    );
-
-    // Extract response content
-    const responseContent = response.content[0].type === 'text' 
-      ? response.content[0].text 
-      : '';
+      userId,
+      usageTier,
+      ...branchOptions,
+      ...promptOptions,
+    });
 
-    logRequest(userId, conversationId, requestBody.message, false, 'success');
+    logRequest(userId, conversationId, message, false, 'success');
 
     return NextResponse.json<ClaudeResponse>({
-      message: responseContent,
+      message: getResponseText(response),
       conversationId,
-      usage: response.usage ? {
-        inputTokens: response.usage.input_tokens,
-        outputTokens: response.usage.output_tokens
-      } : undefined
+      usage: response.usage
     });
 
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Internal server error';
-    const isAnthropicError = error instanceof Error && error.message.includes('Anthropic');
+    const isProviderError = error instanceof LLMProviderError;
     
     logRequest(
       userId, 
@@ -272,8 +496,31 @@ export async function POST(request: NextRequest) {
       errorMessage
     );
 
-    // Handle specific Anthropic API errors
-    if (isAnthropicError) {
+    if (error instanceof UsageBudgetError) {
+      return NextResponse.json<ClaudeError>(
+        {
+          error: 'Monthly token budget exceeded.',
+          code: 'BUDGET_EXCEEDED',
+          details: error.status
+        },
+        { status: 402 }
+      );
+    }
+
+    // Unknown templates and missing template variables
+    if (error instanceof PromptTemplateError) {
+      return NextResponse.json<ClaudeError>(
+        {
+          error: error.message,
+          code: error.missing ? 'MISSING_TEMPLATE_VARIABLES' : 'INVALID_TEMPLATE',
+          ...(error.missing && { details: error.missing }),
+        },
+        { status: error.status }
+      );
+    }
+
+    // Handle errors reported by the model provider
+    if (isProviderError) {
       return NextResponse.json<ClaudeError>(
         { 
           error: 'Claude API error. Please try again later.',
@@ -325,11 +572,12 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Get conversation from Claude client
+    // Get conversation from the conversation store
     const claudeClient = getClaudeClient(apiKey);
-    const conversation = claudeClient.getConversation(conversationId);
+    const conversation = await claudeClient.getConversation(conversationId, userId);
+    const branch = await claudeClient.getActiveBranch(conversationId, userId);
 
-    if (!conversation) {
+    if (!conversation || !branch) {
       return NextResponse.json<ClaudeError>(
         { error: 'Conversation not found.' },
         { status: 404 }
@@ -338,7 +586,12 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json({
       conversationId: conversation.id,
-      messages: conversation.messages,
+      title: conversation.title,
+      model: conversation.model,
+      contextStrategy: conversation.contextStrategy,
+      activeLeafId: conversation.activeLeafId,
+      // Only the active branch; siblingIds lets the client switch branches
+      messages: branch,
       createdAt: conversation.createdAt,
       updatedAt: conversation.updatedAt
     });
@@ -386,7 +639,7 @@ export async function DELETE(request: NextRequest) {
 
     // Delete conversation
     const claudeClient = getClaudeClient(apiKey);
-    const deleted = claudeClient.deleteConversation(conversationId);
+    const deleted = await claudeClient.deleteConversation(conversationId, userId);
 
     if (!deleted) {
       return NextResponse.json<ClaudeError>(
@@ -0,0 +1,280 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiRateLimiter } from '../../../../lib/rate-limiter';
+import { getUserIdFromRequest } from '../../../../lib/jwt';
+import { PromptTemplateError, getPromptTemplateStore } from '../../../../lib/prompt-templates';
+
+const MAX_PROMPT_LENGTH = 100_000;
+
+function isOptionalString(value: unknown, maxLength = MAX_PROMPT_LENGTH): boolean {
+  return value === undefined || (typeof value === 'string' && value.length <= maxLength);
+}
+
+// List templates (optionally ?projectId=...), or get one with ?id=... and
+// its version history; ?version=N selects an older version
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Check rate limit
+    const { allowed, retryAfter } = await apiRateLimiter.checkLimit(userId);
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded', retryAfter },
+        {
+          status: 429,
+          headers: {
+            'Retry-After': retryAfter?.toString() || '60',
+          },
+        }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+    const store = getPromptTemplateStore();
+
+    if (!id) {
+      const templates = await store.list(userId, searchParams.get('projectId') || undefined);
+      return NextResponse.json({ templates });
+    }
+
+    const versionParam = searchParams.get('version');
+    const version = versionParam ? Number(versionParam) : undefined;
+    if (version !== undefined && !(Number.isInteger(version) && version > 0)) {
+      return NextResponse.json(
+        { error: 'version must be a positive integer' },
+        { status: 400 }
+      );
+    }
+
+    const [template, versions] = await Promise.all([
+      store.get(id, userId, version),
+      store.listVersions(id, userId),
+    ]);
+    if (!template || !versions) {
+      return NextResponse.json(
+        { error: 'Prompt template not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ template, versions });
+  } catch (error) {
+    console.error('Get prompt templates error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Create a template, e.g. { "name": "Code review", "systemPrompt": "...",
+// "userPrompt": "Review this {{language}} code:\n{{message}}" }
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Check rate limit
+    const { allowed, retryAfter } = await apiRateLimiter.checkLimit(userId);
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded', retryAfter },
+        {
+          status: 429,
+          headers: {
+            'Retry-After': retryAfter?.toString() || '60',
+          },
+        }
+      );
+    }
+
+    const body = await request.json();
+    const { name, description, projectId, systemPrompt, userPrompt } = body;
+
+    if (typeof name !== 'string' || name.trim().length === 0 || name.length > 200) {
+      return NextResponse.json(
+        { error: 'A name of up to 200 characters is required' },
+        { status: 400 }
+      );
+    }
+    if (!isOptionalString(description, 1000) || !isOptionalString(projectId, 200)) {
+      return NextResponse.json(
+        { error: 'description and projectId must be strings' },
+        { status: 400 }
+      );
+    }
+    if (!isOptionalString(systemPrompt) || !isOptionalString(userPrompt) || (!systemPrompt && !userPrompt)) {
+      return NextResponse.json(
+        { error: 'A systemPrompt or userPrompt is required' },
+        { status: 400 }
+      );
+    }
+
+    const template = await getPromptTemplateStore().create(userId, {
+      name: name.trim(),
+      description,
+      projectId,
+      systemPrompt: systemPrompt || undefined,
+      userPrompt: userPrompt || undefined,
+    });
+
+    return NextResponse.json({ template }, { status: 201 });
+  } catch (error) {
+    if (error instanceof PromptTemplateError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error('Create prompt template error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Rename a template or change its prompts; prompt changes create a new version
+export async function PATCH(request: NextRequest) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Check rate limit
+    const { allowed, retryAfter } = await apiRateLimiter.checkLimit(userId);
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded', retryAfter },
+        {
+          status: 429,
+          headers: {
+            'Retry-After': retryAfter?.toString() || '60',
+          },
+        }
+      );
+    }
+
+    const body = await request.json();
+    const { id, name, description, systemPrompt, userPrompt } = body;
+
+    if (typeof id !== 'string') {
+      return NextResponse.json(
+        { error: 'Template ID is required' },
+        { status: 400 }
+      );
+    }
+    if (
+      !isOptionalString(name, 200) ||
+      !isOptionalString(description, 1000) ||
+      !isOptionalString(systemPrompt) ||
+      !isOptionalString(userPrompt)
+    ) {
+      return NextResponse.json(
+        { error: 'name, description, systemPrompt and userPrompt must be strings' },
+        { status: 400 }
+      );
+    }
+
+    const store = getPromptTemplateStore();
+    const current = await store.get(id, userId);
+    if (current) {
+      const nextSystem = systemPrompt ?? current.systemPrompt;
+      const nextUser = userPrompt ?? current.userPrompt;
+      if (!nextSystem && !nextUser) {
+        return NextResponse.json(
+          { error: 'A template needs a systemPrompt or userPrompt' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const template = current && await store.update(id, userId, {
+      name: name?.trim() || undefined,
+      description,
+      systemPrompt,
+      userPrompt,
+    });
+    if (!template) {
+      return NextResponse.json(
+        { error: 'Prompt template not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ template });
+  } catch (error) {
+    console.error('Update prompt template error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Delete a template and all of its versions
+export async function DELETE(request: NextRequest) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Check rate limit
+    const { allowed, retryAfter } = await apiRateLimiter.checkLimit(userId);
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded', retryAfter },
+        {
+          status: 429,
+          headers: {
+            'Retry-After': retryAfter?.toString() || '60',
+          },
+        }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Template ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await getPromptTemplateStore().delete(id, userId))) {
+      return NextResponse.json(
+        { error: 'Prompt template not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ message: 'Prompt template deleted successfully' });
+  } catch (error) {
+    console.error('Delete prompt template error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
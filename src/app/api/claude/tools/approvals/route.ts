@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '../../../../../lib/jwt';
+import { apiRateLimiter } from '../../../../../lib/rate-limiter';
+import { getClaudeClient } from '../../../../../lib/claude-client';
+import { streamSSE } from '../../../../../lib/sse-utils';
+import { UsageBudgetError } from '../../../../../lib/usage';
+import {
+  ToolApprovalError,
+  decideToolApproval,
+  getToolApprovalStore,
+  resumeToolLoop,
+} from '../../../../../lib/tool-approvals';
+
+// List tool calls waiting for the user's review
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const approvals = await getToolApprovalStore().listPendingApprovals(userId);
+
+    return NextResponse.json({ approvals });
+  } catch (error) {
+    console.error('List tool approvals error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Approve or reject a tool call that ended a turn, then resume that turn.
+// With "stream": true the rest of the turn is sent as the same SSE events as
+// /api/claude; otherwise the final result is returned.
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { allowed, retryAfter } = await apiRateLimiter.checkLimit(userId);
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded', retryAfter },
+        { 
+          status: 429,
+          headers: {
+            'Retry-After': retryAfter?.toString() || '60',
+          },
+        }
+      );
+    }
+
+    const body = await request.json();
+    const { approvalId, decision, reason, stream } = body;
+
+    if (typeof approvalId !== 'string' || (decision !== 'approve' && decision !== 'reject')) {
+      return NextResponse.json(
+        { error: 'approvalId and a decision of "approve" or "reject" are required' },
+        { status: 400 }
+      );
+    }
+
+    const apiKey = process.env.ANTHROPIC_API_KEY;
+    if (!apiKey) {
+      return NextResponse.json(
+        { error: 'API key not configured' },
+        { status: 500 }
+      );
+    }
+    const client = getClaudeClient(apiKey);
+
+    const approval = await decideToolApproval(
+      approvalId,
+      userId,
+      decision === 'approve' ? 'approved' : 'rejected',
+      typeof reason === 'string' ? reason : undefined
+    );
+
+    if (stream) {
+      return streamSSE(async (send) => {
+        try {
+          const result = await resumeToolLoop(client, approval, { signal: request.signal, send });
+          send({
+            type: 'done',
+            conversationId: approval.conversationId,
+            ...(result && {
+              iterations: result.iterations,
+              stopReason: result.stopReason,
+              usage: result.usage,
+              ...(result.approvalId && { approvalId: result.approvalId }),
+            }),
+          });
+        } catch (error) {
+          send({ type: 'error', error: error instanceof Error ? error.message : 'Failed to resume the turn' });
+        }
+      });
+    }
+
+    const result = await resumeToolLoop(client, approval, { signal: request.signal });
+
+    return NextResponse.json({
+      approval,
+      ...(result && {
+        message: result.text,
+        conversationId: approval.conversationId,
+        toolCalls: result.toolCalls,
+        iterations: result.iterations,
+        stopReason: result.stopReason,
+        usage: result.usage,
+        ...(result.approvalId && { approvalId: result.approvalId }),
+      }),
+    });
+  } catch (error) {
+    if (error instanceof ToolApprovalError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    if (error instanceof UsageBudgetError) {
+      return NextResponse.json(
+        { error: 'Monthly token budget exceeded', code: 'BUDGET_EXCEEDED', details: error.status },
+        { status: 402 }
+      );
+    }
+    console.error('Decide tool approval error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '../../../../../lib/jwt';
+import {
+  getToolApprovalStore,
+  getToolPolicies,
+  isToolPolicyMode,
+} from '../../../../../lib/tool-approvals';
+
+// Get the effective allow/ask/deny mode for every tool
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json({ policies: await getToolPolicies(userId) });
+  } catch (error) {
+    console.error('Get tool policies error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Update tool policies, e.g. { "policies": { "read": "allow", "bash": "ask" } }
+export async function PUT(request: NextRequest) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { policies } = body;
+
+    if (!policies || typeof policies !== 'object' || Array.isArray(policies)) {
+      return NextResponse.json(
+        { error: 'A policies object is required' },
+        { status: 400 }
+      );
+    }
+
+    const entries = Object.entries(policies as Record<string, unknown>);
+    const invalid = entries.find(([, mode]) => !isToolPolicyMode(mode));
+    if (invalid) {
+      return NextResponse.json(
+        { error: `Invalid mode for ${invalid[0]}. Use "allow", "ask" or "deny".` },
+        { status: 400 }
+      );
+    }
+
+    const store = getToolApprovalStore();
+    for (const [toolName, mode] of entries) {
+      if (isToolPolicyMode(mode)) {
+        await store.setPolicy(userId, toolName, mode);
+      }
+    }
+
+    return NextResponse.json({ policies: await getToolPolicies(userId) });
+  } catch (error) {
+    console.error('Update tool policies error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getClaudeClient } from '../../../../lib/claude-client';
-import { CLAUDE_TOOLS, TOOL_IMPLEMENTATIONS } from '../../../../lib/claude-tools';
+import { getClaudeClient, ToolImplementation } from '../../../../lib/claude-client';
+import { CLAUDE_TOOLS, createToolImplementations } from '../../../../lib/claude-tools';
+import { getWorkspacePolicy } from '../../../../lib/workspace';
+import { createToolAuthorizer } from '../../../../lib/tool-approvals';
 import { apiRateLimiter } from '../../../../lib/rate-limiter';
+import { getUserIdFromRequest } from '../../../../lib/jwt';
+import { UsageBudgetError } from '../../../../lib/usage';
 
 export async function POST(request: NextRequest) {
   try {
@@ -24,7 +28,7 @@ export async function POST(request: NextRequest) {
 
     // Parse request body
     const body = await request.json();
-    const { message, conversationId, enableTools = true } = body;
+    const { message, conversationId, projectId, enableTools = true } = body;
 
     if (!message) {
       return NextResponse.json(
@@ -45,94 +49,45 @@ export async function POST(request: NextRequest) {
     // Get or create Claude client
     const client = getClaudeClient(apiKey);
 
-    // Send message with tools
-    const response = await client.sendMessage(
-      message, 
-      conversationId, 
-      enableTools ? CLAUDE_TOOLS : undefined
-    );
-
-    // Define tool call type
-    type ToolCall = {
-      id: string;
-      name: string;
-      input: unknown;
-      result?: unknown;
-      error?: string;
-    };
-
-    // Handle tool calls if any
-    const toolCalls: ToolCall[] = [];
-    let finalContent = '';
-
-    for (const content of response.content) {
-      if (content.type === 'text') {
-        finalContent += content.text;
-      } else if (content.type === 'tool_use') {
-        // Execute tool
-        const toolName = content.name;
-        const toolInput = content.input;
-        
-        try {
-          const result = await client.executeToolCall(
-            toolName,
-            toolInput,
-            TOOL_IMPLEMENTATIONS as Record<string, (input: unknown) => Promise<unknown>>
-          );
-          
-          toolCalls.push({
-            id: content.id,
-            name: toolName,
-            input: toolInput,
-            result,
-          });
-        } catch (error) {
-          toolCalls.push({
-            id: content.id,
-            name: toolName,
-            input: toolInput,
-            error: error instanceof Error ? error.message : 'Tool execution failed',
-          });
-        }
-      }
+    // Tools run inside the signed-in user's workspace
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
     }
 
-    // If there were tool calls, send the results back to Claude
-    if (toolCalls.length > 0) {
-      // Add assistant's message with tool calls to conversation
-      const conversation = client.getConversation(conversationId || '');
-      if (conversation) {
-        conversation.messages.push({
-          role: 'assistant',
-          content: response.content.map(c => 
-            c.type === 'text' ? c.text : JSON.stringify(c)
-          ).join('\n'),
-        });
-      }
-
-      // Create tool results message
-      const toolResultsMessage = toolCalls.map((tc) => ({
-        type: 'tool_result',
-        tool_use_id: tc.id,
-        content: tc.error ? `Error: ${tc.error}` : JSON.stringify(tc.result),
-      }));
-
-      // Send follow-up message with tool results
-      const followUpResponse = await client.sendMessage(
-        JSON.stringify(toolResultsMessage),
-        conversationId
+    const workspace = await getWorkspacePolicy(userId, projectId);
+    if (!workspace) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
       );
-
-      // Extract final response
-      const followUpContent = followUpResponse.content[0];
-      finalContent = followUpContent.type === 'text' ? followUpContent.text : '';
     }
 
+    // Run the tool loop until Claude stops requesting tools
+    const result = await client.runToolLoop(message, {
+      conversationId,
+      userId,
+      tools: enableTools ? CLAUDE_TOOLS : undefined,
+      toolImplementations: createToolImplementations(workspace) as Record<string, ToolImplementation>,
+      signal: request.signal,
+      // This endpoint cannot pause for review, so calls that need approval are rejected
+      authorizeToolCall: await createToolAuthorizer({
+        userId,
+        conversationId,
+        workspace,
+        interactive: false,
+      }),
+    });
+
     const responseData = {
-      content: finalContent,
-      toolCalls,
-      usage: response.usage,
-      model: response.model,
+      content: result.text,
+      toolCalls: result.toolCalls,
+      iterations: result.iterations,
+      usage: result.usage,
+      model: result.response.model,
       conversationId,
     };
 
@@ -140,6 +95,13 @@ export async function POST(request: NextRequest) {
   } catch (error) {
     console.error('Claude tools API error:', error);
     
+    if (error instanceof UsageBudgetError) {
+      return NextResponse.json(
+        { error: 'Monthly token budget exceeded', code: 'BUDGET_EXCEEDED', details: error.status },
+        { status: 402 }
+      );
+    }
+
     return NextResponse.json(
       { error: 'Internal server error' },
       { status: 500 }
@@ -1,11 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { cookies } from 'next/headers';
 import VercelClient from '../../../../lib/vercel/client';
-import { stateStore } from '../../../../lib/vercel/state-store';
-import crypto from 'crypto';
+import { getUserIdFromRequest } from '../../../../lib/jwt';
+import {
+  createVercelOAuthState,
+  disconnectVercelIntegration,
+  listVercelIntegrations,
+} from '../../../../lib/vercel/integrations';
 
 const VERCEL_CLIENT_ID = process.env.VERCEL_CLIENT_ID!;
-const VERCEL_CLIENT_SECRET = process.env.VERCEL_CLIENT_SECRET!;
 const VERCEL_REDIRECT_URI = process.env.VERCEL_REDIRECT_URI || 'http://localhost:3000/api/vercel/callback';
 
 
@@ -13,10 +15,17 @@ export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
   const action = searchParams.get('action');
 
+  const userId = await getUserIdFromRequest(request);
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
   if (action === 'login') {
-    // Generate state for CSRF protection
-    const state = crypto.randomBytes(32).toString('hex');
-    stateStore.set(state, { timestamp: Date.now() });
+    // Generate state for CSRF protection, stored with the user
+    const state = await createVercelOAuthState(userId);
 
     // Get authorization URL
     const authUrl = VercelClient.getAuthorizationUrl(
@@ -30,23 +39,26 @@ export async function GET(request: NextRequest) {
 
 
   if (action === 'logout') {
-    // Remove token cookie
-    const cookieStore = await cookies();
-    cookieStore.delete('vercel_token');
+    // Disconnect the given integration, or the active one
+    const disconnected = await disconnectVercelIntegration(userId, searchParams.get('integrationId') || undefined);
     
-    return NextResponse.json({ success: true });
+    return NextResponse.json({ success: disconnected });
   }
 
   if (action === 'status') {
     // Check if user is authenticated
-    const cookieStore = await cookies();
-    const token = cookieStore.get('vercel_token')?.value;
+    const integrations = await listVercelIntegrations(userId);
+    const active = integrations.find(integration => integration.isActive);
     
-    return NextResponse.json({ authenticated: !!token });
+    return NextResponse.json({
+      authenticated: !!active,
+      activeIntegrationId: active?.id ?? null,
+      integrations,
+    });
   }
 
   return NextResponse.json(
     { error: 'Invalid action' },
     { status: 400 }
   );
-}
\ No newline at end of file
+}
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { cookies } from 'next/headers';
 import VercelClient from '../../../../lib/vercel/client';
-import { stateStore } from '../../../../lib/vercel/state-store';
+import { getUserIdFromRequest } from '../../../../lib/jwt';
+import { consumeVercelOAuthState, saveVercelIntegration } from '../../../../lib/vercel/integrations';
 
 const VERCEL_CLIENT_ID = process.env.VERCEL_CLIENT_ID!;
 const VERCEL_CLIENT_SECRET = process.env.VERCEL_CLIENT_SECRET!;
@@ -28,13 +28,14 @@ export async function GET(request: NextRequest) {
     );
   }
 
-  // Verify state
-  if (!stateStore.has(state)) {
+  // Verify state: it must be unexpired and belong to the signed-in user
+  const userId = await consumeVercelOAuthState(state);
+  const sessionUserId = await getUserIdFromRequest(request);
+  if (!userId || (sessionUserId && sessionUserId !== userId)) {
     return NextResponse.redirect(
       new URL('/dashboard?error=vercel_auth_failed&message=Invalid+state+parameter', request.url)
     );
   }
-  stateStore.delete(state);
 
   try {
     // Exchange code for token
@@ -45,21 +46,11 @@ export async function GET(request: NextRequest) {
       VERCEL_REDIRECT_URI
     );
 
-    // Store token in secure HTTP-only cookie
-    const cookieStore = await cookies();
-    cookieStore.set('vercel_token', tokenData.access_token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: 60 * 60 * 24 * 30, // 30 days
-      path: '/',
-    });
-
-    // Get user info to verify connection
-    const client = new VercelClient(tokenData.access_token);
+    // Store the encrypted token with the account or team it belongs to
+    const integration = await saveVercelIntegration(userId, tokenData);
     
     // Log successful connection
-    console.log('Vercel authentication successful');
+    console.log(`Vercel integration ${integration.id} connected`);
 
     // Redirect to dashboard with success message
     return NextResponse.redirect(
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getClaudeClient } from '../../../../../../lib/claude-client';
+import { LLMProviderError } from '../../../../../../lib/llm/types';
+import { UsageBudgetError, assertWithinBudget } from '../../../../../../lib/usage';
+import { getWorkspacePolicy } from '../../../../../../lib/workspace';
+import { getVercelSession } from '../../../../../../lib/vercel/integrations';
+import {
+  BuildAnalysisError,
+  extractBuildErrors,
+  readSourceContext,
+  suggestFixes,
+} from '../../../../../../lib/vercel/build-analysis';
+
+// The errors that failed a deployment's build, read from its build logs
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ deploymentId: string }> }
+) {
+  try {
+    const { deploymentId } = await context.params;
+    const session = await getVercelSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Not authenticated with Vercel' },
+        { status: 401 }
+      );
+    }
+
+    const { deployment, logs } = await session.client.getBuildLogs(deploymentId);
+    return NextResponse.json({
+      state: deployment.state,
+      errors: deployment.state === 'ERROR' ? extractBuildErrors(logs) : [],
+    });
+  } catch (error) {
+    console.error('Error reading build errors:', error);
+    return NextResponse.json(
+      { error: 'Failed to read build errors' },
+      { status: 500 }
+    );
+  }
+}
+
+// Ask Claude for fixes to a failed build. Body: { projectId?, errorId? };
+// with a local project the failing file is read from its workspace, and
+// errorId picks one of the extracted errors instead of the first.
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ deploymentId: string }> }
+) {
+  try {
+    const { deploymentId } = await context.params;
+    const session = await getVercelSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Not authenticated with Vercel' },
+        { status: 401 }
+      );
+    }
+
+    const apiKey = process.env.ANTHROPIC_API_KEY;
+    if (!apiKey) {
+      return NextResponse.json(
+        { error: 'API key not configured' },
+        { status: 500 }
+      );
+    }
+
+    const { projectId, errorId } = await request.json().catch(() => ({}));
+    const { userId, client } = session;
+
+    const { deployment, logs } = await client.getBuildLogs(deploymentId);
+    if (deployment.state !== 'ERROR') {
+      throw new BuildAnalysisError(`Deployment is ${deployment.state}; only failed builds can be analyzed`, 409);
+    }
+
+    const errors = extractBuildErrors(logs);
+    const error = errors.find(item => item.id === errorId) ?? errors[0];
+    if (!error) {
+      return NextResponse.json({ errors, analyzedError: null, fixes: [] });
+    }
+
+    let source: string | undefined;
+    if (projectId) {
+      const workspace = await getWorkspacePolicy(userId, projectId);
+      if (!workspace) {
+        return NextResponse.json(
+          { error: 'Project not found' },
+          { status: 404 }
+        );
+      }
+      source = await readSourceContext(workspace, error);
+    }
+
+    await assertWithinBudget(userId);
+    const fixes = await suggestFixes(getClaudeClient(apiKey), error, { userId, deploymentId, source });
+
+    return NextResponse.json({ errors, analyzedError: error, fixes });
+  } catch (error) {
+    if (error instanceof BuildAnalysisError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    if (error instanceof UsageBudgetError) {
+      return NextResponse.json(
+        { error: 'Monthly token budget exceeded', code: 'BUDGET_EXCEEDED', details: error.status },
+        { status: 402 }
+      );
+    }
+    if (error instanceof LLMProviderError) {
+      return NextResponse.json(
+        { error: 'The model provider returned an error. Please try again later.' },
+        { status: 503 }
+      );
+    }
+    console.error('Error analyzing build:', error);
+    return NextResponse.json(
+      { error: 'Failed to analyze build' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getWorkspacePolicy, WorkspacePolicyError } from '../../../../../../lib/workspace';
+import { getVercelSession } from '../../../../../../lib/vercel/integrations';
+import { BuildAnalysisError, parseSuggestedFix } from '../../../../../../lib/vercel/build-analysis';
+import { applySuggestedFix, redeployWithFix } from '../../../../../../lib/vercel/auto-fix';
+import type { CreatedDeployment } from '../../../../../../lib/vercel/client';
+
+// Apply a suggested fix for a failed deployment to the local project's
+// workspace repository and, unless `redeploy` is false, build the fix branch
+// as a new preview. Body: { projectId, fix, redeploy? }. A fix that was
+// committed but could not be deployed is reported in `redeployError`.
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ deploymentId: string }> }
+) {
+  try {
+    const { deploymentId } = await context.params;
+    const session = await getVercelSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Not authenticated with Vercel' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { projectId, redeploy = true } = body;
+    if (!projectId) {
+      return NextResponse.json(
+        { error: 'Project ID is required' },
+        { status: 400 }
+      );
+    }
+    const fix = parseSuggestedFix(body.fix);
+
+    // Also confirms the deployment is visible to the user's integration
+    const deployment = await session.client.getDeployment(deploymentId);
+
+    const workspace = await getWorkspacePolicy(session.userId, projectId);
+    if (!workspace) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    const applied = await applySuggestedFix(workspace, fix, deploymentId);
+
+    let redeployment: CreatedDeployment | null = null;
+    let redeployError: string | undefined;
+    if (redeploy) {
+      try {
+        if (!deployment.projectId) {
+          throw new BuildAnalysisError('The deployment has no Vercel project to redeploy', 409);
+        }
+        redeployment = await redeployWithFix(session.client, deployment.projectId, applied);
+      } catch (error) {
+        if (!(error instanceof BuildAnalysisError)) {
+          console.error('Error redeploying fix:', error);
+        }
+        redeployError = error instanceof Error ? error.message : 'Failed to redeploy';
+      }
+    }
+
+    return NextResponse.json({
+      applied,
+      deployment: redeployment,
+      ...(redeployError && { redeployError }),
+    });
+  } catch (error) {
+    if (error instanceof BuildAnalysisError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    if (error instanceof WorkspacePolicyError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: 400 }
+      );
+    }
+    console.error('Error applying fix:', error);
+    return NextResponse.json(
+      { error: 'Failed to apply fix' },
+      { status: 500 }
+    );
+  }
+}
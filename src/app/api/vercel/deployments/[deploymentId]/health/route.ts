@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getVercelSession } from '../../../../../../lib/vercel/integrations';
+import { getDeploymentStore, snapshotFromDeployment } from '../../../../../../lib/vercel/deployments';
+import { runDeploymentHealthCheck } from '../../../../../../lib/vercel/deployment-sync';
+
+// The latest health check of a deployment
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ deploymentId: string }> }
+) {
+  try {
+    const { deploymentId } = await context.params;
+    const session = await getVercelSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Not authenticated with Vercel' },
+        { status: 401 }
+      );
+    }
+
+    const record = await getDeploymentStore().get(session.userId, deploymentId);
+    if (!record) {
+      return NextResponse.json(
+        { error: 'Deployment not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ health: record.health ?? null });
+  } catch (error) {
+    console.error('Error fetching deployment health:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch deployment health' },
+      { status: 500 }
+    );
+  }
+}
+
+// Check a READY deployment now with its project's settings. As after a
+// deployment, a failing production deployment may be rolled back.
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ deploymentId: string }> }
+) {
+  try {
+    const { deploymentId } = await context.params;
+    const session = await getVercelSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Not authenticated with Vercel' },
+        { status: 401 }
+      );
+    }
+
+    const deployment = await session.client.getDeployment(deploymentId);
+    if (deployment.state !== 'READY') {
+      return NextResponse.json(
+        { error: `Deployment is ${deployment.state}; only READY deployments can be checked` },
+        { status: 409 }
+      );
+    }
+
+    const { record } = await getDeploymentStore().upsert(session.userId, session.integration.id, snapshotFromDeployment(deployment));
+    const checked = await runDeploymentHealthCheck(record);
+    if (!checked.health) {
+      return NextResponse.json(
+        { error: 'Health checks are disabled for this project' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ health: checked.health });
+  } catch (error) {
+    console.error('Error checking deployment health:', error);
+    return NextResponse.json(
+      { error: 'Failed to check deployment health' },
+      { status: 500 }
+    );
+  }
+}
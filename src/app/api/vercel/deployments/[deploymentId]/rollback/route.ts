@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DeploymentRollbackError, VercelService } from '../../../../../../lib/vercel/services';
+
+const MAX_REASON_LENGTH = 500;
+
+// Roll production back to this deployment, an earlier READY production
+// deployment of the same project: its production aliases are pointed at it
+// without rebuilding. Body: `{ reason?, healthCheck? }`.
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ deploymentId: string }> }
+) {
+  try {
+    const { deploymentId } = await context.params;
+    const service = await VercelService.getInstance(request);
+    if (!service) {
+      return NextResponse.json(
+        { error: 'Not authenticated with Vercel' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { reason, healthCheck } = body;
+    if (reason !== undefined && (typeof reason !== 'string' || reason.length > MAX_REASON_LENGTH)) {
+      return NextResponse.json(
+        { error: `Reason must be a string of at most ${MAX_REASON_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const result = await service.rollbackToDeployment(deploymentId, {
+      reason: reason || undefined,
+      healthCheck: healthCheck !== false,
+    });
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof DeploymentRollbackError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error('Error rolling back deployment:', error);
+    return NextResponse.json(
+      { error: 'Failed to roll back deployment' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,13 +1,16 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { getVercelClient } from '../../../../../../lib/vercel/client';
+import { NextRequest, NextResponse, after } from 'next/server';
+import { getVercelSession } from '../../../../../../lib/vercel/integrations';
+import { DeploymentRecord, snapshotFromDeployment } from '../../../../../../lib/vercel/deployments';
+import { recordDeploymentState } from '../../../../../../lib/vercel/deployment-sync';
+import { executeFirings } from '../../../../../../lib/workflow-triggers';
 
 export async function GET(
   request: NextRequest,
   context: { params: Promise<{ deploymentId: string }> }
 ) {
   const params = await context.params;
-  const client = await getVercelClient();
-  if (!client) {
+  const session = await getVercelSession(request);
+  if (!session) {
     return NextResponse.json(
       { error: 'Not authenticated with Vercel' },
       { status: 401 }
@@ -15,11 +18,13 @@ export async function GET(
   }
 
   const { deploymentId } = params;
+  const { userId, integration, client } = session;
   const encoder = new TextEncoder();
 
   const customReadable = new ReadableStream({
     async start(controller) {
       let previousState = '';
+      let record: DeploymentRecord | null = null;
       let checkCount = 0;
       const maxChecks = 300; // 5 minutes max (1 check per second)
       
@@ -59,6 +64,22 @@ export async function GET(
               metrics,
               progress: getProgressForState(deployment.state),
             });
+
+            // Mirror the change locally; reaching READY or ERROR starts the
+            // user's workflows waiting on this deployment, which run after
+            // the stream, and READY runs the project's health checks
+            try {
+              const update = await recordDeploymentState(userId, integration.id, snapshotFromDeployment(deployment), deployment.inspectorUrl);
+              record = update.record;
+              if (update.followUp) {
+                const { record: checked, firings } = await update.followUp();
+                record = checked;
+                after(() => executeFirings(firings));
+              }
+            } catch (error) {
+              console.error('Failed to record deployment state:', error);
+              record = null;
+            }
           }
 
           // Check if deployment is complete
@@ -67,6 +88,7 @@ export async function GET(
             sendEvent('complete', {
               deployment,
               success: deployment.state === 'READY',
+              ...(record?.health && { health: record.health }),
             });
             
             // Close the stream
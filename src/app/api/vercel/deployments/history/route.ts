@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiRateLimiter } from '../../../../../lib/rate-limiter';
+import { getUserIdFromRequest } from '../../../../../lib/jwt';
+import { DeploymentStatus, getDeploymentStore } from '../../../../../lib/vercel/deployments';
+
+const STATUSES: DeploymentStatus[] = ['pending', 'building', 'ready', 'error', 'canceled'];
+const MAX_LIMIT = 100;
+
+// Deployment history from the local mirror, without calling Vercel
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Check rate limit
+    const { allowed, retryAfter } = await apiRateLimiter.checkLimit(userId);
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded', retryAfter },
+        {
+          status: 429,
+          headers: {
+            'Retry-After': retryAfter?.toString() || '60',
+          },
+        }
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const projectId = searchParams.get('projectId');
+    const status = searchParams.get('status');
+    const limit = parseInt(searchParams.get('limit') || '20');
+
+    if (status && !STATUSES.includes(status as DeploymentStatus)) {
+      return NextResponse.json(
+        { error: `Invalid status; expected one of ${STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const deployments = await getDeploymentStore().list(userId, {
+      ...(projectId && { vercelProjectId: projectId }),
+      ...(status && { status: status as DeploymentStatus }),
+      limit: Number.isFinite(limit) && limit > 0 ? Math.min(limit, MAX_LIMIT) : 20,
+    });
+    return NextResponse.json({ deployments });
+  } catch (error) {
+    console.error('Error fetching deployment history:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch deployment history' },
+      { status: 500 }
+    );
+  }
+}
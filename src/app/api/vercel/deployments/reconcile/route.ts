@@ -0,0 +1,37 @@
+import crypto from 'crypto';
+import { NextRequest, NextResponse, after } from 'next/server';
+import { reconcileDeployments, runFollowUps } from '../../../../../lib/vercel/deployment-sync';
+
+// Refreshes the local deployment mirror from Vercel; the workflow events and
+// health checks that calls for run after the response. Call it periodically
+// with `Authorization: Bearer $CRON_SECRET`, as Vercel Cron does (see vercel.json).
+export async function GET(request: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET;
+    if (!secret) {
+      return NextResponse.json(
+        { error: 'CRON_SECRET is not configured' },
+        { status: 503 }
+      );
+    }
+
+    const received = Buffer.from(request.headers.get('authorization') || '');
+    const expected = Buffer.from(`Bearer ${secret}`);
+    if (received.length !== expected.length || !crypto.timingSafeEqual(received, expected)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { result, updates } = await reconcileDeployments();
+    after(() => runFollowUps(updates));
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Deployment reconciliation error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
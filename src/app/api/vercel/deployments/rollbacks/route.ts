@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiRateLimiter } from '../../../../../lib/rate-limiter';
+import { getUserIdFromRequest } from '../../../../../lib/jwt';
+import { getDeploymentRollbackStore } from '../../../../../lib/vercel/rollbacks';
+
+const MAX_LIMIT = 100;
+
+// Your production rollbacks and promotions, most recent first
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Check rate limit
+    const { allowed, retryAfter } = await apiRateLimiter.checkLimit(userId);
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded', retryAfter },
+        {
+          status: 429,
+          headers: {
+            'Retry-After': retryAfter?.toString() || '60',
+          },
+        }
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const projectId = searchParams.get('projectId');
+    const limit = parseInt(searchParams.get('limit') || '20');
+
+    const rollbacks = await getDeploymentRollbackStore().list(userId, {
+      ...(projectId && { vercelProjectId: projectId }),
+      limit: Number.isFinite(limit) && limit > 0 ? Math.min(limit, MAX_LIMIT) : 20,
+    });
+    return NextResponse.json({ rollbacks });
+  } catch (error) {
+    console.error('Error fetching deployment rollbacks:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch deployment rollbacks' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getVercelClient } from '../../../../lib/vercel/client';
+import { getVercelClient, getVercelSession } from '../../../../lib/vercel/integrations';
+import { getDeploymentStore } from '../../../../lib/vercel/deployments';
 
 export async function GET(request: NextRequest) {
   try {
-    const client = await getVercelClient();
+    const client = await getVercelClient(request);
     if (!client) {
       return NextResponse.json(
         { error: 'Not authenticated with Vercel' },
@@ -39,20 +40,22 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    const client = await getVercelClient();
-    if (!client) {
+    const session = await getVercelSession(request);
+    if (!session) {
       return NextResponse.json(
         { error: 'Not authenticated with Vercel' },
         { status: 401 }
       );
     }
 
+    const { client } = session;
     const body = await request.json();
     const { action, deploymentId, ...params } = body;
 
     if (action === 'cancel' && deploymentId) {
       // Cancel deployment
       const result = await client.cancelDeployment(deploymentId);
+      await getDeploymentStore().upsert(session.userId, session.integration.id, { deploymentId, state: result.state });
       return NextResponse.json(result);
     }
 
@@ -1,9 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getVercelClient } from '../../../../lib/vercel/client';
+import { getVercelClient } from '../../../../lib/vercel/integrations';
 
 export async function GET(request: NextRequest) {
   try {
-    const client = await getVercelClient();
+    const client = await getVercelClient(request);
     if (!client) {
       return NextResponse.json(
         { error: 'Not authenticated with Vercel' },
@@ -34,7 +34,7 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    const client = await getVercelClient();
+    const client = await getVercelClient(request);
     if (!client) {
       return NextResponse.json(
         { error: 'Not authenticated with Vercel' },
@@ -72,7 +72,7 @@ export async function POST(request: NextRequest) {
 
 export async function DELETE(request: NextRequest) {
   try {
-    const client = await getVercelClient();
+    const client = await getVercelClient(request);
     if (!client) {
       return NextResponse.json(
         { error: 'Not authenticated with Vercel' },
@@ -1,10 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getVercelClient } from '../../../../lib/vercel/client';
+import { getVercelClient } from '../../../../lib/vercel/integrations';
 import { VercelService } from '../../../../lib/vercel/services';
 
 export async function GET(request: NextRequest) {
   try {
-    const client = await getVercelClient();
+    const client = await getVercelClient(request);
     if (!client) {
       return NextResponse.json(
         { error: 'Not authenticated with Vercel' },
@@ -35,7 +35,7 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    const service = await VercelService.getInstance();
+    const service = await VercelService.getInstance(request);
     if (!service) {
       return NextResponse.json(
         { error: 'Not authenticated with Vercel' },
@@ -53,7 +53,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const client = await getVercelClient();
+    const client = await getVercelClient(request);
     if (!client) {
       return NextResponse.json(
         { error: 'Not authenticated with Vercel' },
@@ -161,7 +161,7 @@ export async function POST(request: NextRequest) {
 
 export async function DELETE(request: NextRequest) {
   try {
-    const client = await getVercelClient();
+    const client = await getVercelClient(request);
     if (!client) {
       return NextResponse.json(
         { error: 'Not authenticated with Vercel' },
@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiRateLimiter } from '../../../../lib/rate-limiter';
+import { getUserIdFromRequest } from '../../../../lib/jwt';
+import {
+  activateVercelIntegration,
+  disconnectVercelIntegration,
+  listVercelIntegrations,
+} from '../../../../lib/vercel/integrations';
+
+// List the Vercel accounts and teams you connected; tokens are never returned
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Check rate limit
+    const { allowed, retryAfter } = await apiRateLimiter.checkLimit(userId);
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded', retryAfter },
+        {
+          status: 429,
+          headers: {
+            'Retry-After': retryAfter?.toString() || '60',
+          },
+        }
+      );
+    }
+
+    const integrations = await listVercelIntegrations(userId);
+    return NextResponse.json({ integrations });
+  } catch (error) {
+    console.error('List Vercel integrations error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Switch the account or team /api/vercel routes act on: { "integrationId": "..." }
+export async function PUT(request: NextRequest) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Check rate limit
+    const { allowed, retryAfter } = await apiRateLimiter.checkLimit(userId);
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded', retryAfter },
+        {
+          status: 429,
+          headers: {
+            'Retry-After': retryAfter?.toString() || '60',
+          },
+        }
+      );
+    }
+
+    const { integrationId } = await request.json();
+    if (typeof integrationId !== 'string' || !integrationId) {
+      return NextResponse.json(
+        { error: 'integrationId is required' },
+        { status: 400 }
+      );
+    }
+
+    const integration = await activateVercelIntegration(userId, integrationId);
+    if (!integration) {
+      return NextResponse.json(
+        { error: 'Integration not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ integration });
+  } catch (error) {
+    console.error('Select Vercel integration error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Disconnect an account or team (?integrationId=); another one becomes active
+export async function DELETE(request: NextRequest) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Check rate limit
+    const { allowed, retryAfter } = await apiRateLimiter.checkLimit(userId);
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded', retryAfter },
+        {
+          status: 429,
+          headers: {
+            'Retry-After': retryAfter?.toString() || '60',
+          },
+        }
+      );
+    }
+
+    const integrationId = request.nextUrl.searchParams.get('integrationId');
+    if (!integrationId) {
+      return NextResponse.json(
+        { error: 'integrationId is required' },
+        { status: 400 }
+      );
+    }
+
+    const deleted = await disconnectVercelIntegration(userId, integrationId);
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Integration not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ message: 'Integration deleted successfully' });
+  } catch (error) {
+    console.error('Delete Vercel integration error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
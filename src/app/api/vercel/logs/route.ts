@@ -1,9 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getVercelClient } from '../../../../lib/vercel/client';
+import { getVercelClient } from '../../../../lib/vercel/integrations';
 
 export async function GET(request: NextRequest) {
   try {
-    const client = await getVercelClient();
+    const client = await getVercelClient(request);
     if (!client) {
       return NextResponse.json(
         { error: 'Not authenticated with Vercel' },
@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiRateLimiter } from '../../../../../../lib/rate-limiter';
+import { getUserIdFromRequest } from '../../../../../../lib/jwt';
+import {
+  getHealthCheckConfig,
+  getHealthCheckConfigStore,
+  HealthCheckConfigError,
+  parseHealthCheckSettings,
+} from '../../../../../../lib/vercel/health';
+
+// Health checks run against the project's deployments once they are READY;
+// the defaults apply until settings are saved
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { projectId } = await context.params;
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Check rate limit
+    const { allowed, retryAfter } = await apiRateLimiter.checkLimit(userId);
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded', retryAfter },
+        {
+          status: 429,
+          headers: {
+            'Retry-After': retryAfter?.toString() || '60',
+          },
+        }
+      );
+    }
+
+    const config = await getHealthCheckConfig(userId, projectId);
+    return NextResponse.json({ config });
+  } catch (error) {
+    console.error('Error fetching health check settings:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch health check settings' },
+      { status: 500 }
+    );
+  }
+}
+
+// Replace the project's settings; omitted fields take their defaults
+export async function PUT(
+  request: NextRequest,
+  context: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { projectId } = await context.params;
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Check rate limit
+    const { allowed, retryAfter } = await apiRateLimiter.checkLimit(userId);
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded', retryAfter },
+        {
+          status: 429,
+          headers: {
+            'Retry-After': retryAfter?.toString() || '60',
+          },
+        }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const settings = parseHealthCheckSettings(body);
+    const config = await getHealthCheckConfigStore().save(userId, projectId, settings);
+    return NextResponse.json({ config });
+  } catch (error) {
+    if (error instanceof HealthCheckConfigError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+    console.error('Error saving health check settings:', error);
+    return NextResponse.json(
+      { error: 'Failed to save health check settings' },
+      { status: 500 }
+    );
+  }
+}
+
+// Go back to the defaults
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { projectId } = await context.params;
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Check rate limit
+    const { allowed, retryAfter } = await apiRateLimiter.checkLimit(userId);
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded', retryAfter },
+        {
+          status: 429,
+          headers: {
+            'Retry-After': retryAfter?.toString() || '60',
+          },
+        }
+      );
+    }
+
+    const deleted = await getHealthCheckConfigStore().delete(userId, projectId);
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Health check settings not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ message: 'Health check settings deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting health check settings:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete health check settings' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { VercelService } from '../../../../../lib/vercel/services';
+import { DeploymentRollbackError, VercelService } from '../../../../../lib/vercel/services';
 
 export async function POST(request: NextRequest) {
   try {
-    const service = await VercelService.getInstance();
+    const service = await VercelService.getInstance(request);
     if (!service) {
       return NextResponse.json(
         { error: 'Not authenticated with Vercel' },
@@ -84,7 +84,7 @@ export async function POST(request: NextRequest) {
       }
 
       case 'promote-deployment': {
-        const { deploymentId } = body;
+        const { deploymentId, reason } = body;
         
         if (!deploymentId) {
           return NextResponse.json(
@@ -93,12 +93,12 @@ export async function POST(request: NextRequest) {
           );
         }
 
-        const deployment = await service.promoteDeployment(deploymentId);
-        return NextResponse.json(deployment);
+        const result = await service.promoteDeployment(deploymentId, { reason });
+        return NextResponse.json(result);
       }
 
       case 'rollback': {
-        const { projectId } = body;
+        const { projectId, targetDeploymentId, reason } = body;
         
         if (!projectId) {
           return NextResponse.json(
@@ -107,8 +107,8 @@ export async function POST(request: NextRequest) {
           );
         }
 
-        const deployment = await service.rollbackDeployment(projectId);
-        return NextResponse.json(deployment);
+        const result = await service.rollbackDeployment(projectId, { targetDeploymentId, reason });
+        return NextResponse.json(result);
       }
 
       case 'get-metrics': {
@@ -132,6 +132,12 @@ export async function POST(request: NextRequest) {
         );
     }
   } catch (error) {
+    if (error instanceof DeploymentRollbackError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
     console.error('Error in project operation:', error);
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Operation failed' },
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import {
+  applyVercelWebhookEvent,
+  getVercelWebhookSecret,
+  runFollowUps,
+  verifyVercelSignature,
+  VercelWebhookEvent,
+} from '../../../../lib/vercel/deployment-sync';
+
+// Deployment events from Vercel, mirrored into the local Deployment table.
+// Configure the webhook in Vercel with this URL; deliveries are verified
+// with VERCEL_WEBHOOK_SECRET (or the integration's client secret). The
+// workflow events and health checks a delivery calls for run after the
+// response.
+export async function POST(request: NextRequest) {
+  try {
+    const secret = getVercelWebhookSecret();
+    if (!secret) {
+      return NextResponse.json(
+        { error: 'Vercel webhook secret is not configured' },
+        { status: 503 }
+      );
+    }
+
+    const signature = request.headers.get('x-vercel-signature');
+    const body = await request.text();
+    if (!signature || !verifyVercelSignature(body, signature, secret)) {
+      return NextResponse.json(
+        { error: 'Invalid webhook signature' },
+        { status: 401 }
+      );
+    }
+
+    let event: VercelWebhookEvent;
+    try {
+      event = JSON.parse(body);
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON payload' },
+        { status: 400 }
+      );
+    }
+
+    const updates = await applyVercelWebhookEvent(event);
+    after(() => runFollowUps(updates));
+    return NextResponse.json({ received: true, updated: updates.length });
+  } catch (error) {
+    console.error('Vercel webhook error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
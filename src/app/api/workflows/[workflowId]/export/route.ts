@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiRateLimiter } from '../../../../../lib/rate-limiter';
+import { getUserIdFromRequest } from '../../../../../lib/jwt';
+import { getWorkflowStore } from '../../../../../lib/workflows';
+import { getWorkflowVersion } from '../../../../../lib/workflow-versions';
+import { exportFilename, exportWorkflow } from '../../../../../lib/workflow-format';
+
+// Download the workflow (or ?version=N) as a portable workflow file.
+// Secrets in node data are replaced with placeholders.
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ workflowId: string }> }
+) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Check rate limit
+    const { allowed, retryAfter } = await apiRateLimiter.checkLimit(userId);
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded', retryAfter },
+        {
+          status: 429,
+          headers: {
+            'Retry-After': retryAfter?.toString() || '60',
+          },
+        }
+      );
+    }
+
+    const { workflowId } = await context.params;
+    const workflow = await getWorkflowStore().get(workflowId, userId);
+    if (!workflow) {
+      return NextResponse.json(
+        { error: 'Workflow not found' },
+        { status: 404 }
+      );
+    }
+
+    const versionParam = new URL(request.url).searchParams.get('version');
+    let graph = workflow;
+    if (versionParam) {
+      const version = Number(versionParam);
+      const saved = Number.isInteger(version) && version > 0
+        ? await getWorkflowVersion(workflowId, userId, version)
+        : null;
+      if (!saved) {
+        return NextResponse.json(
+          { error: 'Version not found' },
+          { status: 404 }
+        );
+      }
+      graph = { ...workflow, metadata: undefined, ...saved.snapshot };
+    }
+
+    return NextResponse.json(exportWorkflow(graph), {
+      headers: {
+        'Content-Disposition': `attachment; filename="${exportFilename(workflow.name)}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Export workflow error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,221 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiRateLimiter } from '../../../../lib/rate-limiter';
+import { getUserIdFromRequest } from '../../../../lib/jwt';
+import { WorkflowError, getWorkflowStore, parseWorkflowData, parseWorkflowGraph } from '../../../../lib/workflows';
+import { redactWorkflowSecrets } from '../../../../lib/workflow-format';
+import { removeWorkflowTriggers, syncWorkflowTriggers, triggersFromWorkflow } from '../../../../lib/workflow-triggers';
+
+// Get a workflow with its nodes and edges
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ workflowId: string }> }
+) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Check rate limit
+    const { allowed, retryAfter } = await apiRateLimiter.checkLimit(userId);
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded', retryAfter },
+        {
+          status: 429,
+          headers: {
+            'Retry-After': retryAfter?.toString() || '60',
+          },
+        }
+      );
+    }
+
+    const { workflowId } = await context.params;
+    const workflow = await getWorkflowStore().get(workflowId, userId);
+    if (!workflow) {
+      return NextResponse.json(
+        { error: 'Workflow not found' },
+        { status: 404 }
+      );
+    }
+
+    // Other people see a public workflow without its secrets
+    return NextResponse.json({ workflow: workflow.userId === userId ? workflow : redactWorkflowSecrets(workflow) });
+  } catch (error) {
+    console.error('Get workflow error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Save the whole graph: { "nodes": [...], "edges": [...], "metadata": {...} }.
+// Nodes and edges with saved ids are updated, others are added, and any
+// missing from the request are removed.
+export async function PUT(
+  request: NextRequest,
+  context: { params: Promise<{ workflowId: string }> }
+) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Check rate limit
+    const { allowed, retryAfter } = await apiRateLimiter.checkLimit(userId);
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded', retryAfter },
+        {
+          status: 429,
+          headers: {
+            'Retry-After': retryAfter?.toString() || '60',
+          },
+        }
+      );
+    }
+
+    const { workflowId } = await context.params;
+    const graph = parseWorkflowGraph(await request.json());
+    // Refuse invalid trigger nodes before anything is saved
+    triggersFromWorkflow(graph);
+    const saved = await getWorkflowStore().saveGraph(workflowId, userId, graph);
+    if (!saved) {
+      return NextResponse.json(
+        { error: 'Workflow not found' },
+        { status: 404 }
+      );
+    }
+    await syncWorkflowTriggers(saved.workflow);
+
+    return NextResponse.json(saved);
+  } catch (error) {
+    if (error instanceof WorkflowError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error('Save workflow error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Rename a workflow, change its description or share it with isPublic
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ workflowId: string }> }
+) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Check rate limit
+    const { allowed, retryAfter } = await apiRateLimiter.checkLimit(userId);
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded', retryAfter },
+        {
+          status: 429,
+          headers: {
+            'Retry-After': retryAfter?.toString() || '60',
+          },
+        }
+      );
+    }
+
+    const { workflowId } = await context.params;
+    const data = parseWorkflowData(await request.json(), true);
+    const workflow = await getWorkflowStore().update(workflowId, userId, data);
+    if (!workflow) {
+      return NextResponse.json(
+        { error: 'Workflow not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ workflow });
+  } catch (error) {
+    if (error instanceof WorkflowError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error('Update workflow error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Delete a workflow with its nodes and edges
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ workflowId: string }> }
+) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Check rate limit
+    const { allowed, retryAfter } = await apiRateLimiter.checkLimit(userId);
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded', retryAfter },
+        {
+          status: 429,
+          headers: {
+            'Retry-After': retryAfter?.toString() || '60',
+          },
+        }
+      );
+    }
+
+    const { workflowId } = await context.params;
+    const deleted = await getWorkflowStore().delete(workflowId, userId);
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Workflow not found' },
+        { status: 404 }
+      );
+    }
+    await removeWorkflowTriggers(workflowId, userId);
+
+    return NextResponse.json({ message: 'Workflow deleted successfully' });
+  } catch (error) {
+    if (error instanceof WorkflowError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error('Delete workflow error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiRateLimiter } from '../../../../../../lib/rate-limiter';
+import { getUserIdFromRequest } from '../../../../../../lib/jwt';
+import { getWorkflowRunStore } from '../../../../../../lib/workflow-engine';
+
+// Get a run with each node's input, output, error and duration
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ workflowId: string; runId: string }> }
+) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Check rate limit
+    const { allowed, retryAfter } = await apiRateLimiter.checkLimit(userId);
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded', retryAfter },
+        {
+          status: 429,
+          headers: {
+            'Retry-After': retryAfter?.toString() || '60',
+          },
+        }
+      );
+    }
+
+    const { workflowId, runId } = await context.params;
+    const run = await getWorkflowRunStore().get(runId, userId);
+    if (!run || run.workflowId !== workflowId) {
+      return NextResponse.json(
+        { error: 'Run not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ run });
+  } catch (error) {
+    console.error('Get workflow run error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,185 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ClaudeClient, getClaudeClient } from '../../../../../lib/claude-client';
+import { apiRateLimiter, streamRateLimiter } from '../../../../../lib/rate-limiter';
+import { getUserIdFromRequest } from '../../../../../lib/jwt';
+import { authenticateRequest } from '../../../../../lib/security/api-keys';
+import { streamSSE } from '../../../../../lib/sse-utils';
+import { UsageBudgetError, assertWithinBudget } from '../../../../../lib/usage';
+import { getWorkflowStore } from '../../../../../lib/workflows';
+import { getMatchingVersion, getWorkflowVersion } from '../../../../../lib/workflow-versions';
+import {
+  WorkflowExecutionError,
+  executeWorkflow,
+  getWorkflowRunStore,
+  validateWorkflowForRun,
+} from '../../../../../lib/workflow-engine';
+
+const MAX_RUNS_LISTED = 100;
+
+// List your runs of a workflow, most recent first (?limit=N, default 20)
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ workflowId: string }> }
+) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Check rate limit
+    const { allowed, retryAfter } = await apiRateLimiter.checkLimit(userId);
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded', retryAfter },
+        {
+          status: 429,
+          headers: {
+            'Retry-After': retryAfter?.toString() || '60',
+          },
+        }
+      );
+    }
+
+    const { workflowId } = await context.params;
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(Number(searchParams.get('limit')) || 20, MAX_RUNS_LISTED);
+
+    const runs = await getWorkflowRunStore().list(workflowId, userId, limit);
+    return NextResponse.json({ runs });
+  } catch (error) {
+    console.error('Get workflow runs error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Run the saved workflow, or one of its versions: { "input": {...},
+// "version": 3, "stream": true }. Streaming
+// sends run_start, node_start, node_retry, node_complete and run_complete
+// events; otherwise the finished run is returned.
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ workflowId: string }> }
+) {
+  try {
+    // A run started with an API key is budgeted by the key's tier
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    const { userId, tier: usageTier } = auth;
+
+    const body = await request.json().catch(() => ({}));
+    const { input, version, stream = true } = body;
+
+    // Check rate limit
+    const rateLimiter = stream ? streamRateLimiter : apiRateLimiter;
+    const { allowed, retryAfter } = await rateLimiter.checkLimit(userId);
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded', retryAfter },
+        {
+          status: 429,
+          headers: {
+            'Retry-After': retryAfter?.toString() || '60',
+          },
+        }
+      );
+    }
+
+    const { workflowId } = await context.params;
+    const saved = await getWorkflowStore().get(workflowId, userId);
+    if (!saved) {
+      return NextResponse.json(
+        { error: 'Workflow not found' },
+        { status: 404 }
+      );
+    }
+    // Runs use the credentials saved in the workflow, so only its owner can
+    // start one; others can fork it
+    if (saved.userId !== userId) {
+      return NextResponse.json(
+        { error: 'Only the owner can run this workflow' },
+        { status: 403 }
+      );
+    }
+
+    if (version !== undefined && !(Number.isInteger(version) && version > 0)) {
+      return NextResponse.json(
+        { error: 'version must be a positive integer' },
+        { status: 400 }
+      );
+    }
+    const snapshot = version !== undefined ? await getWorkflowVersion(workflowId, userId, version) : null;
+    if (version !== undefined && !snapshot) {
+      return NextResponse.json(
+        { error: `Version ${version} not found` },
+        { status: 404 }
+      );
+    }
+    const workflow = snapshot ? { ...saved, ...snapshot.snapshot } : saved;
+
+    // Refuse graphs that cannot run before a run is recorded
+    validateWorkflowForRun(workflow);
+
+    // AI nodes need a client and count against the user's budget
+    let client: ClaudeClient | undefined;
+    if (workflow.nodes.some(node => node.type === 'ai')) {
+      const apiKey = process.env.ANTHROPIC_API_KEY;
+      if (!apiKey) {
+        return NextResponse.json(
+          { error: 'API key not configured' },
+          { status: 500 }
+        );
+      }
+      client = getClaudeClient(apiKey);
+      await assertWithinBudget(userId, { tier: usageTier });
+    }
+
+    const options = {
+      userId,
+      input,
+      version: snapshot ? snapshot.version : await getMatchingVersion(workflow),
+      client,
+      usageTier,
+      signal: request.signal,
+    };
+
+    if (stream) {
+      return streamSSE(async (send) => {
+        await executeWorkflow(workflow, { ...options, onEvent: send });
+        send({ type: 'done' });
+      });
+    }
+
+    const run = await executeWorkflow(workflow, options);
+    return NextResponse.json({ run });
+  } catch (error) {
+    if (error instanceof WorkflowExecutionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    if (error instanceof UsageBudgetError) {
+      return NextResponse.json(
+        { error: 'Monthly token budget exceeded', code: 'BUDGET_EXCEEDED', details: error.status },
+        { status: 402 }
+      );
+    }
+    console.error('Run workflow error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
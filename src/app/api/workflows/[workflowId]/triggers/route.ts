@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiRateLimiter } from '../../../../../lib/rate-limiter';
+import { getUserIdFromRequest } from '../../../../../lib/jwt';
+import { getWorkflowTriggerStore } from '../../../../../lib/workflow-triggers';
+
+// The triggers registered from the workflow's trigger nodes (owner only).
+// Webhook triggers include the URL to call and the secret to sign with.
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ workflowId: string }> }
+) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Check rate limit
+    const { allowed, retryAfter } = await apiRateLimiter.checkLimit(userId);
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded', retryAfter },
+        {
+          status: 429,
+          headers: {
+            'Retry-After': retryAfter?.toString() || '60',
+          },
+        }
+      );
+    }
+
+    const { workflowId } = await context.params;
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+    const triggers = (await getWorkflowTriggerStore().list(workflowId, userId)).map(trigger =>
+      trigger.type === 'webhook'
+        ? { ...trigger, url: `${baseUrl}/api/workflows/triggers/${trigger.id}` }
+        : trigger
+    );
+
+    return NextResponse.json({ triggers });
+  } catch (error) {
+    console.error('Get workflow triggers error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiRateLimiter } from '../../../../../../lib/rate-limiter';
+import { getUserIdFromRequest } from '../../../../../../lib/jwt';
+import { WorkflowError } from '../../../../../../lib/workflows';
+import {
+  forkWorkflowVersion,
+  getWorkflowVersion,
+  restoreWorkflowVersion,
+} from '../../../../../../lib/workflow-versions';
+import { syncWorkflowTriggers } from '../../../../../../lib/workflow-triggers';
+
+async function parseParams(context: { params: Promise<{ workflowId: string; version: string }> }) {
+  const { workflowId, version } = await context.params;
+  const number = Number(version);
+  if (!Number.isInteger(number) || number < 1) {
+    throw new WorkflowError('Versions must be positive integers', 400);
+  }
+  return { workflowId, version: number };
+}
+
+// Get a version with its nodes, edges and metadata
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ workflowId: string; version: string }> }
+) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Check rate limit
+    const { allowed, retryAfter } = await apiRateLimiter.checkLimit(userId);
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded', retryAfter },
+        {
+          status: 429,
+          headers: {
+            'Retry-After': retryAfter?.toString() || '60',
+          },
+        }
+      );
+    }
+
+    const { workflowId, version } = await parseParams(context);
+    const saved = await getWorkflowVersion(workflowId, userId, version);
+    if (!saved) {
+      return NextResponse.json(
+        { error: 'Version not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ version: saved });
+  } catch (error) {
+    if (error instanceof WorkflowError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error('Get workflow version error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// { "action": "restore" } makes this version the workflow's current graph;
+// { "action": "fork", "name": "..." } starts a new workflow of your own from it
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ workflowId: string; version: string }> }
+) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Check rate limit
+    const { allowed, retryAfter } = await apiRateLimiter.checkLimit(userId);
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded', retryAfter },
+        {
+          status: 429,
+          headers: {
+            'Retry-After': retryAfter?.toString() || '60',
+          },
+        }
+      );
+    }
+
+    const { workflowId, version } = await parseParams(context);
+    const { action, name } = await request.json();
+
+    if (action === 'restore') {
+      const workflow = await restoreWorkflowVersion(workflowId, userId, version);
+      await syncWorkflowTriggers(workflow);
+      return NextResponse.json({ workflow });
+    }
+
+    if (action === 'fork') {
+      if (name !== undefined && (typeof name !== 'string' || !name.trim() || name.length > 200)) {
+        return NextResponse.json(
+          { error: 'name must be a string of up to 200 characters' },
+          { status: 400 }
+        );
+      }
+      const workflow = await forkWorkflowVersion(workflowId, userId, version, name?.trim());
+      await syncWorkflowTriggers(workflow);
+      return NextResponse.json({ workflow }, { status: 201 });
+    }
+
+    return NextResponse.json(
+      { error: 'Invalid action' },
+      { status: 400 }
+    );
+  } catch (error) {
+    if (error instanceof WorkflowError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error('Workflow version action error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiRateLimiter } from '../../../../../lib/rate-limiter';
+import { getUserIdFromRequest } from '../../../../../lib/jwt';
+import { WorkflowError, getWorkflowStore, parseWorkflowGraph } from '../../../../../lib/workflows';
+import {
+  diffWorkflowVersions,
+  listWorkflowVersions,
+  parseVersionLabel,
+  saveWorkflowVersion,
+} from '../../../../../lib/workflow-versions';
+import { syncWorkflowTriggers, triggersFromWorkflow } from '../../../../../lib/workflow-triggers';
+
+function parseVersion(value: string | null): number | undefined {
+  if (value === null) {
+    return undefined;
+  }
+  const version = Number(value);
+  if (!Number.isInteger(version) || version < 1) {
+    throw new WorkflowError('Versions must be positive integers', 400);
+  }
+  return version;
+}
+
+// List a workflow's versions, newest first. ?from=N&to=M compares two
+// versions instead; without `to`, version N is compared with the current graph.
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ workflowId: string }> }
+) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Check rate limit
+    const { allowed, retryAfter } = await apiRateLimiter.checkLimit(userId);
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded', retryAfter },
+        {
+          status: 429,
+          headers: {
+            'Retry-After': retryAfter?.toString() || '60',
+          },
+        }
+      );
+    }
+
+    const { workflowId } = await context.params;
+    const { searchParams } = new URL(request.url);
+    const from = parseVersion(searchParams.get('from'));
+
+    if (from !== undefined) {
+      const to = parseVersion(searchParams.get('to'));
+      const diff = await diffWorkflowVersions(workflowId, userId, from, to);
+      return NextResponse.json({ from, to: to ?? 'current', diff });
+    }
+
+    const versions = await listWorkflowVersions(workflowId, userId);
+    if (!versions) {
+      return NextResponse.json(
+        { error: 'Workflow not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ versions });
+  } catch (error) {
+    if (error instanceof WorkflowError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error('Get workflow versions error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Save the current graph as a new version: { "label": "Before refactor" }.
+// Sending nodes, edges and metadata as well saves that graph first.
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ workflowId: string }> }
+) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Check rate limit
+    const { allowed, retryAfter } = await apiRateLimiter.checkLimit(userId);
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded', retryAfter },
+        {
+          status: 429,
+          headers: {
+            'Retry-After': retryAfter?.toString() || '60',
+          },
+        }
+      );
+    }
+
+    const { workflowId } = await context.params;
+    const body = await request.json().catch(() => ({}));
+    const label = parseVersionLabel(body.label);
+
+    if (body.nodes !== undefined || body.edges !== undefined) {
+      const graph = parseWorkflowGraph(body);
+      triggersFromWorkflow(graph);
+      const saved = await getWorkflowStore().saveGraph(workflowId, userId, graph);
+      if (!saved) {
+        return NextResponse.json(
+          { error: 'Workflow not found' },
+          { status: 404 }
+        );
+      }
+      await syncWorkflowTriggers(saved.workflow);
+    }
+
+    const version = await saveWorkflowVersion(workflowId, userId, label);
+    return NextResponse.json({ version }, { status: 201 });
+  } catch (error) {
+    if (error instanceof WorkflowError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error('Save workflow version error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
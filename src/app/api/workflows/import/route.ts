@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiRateLimiter } from '../../../../lib/rate-limiter';
+import { getUserIdFromRequest } from '../../../../lib/jwt';
+import { WorkflowError, getWorkflowStore, parseWorkflowData } from '../../../../lib/workflows';
+import { WorkflowFormatError, importWorkflow } from '../../../../lib/workflow-format';
+import { syncWorkflowTriggers, triggersFromWorkflow } from '../../../../lib/workflow-triggers';
+
+function isSecretMap(value: unknown): value is Record<string, string> {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    !Array.isArray(value) &&
+    Object.values(value).every(entry => typeof entry === 'string')
+  );
+}
+
+// Create a workflow from a workflow file: { "file": {...}, "name": "...",
+// "secrets": { "API_HEADERS_AUTHORIZATION": "Bearer ..." } }. Nodes and edges
+// get new ids (see `idMap`); placeholders for secrets not supplied are kept
+// and listed in `missingSecrets`.
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Check rate limit
+    const { allowed, retryAfter } = await apiRateLimiter.checkLimit(userId);
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded', retryAfter },
+        {
+          status: 429,
+          headers: {
+            'Retry-After': retryAfter?.toString() || '60',
+          },
+        }
+      );
+    }
+
+    const body = await request.json();
+    const { file, name, projectId, secrets = {} } = body;
+
+    if (!file) {
+      return NextResponse.json(
+        { error: 'A workflow file is required' },
+        { status: 400 }
+      );
+    }
+    if (!isSecretMap(secrets)) {
+      return NextResponse.json(
+        { error: 'secrets must map names to strings' },
+        { status: 400 }
+      );
+    }
+
+    const imported = importWorkflow(file, secrets);
+    const data = parseWorkflowData({
+      name: name ?? imported.name,
+      description: imported.description,
+      projectId,
+      ...imported.graph,
+    });
+    triggersFromWorkflow(imported.graph);
+    const { workflow, idMap } = await getWorkflowStore().create(userId, data);
+    await syncWorkflowTriggers(workflow);
+
+    return NextResponse.json({ workflow, idMap, missingSecrets: imported.missingSecrets }, { status: 201 });
+  } catch (error) {
+    if (error instanceof WorkflowFormatError) {
+      return NextResponse.json(
+        { error: error.message, ...(error.errors && { errors: error.errors }) },
+        { status: error.status }
+      );
+    }
+    if (error instanceof WorkflowError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error('Import workflow error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
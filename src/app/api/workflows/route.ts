@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiRateLimiter } from '../../../lib/rate-limiter';
+import { getUserIdFromRequest } from '../../../lib/jwt';
+import { WorkflowError, getWorkflowStore, parseWorkflowData } from '../../../lib/workflows';
+import { syncWorkflowTriggers, triggersFromWorkflow } from '../../../lib/workflow-triggers';
+
+// List your workflows (optionally ?projectId=...), or ?public=true for
+// everyone's public workflows
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Check rate limit
+    const { allowed, retryAfter } = await apiRateLimiter.checkLimit(userId);
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded', retryAfter },
+        {
+          status: 429,
+          headers: {
+            'Retry-After': retryAfter?.toString() || '60',
+          },
+        }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const workflows = await getWorkflowStore().list(userId, {
+      projectId: searchParams.get('projectId') || undefined,
+      publicOnly: searchParams.get('public') === 'true',
+    });
+
+    return NextResponse.json({ workflows });
+  } catch (error) {
+    console.error('Get workflows error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Create a workflow, e.g. { "name": "Summarize issues", "nodes": [...],
+// "edges": [...] }; new node and edge ids are returned in `idMap`
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Check rate limit
+    const { allowed, retryAfter } = await apiRateLimiter.checkLimit(userId);
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded', retryAfter },
+        {
+          status: 429,
+          headers: {
+            'Retry-After': retryAfter?.toString() || '60',
+          },
+        }
+      );
+    }
+
+    const data = parseWorkflowData(await request.json());
+    // Refuse invalid trigger nodes before anything is saved
+    triggersFromWorkflow({ nodes: data.nodes ?? [] });
+    const { workflow, idMap } = await getWorkflowStore().create(userId, data);
+    await syncWorkflowTriggers(workflow);
+
+    return NextResponse.json({ workflow, idMap }, { status: 201 });
+  } catch (error) {
+    if (error instanceof WorkflowError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error('Create workflow error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { apiRateLimiter } from '../../../../../lib/rate-limiter';
+import { verifyWebhookSignature } from '../../../../../lib/security/webhooks';
+import { executeFirings, fireTrigger, getWorkflowTriggerStore } from '../../../../../lib/workflow-triggers';
+
+// Inbound webhook of a workflow's webhook node. The body is signed like
+// outgoing webhooks: X-Webhook-Signature is `v1=` plus the hex HMAC-SHA256
+// of `v1:<X-Webhook-Timestamp>:<body>` with the trigger's secret. A
+// delivery retried with the same X-Webhook-Id runs the workflow only once.
+// Replies 202 once the run is recorded; it executes after the response.
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ triggerId: string }> }
+) {
+  try {
+    const { triggerId } = await context.params;
+
+    // Check rate limit
+    const { allowed, retryAfter } = await apiRateLimiter.checkLimit(`webhook:${triggerId}`);
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded', retryAfter },
+        {
+          status: 429,
+          headers: {
+            'Retry-After': retryAfter?.toString() || '60',
+          },
+        }
+      );
+    }
+
+    const trigger = await getWorkflowTriggerStore().get(triggerId);
+    if (!trigger || trigger.type !== 'webhook' || !trigger.secret) {
+      return NextResponse.json(
+        { error: 'Webhook not found' },
+        { status: 404 }
+      );
+    }
+
+    const signature = request.headers.get('x-webhook-signature');
+    const timestamp = Number(request.headers.get('x-webhook-timestamp'));
+    const body = await request.text();
+    if (!signature || !Number.isFinite(timestamp) || !verifyWebhookSignature(body, signature, trigger.secret, timestamp)) {
+      return NextResponse.json(
+        { error: 'Invalid webhook signature' },
+        { status: 401 }
+      );
+    }
+
+    let payload: unknown = null;
+    if (body) {
+      try {
+        payload = JSON.parse(body);
+      } catch {
+        return NextResponse.json(
+          { error: 'Invalid JSON payload' },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Without a delivery id the signature identifies the delivery
+    const deliveryId = request.headers.get('x-webhook-id') || signature;
+    const firing = await fireTrigger(trigger, payload, `webhook:${deliveryId}`);
+    if (firing.error) {
+      return NextResponse.json(
+        { error: firing.error },
+        { status: 422 }
+      );
+    }
+
+    after(() => executeFirings([firing]));
+    return NextResponse.json(
+      {
+        duplicate: firing.duplicate,
+        ...(firing.run && { runId: firing.run.id, status: firing.run.status }),
+      },
+      { status: firing.duplicate ? 200 : 202 }
+    );
+  } catch (error) {
+    console.error('Workflow webhook error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
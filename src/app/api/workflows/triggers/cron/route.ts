@@ -0,0 +1,47 @@
+import crypto from 'crypto';
+import { NextRequest, NextResponse, after } from 'next/server';
+import { failStaleRuns } from '../../../../../lib/workflow-engine';
+import { executeFirings, runDueSchedules } from '../../../../../lib/workflow-triggers';
+
+// Fires the schedule triggers that are due and fails runs that were lost
+// before finishing. The new runs execute after the response. Call it every
+// minute with `Authorization: Bearer $CRON_SECRET`, as Vercel Cron does
+// (see vercel.json).
+export async function GET(request: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET;
+    if (!secret) {
+      return NextResponse.json(
+        { error: 'CRON_SECRET is not configured' },
+        { status: 503 }
+      );
+    }
+
+    const received = Buffer.from(request.headers.get('authorization') || '');
+    const expected = Buffer.from(`Bearer ${secret}`);
+    if (received.length !== expected.length || !crypto.timingSafeEqual(received, expected)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const failedStale = await failStaleRuns();
+    const firings = await runDueSchedules();
+    after(() => executeFirings(firings));
+    return NextResponse.json({
+      failedStale,
+      fired: firings.map(firing => ({
+        triggerId: firing.triggerId,
+        ...(firing.run && { runId: firing.run.id, status: firing.run.status }),
+        ...(firing.error && { error: firing.error }),
+      })),
+    });
+  } catch (error) {
+    console.error('Workflow cron error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
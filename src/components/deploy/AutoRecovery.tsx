@@ -11,6 +11,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '../ui/tabs';
 import { cn } from '../../lib/utils';
 import { useToast } from '../../hooks/use-toast';
 
+// Shapes as returned by /api/vercel/deployments/[deploymentId]/analysis
 interface ErrorInfo {
   id: string;
   type: string;
@@ -41,135 +42,171 @@ interface CodeChange {
   lineEnd: number;
 }
 
+// As returned by /api/vercel/deployments/[deploymentId]/fixes
+interface AppliedFix {
+  fixId: string;
+  branch: string;
+  baseBranch: string;
+  commit: string;
+  files: string[];
+  pushed: boolean;
+  pushError?: string;
+}
+
+interface Redeployment {
+  id: string;
+  url: string;
+  readyState: string;
+}
+
+interface FixResult {
+  applied: AppliedFix;
+  deployment: Redeployment | null;
+  redeployError?: string;
+}
+
 interface AutoRecoveryProps {
+  // Failed Vercel deployment whose build logs are analyzed
+  deploymentId?: string;
+  // Local project; the failing file is read from its workspace and fixes
+  // are committed to the git repository there
+  projectId?: string;
+  // Error to analyze; otherwise the first one found in the build logs
   error?: ErrorInfo;
-  onFixApplied?: (fix: SuggestedFix) => void;
-  onRedeploy?: () => void;
+  onFixApplied?: (fix: SuggestedFix, applied: AppliedFix) => void;
+  // Called once a preview of the fix branch is building
+  onRedeploy?: (deployment: Redeployment) => void;
   className?: string;
 }
 
 const AutoRecovery: React.FC<AutoRecoveryProps> = ({
+  deploymentId,
+  projectId,
   error,
   onFixApplied,
   onRedeploy,
   className
 }) => {
   const { toast } = useToast();
+  const [detectedError, setDetectedError] = useState<ErrorInfo | null>(null);
+  const [analysisError, setAnalysisError] = useState<string | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [suggestedFixes, setSuggestedFixes] = useState<SuggestedFix[]>([]);
   const [selectedFix, setSelectedFix] = useState<SuggestedFix | null>(null);
   const [isApplyingFix, setIsApplyingFix] = useState(false);
+  const [fixResult, setFixResult] = useState<FixResult | null>(null);
   const [analysisProgress, setAnalysisProgress] = useState(0);
 
-  // Simulate error analysis with Claude
+  const currentError = error ?? detectedError;
+  const errorId = error?.id;
+
+  // Read the build errors and ask Claude for fixes
   const analyzeError = useCallback(async () => {
-    if (!error) return;
+    if (!deploymentId) return;
 
     setIsAnalyzing(true);
     setAnalysisProgress(0);
+    setAnalysisError(null);
+    setSuggestedFixes([]);
+    setSelectedFix(null);
+    setFixResult(null);
 
-    // Simulate analysis progress
+    // The request reports no progress, so creep towards 90% while it runs
     const progressInterval = setInterval(() => {
-      setAnalysisProgress(prev => {
-        if (prev >= 100) {
-          clearInterval(progressInterval);
-          return 100;
-        }
-        return prev + 10;
-      });
-    }, 200);
+      setAnalysisProgress(prev => Math.min(prev + 5, 90));
+    }, 500);
 
-    // Simulate Claude API call
-    setTimeout(() => {
-      const mockFixes: SuggestedFix[] = [
-        {
-          id: '1',
-          description: 'Fix TypeScript type mismatch in deployment configuration',
-          confidence: 92,
-          explanation: 'The error occurs because the deployment config expects a string value for the environment variable, but a number is being passed.',
-          estimatedImpact: 'low',
-          changes: [
-            {
-              file: 'src/config/deployment.ts',
-              oldCode: 'const port = process.env.PORT || 3000;',
-              newCode: 'const port = process.env.PORT || "3000";',
-              lineStart: 15,
-              lineEnd: 15
-            }
-          ]
-        },
-        {
-          id: '2',
-          description: 'Add missing error boundary for deployment pipeline',
-          confidence: 78,
-          explanation: 'The deployment pipeline crashes when an uncaught error occurs. Adding an error boundary will gracefully handle failures.',
-          estimatedImpact: 'medium',
-          changes: [
-            {
-              file: 'src/components/deploy/Pipeline.tsx',
-              oldCode: 'export default function Pipeline({ children }) {',
-              newCode: 'export default function Pipeline({ children }) {\n  try {',
-              lineStart: 10,
-              lineEnd: 10
-            },
-            {
-              file: 'src/components/deploy/Pipeline.tsx',
-              oldCode: '}',
-              newCode: '  } catch (error) {\n    console.error("Pipeline error:", error);\n    return <ErrorFallback error={error} />;\n  }\n}',
-              lineStart: 45,
-              lineEnd: 45
-            }
-          ]
-        },
-        {
-          id: '3',
-          description: 'Update dependency version to fix compatibility issue',
-          confidence: 65,
-          explanation: 'The current version of the deployment library has a known issue. Updating to the latest version should resolve this.',
-          estimatedImpact: 'high',
-          changes: [
-            {
-              file: 'package.json',
-              oldCode: '"deployment-lib": "^2.1.0",',
-              newCode: '"deployment-lib": "^2.3.1",',
-              lineStart: 28,
-              lineEnd: 28
-            }
-          ]
-        }
-      ];
+    try {
+      const response = await fetch(`/api/vercel/deployments/${deploymentId}/analysis`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ projectId, errorId })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to analyze the build');
+      }
 
-      setSuggestedFixes(mockFixes);
-      setIsAnalyzing(false);
-      clearInterval(progressInterval);
-      setAnalysisProgress(100);
+      setDetectedError(data.analyzedError);
+      setSuggestedFixes(data.fixes);
 
       toast({
         title: "Analysis Complete",
-        description: `Found ${mockFixes.length} potential fixes for the error.`
+        description: data.analyzedError
+          ? `Found ${data.fixes.length} potential fixes for the error.`
+          : "No build errors were found in the logs."
       });
-    }, 2500);
-  }, [error, toast]);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to analyze the build';
+      setAnalysisError(message);
+      toast({
+        title: "Analysis Failed",
+        description: message,
+        variant: "destructive"
+      });
+    } finally {
+      clearInterval(progressInterval);
+      setIsAnalyzing(false);
+      setAnalysisProgress(100);
+    }
+  }, [deploymentId, projectId, errorId, toast]);
 
   useEffect(() => {
-    if (error) {
+    if (deploymentId) {
       analyzeError();
     }
-  }, [error, analyzeError]);
+  }, [deploymentId, analyzeError]);
 
+  // Commit the fix to a new branch and build it as a preview
   const applyFix = async (fix: SuggestedFix) => {
+    if (!deploymentId || !projectId) {
+      toast({
+        title: "Cannot Apply Fix",
+        description: "Link a project so the fix can be committed to its repository.",
+        variant: "destructive"
+      });
+      return;
+    }
+
     setIsApplyingFix(true);
+    try {
+      const response = await fetch(`/api/vercel/deployments/${deploymentId}/fixes`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ projectId, fix })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to apply the fix');
+      }
 
-    // Simulate applying the fix
-    setTimeout(() => {
-      setIsApplyingFix(false);
-      onFixApplied?.(fix);
-      
+      const result = data as FixResult;
+      setFixResult(result);
+      onFixApplied?.(fix, result.applied);
+
+      if (result.deployment) {
+        onRedeploy?.(result.deployment);
+        toast({
+          title: "Fix Applied Successfully",
+          description: `Committed to ${result.applied.branch}; redeploying as ${result.deployment.url}.`
+        });
+      } else {
+        toast({
+          title: "Fix Committed",
+          description: result.redeployError
+            ? `Committed to ${result.applied.branch}, but it was not redeployed: ${result.redeployError}`
+            : `Committed to ${result.applied.branch}.`
+        });
+      }
+    } catch (err) {
       toast({
-        title: "Fix Applied Successfully",
-        description: "The suggested changes have been applied to your codebase."
+        title: "Failed to Apply Fix",
+        description: err instanceof Error ? err.message : 'Failed to apply the fix',
+        variant: "destructive"
       });
-    }, 1500);
+    } finally {
+      setIsApplyingFix(false);
+    }
   };
 
   const getConfidenceColor = (confidence: number) => {
@@ -187,7 +224,7 @@ const AutoRecovery: React.FC<AutoRecoveryProps> = ({
     }
   };
 
-  if (!error) {
+  if (!currentError && !isAnalyzing && !analysisError) {
     return (
       <Card className={cn("bg-gray-900 border-gray-800", className)}>
         <CardContent className="py-12 text-center">
@@ -201,20 +238,37 @@ const AutoRecovery: React.FC<AutoRecoveryProps> = ({
   return (
     <div className={cn("space-y-6", className)}>
       {/* Error Alert */}
-      <Alert className="bg-red-900/20 border-red-800">
-        <AlertTriangle className="h-4 w-4" />
-        <AlertTitle>Deployment Error Detected</AlertTitle>
-        <AlertDescription className="mt-2">
-          <div className="space-y-2">
-            <p className="font-mono text-sm">{error.message}</p>
-            {error.context?.file && (
-              <p className="text-xs text-gray-400">
-                {error.context.file}:{error.context.line}:{error.context.column}
-              </p>
-            )}
-          </div>
-        </AlertDescription>
-      </Alert>
+      {currentError && (
+        <Alert className="bg-red-900/20 border-red-800">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Deployment Error Detected</AlertTitle>
+          <AlertDescription className="mt-2">
+            <div className="space-y-2">
+              <p className="font-mono text-sm">{currentError.message}</p>
+              {currentError.context?.file && (
+                <p className="text-xs text-gray-400">
+                  {currentError.context.file}:{currentError.context.line}:{currentError.context.column}
+                </p>
+              )}
+            </div>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* Analysis Failure */}
+      {analysisError && !isAnalyzing && (
+        <Alert className="bg-yellow-900/20 border-yellow-800">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Analysis Failed</AlertTitle>
+          <AlertDescription className="mt-2 flex items-center justify-between gap-4">
+            <span className="text-sm">{analysisError}</span>
+            <Button size="sm" variant="outline" onClick={analyzeError}>
+              <RefreshCw className="w-4 h-4 mr-2" />
+              Retry
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
 
       {/* Analysis Progress */}
       {isAnalyzing && (
@@ -306,7 +360,7 @@ const AutoRecovery: React.FC<AutoRecoveryProps> = ({
                 <Button
                   size="sm"
                   onClick={() => applyFix(selectedFix)}
-                  disabled={isApplyingFix}
+                  disabled={isApplyingFix || fixResult?.applied.fixId === selectedFix.id}
                 >
                   {isApplyingFix ? (
                     <>
@@ -375,18 +429,35 @@ const AutoRecovery: React.FC<AutoRecoveryProps> = ({
         </Card>
       )}
 
-      {/* Redeploy Button */}
-      {onRedeploy && (
-        <div className="flex justify-center">
-          <Button
-            size="lg"
-            onClick={onRedeploy}
-            className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
-          >
-            <RefreshCw className="w-5 h-5 mr-2" />
-            Redeploy with Fixes
-          </Button>
-        </div>
+      {/* Applied Fix */}
+      {fixResult && (
+        <Alert className="bg-green-900/20 border-green-800">
+          <CheckCircle className="h-4 w-4" />
+          <AlertTitle>Fix Committed to {fixResult.applied.branch}</AlertTitle>
+          <AlertDescription className="mt-2">
+            <div className="space-y-1 text-sm">
+              <p className="font-mono text-xs text-gray-400">
+                {fixResult.applied.commit.slice(0, 7)} on top of {fixResult.applied.baseBranch}: {fixResult.applied.files.join(', ')}
+              </p>
+              {fixResult.deployment ? (
+                <p className="flex items-center gap-2">
+                  <RefreshCw className="w-4 h-4 animate-spin" />
+                  Redeploying as{' '}
+                  <a
+                    href={`https://${fixResult.deployment.url}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="underline"
+                  >
+                    {fixResult.deployment.url}
+                  </a>
+                </p>
+              ) : fixResult.redeployError && (
+                <p className="text-yellow-400">Not redeployed: {fixResult.redeployError}</p>
+              )}
+            </div>
+          </AlertDescription>
+        </Alert>
       )}
     </div>
   );
@@ -1,8 +1,8 @@
 'use client';
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Terminal, Activity, Clock, AlertTriangle, Zap, TrendingUp, TrendingDown } from 'lucide-react';
+import { Terminal, Activity, Clock, AlertTriangle, Zap, TrendingUp, TrendingDown, ShieldCheck, ShieldAlert, RefreshCw } from 'lucide-react';
 import { Line, Bar } from 'react-chartjs-2';
 import {
   Chart as ChartJS,
@@ -50,14 +50,26 @@ interface PerformanceMetric {
   bundleSize: number;
 }
 
+interface HealthCheck {
+  healthy: boolean;
+  url: string;
+  status?: number;
+  latencyMs?: number;
+  error?: string;
+  attempts: number;
+  checkedAt: string;
+}
+
+// As returned by /api/vercel/deployments/history
 interface DeploymentRecord {
-  id: string;
-  timestamp: string;
-  version: string;
-  status: 'success' | 'failed' | 'rollback';
-  duration: number;
-  triggeredBy: string;
-  changes: number;
+  deploymentId: string;
+  name?: string;
+  url?: string;
+  status: 'pending' | 'building' | 'ready' | 'error' | 'canceled';
+  environment: string;
+  createdAt: string;
+  readyAt?: string;
+  health?: HealthCheck;
 }
 
 interface DeploymentMonitorProps {
@@ -67,7 +79,7 @@ interface DeploymentMonitorProps {
 }
 
 const DeploymentMonitor: React.FC<DeploymentMonitorProps> = ({
-  deploymentId: _deploymentId,
+  deploymentId,
   onErrorDetected,
   className
 }) => {
@@ -76,42 +88,61 @@ const DeploymentMonitor: React.FC<DeploymentMonitorProps> = ({
   const [logs, setLogs] = useState<BuildLog[]>([]);
   const [metrics, setMetrics] = useState<PerformanceMetric[]>([]);
   const [deploymentHistory, setDeploymentHistory] = useState<DeploymentRecord[]>([]);
+  const [health, setHealth] = useState<HealthCheck | null>(null);
+  const [isCheckingHealth, setIsCheckingHealth] = useState(false);
   const [isLive, setIsLive] = useState(true);
   const [selectedTab, setSelectedTab] = useState('logs');
 
-  // Initialize deployment history with mock data
+  // Load deployment history, with health check results, from the local mirror
+  const loadHistory = useCallback(async () => {
+    try {
+      const response = await fetch('/api/vercel/deployments/history?limit=20');
+      if (!response.ok) return;
+      const { deployments } = await response.json();
+      setDeploymentHistory(deployments);
+    } catch (error) {
+      console.error('Failed to load deployment history:', error);
+    }
+  }, []);
+
   useEffect(() => {
-    const mockHistory: DeploymentRecord[] = [
-      {
-        id: '1',
-        timestamp: new Date(Date.now() - 3600000).toISOString(),
-        version: 'v1.2.3',
-        status: 'success',
-        duration: 120,
-        triggeredBy: 'GitHub Push',
-        changes: 15
-      },
-      {
-        id: '2',
-        timestamp: new Date(Date.now() - 7200000).toISOString(),
-        version: 'v1.2.2',
-        status: 'failed',
-        duration: 45,
-        triggeredBy: 'Manual Deploy',
-        changes: 8
-      },
-      {
-        id: '3',
-        timestamp: new Date(Date.now() - 10800000).toISOString(),
-        version: 'v1.2.1',
-        status: 'rollback',
-        duration: 30,
-        triggeredBy: 'Auto Rollback',
-        changes: 3
+    loadHistory();
+  }, [loadHistory]);
+
+  // Latest health check of the monitored deployment
+  useEffect(() => {
+    if (!deploymentId) return;
+    fetch(`/api/vercel/deployments/${deploymentId}/health`)
+      .then(response => response.ok ? response.json() : { health: null })
+      .then(data => setHealth(data.health))
+      .catch(() => setHealth(null));
+  }, [deploymentId]);
+
+  const runHealthCheck = async () => {
+    if (!deploymentId) return;
+    setIsCheckingHealth(true);
+    try {
+      const response = await fetch(`/api/vercel/deployments/${deploymentId}/health`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        toast({
+          title: "Health check not run",
+          description: data.error,
+          variant: "destructive"
+        });
+        return;
       }
-    ];
-    setDeploymentHistory(mockHistory);
-  }, []);
+      setHealth(data.health);
+      loadHistory();
+      toast({
+        title: data.health.healthy ? "Deployment is healthy" : "Deployment failed its health check",
+        description: data.health.healthy ? `${data.health.url} answered in ${data.health.latencyMs}ms` : data.health.error,
+        variant: data.health.healthy ? undefined : "destructive"
+      });
+    } finally {
+      setIsCheckingHealth(false);
+    }
+  };
 
   // Simulate real-time logs
   useEffect(() => {
@@ -278,6 +309,23 @@ const DeploymentMonitor: React.FC<DeploymentMonitorProps> = ({
       <div className="flex justify-between items-center">
         <h2 className="text-2xl font-bold text-gray-100">Deployment Monitor</h2>
         <div className="flex gap-2">
+          {deploymentId && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={runHealthCheck}
+              disabled={isCheckingHealth}
+            >
+              {isCheckingHealth ? (
+                <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+              ) : health && !health.healthy ? (
+                <ShieldAlert className="w-4 h-4 mr-2 text-red-500" />
+              ) : (
+                <ShieldCheck className={cn("w-4 h-4 mr-2", health?.healthy && "text-green-500")} />
+              )}
+              {health ? (health.healthy ? 'Healthy' : 'Unhealthy') : 'Check Health'}
+            </Button>
+          )}
           <Button
             variant={isLive ? "default" : "outline"}
             size="sm"
@@ -297,6 +345,13 @@ const DeploymentMonitor: React.FC<DeploymentMonitorProps> = ({
         </div>
       </div>
 
+      {health && !health.healthy && (
+        <div className="flex items-center gap-2 p-3 rounded-lg bg-red-950/50 border border-red-900 text-sm text-red-300">
+          <AlertTriangle className="w-4 h-4" />
+          Health check of {health.url} failed at {new Date(health.checkedAt).toLocaleTimeString()}: {health.error}
+        </div>
+      )}
+
       {/* Main Content */}
       <Tabs value={selectedTab} onValueChange={setSelectedTab}>
         <TabsList className="grid w-full grid-cols-3">
@@ -402,26 +457,41 @@ const DeploymentMonitor: React.FC<DeploymentMonitorProps> = ({
                 ) : (
                   deploymentHistory.map((deployment) => (
                     <div
-                      key={deployment.id}
+                      key={deployment.deploymentId}
                       className="flex items-center justify-between p-4 bg-gray-800 rounded-lg"
                     >
                       <div className="flex items-center gap-4">
                         <div className={cn(
                           "w-2 h-2 rounded-full",
-                          deployment.status === 'success' && "bg-green-500",
-                          deployment.status === 'failed' && "bg-red-500",
-                          deployment.status === 'rollback' && "bg-yellow-500"
+                          deployment.status === 'ready' && deployment.health?.healthy !== false && "bg-green-500",
+                          deployment.status === 'ready' && deployment.health?.healthy === false && "bg-yellow-500",
+                          deployment.status === 'error' && "bg-red-500",
+                          (deployment.status === 'pending' || deployment.status === 'building') && "bg-blue-500 animate-pulse",
+                          deployment.status === 'canceled' && "bg-gray-500"
                         )} />
                         <div>
-                          <p className="font-medium text-gray-100">{deployment.version}</p>
+                          <p className="font-medium text-gray-100">{deployment.name || deployment.deploymentId}</p>
                           <p className="text-sm text-gray-400">
-                            {new Date(deployment.timestamp).toLocaleString()}
+                            {new Date(deployment.createdAt).toLocaleString()} · {deployment.environment}
                           </p>
                         </div>
                       </div>
                       <div className="text-right">
-                        <p className="text-sm text-gray-400">Duration: {deployment.duration}s</p>
-                        <p className="text-xs text-gray-500">by {deployment.triggeredBy}</p>
+                        <p className="text-sm text-gray-400">
+                          {deployment.readyAt
+                            ? `Duration: ${Math.round((new Date(deployment.readyAt).getTime() - new Date(deployment.createdAt).getTime()) / 1000)}s`
+                            : deployment.status}
+                        </p>
+                        {deployment.health && (
+                          <p className={cn(
+                            "text-xs",
+                            deployment.health.healthy ? "text-green-400" : "text-red-400"
+                          )}>
+                            {deployment.health.healthy
+                              ? `Healthy · ${deployment.health.latencyMs}ms`
+                              : `Unhealthy: ${deployment.health.error}`}
+                          </p>
+                        )}
                       </div>
                     </div>
                   ))
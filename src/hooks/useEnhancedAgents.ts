@@ -1,5 +1,6 @@
 import { useState, useCallback, useRef } from 'react';
 import { useToast } from '@/components/ui/use-toast';
+import type { AgentVoice, VoiceSession } from '@/lib/types/agent';
 
 export interface AgentMessage {
   id: string;
@@ -13,6 +14,7 @@ export interface AgentMessage {
     suggestedNextAgent?: string;
     toolsUsed?: string[];
     memoryAccessed?: boolean;
+    voice?: VoiceSession;
   };
 }
 
@@ -33,6 +35,50 @@ export interface UseEnhancedAgentsOptions {
   onCollaboration?: (collaboration: AgentCollaboration) => void;
   onToolExecution?: (tool: string, result: any) => void;
   voiceEnabled?: boolean;
+  // Called with the transcript so far while the user speaks, e.g. to fill the input box
+  onTranscript?: (transcript: string, isFinal: boolean) => void;
+  // 'server' records audio for /api/agents/voice even when the browser can recognize speech
+  transcription?: 'auto' | 'server';
+}
+
+// The parts of the Web Speech API used here; it is not in the DOM typings
+interface SpeechRecognitionLike {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: {
+    resultIndex: number;
+    results: ArrayLike<{ isFinal: boolean; 0: { transcript: string; confidence: number } }>;
+  }) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognitionLike;
+
+function getSpeechRecognition(): SpeechRecognitionConstructor | null {
+  if (typeof window === 'undefined') return null;
+  const speechWindow = window as unknown as {
+    SpeechRecognition?: SpeechRecognitionConstructor;
+    webkitSpeechRecognition?: SpeechRecognitionConstructor;
+  };
+  return speechWindow.SpeechRecognition || speechWindow.webkitSpeechRecognition || null;
+}
+
+function canRecordAudio(): boolean {
+  return typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia && typeof MediaRecorder !== 'undefined';
+}
+
+// Leave code blocks and markdown symbols out of spoken replies
+function toSpeakableText(text: string): string {
+  return text
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/`([^`]*)`/g, '$1')
+    .replace(/[*_#>]+/g, '')
+    .replace(/\[([^\]]+)\]\([^)]+\)/g, '$1')
+    .trim();
 }
 
 export function useEnhancedAgents(options: UseEnhancedAgentsOptions = {}) {
@@ -43,9 +89,55 @@ export function useEnhancedAgents(options: UseEnhancedAgentsOptions = {}) {
   const [collaborations, setCollaborations] = useState<AgentCollaboration[]>([]);
   const [agentTools, setAgentTools] = useState<Record<string, AgentTool[]>>({});
   const [memoryStats, setMemoryStats] = useState<any>(null);
+  const [isListening, setIsListening] = useState(false);
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  const [transcript, setTranscript] = useState('');
 
   const { toast } = useToast();
   const abortControllerRef = useRef<AbortController | null>(null);
+  const recognitionRef = useRef<SpeechRecognitionLike | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const stopResolverRef = useRef<((transcript: string) => void) | null>(null);
+  // The last capture, attached to the next message sent
+  const pendingVoiceRef = useRef<{ transcript: string; session: VoiceSession } | null>(null);
+  const agentVoicesRef = useRef<Record<string, AgentVoice>>({});
+
+  // Speak text with the agent's voice settings
+  const speak = useCallback((text: string, voice?: AgentVoice) => {
+    const spoken = toSpeakableText(text);
+    if (typeof window === 'undefined' || !window.speechSynthesis || !spoken) return;
+
+    window.speechSynthesis.cancel();
+    const utterance = new SpeechSynthesisUtterance(spoken);
+    if (voice) {
+      const voices = window.speechSynthesis.getVoices();
+      utterance.lang = voice.lang;
+      utterance.rate = voice.rate;
+      utterance.pitch = voice.pitch;
+      utterance.voice = voices.find(v => v.name === voice.name) || voices.find(v => v.lang === voice.lang) || null;
+    }
+    utterance.onend = () => setIsSpeaking(false);
+    utterance.onerror = () => setIsSpeaking(false);
+    setIsSpeaking(true);
+    window.speechSynthesis.speak(utterance);
+  }, []);
+
+  const stopSpeaking = useCallback(() => {
+    if (typeof window !== 'undefined' && window.speechSynthesis) {
+      window.speechSynthesis.cancel();
+    }
+    setIsSpeaking(false);
+  }, []);
+
+  // Speak an assistant reply when voice is on, remembering the agent's voice
+  const speakReply = (content: string, agentId: string, voice?: AgentVoice) => {
+    if (voice) {
+      agentVoicesRef.current[agentId] = voice;
+    }
+    if (options.voiceEnabled) {
+      speak(content, voice || agentVoicesRef.current[agentId]);
+    }
+  };
 
   // Initialize a new conversation
   const initializeConversation = useCallback(async (agentId: string = 'nexy') => {
@@ -61,6 +153,9 @@ export function useEnhancedAgents(options: UseEnhancedAgentsOptions = {}) {
       const data = await response.json();
       setConversationId(data.conversationId);
       setActiveAgentId(agentId);
+      if (data.agent?.voice) {
+        agentVoicesRef.current[agentId] = data.agent.voice;
+      }
 
       if (data.greeting) {
         const greetingMessage: AgentMessage = {
@@ -104,12 +199,20 @@ export function useEnhancedAgents(options: UseEnhancedAgentsOptions = {}) {
     abortControllerRef.current = new AbortController();
     const targetAgentId = agentId || activeAgentId;
 
+    // A message sent right after speaking records the voice session
+    const pendingVoice = pendingVoiceRef.current;
+    pendingVoiceRef.current = null;
+    const voice: VoiceSession | undefined = pendingVoice
+      ? { ...pendingVoice.session, ...(content.trim() !== pendingVoice.transcript && { edited: true }) }
+      : undefined;
+
     const userMessage: AgentMessage = {
       id: `msg_${Date.now()}`,
       role: 'user',
       content,
       agentId: 'user',
-      timestamp: new Date()
+      timestamp: new Date(),
+      ...(voice && { metadata: { voice } })
     };
 
     setMessages(prev => [...prev, userMessage]);
@@ -124,7 +227,8 @@ export function useEnhancedAgents(options: UseEnhancedAgentsOptions = {}) {
           conversationId,
           message: content,
           agentId: targetAgentId,
-          stream
+          stream,
+          voice
         }),
         signal: abortControllerRef.current.signal
       });
@@ -145,6 +249,7 @@ export function useEnhancedAgents(options: UseEnhancedAgentsOptions = {}) {
         };
         setMessages(prev => [...prev, assistantMessage]);
         options.onMessage?.(assistantMessage);
+        speakReply(data.message.content, data.message.agentId || targetAgentId, data.message.voice);
         
         if (data.collaborations) {
           setCollaborations(data.collaborations);
@@ -165,7 +270,7 @@ export function useEnhancedAgents(options: UseEnhancedAgentsOptions = {}) {
       setIsLoading(false);
       abortControllerRef.current = null;
     }
-  }, [conversationId, activeAgentId, isLoading, options, toast]);
+  }, [conversationId, activeAgentId, isLoading, options, toast, speak]);
 
   // Handle streaming response
   const handleStreamResponse = async (response: Response, agentId: string) => {
@@ -221,6 +326,7 @@ export function useEnhancedAgents(options: UseEnhancedAgentsOptions = {}) {
                 });
               }
               options.onMessage?.(assistantMessage);
+              speakReply(assistantMessage.content, data.message?.agentId || agentId, data.message?.voice);
             }
           } catch (e) {
             console.error('Failed to parse SSE data:', e);
@@ -424,6 +530,148 @@ export function useEnhancedAgents(options: UseEnhancedAgentsOptions = {}) {
     return data;
   }, []);
 
+  // Push-to-talk: start capturing speech. Browser recognition streams partial
+  // transcripts; otherwise audio is recorded and transcribed on stopListening.
+  const startListening = useCallback(async () => {
+    if (!options.voiceEnabled || recognitionRef.current || recorderRef.current) return;
+
+    const language = agentVoicesRef.current[activeAgentId]?.lang
+      || (typeof navigator !== 'undefined' ? navigator.language : 'en-US');
+    const startedAt = Date.now();
+
+    const finish = (result: { source: VoiceSession['source']; text: string; language?: string; confidence?: number }) => {
+      recognitionRef.current = null;
+      recorderRef.current = null;
+      setIsListening(false);
+      setTranscript(result.text);
+      options.onTranscript?.(result.text, true);
+      pendingVoiceRef.current = result.text
+        ? {
+            transcript: result.text,
+            session: {
+              id: `voice_${startedAt}`,
+              source: result.source,
+              language: result.language || language,
+              durationMs: Date.now() - startedAt,
+              ...(result.confidence !== undefined && { confidence: result.confidence })
+            }
+          }
+        : null;
+      stopResolverRef.current?.(result.text);
+      stopResolverRef.current = null;
+    };
+
+    setTranscript('');
+    const Recognition = options.transcription === 'server' ? null : getSpeechRecognition();
+
+    if (Recognition) {
+      const recognition = new Recognition();
+      recognition.lang = language;
+      recognition.continuous = true;
+      recognition.interimResults = true;
+
+      let finalText = '';
+      const confidences: number[] = [];
+      recognition.onresult = (event) => {
+        let interim = '';
+        for (let i = event.resultIndex; i < event.results.length; i++) {
+          const result = event.results[i];
+          if (result.isFinal) {
+            finalText += result[0].transcript;
+            confidences.push(result[0].confidence);
+          } else {
+            interim += result[0].transcript;
+          }
+        }
+        const text = (finalText + interim).trim();
+        setTranscript(text);
+        options.onTranscript?.(text, false);
+      };
+      recognition.onerror = (event) => {
+        if (event.error !== 'aborted' && event.error !== 'no-speech') {
+          toast({
+            title: 'Error',
+            description: 'Speech recognition failed',
+            variant: 'destructive'
+          });
+        }
+      };
+      recognition.onend = () => finish({
+        source: 'browser',
+        text: finalText.trim(),
+        ...(confidences.length > 0 && {
+          confidence: Math.round(confidences.reduce((sum, value) => sum + value, 0) / confidences.length * 100) / 100
+        })
+      });
+
+      recognitionRef.current = recognition;
+      recognition.start();
+      setIsListening(true);
+      return;
+    }
+
+    if (!canRecordAudio()) {
+      toast({
+        title: 'Error',
+        description: 'Voice input is not supported in this browser',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const recorder = new MediaRecorder(stream);
+      const chunks: Blob[] = [];
+
+      recorder.ondataavailable = (event) => chunks.push(event.data);
+      recorder.onstop = async () => {
+        stream.getTracks().forEach(track => track.stop());
+        try {
+          const form = new FormData();
+          form.append('audio', new Blob(chunks, { type: recorder.mimeType || 'audio/webm' }));
+          form.append('language', language);
+          const response = await fetch('/api/agents/voice', { method: 'POST', body: form });
+          if (!response.ok) throw new Error('Failed to transcribe audio');
+          const data = await response.json();
+          finish({ source: 'server', text: data.text || '', language: data.language });
+        } catch {
+          toast({
+            title: 'Error',
+            description: 'Failed to transcribe audio',
+            variant: 'destructive'
+          });
+          finish({ source: 'server', text: '' });
+        }
+      };
+
+      recorderRef.current = recorder;
+      recorder.start();
+      setIsListening(true);
+    } catch {
+      toast({
+        title: 'Error',
+        description: 'Microphone access was denied',
+        variant: 'destructive'
+      });
+    }
+  }, [activeAgentId, options, toast]);
+
+  // Push-to-talk released: resolves with the final transcript
+  const stopListening = useCallback(() => new Promise<string>((resolve) => {
+    const recognition = recognitionRef.current;
+    const recorder = recorderRef.current;
+    if (!recognition && !recorder) {
+      resolve('');
+      return;
+    }
+    stopResolverRef.current = resolve;
+    recognition?.stop();
+    if (recorder && recorder.state !== 'inactive') {
+      recorder.stop();
+    }
+  }), []);
+
   // Clear the current conversation
   const clearConversation = useCallback(() => {
     setMessages([]);
@@ -459,6 +707,18 @@ export function useEnhancedAgents(options: UseEnhancedAgentsOptions = {}) {
     clearConversation,
     cancel,
 
+    // Voice input and spoken replies
+    voice: {
+      isSupported: !!options.voiceEnabled && (!!getSpeechRecognition() || canRecordAudio()),
+      isListening,
+      isSpeaking,
+      transcript,
+      startListening,
+      stopListening,
+      speak,
+      stopSpeaking
+    },
+
     // Memory operations
     memory: {
       get: getAgentMemory,
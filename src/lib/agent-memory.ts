@@ -1,98 +1,280 @@
-// Simplified agent memory implementation
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { scoreBM25 } from './bm25';
+
+// Key/value memory that agents keep per user, mirroring the AgentMemory table
 export interface AgentMemory {
   id: string;
+  userId: string;
   agentId: string;
-  type: 'conversation' | 'knowledge' | 'experience';
-  content: string;
-  metadata?: Record<string, any>;
+  key: string;
+  value: unknown;
+  metadata?: Record<string, unknown>;
+  expiresAt?: Date;
   createdAt: Date;
-  updatedAt?: Date;
+  updatedAt: Date;
 }
 
-export class AgentMemoryService {
-  private memories: Map<string, AgentMemory[]> = new Map();
+export interface AgentMemoryStats {
+  totalMemories: number;
+  byAgent: Record<string, number>;
+  expiring: number;
+  oldest?: Date;
+  newest?: Date;
+}
+
+export interface StoreMemoryOptions {
+  expiresAt?: Date;
+  metadata?: Record<string, unknown>;
+}
+
+// Memories considered when ranking a search, most recently updated first
+const MAX_SEARCH_CANDIDATES = 500;
+
+// Searchable text of a memory: its key and value
+function memoryText(memory: AgentMemory): string {
+  return `${memory.key} ${typeof memory.value === 'string' ? memory.value : JSON.stringify(memory.value)}`;
+}
 
-  async store(agentId: string, memory: Omit<AgentMemory, 'id' | 'agentId' | 'createdAt'>) {
-    const id = Math.random().toString(36).substr(2, 9);
-    const newMemory: AgentMemory = {
-      ...memory,
-      id,
+function isExpired(memory: AgentMemory, now = new Date()): boolean {
+  return !!memory.expiresAt && memory.expiresAt <= now;
+}
+
+export interface AgentMemoryStore {
+  // Create or overwrite the memory stored under `key`
+  set(userId: string, agentId: string, key: string, value: unknown, options: StoreMemoryOptions): Promise<AgentMemory>;
+  get(userId: string, agentId: string, key: string): Promise<AgentMemory | null>;
+  // Unexpired memories of one agent, or of all agents, most recent first
+  list(userId: string, agentId?: string, limit?: number): Promise<AgentMemory[]>;
+  delete(userId: string, agentId: string, key: string): Promise<boolean>;
+  // Returns the number of memories removed
+  clear(userId: string, agentId?: string): Promise<number>;
+  deleteExpired(): Promise<number>;
+}
+
+// Process-local store, used when no database is configured
+export class InMemoryAgentMemoryStore implements AgentMemoryStore {
+  // Keyed by `${userId}:${agentId}:${key}`, like the table's unique index
+  private memories: Map<string, AgentMemory> = new Map();
+
+  async set(userId: string, agentId: string, key: string, value: unknown, options: StoreMemoryOptions): Promise<AgentMemory> {
+    const id = `${userId}:${agentId}:${key}`;
+    const existing = this.memories.get(id);
+    const now = new Date();
+    const memory: AgentMemory = {
+      id: existing?.id ?? Math.random().toString(36).substr(2, 9),
+      userId,
       agentId,
-      createdAt: new Date(),
+      key,
+      value,
+      metadata: options.metadata,
+      expiresAt: options.expiresAt,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
     };
+    this.memories.set(id, memory);
+    return { ...memory };
+  }
 
-    const agentMemories = this.memories.get(agentId) || [];
-    agentMemories.push(newMemory);
-    this.memories.set(agentId, agentMemories);
+  async get(userId: string, agentId: string, key: string): Promise<AgentMemory | null> {
+    const memory = this.memories.get(`${userId}:${agentId}:${key}`);
+    return memory && !isExpired(memory) ? { ...memory } : null;
+  }
 
-    return newMemory;
+  async list(userId: string, agentId?: string, limit?: number): Promise<AgentMemory[]> {
+    return Array.from(this.memories.values())
+      .filter(memory => memory.userId === userId && (!agentId || memory.agentId === agentId) && !isExpired(memory))
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+      .slice(0, limit)
+      .map(memory => ({ ...memory }));
   }
 
-  async retrieve(agentId: string, type?: AgentMemory['type']) {
-    const memories = this.memories.get(agentId) || [];
-    if (type) {
-      return memories.filter(m => m.type === type);
-    }
-    return memories;
-  }
-
-  async search(agentId: string, query: string) {
-    const memories = this.memories.get(agentId) || [];
-    return memories.filter(m => 
-      m.content.toLowerCase().includes(query.toLowerCase())
-    );
-  }
-
-  async update(memoryId: string, updates: Partial<AgentMemory>) {
-    for (const [agentId, memories] of this.memories.entries()) {
-      const index = memories.findIndex(m => m.id === memoryId);
-      if (index !== -1) {
-        memories[index] = {
-          ...memories[index],
-          ...updates,
-          updatedAt: new Date(),
-        };
-        this.memories.set(agentId, memories);
-        return memories[index];
+  async delete(userId: string, agentId: string, key: string): Promise<boolean> {
+    return this.memories.delete(`${userId}:${agentId}:${key}`);
+  }
+
+  async clear(userId: string, agentId?: string): Promise<number> {
+    let cleared = 0;
+    for (const [id, memory] of this.memories.entries()) {
+      if (memory.userId === userId && (!agentId || memory.agentId === agentId)) {
+        this.memories.delete(id);
+        cleared++;
       }
     }
-    return null;
+    return cleared;
   }
 
-  async delete(memoryId: string) {
-    for (const [agentId, memories] of this.memories.entries()) {
-      const filtered = memories.filter(m => m.id !== memoryId);
-      if (filtered.length !== memories.length) {
-        this.memories.set(agentId, filtered);
-        return true;
+  async deleteExpired(): Promise<number> {
+    const now = new Date();
+    let removed = 0;
+    for (const [id, memory] of this.memories.entries()) {
+      if (isExpired(memory, now)) {
+        this.memories.delete(id);
+        removed++;
       }
     }
-    return false;
+    return removed;
+  }
+}
+
+type MemoryRow = Prisma.AgentMemoryGetPayload<object>;
+
+function toMemory(row: MemoryRow): AgentMemory {
+  return {
+    id: row.id,
+    userId: row.userId,
+    agentId: row.agentId,
+    key: row.key,
+    value: row.value,
+    metadata: (row.metadata as Record<string, unknown> | null) ?? undefined,
+    expiresAt: row.expiresAt ?? undefined,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+function unexpired(): Prisma.AgentMemoryWhereInput {
+  return { OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }] };
+}
+
+// Durable store backed by the AgentMemory table
+export class PrismaAgentMemoryStore implements AgentMemoryStore {
+  async set(userId: string, agentId: string, key: string, value: unknown, options: StoreMemoryOptions): Promise<AgentMemory> {
+    const data = {
+      value: value as Prisma.InputJsonValue,
+      metadata: (options.metadata as Prisma.InputJsonValue | undefined) ?? Prisma.DbNull,
+      expiresAt: options.expiresAt ?? null,
+    };
+    const row = await prisma.agentMemory.upsert({
+      where: { userId_agentId_key: { userId, agentId, key } },
+      create: { userId, agentId, key, ...data },
+      update: data,
+    });
+    return toMemory(row);
+  }
+
+  async get(userId: string, agentId: string, key: string): Promise<AgentMemory | null> {
+    const row = await prisma.agentMemory.findFirst({ where: { userId, agentId, key, ...unexpired() } });
+    return row ? toMemory(row) : null;
+  }
+
+  async list(userId: string, agentId?: string, limit?: number): Promise<AgentMemory[]> {
+    const rows = await prisma.agentMemory.findMany({
+      where: { userId, ...(agentId && { agentId }), ...unexpired() },
+      orderBy: { updatedAt: 'desc' },
+      take: limit,
+    });
+    return rows.map(toMemory);
   }
 
-  async clear(agentId: string) {
-    this.memories.delete(agentId);
+  async delete(userId: string, agentId: string, key: string): Promise<boolean> {
+    const { count } = await prisma.agentMemory.deleteMany({ where: { userId, agentId, key } });
+    return count > 0;
+  }
+
+  async clear(userId: string, agentId?: string): Promise<number> {
+    const { count } = await prisma.agentMemory.deleteMany({ where: { userId, ...(agentId && { agentId }) } });
+    return count;
+  }
+
+  async deleteExpired(): Promise<number> {
+    const { count } = await prisma.agentMemory.deleteMany({ where: { expiresAt: { lte: new Date() } } });
+    return count;
+  }
+}
+
+let storeInstance: AgentMemoryStore | null = null;
+
+export function getAgentMemoryStore(): AgentMemoryStore {
+  if (!storeInstance) {
+    storeInstance = process.env.DATABASE_URL
+      ? new PrismaAgentMemoryStore()
+      : new InMemoryAgentMemoryStore();
+  }
+  return storeInstance;
+}
+
+export class AgentMemoryService {
+  constructor(private storeOverride?: AgentMemoryStore) {}
+
+  private get memoryStore(): AgentMemoryStore {
+    return this.storeOverride ?? getAgentMemoryStore();
+  }
+
+  async store(userId: string, agentId: string, key: string, value: unknown, options: StoreMemoryOptions = {}): Promise<AgentMemory> {
+    return this.memoryStore.set(userId, agentId, key, value, options);
+  }
+
+  async get(userId: string, agentId: string, key: string): Promise<AgentMemory | null> {
+    return this.memoryStore.get(userId, agentId, key);
+  }
+
+  async retrieve(userId: string, agentId?: string): Promise<AgentMemory[]> {
+    return this.memoryStore.list(userId, agentId);
+  }
+
+  // Memories ranked by BM25 relevance to the query; unrelated memories are left out
+  async search(userId: string, agentId: string, query: string, limit?: number): Promise<AgentMemory[]> {
+    const memories = await this.memoryStore.list(userId, agentId, MAX_SEARCH_CANDIDATES);
+    const scores = scoreBM25(query, memories.map(memoryText));
+    return memories
+      .map((memory, index) => ({ memory, score: scores[index] }))
+      .filter(entry => entry.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(entry => entry.memory);
+  }
+
+  async delete(userId: string, agentId: string, key: string): Promise<boolean> {
+    return this.memoryStore.delete(userId, agentId, key);
+  }
+
+  async clear(userId: string, agentId?: string): Promise<number> {
+    return this.memoryStore.clear(userId, agentId);
+  }
+
+  async stats(userId: string): Promise<AgentMemoryStats> {
+    const memories = await this.retrieve(userId);
+    const byAgent: Record<string, number> = {};
+    for (const memory of memories) {
+      byAgent[memory.agentId] = (byAgent[memory.agentId] || 0) + 1;
+    }
+    const created = memories.map(memory => memory.createdAt.getTime());
+    return {
+      totalMemories: memories.length,
+      byAgent,
+      expiring: memories.filter(memory => memory.expiresAt).length,
+      ...(created.length > 0 && {
+        oldest: new Date(Math.min(...created)),
+        newest: new Date(Math.max(...created)),
+      }),
+    };
+  }
+
+  // Drop expired memories; returns how many were removed. Expired rows are
+  // already hidden from reads, so this only keeps the table small; the
+  // /api/agents/memory/cleanup cron calls it.
+  async cleanupExpired(): Promise<number> {
+    return this.memoryStore.deleteExpired();
   }
 }
 
 export const agentMemory = new AgentMemoryService();
 
 // Export convenience functions
-export const setAgentMemory = (agentId: string, memory: Omit<AgentMemory, 'id' | 'agentId' | 'createdAt'>) => 
-  agentMemory.store(agentId, memory);
+export const setAgentMemory = (userId: string, agentId: string, key: string, value: unknown, expiresAt?: Date) =>
+  agentMemory.store(userId, agentId, key, value, { expiresAt });
+
+export const getAgentMemory = (userId: string, agentId: string, key: string) =>
+  agentMemory.get(userId, agentId, key);
 
-export const getAgentMemory = (agentId: string, type?: AgentMemory['type']) => 
-  agentMemory.retrieve(agentId, type);
+export const searchAgentMemory = (userId: string, agentId: string, query: string, limit?: number) =>
+  agentMemory.search(userId, agentId, query, limit);
 
-export const searchAgentMemory = (agentId: string, query: string) => 
-  agentMemory.search(agentId, query);
+export const getAllAgentMemory = (userId: string, agentId: string) =>
+  agentMemory.retrieve(userId, agentId);
 
-export const getAllAgentMemory = (agentId: string) => 
-  agentMemory.retrieve(agentId);
+export const clearAgentMemory = (userId: string, agentId: string) =>
+  agentMemory.clear(userId, agentId);
 
-export const clearAgentMemory = (agentId: string) => 
-  agentMemory.clear(agentId);
-export const cleanupExpiredMemories = async () => {
-  // Placeholder for cleanup logic
-  console.log('Cleaning up expired memories...');
-};
+export const cleanupExpiredMemories = () => agentMemory.cleanupExpired();
@@ -0,0 +1,262 @@
+import { CollaborationType as PrismaCollaborationType, Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import type { Agent } from './types/agent';
+import type { ClaudeClient, ClaudeTool, ToolImplementation } from './claude-client';
+import { AgentCollaboration, AgentTurnOptions, AgentTurnResult, runAgentTurn } from './agents';
+import { listAgents } from './agent-registry';
+
+// Agents work together through two tools: handing the conversation over to
+// a better-suited agent, or consulting another agent on a sub-task and
+// folding its answer into their own reply. Both are logged on the
+// conversation so the chain of agents involved can be shown.
+export type CollaborationType = 'handoff' | 'consult';
+
+export interface CollaborationEvent extends AgentCollaboration {
+  id: string;
+  // Unset for collaborations outside a saved conversation
+  conversationId?: string;
+  type: CollaborationType;
+  // Context handed over with a handoff
+  summary?: string;
+  // The consulted agent's answer
+  response?: string;
+  createdAt: Date;
+}
+
+export type NewCollaborationEvent = Omit<CollaborationEvent, 'id' | 'conversationId' | 'createdAt'> & {
+  conversationId: string;
+};
+
+export const HANDOFF_TOOL = 'handoff_to_agent';
+export const CONSULT_TOOL = 'consult_agent';
+
+// A chain of handoffs stops here so agents cannot pass a request around forever
+const MAX_HANDOFFS = 3;
+
+export interface CollaborationStore {
+  log(userId: string, event: NewCollaborationEvent): Promise<CollaborationEvent>;
+  // Oldest first; empty when the conversation is not the user's
+  list(conversationId: string, userId: string): Promise<CollaborationEvent[]>;
+}
+
+function generateId(): string {
+  return `collab_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+// Process-local store, used when no database is configured
+export class InMemoryCollaborationStore implements CollaborationStore {
+  private events: Array<CollaborationEvent & { userId: string }> = [];
+
+  async log(userId: string, event: NewCollaborationEvent): Promise<CollaborationEvent> {
+    const saved = { ...event, id: generateId(), createdAt: new Date() };
+    this.events.push({ ...saved, userId });
+    return { ...saved };
+  }
+
+  async list(conversationId: string, userId: string): Promise<CollaborationEvent[]> {
+    return this.events
+      .filter(event => event.conversationId === conversationId && event.userId === userId)
+      .map(({ userId: _owner, ...event }) => event);
+  }
+}
+
+type CollaborationRow = Prisma.AgentCollaborationGetPayload<object>;
+
+function toEvent(row: CollaborationRow): CollaborationEvent {
+  return {
+    id: row.id,
+    conversationId: row.conversationId,
+    type: row.type.toLowerCase() as CollaborationType,
+    fromAgent: row.fromAgent,
+    toAgent: row.toAgent,
+    reason: row.reason,
+    summary: row.summary ?? undefined,
+    response: row.response ?? undefined,
+    createdAt: row.createdAt,
+  };
+}
+
+// Durable store backed by the AgentCollaboration table
+export class PrismaCollaborationStore implements CollaborationStore {
+  async log(_userId: string, event: NewCollaborationEvent): Promise<CollaborationEvent> {
+    const row = await prisma.agentCollaboration.create({
+      data: { ...event, type: event.type.toUpperCase() as PrismaCollaborationType },
+    });
+    return toEvent(row);
+  }
+
+  async list(conversationId: string, userId: string): Promise<CollaborationEvent[]> {
+    const rows = await prisma.agentCollaboration.findMany({
+      where: { conversationId, conversation: { userId } },
+      orderBy: { createdAt: 'asc' },
+    });
+    return rows.map(toEvent);
+  }
+}
+
+let storeInstance: CollaborationStore | null = null;
+
+export function getCollaborationStore(): CollaborationStore {
+  if (!storeInstance) {
+    storeInstance = process.env.DATABASE_URL
+      ? new PrismaCollaborationStore()
+      : new InMemoryCollaborationStore();
+  }
+  return storeInstance;
+}
+
+function collaborationTools(colleagues: Agent[], canHandOff: boolean): ClaudeTool[] {
+  const agentId = {
+    type: 'string',
+    enum: colleagues.map(colleague => colleague.id),
+    description: `One of: ${colleagues.map(colleague => `${colleague.id} (${colleague.name}: ${colleague.description})`).join('; ')}`,
+  };
+  return [
+    {
+      name: CONSULT_TOOL,
+      description: 'Ask another agent a focused question as a sub-task and use its answer in your reply. The user does not see the consultation.',
+      input_schema: {
+        type: 'object' as const,
+        properties: {
+          agent_id: agentId,
+          question: { type: 'string', description: 'A self-contained question, including any context the agent needs' },
+        },
+        required: ['agent_id', 'question'],
+      },
+    },
+    ...(canHandOff ? [{
+      name: HANDOFF_TOOL,
+      description: 'Hand the conversation over to another agent who is better suited to the request. That agent answers the user next, so do not answer the request yourself.',
+      input_schema: {
+        type: 'object' as const,
+        properties: {
+          agent_id: agentId,
+          reason: { type: 'string', description: 'Why the other agent is better suited' },
+          summary: { type: 'string', description: 'What the user wants and what you have learned so far' },
+        },
+        required: ['agent_id', 'reason', 'summary'],
+      },
+    }] : []),
+  ];
+}
+
+// What the receiving agent is told after a handoff; sent with the turn but
+// not saved, so the user's message stays the only stored prompt
+function buildHandoffPrompt(from: Agent, handoff: { reason: string; summary: string }, message: string): string {
+  return [
+    `${from.name} handed this conversation over to you.`,
+    `Reason: ${handoff.reason}`,
+    `Context from ${from.name}: ${handoff.summary}`,
+    `The user's request:\n${message}`,
+  ].join('\n\n');
+}
+
+export interface OrchestratedTurnOptions extends AgentTurnOptions {
+  onCollaboration?: (event: CollaborationEvent) => void | Promise<void>;
+}
+
+export interface OrchestratedTurnResult extends AgentTurnResult {
+  // The agent that gave the final answer
+  agent: Agent;
+  usage: { inputTokens: number; outputTokens: number };
+}
+
+// Answer a message with `agent`, following handoffs until an agent answers
+// without handing off. Collaborations are returned (handoffs and
+// consultations first, then any suggestion) and logged on the conversation.
+export async function orchestrateAgentTurn(
+  client: ClaudeClient,
+  agent: Agent,
+  message: string,
+  options: OrchestratedTurnOptions
+): Promise<OrchestratedTurnResult> {
+  const { onCollaboration, ...turnOptions } = options;
+  const { userId, usageTier, conversationId, workspace, signal } = turnOptions;
+  const events: CollaborationEvent[] = [];
+  const usage = { inputTokens: 0, outputTokens: 0 };
+
+  const record = async (event: Omit<NewCollaborationEvent, 'conversationId'>) => {
+    const saved = conversationId
+      ? await getCollaborationStore().log(userId, { ...event, conversationId })
+      : { ...event, id: generateId(), createdAt: new Date() };
+    events.push(saved);
+    await onCollaboration?.(saved);
+  };
+
+  let current = agent;
+  let prompt = message;
+  let metadata = turnOptions.metadata;
+  // Agents taking over answer the stored user message; their handoff prompt
+  // is sent but not saved
+  let continueTurn = false;
+
+  for (let handoffs = 0; ; handoffs++) {
+    const from = current;
+    const colleagues = (await listAgents(userId)).filter(other => other.id !== from.id && other.status === 'active');
+    const pending: { handoff?: { agent: Agent; reason: string; summary: string } } = {};
+
+    const implementations: Record<string, ToolImplementation> = {
+      [CONSULT_TOOL]: async (input) => {
+        const { agent_id: agentId, question } = (input ?? {}) as { agent_id?: string; question?: string };
+        const target = colleagues.find(colleague => colleague.id === agentId);
+        if (!target || typeof question !== 'string' || !question.trim()) {
+          return { success: false, error: target ? 'A question is required' : `Unknown agent: ${agentId}` };
+        }
+        // Consulted agents answer on their own, without collaboration tools
+        const answer = await runAgentTurn(client, target, question, {
+          userId,
+          usageTier,
+          workspace,
+          context: `${from.name} is consulting you on part of a user's request. Answer directly; your answer goes back to ${from.name}, not to the user.`,
+          signal,
+        });
+        usage.inputTokens += answer.result.usage.inputTokens;
+        usage.outputTokens += answer.result.usage.outputTokens;
+        await record({ type: 'consult', fromAgent: from.id, toAgent: target.id, reason: question, response: answer.text });
+        return { success: true, agentId: target.id, answer: answer.text };
+      },
+      [HANDOFF_TOOL]: async (input) => {
+        const { agent_id: agentId, reason, summary } = (input ?? {}) as { agent_id?: string; reason?: string; summary?: string };
+        const target = colleagues.find(colleague => colleague.id === agentId);
+        if (!target) {
+          return { success: false, error: `Unknown agent: ${agentId}` };
+        }
+        if (pending.handoff) {
+          return { success: false, error: `Already handed off to ${pending.handoff.agent.name}` };
+        }
+        pending.handoff = { agent: target, reason: reason || 'Handoff', summary: summary || '' };
+        return { success: true, message: `${target.name} will answer the user next. End with a one-sentence note to the user.` };
+      },
+    };
+
+    const canHandOff = handoffs < MAX_HANDOFFS;
+    const tools = colleagues.length > 0 ? collaborationTools(colleagues, canHandOff) : [];
+    const turn = await runAgentTurn(client, from, prompt, {
+      ...turnOptions,
+      metadata,
+      continueTurn,
+      extraTools: tools,
+      extraToolImplementations: Object.fromEntries(
+        tools.map(tool => [tool.name, implementations[tool.name]])
+      ),
+    });
+    usage.inputTokens += turn.result.usage.inputTokens;
+    usage.outputTokens += turn.result.usage.outputTokens;
+
+    const { handoff } = pending;
+    if (!handoff) {
+      return { ...turn, agent: from, collaborations: [...events, ...turn.collaborations], usage };
+    }
+
+    await record({ type: 'handoff', fromAgent: from.id, toAgent: handoff.agent.id, reason: handoff.reason, summary: handoff.summary });
+    prompt = buildHandoffPrompt(from, handoff, message);
+    metadata = { ...turnOptions.metadata, handoffFrom: from.id };
+    continueTurn = true;
+    current = handoff.agent;
+  }
+}
+
+// Handoffs and consultations logged on a conversation, oldest first
+export async function getCollaborationChain(conversationId: string, userId: string): Promise<CollaborationEvent[]> {
+  return getCollaborationStore().list(conversationId, userId);
+}
@@ -0,0 +1,416 @@
+import { AgentStatus as PrismaAgentStatus, Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import type { Agent, AgentCapability, AgentPersonality, AgentVoice } from './types/agent';
+import type { ClaudeTool } from './claude-client';
+import { CLAUDE_TOOLS } from './claude-tools';
+
+// Agents users can talk to: the built-in personas below plus agents each
+// user creates. An agent's enabled capabilities decide which tools it gets.
+export interface CustomAgent extends Agent {
+  userId: string;
+}
+
+export interface CreateAgentData {
+  name: string;
+  description: string;
+  personality: AgentPersonality;
+  capabilities: AgentCapability[];
+  color: string;
+  avatar?: string;
+  voice?: AgentVoice | null;
+  status?: Agent['status'];
+}
+
+export type UpdateAgentData = Partial<CreateAgentData>;
+
+export class AgentRegistryError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'AgentRegistryError';
+  }
+}
+
+export const DEFAULT_AGENT_ID = 'nexy';
+
+// Capabilities that grant tools, by lower-cased name. Any other capability
+// only describes the agent in its system prompt.
+export const TOOL_CAPABILITIES: Record<string, { description: string; tools: string[] }> = {
+  'read files': { description: 'Read, list and search project files', tools: ['read', 'list', 'grep'] },
+  'edit files': { description: 'Create and edit project files', tools: ['write', 'edit'] },
+  'run commands': { description: 'Run builds, tests and scripts in the workspace', tools: ['bash'] },
+};
+
+function capability(name: string, description = TOOL_CAPABILITIES[name.toLowerCase()].description): AgentCapability {
+  return { name, description, enabled: true };
+}
+
+const BUILT_IN_SINCE = new Date('2024-01-01T00:00:00Z');
+
+function builtIn(agent: Omit<Agent, 'status' | 'createdAt' | 'updatedAt'>): Agent {
+  return { ...agent, status: 'active', createdAt: BUILT_IN_SINCE, updatedAt: BUILT_IN_SINCE };
+}
+
+export const BUILT_IN_AGENTS: Agent[] = [
+  builtIn({
+    id: 'nexy',
+    name: 'Nexy',
+    description: 'Your friendly guide to the platform, from planning a project to shipping it',
+    personality: {
+      traits: ['friendly', 'encouraging', 'beginner-friendly'],
+      communicationStyle: 'Warm and concise; asks a clarifying question when a request is ambiguous',
+      expertise: ['onboarding', 'project planning', 'workflows', 'deployment', 'platform guidance'],
+    },
+    capabilities: [
+      capability('Plan projects', 'Break an idea into concrete next steps'),
+      capability('Read files'),
+    ],
+    color: '#6366f1',
+    voice: { lang: 'en-US', rate: 1.05, pitch: 1.1 },
+  }),
+  builtIn({
+    id: 'dev',
+    name: 'Dev',
+    description: 'A technical expert for architecture, implementation and code review',
+    personality: {
+      traits: ['precise', 'analytical', 'detail-oriented'],
+      communicationStyle: 'Direct and technical; shows code rather than describing it',
+      expertise: ['typescript', 'react', 'next.js', 'api routes', 'databases', 'architecture', 'code review', 'performance'],
+    },
+    capabilities: [
+      capability('Read files'),
+      capability('Edit files'),
+      capability('Run commands'),
+    ],
+    color: '#10b981',
+    voice: { lang: 'en-US', rate: 1.1, pitch: 0.9 },
+  }),
+  builtIn({
+    id: 'designer',
+    name: 'Designer',
+    description: 'A creative product designer focused on clear, accessible interfaces',
+    personality: {
+      traits: ['creative', 'user-focused', 'aesthetically-minded'],
+      communicationStyle: 'Visual and user-centered; explains the reasoning behind each design choice',
+      expertise: ['ui design', 'ux', 'layout', 'css', 'tailwind', 'color palettes', 'accessibility', 'typography', 'landing pages'],
+    },
+    capabilities: [
+      capability('Read files'),
+      capability('Edit files'),
+      capability('Review accessibility', 'Check markup and styles for accessibility issues'),
+    ],
+    color: '#ec4899',
+    voice: { lang: 'en-GB', rate: 1, pitch: 1.15 },
+  }),
+  builtIn({
+    id: 'teacher',
+    name: 'Teacher',
+    description: 'A patient instructor who explains concepts step by step',
+    personality: {
+      traits: ['patient', 'educational', 'encouraging'],
+      communicationStyle: 'Step by step with small examples; checks understanding before moving on',
+      expertise: ['tutorials', 'explaining concepts', 'learning paths', 'javascript', 'react hooks', 'rest apis', 'database relationships'],
+    },
+    capabilities: [
+      capability('Explain concepts', 'Teach a topic with examples and exercises'),
+      capability('Read files'),
+    ],
+    color: '#f59e0b',
+    voice: { lang: 'en-GB', rate: 0.9, pitch: 1 },
+  }),
+  builtIn({
+    id: 'debugger',
+    name: 'Debugger',
+    description: 'A methodical problem solver for errors, failing builds and slow code',
+    personality: {
+      traits: ['methodical', 'thorough', 'solution-focused'],
+      communicationStyle: 'Forms a hypothesis, verifies it, then proposes the smallest fix',
+      expertise: ['debugging', 'error diagnosis', 'troubleshooting', 'stack traces', 'failing tests', 'bug fixes', 'slow queries'],
+    },
+    capabilities: [
+      capability('Read files'),
+      capability('Run commands'),
+      capability('Edit files'),
+    ],
+    color: '#ef4444',
+    voice: { lang: 'en-US', rate: 1, pitch: 0.8 },
+  }),
+];
+
+export function isBuiltInAgent(agentId: string): boolean {
+  return BUILT_IN_AGENTS.some(agent => agent.id === agentId);
+}
+
+// Tools granted by the agent's enabled capabilities, in CLAUDE_TOOLS order
+export function getAgentTools(agent: Agent): ClaudeTool[] {
+  const allowed = new Set(
+    agent.capabilities
+      .filter(entry => entry.enabled)
+      .flatMap(entry => TOOL_CAPABILITIES[entry.name.toLowerCase()]?.tools ?? [])
+  );
+  return CLAUDE_TOOLS.filter(tool => allowed.has(tool.name));
+}
+
+const AGENT_STATUSES: Agent['status'][] = ['active', 'inactive', 'busy'];
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+function isString(value: unknown, maxLength: number): value is string {
+  return typeof value === 'string' && value.trim().length > 0 && value.length <= maxLength;
+}
+
+function isStringList(value: unknown, maxItems: number): value is string[] {
+  return Array.isArray(value) && value.length <= maxItems && value.every(item => isString(item, 100));
+}
+
+function parsePersonality(value: unknown): AgentPersonality {
+  const personality = (value ?? {}) as Record<string, unknown>;
+  if (
+    !isStringList(personality.traits, 10) ||
+    !isString(personality.communicationStyle, 500) ||
+    !isStringList(personality.expertise, 20)
+  ) {
+    throw new AgentRegistryError('personality needs traits, communicationStyle and expertise', 400);
+  }
+  return {
+    traits: personality.traits,
+    communicationStyle: personality.communicationStyle,
+    expertise: personality.expertise,
+  };
+}
+
+function parseVoice(value: unknown): AgentVoice {
+  const voice = (value ?? {}) as Record<string, unknown>;
+  const rate = voice.rate ?? 1;
+  const pitch = voice.pitch ?? 1;
+  if (
+    !isString(voice.lang, 35) ||
+    (voice.name !== undefined && !isString(voice.name, 200)) ||
+    typeof rate !== 'number' || rate < 0.5 || rate > 2 ||
+    typeof pitch !== 'number' || pitch < 0 || pitch > 2
+  ) {
+    throw new AgentRegistryError('voice needs a lang, a rate between 0.5 and 2 and a pitch between 0 and 2', 400);
+  }
+  return { ...(voice.name !== undefined && { name: voice.name as string }), lang: voice.lang, rate, pitch };
+}
+
+function parseCapabilities(value: unknown): AgentCapability[] {
+  if (!Array.isArray(value) || value.length > 20) {
+    throw new AgentRegistryError('capabilities must be a list of up to 20 entries', 400);
+  }
+  return value.map((entry: Record<string, unknown>) => {
+    if (!entry || !isString(entry.name, 100) || !isString(entry.description, 500)) {
+      throw new AgentRegistryError('Each capability needs a name and a description', 400);
+    }
+    return { name: entry.name, description: entry.description, enabled: entry.enabled !== false };
+  });
+}
+
+// Validate a request body for creating (or, when `partial`, updating) an agent
+export function parseAgentData(body: Record<string, unknown>, partial: true): UpdateAgentData;
+export function parseAgentData(body: Record<string, unknown>, partial?: false): CreateAgentData;
+export function parseAgentData(body: Record<string, unknown>, partial = false): UpdateAgentData {
+  const data: UpdateAgentData = {};
+  const required = (field: string) => !partial || body[field] !== undefined;
+
+  if (required('name')) {
+    if (!isString(body.name, 100)) {
+      throw new AgentRegistryError('A name of up to 100 characters is required', 400);
+    }
+    data.name = body.name.trim();
+  }
+  if (required('description')) {
+    if (!isString(body.description, 500)) {
+      throw new AgentRegistryError('A description of up to 500 characters is required', 400);
+    }
+    data.description = body.description.trim();
+  }
+  if (required('personality')) {
+    data.personality = parsePersonality(body.personality);
+  }
+  if (required('capabilities')) {
+    data.capabilities = parseCapabilities(body.capabilities ?? []);
+  }
+  if (required('color')) {
+    if (typeof body.color !== 'string' || !COLOR_PATTERN.test(body.color)) {
+      throw new AgentRegistryError('color must be a hex color such as #6366f1', 400);
+    }
+    data.color = body.color;
+  }
+  if (body.avatar !== undefined) {
+    if (body.avatar !== null && body.avatar !== '' && !isString(body.avatar, 500)) {
+      throw new AgentRegistryError('avatar must be a URL or an emoji', 400);
+    }
+    data.avatar = (body.avatar as string | null) || '';
+  }
+  if (body.voice !== undefined) {
+    // null removes the voice
+    data.voice = body.voice === null ? null : parseVoice(body.voice);
+  }
+  if (body.status !== undefined) {
+    if (!AGENT_STATUSES.includes(body.status as Agent['status'])) {
+      throw new AgentRegistryError(`status must be one of ${AGENT_STATUSES.join(', ')}`, 400);
+    }
+    data.status = body.status as Agent['status'];
+  }
+  return data;
+}
+
+export interface AgentStore {
+  list(userId: string): Promise<CustomAgent[]>;
+  get(id: string, userId: string): Promise<CustomAgent | null>;
+  create(userId: string, data: CreateAgentData): Promise<CustomAgent>;
+  update(id: string, userId: string, data: UpdateAgentData): Promise<CustomAgent | null>;
+  delete(id: string, userId: string): Promise<boolean>;
+}
+
+function generateId(): string {
+  return `agent_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+// Process-local store, used when no database is configured
+export class InMemoryAgentStore implements AgentStore {
+  private agents: Map<string, CustomAgent> = new Map();
+
+  async list(userId: string): Promise<CustomAgent[]> {
+    return Array.from(this.agents.values())
+      .filter(agent => agent.userId === userId)
+      .map(agent => structuredClone(agent));
+  }
+
+  async get(id: string, userId: string): Promise<CustomAgent | null> {
+    const agent = this.agents.get(id);
+    return agent && agent.userId === userId ? structuredClone(agent) : null;
+  }
+
+  async create(userId: string, data: CreateAgentData): Promise<CustomAgent> {
+    const now = new Date();
+    const agent: CustomAgent = {
+      ...structuredClone(data),
+      id: generateId(),
+      userId,
+      avatar: data.avatar || undefined,
+      voice: data.voice || undefined,
+      status: data.status ?? 'active',
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.agents.set(agent.id, agent);
+    return structuredClone(agent);
+  }
+
+  async update(id: string, userId: string, data: UpdateAgentData): Promise<CustomAgent | null> {
+    const agent = this.agents.get(id);
+    if (!agent || agent.userId !== userId) {
+      return null;
+    }
+    Object.assign(agent, structuredClone(data), { updatedAt: new Date() });
+    if (data.avatar !== undefined) {
+      agent.avatar = data.avatar || undefined;
+    }
+    if (data.voice !== undefined) {
+      agent.voice = data.voice || undefined;
+    }
+    return structuredClone(agent);
+  }
+
+  async delete(id: string, userId: string): Promise<boolean> {
+    const agent = this.agents.get(id);
+    if (!agent || agent.userId !== userId) {
+      return false;
+    }
+    return this.agents.delete(id);
+  }
+}
+
+type AgentRow = Prisma.AgentGetPayload<object>;
+
+function toAgent(row: AgentRow): CustomAgent {
+  return {
+    id: row.id,
+    userId: row.userId,
+    name: row.name,
+    description: row.description,
+    personality: row.personality as unknown as AgentPersonality,
+    capabilities: row.capabilities as unknown as AgentCapability[],
+    color: row.color,
+    avatar: row.avatar ?? undefined,
+    voice: (row.voice as unknown as AgentVoice | null) ?? undefined,
+    status: row.status.toLowerCase() as Agent['status'],
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+function toRowData(data: UpdateAgentData) {
+  return {
+    ...(data.name !== undefined && { name: data.name }),
+    ...(data.description !== undefined && { description: data.description }),
+    ...(data.personality && { personality: data.personality as unknown as Prisma.InputJsonValue }),
+    ...(data.capabilities && { capabilities: data.capabilities as unknown as Prisma.InputJsonValue }),
+    ...(data.color !== undefined && { color: data.color }),
+    ...(data.avatar !== undefined && { avatar: data.avatar || null }),
+    ...(data.voice !== undefined && { voice: (data.voice as unknown as Prisma.InputJsonValue) ?? Prisma.DbNull }),
+    ...(data.status && { status: data.status.toUpperCase() as PrismaAgentStatus }),
+  };
+}
+
+// Durable store backed by the Agent table
+export class PrismaAgentStore implements AgentStore {
+  async list(userId: string): Promise<CustomAgent[]> {
+    const rows = await prisma.agent.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } });
+    return rows.map(toAgent);
+  }
+
+  async get(id: string, userId: string): Promise<CustomAgent | null> {
+    const row = await prisma.agent.findFirst({ where: { id, userId } });
+    return row ? toAgent(row) : null;
+  }
+
+  async create(userId: string, data: CreateAgentData): Promise<CustomAgent> {
+    const row = await prisma.agent.create({
+      data: {
+        userId,
+        name: data.name,
+        description: data.description,
+        personality: data.personality as unknown as Prisma.InputJsonValue,
+        capabilities: data.capabilities as unknown as Prisma.InputJsonValue,
+        color: data.color,
+        ...toRowData({ avatar: data.avatar, voice: data.voice, status: data.status }),
+      },
+    });
+    return toAgent(row);
+  }
+
+  async update(id: string, userId: string, data: UpdateAgentData): Promise<CustomAgent | null> {
+    const { count } = await prisma.agent.updateMany({ where: { id, userId }, data: toRowData(data) });
+    return count > 0 ? this.get(id, userId) : null;
+  }
+
+  async delete(id: string, userId: string): Promise<boolean> {
+    const { count } = await prisma.agent.deleteMany({ where: { id, userId } });
+    return count > 0;
+  }
+}
+
+let storeInstance: AgentStore | null = null;
+
+export function getAgentStore(): AgentStore {
+  if (!storeInstance) {
+    storeInstance = process.env.DATABASE_URL
+      ? new PrismaAgentStore()
+      : new InMemoryAgentStore();
+  }
+  return storeInstance;
+}
+
+// Built-in agents followed by the user's own
+export async function listAgents(userId?: string): Promise<Agent[]> {
+  return userId ? [...BUILT_IN_AGENTS, ...(await getAgentStore().list(userId))] : BUILT_IN_AGENTS;
+}
+
+export async function getAgent(agentId: string, userId?: string): Promise<Agent | null> {
+  const agent = BUILT_IN_AGENTS.find(entry => entry.id === agentId);
+  if (agent || !userId) {
+    return agent ?? null;
+  }
+  return getAgentStore().get(agentId, userId);
+}
@@ -0,0 +1,237 @@
+import type { Agent } from './types/agent';
+import type {
+  ClaudeClient,
+  ClaudeTool,
+  ToolCallRecord,
+  ToolImplementation,
+  ToolLoopOptions,
+  ToolLoopResult,
+} from './claude-client';
+import { createToolImplementations } from './claude-tools';
+import { getAgentTools, listAgents } from './agent-registry';
+import type { WorkspacePolicy } from './workspace';
+import type { UsageTier } from './usage';
+import { createToolAuthorizer } from './tool-approvals';
+import { AgentMemory, agentMemory } from './agent-memory';
+
+// Fields of AgentMessage.metadata rendered by useEnhancedAgents
+export interface AgentReplyMetadata {
+  agentId: string;
+  mood: string;
+  confidence: number;
+  suggestedNextAgent?: string;
+  toolsUsed: string[];
+  memoryAccessed: boolean;
+}
+
+export interface AgentCollaboration {
+  fromAgent: string;
+  toAgent: string;
+  reason: string;
+}
+
+// System prompt that puts the model in the agent's persona
+export function buildAgentSystemPrompt(agent: Agent, others: Agent[]): string {
+  const { traits, communicationStyle, expertise } = agent.personality;
+  const capabilities = agent.capabilities.filter(capability => capability.enabled);
+  const colleagues = others.filter(other => other.id !== agent.id && other.status === 'active');
+
+  return [
+    `You are ${agent.name}, ${agent.description.charAt(0).toLowerCase()}${agent.description.slice(1)}.`,
+    `Personality: ${traits.join(', ')}.`,
+    `Communication style: ${communicationStyle}.`,
+    `Expertise: ${expertise.join(', ')}.`,
+    capabilities.length > 0 &&
+      `You can:\n${capabilities.map(capability => `- ${capability.name}: ${capability.description}`).join('\n')}`,
+    colleagues.length > 0 &&
+      `Other agents the user can switch to: ${colleagues.map(other => `${other.name} (${other.description})`).join('; ')}.`,
+    'Stay in character and keep answers focused on what the user asked.',
+  ].filter(Boolean).join('\n\n');
+}
+
+export function getAgentGreeting(agent: Agent): string {
+  return `Hi, I'm ${agent.name}! ${agent.description}. How can I help?`;
+}
+
+// Crude stemming so "designing" matches "design" and "pages" matches "page"
+function keywords(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z0-9.+#]+/)
+      .filter(word => word.length > 2)
+      .map(word => word.replace(/(ing|es|s)$/, ''))
+  );
+}
+
+function expertiseMatches(agent: Agent, words: Set<string>): string[] {
+  return agent.personality.expertise.filter(area => Array.from(keywords(area)).some(word => words.has(word)));
+}
+
+// Suggest another agent whose expertise fits the message better than the current one's
+export function suggestAgent(message: string, currentAgentId: string, agents: Agent[]): AgentCollaboration | null {
+  const words = keywords(message);
+  const current = agents.find(agent => agent.id === currentAgentId);
+  const currentScore = current ? expertiseMatches(current, words).length : 0;
+
+  let best: { agent: Agent; matches: string[] } | null = null;
+  for (const agent of agents) {
+    if (agent.id === currentAgentId || agent.status !== 'active') {
+      continue;
+    }
+    const matches = expertiseMatches(agent, words);
+    if (matches.length > currentScore && matches.length > (best?.matches.length ?? 0)) {
+      best = { agent, matches };
+    }
+  }
+
+  return best
+    ? { fromAgent: currentAgentId, toAgent: best.agent.id, reason: `${best.agent.name} specializes in ${best.matches.join(', ')}` }
+    : null;
+}
+
+const HEDGES = ["i'm not sure", 'i am not sure', 'might', 'possibly', 'perhaps', 'i think', 'not certain', 'unclear'];
+
+// Estimate how the reply came across. These are heuristics over the reply
+// text and the tool calls, not something the model reports.
+export function describeAgentReply(
+  agent: Agent,
+  reply: { text: string; stopReason?: string | null; toolCalls?: ToolCallRecord[] },
+  options: { suggestion?: AgentCollaboration | null; memoryAccessed?: boolean } = {}
+): AgentReplyMetadata {
+  const text = reply.text.toLowerCase();
+  const toolCalls = reply.toolCalls ?? [];
+  const failedCalls = toolCalls.filter(call => call.error).length;
+
+  let confidence = 0.9;
+  confidence -= Math.min(0.4, HEDGES.filter(hedge => text.includes(hedge)).length * 0.1);
+  confidence -= Math.min(0.2, failedCalls * 0.1);
+  if (reply.stopReason === 'max_tokens' || reply.stopReason === 'max_iterations') {
+    confidence -= 0.2;
+  }
+
+  let mood = agent.personality.traits[0] || 'helpful';
+  if (/\b(sorry|unfortunately|apolog)/.test(text) || failedCalls > 0) {
+    mood = 'apologetic';
+  } else if (toolCalls.length > 0) {
+    mood = 'focused';
+  } else if (text.trim().endsWith('?')) {
+    mood = 'curious';
+  } else if (text.includes('!')) {
+    mood = 'enthusiastic';
+  }
+
+  return {
+    agentId: agent.id,
+    mood,
+    confidence: Math.round(Math.max(0.1, confidence) * 100) / 100,
+    ...(options.suggestion && { suggestedNextAgent: options.suggestion.toAgent }),
+    toolsUsed: Array.from(new Set(toolCalls.map(call => call.name))),
+    memoryAccessed: options.memoryAccessed ?? false,
+  };
+}
+
+export interface AgentTurnOptions {
+  userId: string;
+  // Tier of the API key the request was made with
+  usageTier?: UsageTier;
+  // History is loaded from and saved to the conversation when set
+  conversationId?: string;
+  // Where the agent's file and shell tools run; without one it has no tools
+  workspace?: WorkspacePolicy | null;
+  // Extra context placed before the message, e.g. other agents' answers
+  context?: string;
+  // Tools that act on other agents rather than the workspace; they are
+  // offered even without a workspace and need no approval
+  extraTools?: ClaudeTool[];
+  extraToolImplementations?: Record<string, ToolImplementation>;
+  // Merged into the metadata saved on the prompt and reply
+  metadata?: Record<string, unknown>;
+  // The message is only sent to the model and the reply follows the last
+  // stored one; see SendMessageOptions.continueTurn
+  continueTurn?: boolean;
+  signal?: AbortSignal;
+  onEvent?: ToolLoopOptions['onEvent'];
+}
+
+export interface AgentTurnResult {
+  text: string;
+  metadata: AgentReplyMetadata;
+  collaborations: AgentCollaboration[];
+  result: ToolLoopResult;
+}
+
+// Memories recalled into the system prompt on each turn
+const RECALLED_MEMORIES = 5;
+
+function formatMemories(memories: AgentMemory[]): string {
+  const lines = memories.map(memory =>
+    `- ${memory.key}: ${typeof memory.value === 'string' ? memory.value : JSON.stringify(memory.value)}`
+  );
+  return `What you remember about this user that may be relevant:\n${lines.join('\n')}`;
+}
+
+// Only the tools granted by the agent's capabilities are implemented, so a
+// call to any other tool fails even if the model asks for it
+function agentToolImplementations(agent: Agent, workspace: WorkspacePolicy): Record<string, ToolImplementation> {
+  const implementations = createToolImplementations(workspace) as Record<string, ToolImplementation>;
+  return Object.fromEntries(getAgentTools(agent).map(tool => [tool.name, implementations[tool.name]]));
+}
+
+// Run one agent reply through the tool loop with the agent's persona, tools
+// and the memories most relevant to the message. Tool calls that need
+// approval are rejected, since the agent chat cannot pause for review.
+export async function runAgentTurn(
+  client: ClaudeClient,
+  agent: Agent,
+  message: string,
+  options: AgentTurnOptions
+): Promise<AgentTurnResult> {
+  const { userId, conversationId, workspace, context, extraTools = [], extraToolImplementations = {}, signal, onEvent } = options;
+  const [agents, memories] = await Promise.all([
+    listAgents(userId),
+    agentMemory.search(userId, agent.id, message, RECALLED_MEMORIES),
+  ]);
+  const system = buildAgentSystemPrompt(agent, agents);
+  const authorize = workspace
+    ? await createToolAuthorizer({ userId, conversationId, workspace, interactive: false })
+    : undefined;
+
+  const result = await client.runToolLoop(context ? `${context}\n\n${message}` : message, {
+    conversationId,
+    userId,
+    usageTier: options.usageTier,
+    system: memories.length > 0 ? `${system}\n\n${formatMemories(memories)}` : system,
+    metadata: { ...options.metadata, agentId: agent.id },
+    continueTurn: options.continueTurn,
+    tools: [...(workspace ? getAgentTools(agent) : []), ...extraTools],
+    toolImplementations: {
+      ...(workspace ? agentToolImplementations(agent, workspace) : {}),
+      ...extraToolImplementations,
+    },
+    signal,
+    onEvent,
+    ...(authorize && {
+      authorizeToolCall: async (call) =>
+        extraToolImplementations[call.name] ? { approved: true } : authorize(call),
+    }),
+  });
+
+  const suggestion = suggestAgent(message, agent.id, agents);
+  return {
+    text: result.text,
+    metadata: describeAgentReply(agent, result, { suggestion, memoryAccessed: memories.length > 0 }),
+    collaborations: suggestion ? [suggestion] : [],
+    result,
+  };
+}
+
+// Context for an agent joining a collaboration after others have answered
+export function buildCollaborationContext(previous: Array<{ agent: Agent; text: string }>): string | undefined {
+  if (previous.length === 0) {
+    return undefined;
+  }
+  const answers = previous.map(({ agent, text }) => `### ${agent.name}\n${text}`).join('\n\n');
+  return `You are collaborating with other agents on the task below. Their answers so far:\n\n${answers}\n\n` +
+    'Build on these answers rather than repeating them.\n\nTask:';
+}
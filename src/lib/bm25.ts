@@ -0,0 +1,55 @@
+// Okapi BM25 ranking, used to pick the memories most relevant to a message
+
+const K1 = 1.2;
+const B = 0.75;
+
+// Words too common to say anything about relevance
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'for', 'from', 'has', 'have',
+  'how', 'i', 'in', 'is', 'it', 'me', 'my', 'of', 'on', 'or', 'so', 'that', 'the', 'this', 'to',
+  'was', 'we', 'what', 'when', 'with', 'you', 'your',
+]);
+
+// Lower-cased words with a crude plural/suffix strip, so "deployments" matches "deployment"
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9\u00c0-\u024f]+/)
+    .filter(word => word.length > 0 && !STOP_WORDS.has(word))
+    .map(word => (word.length > 4 ? word.replace(/(ing|ed|es|s)$/, '') : word));
+}
+
+// Scores each document against the query; documents sharing no terms score 0
+export function scoreBM25(query: string, documents: string[]): number[] {
+  const terms = Array.from(new Set(tokenize(query)));
+  if (terms.length === 0 || documents.length === 0) {
+    return documents.map(() => 0);
+  }
+
+  const tokenized = documents.map(tokenize);
+  const averageLength = tokenized.reduce((sum, tokens) => sum + tokens.length, 0) / tokenized.length || 1;
+  const documentFrequency = new Map<string, number>();
+  for (const tokens of tokenized) {
+    for (const term of new Set(tokens)) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    }
+  }
+
+  return tokenized.map(tokens => {
+    const frequency = new Map<string, number>();
+    for (const token of tokens) {
+      frequency.set(token, (frequency.get(token) || 0) + 1);
+    }
+    let score = 0;
+    for (const term of terms) {
+      const tf = frequency.get(term);
+      if (!tf) {
+        continue;
+      }
+      const df = documentFrequency.get(term) || 0;
+      const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+      score += idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * tokens.length / averageLength));
+    }
+    return score;
+  });
+}
@@ -1,119 +1,346 @@
-import Anthropic from '@anthropic-ai/sdk';
-import { Stream } from '@anthropic-ai/sdk/streaming';
+import {
+  ConversationStore,
+  CreateConversationOptions,
+  createConversationStore,
+} from './conversation-store';
+import {
+  LLMContentBlock,
+  LLMMessage,
+  LLMProvider,
+  LLMProviderName,
+  LLMResponse,
+  LLMStopReason,
+  LLMStreamEvent,
+  LLMToolDefinition,
+  ProviderCredentials,
+  createProvider,
+  getResponseText,
+  resolveModel,
+} from './llm';
+import { UsageStore, UsageTier, assertWithinBudget, getUsageStore, recordUsage } from './usage';
+import {
+  ContextCompactionPlan,
+  ContextStrategy,
+  DEFAULT_CONTEXT_STRATEGY,
+  SUMMARY_MAX_TOKENS,
+  SUMMARY_SYSTEM_PROMPT,
+  buildSummaryPrompt,
+  estimateMessageTokens,
+  estimateTokens,
+  formatSummaryForSystem,
+  getActiveContext,
+  getContextWindow,
+  planCompaction,
+} from './context-manager';
+import { BranchMessage, findLatestLeaf, getBranch, getParent, withSiblingInfo } from './message-tree';
 
 export interface ClaudeMessage {
-  role: 'user' | 'assistant';
+  id?: string;
+  // Message this one follows on its branch; null for a root
+  parentId?: string | null;
+  // `system` is only used for the stored rolling summary
+  role: 'user' | 'assistant' | 'system';
   content: string;
+  attachments?: unknown;
+  metadata?: Record<string, unknown>;
+  createdAt?: Date;
 }
 
-export interface ClaudeTool {
-  name: string;
-  description: string;
-  input_schema: {
-    type: 'object';
-    properties: Record<string, unknown>;
-    required?: string[];
-  };
-}
+// Tools are declared once in the Anthropic shape and translated per provider
+export type ClaudeTool = LLMToolDefinition;
 
 export interface ClaudeClientConfig {
-  apiKey: string;
+  apiKey?: string;
+  // Default model for conversations that do not name one; may carry a
+  // `provider/` prefix, e.g. `openai/gpt-4o`
   model?: string;
   maxTokens?: number;
   temperature?: number;
+  // Overrides the model's context window when deciding what to compact
+  contextTokens?: number;
+  store?: ConversationStore;
+  usageStore?: UsageStore;
+  openaiApiKey?: string;
+  openaiBaseUrl?: string;
+  // Pre-built providers, e.g. to point a test at a stand-in server
+  providers?: Partial<Record<LLMProviderName, LLMProvider>>;
 }
 
+export const DEFAULT_MODEL = 'claude-3-opus-20240229';
+
 export interface ConversationContext {
   id: string;
+  userId: string;
+  title?: string;
+  model?: string;
+  contextStrategy?: ContextStrategy;
+  // Last message of the branch currently in use
+  activeLeafId?: string;
+  // Sent as the system prompt of every turn
+  systemPrompt?: string;
+  templateId?: string;
+  templateVersion?: number;
+  // Every message of every branch; see message-tree.ts
   messages: ClaudeMessage[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface SendMessageOptions {
+  conversationId?: string;
+  // Owner of the conversation; history is only loaded and saved when set
+  userId?: string;
+  tools?: ClaudeTool[];
+  // Overrides the conversation's model for this call
+  model?: string;
+  // Overrides the conversation's system prompt for this call
+  system?: string;
+  // Message the new prompt follows; defaults to the active leaf. Passing the
+  // parent of an earlier prompt edits it as a new branch (null for a root).
+  parentId?: string | null;
+  // ID of a stored prompt to answer again; the reply becomes a sibling of its
+  // earlier replies and no new prompt is stored
+  regenerateFrom?: string;
+  // Send the message to the model without storing it; the reply follows the
+  // active leaf, e.g. when an agent takes over a turn another agent handed off
+  continueTurn?: boolean;
+  attachments?: unknown;
+  // Saved with the prompt and its reply, e.g. the prompt template used
+  metadata?: Record<string, unknown>;
+  // Tier of the API key the request was made with; budgets the call
+  // instead of the user's tier
+  usageTier?: UsageTier;
+}
+
+export interface ToolContext {
+  // Aborted when the request that started the tool loop goes away
+  signal?: AbortSignal;
+}
+
+export type ToolImplementation = (input: unknown, context?: ToolContext) => Promise<unknown>;
+
+export interface ToolAuthorization {
+  approved: boolean;
+  reason?: string;
+  // Set when the call waits for the user's review; the loop stops and can be
+  // resumed with the decision
+  pendingApprovalId?: string;
+}
+
+// Consulted before each tool call; a rejected call is reported back to the
+// model as an errored tool_result instead of being executed
+export type ToolAuthorizer = (call: {
+  id: string;
+  name: string;
+  input: unknown;
+  iteration: number;
+}) => Promise<ToolAuthorization>;
+
+export interface ToolCallRecord {
+  id: string;
+  name: string;
+  input: unknown;
+  iteration: number;
+  result?: unknown;
+  error?: string;
+}
+
+// Progress events emitted while the tool loop runs
+export type ToolLoopEvent =
+  | { type: 'delta'; content: string }
+  | { type: 'tool_use'; iteration: number; id: string; name: string; input: unknown }
+  | { type: 'tool_result'; iteration: number; id: string; name: string; result?: unknown; error?: string };
+
+export interface ToolLoopOptions extends SendMessageOptions {
+  toolImplementations: Record<string, ToolImplementation>;
+  maxIterations?: number;
+  signal?: AbortSignal;
+  authorizeToolCall?: ToolAuthorizer;
+  onEvent?: (event: ToolLoopEvent) => void | Promise<void>;
+}
+
+export interface ToolLoopResult {
+  response: LLMResponse;
+  text: string;
+  toolCalls: ToolCallRecord[];
+  iterations: number;
+  stopReason: LLMStopReason | 'max_iterations' | 'approval_required';
+  usage: {
+    inputTokens: number;
+    outputTokens: number;
+  };
+  // Set with stopReason 'approval_required': what resumeToolLoop needs to
+  // carry on, and the approval the loop waits for
+  suspended?: SuspendedToolLoop;
+  approvalId?: string;
+}
+
+// A tool loop stopped at a call that needs approval. Plain JSON, so it can
+// be stored with the approval until the user decides.
+export interface SuspendedToolLoop {
+  userMessage: ClaudeMessage;
+  model: string;
+  system?: string;
+  messages: LLMMessage[];
+  // Calls of the last response not run yet, starting with the one awaiting review
+  pendingCalls: LLMContentBlock[];
+  toolResults: LLMContentBlock[];
+  toolCalls: ToolCallRecord[];
+  text: string;
+  iteration: number;
+  usage: ToolLoopResult['usage'];
+  response?: LLMResponse;
+}
+
+export const DEFAULT_MAX_TOOL_ITERATIONS = 10;
+
 export class ClaudeClient {
-  private client: Anthropic;
   private model: string;
   private maxTokens: number;
   private temperature: number;
-  private conversations: Map<string, ConversationContext>;
+  private contextTokens?: number;
+  private store: ConversationStore;
+  private usage: UsageStore;
+  private credentials: ProviderCredentials;
+  private providers: Partial<Record<LLMProviderName, LLMProvider>>;
 
   constructor(config: ClaudeClientConfig) {
-    this.client = new Anthropic({
-      apiKey: config.apiKey,
-    });
-    this.model = config.model || 'claude-3-opus-20240229';
+    this.model = config.model || DEFAULT_MODEL;
     this.maxTokens = config.maxTokens || 4096;
     this.temperature = config.temperature || 0;
-    this.conversations = new Map();
+    this.contextTokens = config.contextTokens;
+    this.store = config.store || createConversationStore();
+    this.usage = config.usageStore || getUsageStore();
+    this.credentials = {
+      anthropicApiKey: config.apiKey,
+      openaiApiKey: config.openaiApiKey,
+      openaiBaseUrl: config.openaiBaseUrl,
+    };
+    this.providers = { ...config.providers };
   }
 
   // Create a new conversation context
-  createConversation(id?: string): string {
-    const conversationId = id || this.generateId();
-    this.conversations.set(conversationId, {
-      id: conversationId,
-      messages: [],
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    });
-    return conversationId;
+  async createConversation(userId: string, options: CreateConversationOptions = {}): Promise<string> {
+    const conversation = await this.store.create(userId, { ...options, model: options.model || this.model });
+    return conversation.id;
   }
 
   // Get conversation context
-  getConversation(id: string): ConversationContext | undefined {
-    return this.conversations.get(id);
+  async getConversation(id: string, userId: string): Promise<ConversationContext | null> {
+    return this.store.get(id, userId);
+  }
+
+  // Replace the stored messages of a conversation
+  async updateConversation(id: string, userId: string, messages: ClaudeMessage[]): Promise<boolean> {
+    return this.store.replaceMessages(id, userId, messages);
+  }
+
+  // Append turns to a conversation
+  async appendToConversation(
+    id: string,
+    userId: string,
+    messages: ClaudeMessage[],
+    parentId?: string | null
+  ): Promise<boolean> {
+    return this.store.appendMessages(id, userId, messages, parentId);
   }
 
-  // Update conversation context
-  updateConversation(id: string, messages: ClaudeMessage[]): void {
-    const conversation = this.conversations.get(id);
-    if (conversation) {
-      conversation.messages = messages;
-      conversation.updatedAt = new Date();
+  // The active branch, each message annotated with its siblings
+  async getActiveBranch(id: string, userId: string): Promise<BranchMessage[] | null> {
+    const conversation = await this.store.get(id, userId);
+    if (!conversation) {
+      return null;
     }
+    const branch = getBranch(conversation.messages, conversation.activeLeafId);
+    return withSiblingInfo(conversation.messages, branch);
+  }
+
+  // Make the branch through `messageId` active, following its latest replies
+  async switchBranch(id: string, userId: string, messageId: string): Promise<boolean> {
+    const conversation = await this.store.get(id, userId);
+    const leaf = conversation ? findLatestLeaf(conversation.messages, messageId) : undefined;
+    if (!leaf?.id) {
+      return false;
+    }
+    return this.store.update(id, userId, { activeLeafId: leaf.id });
+  }
+
+  // Options that send new text as an edit of an earlier prompt
+  async getEditOptions(id: string, userId: string, messageId: string): Promise<Pick<SendMessageOptions, 'parentId'> | null> {
+    const conversation = await this.store.get(id, userId);
+    const prompt = conversation?.messages.find(message => message.id === messageId);
+    if (!conversation || prompt?.role !== 'user') {
+      return null;
+    }
+    return { parentId: getParent(conversation.messages, messageId)?.id ?? null };
+  }
+
+  // Options that answer an earlier prompt again; accepts the prompt or one of its replies
+  async getRegenerateOptions(
+    id: string,
+    userId: string,
+    messageId: string
+  ): Promise<{ message: string; options: Pick<SendMessageOptions, 'regenerateFrom'> } | null> {
+    const conversation = await this.store.get(id, userId);
+    if (!conversation) {
+      return null;
+    }
+    let prompt = conversation.messages.find(message => message.id === messageId);
+    if (prompt?.role === 'assistant') {
+      prompt = getParent(conversation.messages, messageId) ?? undefined;
+    }
+    if (prompt?.role !== 'user' || !prompt.id) {
+      return null;
+    }
+    return { message: prompt.content, options: { regenerateFrom: prompt.id } };
+  }
+
+  // Choose how older turns are compacted once the context window fills up
+  async setContextStrategy(id: string, userId: string, strategy: ContextStrategy): Promise<boolean> {
+    return this.store.update(id, userId, { contextStrategy: strategy });
+  }
+
+  // An empty prompt removes the conversation's system prompt
+  async setSystemPrompt(id: string, userId: string, systemPrompt: string): Promise<boolean> {
+    return this.store.update(id, userId, { systemPrompt });
+  }
+
+  // Pinned messages are never compacted
+  async pinMessage(id: string, userId: string, messageId: string, pinned: boolean): Promise<boolean> {
+    return this.store.updateMessageMetadata(id, userId, messageId, { pinned });
   }
 
   // Delete conversation context
-  deleteConversation(id: string): boolean {
-    return this.conversations.delete(id);
+  async deleteConversation(id: string, userId: string): Promise<boolean> {
+    return this.store.delete(id, userId);
   }
 
   // Send a message without streaming
   async sendMessage(
     message: string,
-    conversationId?: string,
-    tools?: ClaudeTool[]
-  ): Promise<Anthropic.Message> {
-    const messages: ClaudeMessage[] = [];
-
-    if (conversationId) {
-      const conversation = this.conversations.get(conversationId);
-      if (conversation) {
-        messages.push(...conversation.messages);
-      }
-    }
+    options: SendMessageOptions = {}
+  ): Promise<LLMResponse> {
+    const { userId, tools } = options;
+    const userMessage = this.buildUserMessage(message, options);
 
-    messages.push({ role: 'user', content: message });
-
-    const response = await this.client.messages.create({
-      model: this.model,
-      max_tokens: this.maxTokens,
+    await this.checkBudget(userId, options.usageTier);
+    const { model, messages, system } = await this.prepareContext(userMessage, options);
+    const { provider, model: providerModel } = this.resolveProvider(model);
+    const response = await provider.complete({
+      model: providerModel,
+      maxTokens: this.maxTokens,
       temperature: this.temperature,
-      messages: messages.map(msg => ({
-        role: msg.role,
-        content: msg.content,
-      })),
-      ...(tools && { tools }),
+      messages,
+      system,
+      tools,
     });
+    await this.trackUsage(response, options);
 
-    // Update conversation if ID provided
-    if (conversationId) {
-      messages.push({
-        role: 'assistant',
-        content: response.content[0].type === 'text' ? response.content[0].text : '',
-      });
-      this.updateConversation(conversationId, messages);
-    }
+    await this.saveTurn(userMessage, {
+      role: 'assistant',
+      content: getResponseText(response),
+      metadata: { model: response.model, provider: response.provider, stopReason: response.stopReason },
+    }, options);
 
     return response;
   }
@@ -121,42 +348,231 @@ export class ClaudeClient {
   // Send a message with streaming
   async sendMessageStream(
     message: string,
-    conversationId?: string,
-    tools?: ClaudeTool[]
-  ): Promise<Stream<Anthropic.MessageStreamEvent>> {
-    const messages: ClaudeMessage[] = [];
-
-    if (conversationId) {
-      const conversation = this.conversations.get(conversationId);
-      if (conversation) {
-        messages.push(...conversation.messages);
+    options: SendMessageOptions = {}
+  ): Promise<AsyncIterable<LLMStreamEvent>> {
+    const { userId, tools } = options;
+    const userMessage = this.buildUserMessage(message, options);
+
+    await this.checkBudget(userId, options.usageTier);
+    const { model, messages, system } = await this.prepareContext(userMessage, options);
+    const { provider, model: providerModel } = this.resolveProvider(model);
+    const stream = provider.stream({
+      model: providerModel,
+      maxTokens: this.maxTokens,
+      temperature: this.temperature,
+      messages,
+      system,
+      tools,
+    });
+
+    // Usage and the completed turn are recorded from the final event, before
+    // it is passed on
+    const complete = async (response: LLMResponse) => {
+      await this.trackUsage(response, options);
+      await this.saveTurn(userMessage, {
+        role: 'assistant',
+        content: getResponseText(response),
+        metadata: { model: response.model, provider: response.provider, stopReason: response.stopReason },
+      }, options);
+    };
+    return (async function* () {
+      for await (const event of stream) {
+        if (event.type === 'done') {
+          await complete(event.response);
+        }
+        yield event;
+      }
+    })();
+  }
+
+  // Run the model, execute any tool_use blocks it returns, feed the results
+  // back as tool_result blocks and repeat until it ends its turn, the
+  // iteration budget is spent or a call waits for the user's review
+  async runToolLoop(message: string, options: ToolLoopOptions): Promise<ToolLoopResult> {
+    const userMessage = this.buildUserMessage(message, options);
+
+    await this.checkBudget(options.userId, options.usageTier);
+    const { model, messages, system } = await this.prepareContext(userMessage, options);
+    return this.driveToolLoop({
+      userMessage,
+      model,
+      messages,
+      system,
+      pendingCalls: [],
+      toolResults: [],
+      toolCalls: [],
+      text: '',
+      iteration: 0,
+      usage: { inputTokens: 0, outputTokens: 0 },
+    }, options);
+  }
+
+  // Continue a tool loop that stopped for approval; `decision` is applied to
+  // the call it stopped on instead of asking the authorizer again
+  async resumeToolLoop(
+    state: SuspendedToolLoop,
+    decision: ToolAuthorization,
+    options: ToolLoopOptions
+  ): Promise<ToolLoopResult> {
+    await this.checkBudget(options.userId, options.usageTier);
+    return this.driveToolLoop(state, options, decision);
+  }
+
+  private async driveToolLoop(
+    state: SuspendedToolLoop,
+    options: ToolLoopOptions,
+    decision?: ToolAuthorization
+  ): Promise<ToolLoopResult> {
+    const { userId, tools, maxIterations = DEFAULT_MAX_TOOL_ITERATIONS, signal, onEvent } = options;
+    const { provider, model: providerModel } = this.resolveProvider(state.model);
+    const { messages, toolCalls, usage } = state;
+    let response = state.response;
+    let stopReason: ToolLoopResult['stopReason'] = response?.stopReason ?? null;
+
+    while (true) {
+      if (state.pendingCalls.length > 0) {
+        const approvalId = await this.runPendingToolCalls(state, options, decision);
+        decision = undefined;
+        if (approvalId) {
+          // Nothing is saved yet; the turn is stored once the loop finishes
+          return {
+            response: response!,
+            text: state.text,
+            toolCalls,
+            iterations: state.iteration,
+            stopReason: 'approval_required',
+            usage,
+            suspended: { ...state, response },
+            approvalId,
+          };
+        }
+        messages.push({ role: 'user', content: state.toolResults });
+        state.toolResults = [];
       }
+
+      state.iteration++;
+      response = undefined;
+      // Checked on every iteration so a long tool loop stops at the budget
+      await this.checkBudget(userId, options.usageTier);
+      for await (const event of provider.stream({
+        model: providerModel,
+        maxTokens: this.maxTokens,
+        temperature: this.temperature,
+        messages,
+        system: state.system,
+        tools,
+        signal,
+      })) {
+        if (event.type === 'text') {
+          await onEvent?.({ type: 'delta', content: event.text });
+        } else {
+          response = event.response;
+        }
+      }
+      if (!response) {
+        throw new Error('Model stream ended without a response');
+      }
+      await this.trackUsage(response, options);
+
+      usage.inputTokens += response.usage.inputTokens;
+      usage.outputTokens += response.usage.outputTokens;
+      state.text += getResponseText(response);
+      messages.push({ role: 'assistant', content: response.content });
+      stopReason = response.stopReason;
+
+      if (response.stopReason !== 'tool_use') {
+        break;
+      }
+      if (state.iteration >= maxIterations) {
+        stopReason = 'max_iterations';
+        break;
+      }
+      state.pendingCalls = response.content.filter(block => block.type === 'tool_use');
     }
 
-    messages.push({ role: 'user', content: message });
+    // Only the user prompt and the final answer are replayable as plain
+    // turns; the tool activity is kept in the assistant message metadata
+    await this.saveTurn(state.userMessage, {
+      role: 'assistant',
+      content: state.text,
+      metadata: {
+        model: response.model,
+        provider: response.provider,
+        stopReason,
+        iterations: state.iteration,
+        ...(toolCalls.length > 0 && { toolCalls: toolCalls as unknown as Record<string, unknown>[] }),
+      },
+    }, options);
 
-    const stream = await this.client.messages.create({
-      model: this.model,
-      max_tokens: this.maxTokens,
-      temperature: this.temperature,
-      messages: messages.map(msg => ({
-        role: msg.role,
-        content: msg.content,
-      })),
-      stream: true,
-      ...(tools && { tools }),
-    });
+    return { response, text: state.text, toolCalls, iterations: state.iteration, stopReason, usage };
+  }
+
+  // Run the calls of the last response in order, moving each result to
+  // state.toolResults; returns the approval ID when a call has to wait
+  private async runPendingToolCalls(
+    state: SuspendedToolLoop,
+    options: ToolLoopOptions,
+    decision?: ToolAuthorization
+  ): Promise<string | undefined> {
+    const { toolImplementations, signal, authorizeToolCall, onEvent } = options;
+    const iteration = state.iteration;
+
+    while (state.pendingCalls.length > 0) {
+      const block = state.pendingCalls[0] as Extract<LLMContentBlock, { type: 'tool_use' }>;
+      const call: ToolCallRecord = { id: block.id, name: block.name, input: block.input, iteration };
+
+      let authorization = decision;
+      decision = undefined;
+      if (!authorization) {
+        await onEvent?.({ type: 'tool_use', iteration, id: block.id, name: block.name, input: block.input });
+        authorization = authorizeToolCall
+          ? await authorizeToolCall({ id: block.id, name: block.name, input: block.input, iteration })
+          : { approved: true };
+      }
+      if (authorization.pendingApprovalId) {
+        return authorization.pendingApprovalId;
+      }
 
-    // We'll update the conversation after the stream completes
-    // This requires handling in the API route
-    return stream;
+      if (!authorization.approved) {
+        call.error = `Tool call was not approved${authorization.reason ? `: ${authorization.reason}` : ''}`;
+        state.toolResults.push({ type: 'tool_result', toolUseId: block.id, content: call.error, isError: true });
+      } else {
+        try {
+          call.result = await this.executeToolCall(block.name, block.input, toolImplementations, { signal });
+          // Tool implementations report their own failures as { success: false }
+          const failed = (call.result as { success?: boolean } | null)?.success === false;
+          state.toolResults.push({
+            type: 'tool_result',
+            toolUseId: block.id,
+            content: JSON.stringify(call.result),
+            ...(failed && { isError: true }),
+          });
+        } catch (error) {
+          call.error = error instanceof Error ? error.message : 'Tool execution failed';
+          state.toolResults.push({ type: 'tool_result', toolUseId: block.id, content: `Error: ${call.error}`, isError: true });
+        }
+      }
+
+      state.pendingCalls.shift();
+      state.toolCalls.push(call);
+      await onEvent?.({
+        type: 'tool_result',
+        iteration,
+        id: call.id,
+        name: call.name,
+        result: call.result,
+        error: call.error,
+      });
+    }
+    return undefined;
   }
 
   // Tool execution wrapper
   async executeToolCall(
     toolName: string,
     toolInput: unknown,
-    toolImplementations: Record<string, (input: unknown) => Promise<unknown>>
+    toolImplementations: Record<string, ToolImplementation>,
+    context: ToolContext = {}
   ): Promise<unknown> {
     const implementation = toolImplementations[toolName];
     if (!implementation) {
@@ -164,15 +580,221 @@ export class ClaudeClient {
     }
 
     try {
-      return await implementation(toolInput);
+      return await implementation(toolInput, context);
     } catch (error) {
       throw new Error(`Tool execution failed: ${error}`);
     }
   }
 
-  private generateId(): string {
-    return `conv_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  // Load the conversation's replayable turns and rolling summary, compacting
+  // older turns first if the request would not fit in the context window.
+  // An explicit model option wins over the conversation's model.
+  private async prepareContext(
+    userMessage: ClaudeMessage,
+    options: SendMessageOptions
+  ): Promise<{ model: string; messages: LLMMessage[]; system?: string }> {
+    const { conversationId, userId, tools } = options;
+    const conversation = conversationId && userId ? await this.store.get(conversationId, userId) : null;
+    const model = options.model || conversation?.model || this.model;
+    if (!conversation) {
+      return { model, messages: toLLMMessages([userMessage]), ...(options.system && { system: options.system }) };
+    }
+
+    // Replay the branch the new prompt continues
+    let leafId = options.parentId !== undefined ? options.parentId : conversation.activeLeafId;
+    if (options.regenerateFrom) {
+      const prompt = conversation.messages.find(msg => msg.id === options.regenerateFrom);
+      if (prompt?.role !== 'user') {
+        throw new Error(`Message ${options.regenerateFrom} is not a prompt in this conversation`);
+      }
+      leafId = getParent(conversation.messages, options.regenerateFrom)?.id ?? null;
+    }
+    const branch = getBranch(conversation.messages, leafId);
+
+    const active = getActiveContext(conversation.messages, branch);
+    const strategy = conversation.contextStrategy || DEFAULT_CONTEXT_STRATEGY;
+    const contextWindow = this.contextTokens || getContextWindow(resolveModel(model).model);
+    const plan = planCompaction(active.messages, {
+      strategy,
+      budget: contextWindow - this.maxTokens,
+      reservedTokens:
+        estimateMessageTokens(userMessage) +
+        estimateTokens(options.system ?? conversation.systemPrompt ?? '') +
+        (tools ? estimateTokens(JSON.stringify(tools)) : 0) +
+        (strategy === 'sliding' ? estimateTokens(active.summary?.content || '') : SUMMARY_MAX_TOKENS),
+    });
+
+    let history = active.messages;
+    let summary = active.summary?.content;
+    if (plan) {
+      summary = await this.compactConversation(conversation, plan, strategy, active.summary, model, options);
+      history = plan.keep;
+    }
+
+    const system = [options.system ?? conversation.systemPrompt, summary && formatSummaryForSystem(summary)]
+      .filter(Boolean)
+      .join('\n\n');
+    return {
+      model,
+      messages: toLLMMessages([...history, userMessage]),
+      ...(system && { system }),
+    };
+  }
+
+  // Apply a compaction plan and return the summary to send with the request
+  private async compactConversation(
+    conversation: ConversationContext,
+    plan: ContextCompactionPlan,
+    strategy: ContextStrategy,
+    previousSummary: ClaudeMessage | undefined,
+    model: string,
+    options: SendMessageOptions
+  ): Promise<string | undefined> {
+    let summary: string | undefined;
+    let applied = strategy;
+    if (strategy !== 'sliding') {
+      try {
+        summary = await this.summarize(previousSummary?.content, plan.compact, model, options);
+      } catch (error) {
+        if (strategy === 'summarize') {
+          throw error;
+        }
+        console.error('Conversation summarization failed, dropping turns instead:', error);
+        applied = 'sliding';
+      }
+    }
+
+    const compactedIds = plan.compact.map(message => message.id!);
+    const details = {
+      strategy: applied,
+      at: new Date().toISOString(),
+      tokensBefore: plan.tokensBefore,
+      tokensAfter: plan.tokensAfter,
+    };
+    const previousTotal = Number(previousSummary?.metadata?.totalCompacted) || 0;
+
+    await this.store.compact(conversation.id, conversation.userId, {
+      compactedIds,
+      details,
+      ...(summary !== undefined && {
+        summary: {
+          role: 'system',
+          // Anchored at the last message it covers, so branches forked
+          // earlier do not pick it up
+          parentId: compactedIds[compactedIds.length - 1],
+          content: summary,
+          metadata: {
+            type: 'summary',
+            ...details,
+            compactedMessageIds: compactedIds,
+            totalCompacted: previousTotal + compactedIds.length,
+          },
+        },
+      }),
+    });
+
+    return summary ?? previousSummary?.content;
+  }
+
+  private async summarize(
+    previousSummary: string | undefined,
+    messages: ClaudeMessage[],
+    model: string,
+    options: SendMessageOptions
+  ): Promise<string> {
+    const { provider, model: providerModel } = this.resolveProvider(model);
+    const response = await provider.complete({
+      model: providerModel,
+      maxTokens: SUMMARY_MAX_TOKENS,
+      temperature: 0,
+      system: SUMMARY_SYSTEM_PROMPT,
+      messages: [{ role: 'user', content: buildSummaryPrompt(previousSummary, messages) }],
+    });
+    await this.trackUsage(response, options);
+    return getResponseText(response).trim();
+  }
+
+  // Store the prompt and its reply on the right branch; a regenerated reply
+  // is attached to the existing prompt instead
+  private async saveTurn(userMessage: ClaudeMessage, reply: ClaudeMessage, options: SendMessageOptions): Promise<void> {
+    const { conversationId, userId, regenerateFrom, parentId } = options;
+    if (!conversationId || !userId) {
+      return;
+    }
+    if (options.metadata) {
+      reply = { ...reply, metadata: { ...options.metadata, ...reply.metadata } };
+    }
+    if (regenerateFrom) {
+      await this.store.appendMessages(conversationId, userId, [reply], regenerateFrom);
+    } else if (options.continueTurn) {
+      await this.store.appendMessages(conversationId, userId, [reply], parentId);
+    } else {
+      await this.store.appendMessages(conversationId, userId, [userMessage, reply], parentId);
+    }
+  }
+
+  private async checkBudget(userId?: string, tier?: UsageTier): Promise<void> {
+    if (userId) {
+      await assertWithinBudget(userId, { store: this.usage, tier });
+    }
+  }
+
+  // Usage is attributed to the signed-in user; anonymous calls are not accounted
+  private async trackUsage(response: LLMResponse, options: SendMessageOptions): Promise<void> {
+    if (!options.userId) {
+      return;
+    }
+    try {
+      await recordUsage({
+        userId: options.userId,
+        conversationId: options.conversationId,
+        provider: response.provider,
+        model: response.model,
+        inputTokens: response.usage.inputTokens,
+        outputTokens: response.usage.outputTokens,
+      }, this.usage);
+    } catch (error) {
+      // The reply has already been paid for; don't fail the request over bookkeeping
+      console.error('Failed to record token usage:', error);
+    }
+  }
+
+  private resolveProvider(model: string): { provider: LLMProvider; model: string } {
+    const resolved = resolveModel(model);
+    let provider = this.providers[resolved.provider];
+    if (!provider) {
+      provider = createProvider(resolved.provider, this.credentials);
+      this.providers[resolved.provider] = provider;
+    }
+    return { provider, model: resolved.model };
   }
+
+  private buildUserMessage(message: string, options: SendMessageOptions): ClaudeMessage {
+    return {
+      role: 'user',
+      content: message,
+      ...(options.attachments !== undefined && { attachments: options.attachments }),
+      ...(options.metadata && { metadata: options.metadata }),
+    };
+  }
+}
+
+// Replies stored back to back (a handed-off turn) are sent as one message,
+// since providers expect user and assistant turns to alternate
+function toLLMMessages(messages: ClaudeMessage[]): LLMMessage[] {
+  const result: LLMMessage[] = [];
+  for (const msg of messages) {
+    if (msg.role === 'system') {
+      continue;
+    }
+    const previous = result[result.length - 1];
+    if (previous?.role === msg.role && typeof previous.content === 'string') {
+      previous.content = `${previous.content}\n\n${msg.content}`;
+    } else {
+      result.push({ role: msg.role, content: msg.content });
+    }
+  }
+  return result;
 }
 
 // Export a singleton instance for easy use
@@ -183,7 +805,12 @@ export function getClaudeClient(apiKey?: string): ClaudeClient {
     if (!apiKey) {
       throw new Error('API key required for first initialization');
     }
-    clientInstance = new ClaudeClient({ apiKey });
+    clientInstance = new ClaudeClient({
+      apiKey,
+      model: process.env.CLAUDE_MODEL,
+      openaiApiKey: process.env.OPENAI_API_KEY,
+      openaiBaseUrl: process.env.OPENAI_BASE_URL,
+    });
   }
   return clientInstance;
 }
\ No newline at end of file
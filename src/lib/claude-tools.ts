@@ -1,20 +1,70 @@
 import { promises as fs } from 'fs';
-import { exec } from 'child_process';
-import { promisify } from 'util';
 import path from 'path';
+import type { ToolContext } from './claude-client';
+import {
+  CommandPolicyError,
+  DEFAULT_TIMEOUT_MS,
+  assertCommandAllowed,
+  getCommandPolicy,
+  getPathArguments,
+  parseCommandLine,
+  runCommand,
+} from './safe-exec';
+import {
+  WorkspacePolicy,
+  WorkspacePolicyError,
+  WorkspaceViolation,
+  assertFileSize,
+  matchesGlob,
+  resolveWorkspacePath,
+  toWorkspaceRelative,
+} from './workspace';
 
-const execAsync = promisify(exec);
+export type ToolErrorCode = WorkspaceViolation | 'COMMAND_NOT_ALLOWED' | 'INVALID_PATTERN';
 
 export interface ToolResult {
   success: boolean;
   data?: unknown;
   error?: string;
+  // Set when the call was rejected by the workspace or command policy
+  code?: ToolErrorCode;
+  path?: string;
+}
+
+export interface GrepMatch {
+  file: string;
+  line: number;
+  text: string;
+  before?: string[];
+  after?: string[];
+}
+
+const DEFAULT_GREP_MAX_RESULTS = 100;
+const MAX_GREP_RESULTS = 1000;
+const MAX_GREP_CONTEXT_LINES = 10;
+const GREP_TIMEOUT_MS = 10000;
+const GREP_CPU_TIME_LIMIT = 10;
+
+function toErrorResult(error: unknown): ToolResult {
+  if (error instanceof WorkspacePolicyError) {
+    return { success: false, error: error.message, code: error.code, path: error.path };
+  }
+  if (error instanceof CommandPolicyError) {
+    return { success: false, error: error.message, code: 'COMMAND_NOT_ALLOWED' };
+  }
+  return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
 }
 
 // Read tool implementation
-export async function readTool(input: { file_path: string; limit?: number; offset?: number }): Promise<ToolResult> {
+export async function readTool(
+  input: { file_path: string; limit?: number; offset?: number },
+  policy: WorkspacePolicy
+): Promise<ToolResult> {
   try {
-    const { file_path, limit, offset } = input;
+    const { limit, offset } = input;
+    const file_path = await resolveWorkspacePath(policy, input.file_path);
+    const stats = await fs.stat(file_path);
+    assertFileSize(policy, stats.size, input.file_path);
     const content = await fs.readFile(file_path, 'utf-8');
     const lines = content.split('\n');
     
@@ -33,91 +83,136 @@ export async function readTool(input: { file_path: string; limit?: number; offse
     
     return { success: true, data: result };
   } catch (error) {
-    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    return toErrorResult(error);
   }
 }
 
 // Write tool implementation
-export async function writeTool(input: { file_path: string; content: string }): Promise<ToolResult> {
+export async function writeTool(
+  input: { file_path: string; content: string },
+  policy: WorkspacePolicy
+): Promise<ToolResult> {
   try {
-    const { file_path, content } = input;
+    const { content } = input;
+    const file_path = await resolveWorkspacePath(policy, input.file_path);
+    assertFileSize(policy, Buffer.byteLength(content, 'utf-8'), input.file_path);
     const dir = path.dirname(file_path);
     
     // Ensure directory exists
     await fs.mkdir(dir, { recursive: true });
     await fs.writeFile(file_path, content, 'utf-8');
     
-    return { success: true, data: `File written successfully: ${file_path}` };
+    return { success: true, data: `File written successfully: ${await toWorkspaceRelative(policy, file_path)}` };
   } catch (error) {
-    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    return toErrorResult(error);
   }
 }
 
+// Apply an edit tool replacement, returning null if old_string is missing
+export function applyEdit(content: string, oldString: string, newString: string, replaceAll?: boolean): string | null {
+  if (replaceAll) {
+    return content.split(oldString).join(newString);
+  }
+  const index = content.indexOf(oldString);
+  if (index === -1) {
+    return null;
+  }
+  return content.substring(0, index) + newString + content.substring(index + oldString.length);
+}
+
 // Edit tool implementation
 export async function editTool(input: { 
   file_path: string; 
   old_string: string; 
   new_string: string; 
   replace_all?: boolean 
-}): Promise<ToolResult> {
+}, policy: WorkspacePolicy): Promise<ToolResult> {
   try {
-    const { file_path, old_string, new_string, replace_all } = input;
-    let content = await fs.readFile(file_path, 'utf-8');
-    
-    if (replace_all) {
-      content = content.split(old_string).join(new_string);
-    } else {
-      const index = content.indexOf(old_string);
-      if (index === -1) {
-        return { success: false, error: 'String not found in file' };
-      }
-      content = content.substring(0, index) + new_string + content.substring(index + old_string.length);
+    const { old_string, new_string, replace_all } = input;
+    const file_path = await resolveWorkspacePath(policy, input.file_path);
+    const stats = await fs.stat(file_path);
+    assertFileSize(policy, stats.size, input.file_path);
+    const content = applyEdit(await fs.readFile(file_path, 'utf-8'), old_string, new_string, replace_all);
+    if (content === null) {
+      return { success: false, error: 'String not found in file' };
     }
     
+    assertFileSize(policy, Buffer.byteLength(content, 'utf-8'), input.file_path);
     await fs.writeFile(file_path, content, 'utf-8');
-    return { success: true, data: `File edited successfully: ${file_path}` };
+    return { success: true, data: `File edited successfully: ${await toWorkspaceRelative(policy, file_path)}` };
   } catch (error) {
-    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    return toErrorResult(error);
   }
 }
 
-// Bash tool implementation
-export async function bashTool(input: { command: string; timeout?: number }): Promise<ToolResult> {
+// Bash tool implementation. The command line is split into argv and spawned
+// directly, so shell operators and substitutions are never interpreted.
+export async function bashTool(
+  input: { command: string; timeout?: number },
+  policy: WorkspacePolicy,
+  context: ToolContext = {}
+): Promise<ToolResult> {
   try {
-    const { command, timeout = 120000 } = input;
-    const { stdout, stderr } = await execAsync(command, { timeout });
-    
-    return { 
-      success: true, 
-      data: {
-        stdout: stdout.trim(),
-        stderr: stderr.trim(),
-      }
-    };
-  } catch (error: unknown) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-    const execError = error as { stdout?: string; stderr?: string; code?: number };
-    
-    return { 
-      success: false, 
-      error: errorMessage,
-      data: {
-        stdout: execError.stdout?.trim(),
-        stderr: execError.stderr?.trim(),
-        code: execError.code,
-      }
+    const { command, timeout = DEFAULT_TIMEOUT_MS } = input;
+    const argv = parseCommandLine(command);
+    assertCommandAllowed(argv, getCommandPolicy());
+
+    // Arguments are checked like file tool paths, so the workspace root,
+    // symlinks and the deny list apply to commands too
+    for (const arg of getPathArguments(argv.slice(1))) {
+      await resolveWorkspacePath(policy, arg);
+    }
+
+    const result = await runCommand(argv, {
+      cwd: policy.root,
+      timeout: Math.min(timeout, DEFAULT_TIMEOUT_MS),
+      signal: context.signal,
+    });
+    const data = {
+      stdout: result.stdout.trim(),
+      stderr: result.stderr.trim(),
+      code: result.exitCode,
+      ...(result.truncated && { truncated: true }),
     };
+
+    if (result.aborted) {
+      return { success: false, error: 'Command was cancelled', data };
+    }
+    if (result.timedOut) {
+      return { success: false, error: `Command timed out after ${timeout}ms`, data };
+    }
+    if (result.truncated) {
+      return { success: false, error: 'Command output exceeded the size limit and was terminated', data };
+    }
+    if (result.exitCode !== 0) {
+      const reason = result.signal ? `was killed by ${result.signal}` : `exited with code ${result.exitCode}`;
+      return { success: false, error: `Command ${reason}`, data };
+    }
+
+    return { success: true, data };
+  } catch (error) {
+    return toErrorResult(error);
   }
 }
 
 // List files tool implementation
-export async function listTool(input: { path: string; ignore?: string[] }): Promise<ToolResult> {
+export async function listTool(
+  input: { path: string; ignore?: string[] },
+  policy: WorkspacePolicy
+): Promise<ToolResult> {
   try {
-    const { path: dirPath, ignore = [] } = input;
+    const { ignore = [] } = input;
+    const dirPath = await resolveWorkspacePath(policy, input.path);
+    const relativeDir = await toWorkspaceRelative(policy, dirPath);
     const entries = await fs.readdir(dirPath, { withFileTypes: true });
     
     const filtered = entries.filter(entry => {
       const name = entry.name;
+      // Hide entries the workspace policy would refuse to open
+      const relativePath = relativeDir === '.' ? name : `${relativeDir}/${name}`;
+      if (matchesGlob(relativePath, policy.deny)) {
+        return false;
+      }
       return !ignore.some(pattern => {
         // Simple glob matching (just for demonstration)
         if (pattern.includes('*')) {
@@ -135,42 +230,173 @@ export async function listTool(input: { path: string; ignore?: string[] }): Prom
     
     return { success: true, data: result };
   } catch (error) {
-    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    return toErrorResult(error);
+  }
+}
+
+// Recursively yield regular files, skipping symlinks and denied directories
+async function* walkFiles(target: string, policy: WorkspacePolicy): AsyncGenerator<string> {
+  const stats = await fs.lstat(target);
+  if (stats.isFile()) {
+    yield target;
+    return;
+  }
+  if (!stats.isDirectory()) {
+    return;
+  }
+
+  const entries = await fs.readdir(target, { withFileTypes: true });
+  for (const entry of entries) {
+    const entryPath = path.join(target, entry.name);
+    if (entry.isDirectory()) {
+      if (!matchesGlob(await toWorkspaceRelative(policy, entryPath), policy.deny)) {
+        yield* walkFiles(entryPath, policy);
+      }
+    } else if (entry.isFile()) {
+      yield entryPath;
+    }
   }
 }
 
-// Grep tool implementation
+// Files searched by one grep process
+const GREP_BATCH_SIZE = 200;
+
+interface GrepBatchResult {
+  // Matching lines by file, in the order grep reported them
+  lines: Array<{ file: string; line: number }>;
+  stopped?: ToolResult;
+}
+
+async function grepBatch(
+  files: string[],
+  pattern: string,
+  caseInsensitive: boolean | undefined,
+  cwd: string,
+  timeout: number,
+  signal?: AbortSignal
+): Promise<GrepBatchResult> {
+  // -Z ends each file name with NUL so names may contain ':'; -s hides
+  // errors about files that vanished, leaving stderr to pattern errors
+  const argv = ['grep', '-n', '-H', '-I', '-Z', '-s', '-E', ...(caseInsensitive ? ['-i'] : []), '-e', pattern, '--', ...files];
+  const result = await runCommand(argv, { cwd, timeout, cpuTimeLimit: GREP_CPU_TIME_LIMIT, signal });
+
+  if (result.aborted) {
+    return { lines: [], stopped: { success: false, error: 'Search was cancelled' } };
+  }
+  if (result.timedOut || result.signal) {
+    return { lines: [], stopped: { success: false, error: 'Search took too long; use a simpler pattern or a narrower path' } };
+  }
+  if (result.exitCode === 2 && !result.stdout) {
+    const reason = result.stderr.replace(/^grep: /, '').trim();
+    return { lines: [], stopped: { success: false, error: `Invalid regular expression: ${reason || pattern}`, code: 'INVALID_PATTERN' } };
+  }
+
+  const output = result.stdout.split('\n');
+  // A cut-off last line is dropped
+  output.pop();
+  const lines: GrepBatchResult['lines'] = [];
+  for (const entry of output) {
+    const separator = entry.indexOf('\0');
+    const line = parseInt(entry.slice(separator + 1), 10);
+    if (separator > 0 && line > 0) {
+      lines.push({ file: entry.slice(0, separator), line });
+    }
+  }
+  return { lines };
+}
+
+// Grep tool implementation. Candidate files are picked with the workspace
+// policy here; the pattern itself runs in a grep process with a time and CPU
+// limit, so a pathological expression cannot block the server.
 export async function grepTool(input: { 
   pattern: string; 
   path?: string; 
   include?: string; 
   exclude?: string;
   case_insensitive?: boolean;
-}): Promise<ToolResult> {
+  context?: number;
+  max_results?: number;
+}, policy: WorkspacePolicy, context: ToolContext = {}): Promise<ToolResult> {
   try {
-    const { pattern, path: searchPath = '.', include, exclude, case_insensitive } = input;
-    
-    let command = `grep -r`;
-    if (case_insensitive) command += ' -i';
-    if (include) command += ` --include="${include}"`;
-    if (exclude) command += ` --exclude="${exclude}"`;
-    command += ` "${pattern}" "${searchPath}"`;
-    
-    const { stdout } = await execAsync(command);
-    
-    return { 
-      success: true, 
-      data: stdout.trim().split('\n').filter(line => line),
-    };
-  } catch (error: unknown) {
-    const execError = error as { code?: number };
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-    
-    // Grep returns exit code 1 when no matches found
-    if (execError.code === 1) {
-      return { success: true, data: [] };
+    const { pattern, include, exclude, case_insensitive } = input;
+    const deadline = Date.now() + GREP_TIMEOUT_MS;
+
+    const searchPath = await resolveWorkspacePath(policy, input.path || '.');
+    const contextLines = Math.min(Math.max(input.context ?? 0, 0), MAX_GREP_CONTEXT_LINES);
+    const maxResults = Math.min(Math.max(input.max_results ?? DEFAULT_GREP_MAX_RESULTS, 1), MAX_GREP_RESULTS);
+    const matches: GrepMatch[] = [];
+    let truncated = false;
+
+    const files: string[] = [];
+    for await (const file of walkFiles(searchPath, policy)) {
+      if (context.signal?.aborted) {
+        return { success: false, error: 'Search was cancelled' };
+      }
+
+      const relative = await toWorkspaceRelative(policy, file);
+      if (matchesGlob(relative, policy.deny) || !matchesGlob(relative, policy.allow)) {
+        continue;
+      }
+
+      // Like grep --include/--exclude, bare patterns match the file name
+      const matchTarget = (glob: string) => (glob.includes('/') ? relative : path.basename(file));
+      if (include && !matchesGlob(matchTarget(include), [include])) {
+        continue;
+      }
+      if (exclude && matchesGlob(matchTarget(exclude), [exclude])) {
+        continue;
+      }
+
+      const stats = await fs.stat(file);
+      if (stats.size <= policy.maxFileSize) {
+        files.push(relative);
+      }
     }
-    return { success: false, error: errorMessage };
+
+    search: for (let start = 0; start < files.length; start += GREP_BATCH_SIZE) {
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        return { success: false, error: 'Search took too long; use a simpler pattern or a narrower path' };
+      }
+      const batch = await grepBatch(
+        files.slice(start, start + GREP_BATCH_SIZE),
+        pattern,
+        case_insensitive,
+        policy.root,
+        remaining,
+        context.signal
+      );
+      if (batch.stopped) {
+        return batch.stopped;
+      }
+
+      // Text and context are read here rather than parsed from grep's output
+      let current: { file: string; lines: string[] } | undefined;
+      for (const hit of batch.lines) {
+        if (matches.length >= maxResults) {
+          truncated = true;
+          break search;
+        }
+        if (current?.file !== hit.file) {
+          const content = await fs.readFile(path.join(policy.root, hit.file), 'utf-8');
+          current = { file: hit.file, lines: content.split('\n') };
+        }
+        const index = hit.line - 1;
+        matches.push({
+          file: hit.file,
+          line: hit.line,
+          text: current.lines[index] ?? '',
+          ...(contextLines > 0 && {
+            before: current.lines.slice(Math.max(0, index - contextLines), index),
+            after: current.lines.slice(index + 1, index + 1 + contextLines),
+          }),
+        });
+      }
+    }
+
+    return { success: true, data: { matches, truncated } };
+  } catch (error) {
+    return toErrorResult(error);
   }
 }
 
@@ -182,7 +408,7 @@ export const CLAUDE_TOOLS = [
     input_schema: {
       type: 'object' as const,
       properties: {
-        file_path: { type: 'string', description: 'Absolute path to the file' },
+        file_path: { type: 'string', description: 'Path to the file, relative to the workspace root' },
         limit: { type: 'number', description: 'Number of lines to read' },
         offset: { type: 'number', description: 'Line number to start from' },
       },
@@ -195,7 +421,7 @@ export const CLAUDE_TOOLS = [
     input_schema: {
       type: 'object' as const,
       properties: {
-        file_path: { type: 'string', description: 'Absolute path to the file' },
+        file_path: { type: 'string', description: 'Path to the file, relative to the workspace root' },
         content: { type: 'string', description: 'Content to write' },
       },
       required: ['file_path', 'content'],
@@ -207,7 +433,7 @@ export const CLAUDE_TOOLS = [
     input_schema: {
       type: 'object' as const,
       properties: {
-        file_path: { type: 'string', description: 'Absolute path to the file' },
+        file_path: { type: 'string', description: 'Path to the file, relative to the workspace root' },
         old_string: { type: 'string', description: 'Text to replace' },
         new_string: { type: 'string', description: 'Replacement text' },
         replace_all: { type: 'boolean', description: 'Replace all occurrences' },
@@ -217,7 +443,7 @@ export const CLAUDE_TOOLS = [
   },
   {
     name: 'bash',
-    description: 'Execute a bash command',
+    description: 'Run a single allowlisted command (no pipes, redirects or other shell operators) in the workspace root. Arguments are checked as workspace paths',
     input_schema: {
       type: 'object' as const,
       properties: {
@@ -233,7 +459,7 @@ export const CLAUDE_TOOLS = [
     input_schema: {
       type: 'object' as const,
       properties: {
-        path: { type: 'string', description: 'Directory path' },
+        path: { type: 'string', description: 'Directory path, relative to the workspace root' },
         ignore: { 
           type: 'array', 
           items: { type: 'string' },
@@ -249,23 +475,28 @@ export const CLAUDE_TOOLS = [
     input_schema: {
       type: 'object' as const,
       properties: {
-        pattern: { type: 'string', description: 'Search pattern' },
-        path: { type: 'string', description: 'Path to search in' },
+        pattern: { type: 'string', description: 'Extended regular expression (grep -E syntax) to search for' },
+        path: { type: 'string', description: 'Path to search in, relative to the workspace root' },
         include: { type: 'string', description: 'File pattern to include' },
         exclude: { type: 'string', description: 'File pattern to exclude' },
         case_insensitive: { type: 'boolean', description: 'Case insensitive search' },
+        context: { type: 'number', description: 'Lines of context to include around each match' },
+        max_results: { type: 'number', description: 'Maximum number of matches to return (at most 1000)' },
       },
       required: ['pattern'],
     },
   },
 ];
 
-// Tool implementation map
-export const TOOL_IMPLEMENTATIONS = {
-  read: readTool,
-  write: writeTool,
-  edit: editTool,
-  bash: bashTool,
-  list: listTool,
-  grep: grepTool,
-};
\ No newline at end of file
+// Tool implementations bound to a workspace; every path a tool receives is
+// resolved against the policy's root
+export function createToolImplementations(policy: WorkspacePolicy) {
+  return {
+    read: (input: Parameters<typeof readTool>[0]) => readTool(input, policy),
+    write: (input: Parameters<typeof writeTool>[0]) => writeTool(input, policy),
+    edit: (input: Parameters<typeof editTool>[0]) => editTool(input, policy),
+    bash: (input: Parameters<typeof bashTool>[0], context?: ToolContext) => bashTool(input, policy, context),
+    list: (input: Parameters<typeof listTool>[0]) => listTool(input, policy),
+    grep: (input: Parameters<typeof grepTool>[0], context?: ToolContext) => grepTool(input, policy, context),
+  };
+}
@@ -0,0 +1,201 @@
+import type { ClaudeMessage } from './claude-client';
+
+// How a conversation is kept inside the model's context window:
+// - sliding: drop the oldest turns that no longer fit
+// - summarize: once over budget, fold everything but the most recent turns
+//   into the rolling summary
+// - hybrid: fold only as many of the oldest turns as needed into the summary,
+//   falling back to sliding if summarization fails
+export type ContextStrategy = 'sliding' | 'summarize' | 'hybrid';
+
+export const DEFAULT_CONTEXT_STRATEGY: ContextStrategy = 'hybrid';
+
+// Most recent turns that are always replayed verbatim
+export const DEFAULT_KEEP_RECENT_TURNS = 2;
+
+// Compaction aims below the budget so it does not run again on the next turn
+const COMPACTION_TARGET_RATIO = 0.75;
+
+// Room reserved in the budget for the rolling summary
+export const SUMMARY_MAX_TOKENS = 1024;
+
+// Per-message framing overhead in the provider's chat format
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// Context window sizes by model prefix; CLAUDE_CONTEXT_TOKENS overrides them
+const MODEL_CONTEXT_WINDOWS: Array<{ prefix: string; tokens: number }> = [
+  { prefix: 'claude-', tokens: 200_000 },
+  { prefix: 'gpt-4.1', tokens: 1_000_000 },
+  { prefix: 'gpt-4o', tokens: 128_000 },
+  { prefix: 'gpt-4-turbo', tokens: 128_000 },
+  { prefix: 'gpt-4', tokens: 8_192 },
+  { prefix: 'gpt-3.5-turbo', tokens: 16_385 },
+  { prefix: 'o1', tokens: 200_000 },
+  { prefix: 'o3', tokens: 200_000 },
+  { prefix: 'o4', tokens: 200_000 },
+];
+const DEFAULT_CONTEXT_WINDOW = 8_192;
+
+export interface ContextCompactionPlan {
+  compact: ClaudeMessage[];
+  keep: ClaudeMessage[];
+  tokensBefore: number;
+  tokensAfter: number;
+}
+
+export function isContextStrategy(value: unknown): value is ContextStrategy {
+  return value === 'sliding' || value === 'summarize' || value === 'hybrid';
+}
+
+// Rough token estimate (about four characters per token). Deliberately
+// provider-agnostic; it only has to be good enough to stay under the window.
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function estimateMessageTokens(message: ClaudeMessage): number {
+  return estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+export function getContextWindow(model: string): number {
+  const override = Number(process.env.CLAUDE_CONTEXT_TOKENS);
+  if (override > 0) {
+    return override;
+  }
+  const match = MODEL_CONTEXT_WINDOWS
+    .filter(entry => model.startsWith(entry.prefix))
+    .sort((a, b) => b.prefix.length - a.prefix.length)[0];
+  return match ? match.tokens : DEFAULT_CONTEXT_WINDOW;
+}
+
+export function isPinned(message: ClaudeMessage): boolean {
+  return message.metadata?.pinned === true;
+}
+
+export function isCompacted(message: ClaudeMessage): boolean {
+  return Boolean(message.metadata?.compacted);
+}
+
+export function isSummary(message: ClaudeMessage): boolean {
+  return message.role === 'system' && message.metadata?.type === 'summary';
+}
+
+// Split a branch into the rolling summary that covers it and the turns still
+// replayed. A summary is anchored at the last message it folded in, so it
+// applies to every branch through that message; compacted messages above the
+// anchor are covered by it, and turns dropped by the sliding strategy are
+// skipped on every branch that shares them.
+export function getActiveContext(
+  messages: ClaudeMessage[],
+  branch: ClaudeMessage[]
+): { summary?: ClaudeMessage; messages: ClaudeMessage[] } {
+  const positions = new Map(branch.map((message, index) => [message.id, index]));
+  let summary: ClaudeMessage | undefined;
+  let anchor = -1;
+  for (const message of messages) {
+    const position = isSummary(message) && message.parentId ? positions.get(message.parentId) : undefined;
+    if (position !== undefined && position >= anchor) {
+      summary = message;
+      anchor = position;
+    }
+  }
+
+  return {
+    summary,
+    messages: branch.filter((message, index) => {
+      if (!isCompacted(message)) {
+        return true;
+      }
+      const details = message.metadata?.compacted as { strategy?: string } | undefined;
+      return index > anchor && details?.strategy !== 'sliding';
+    }),
+  };
+}
+
+// Group messages into turns, each starting at a user message, so compaction
+// never leaves an assistant reply without the prompt it answered
+function groupTurns(messages: ClaudeMessage[]): ClaudeMessage[][] {
+  const turns: ClaudeMessage[][] = [];
+  for (const message of messages) {
+    if (message.role === 'user' || turns.length === 0) {
+      turns.push([message]);
+    } else {
+      turns[turns.length - 1].push(message);
+    }
+  }
+  return turns;
+}
+
+function sumTokens(messages: ClaudeMessage[]): number {
+  return messages.reduce((total, message) => total + estimateMessageTokens(message), 0);
+}
+
+// Decide which turns to compact so the history, the summary and the incoming
+// request fit in `budget` tokens. Returns null when nothing needs to change.
+// Pinned turns and the most recent turns are never compacted.
+export function planCompaction(
+  messages: ClaudeMessage[],
+  options: {
+    strategy: ContextStrategy;
+    budget: number;
+    // Tokens outside the history: the new message, tools and the summary
+    reservedTokens: number;
+    keepRecentTurns?: number;
+  }
+): ContextCompactionPlan | null {
+  const { strategy, budget, reservedTokens, keepRecentTurns = DEFAULT_KEEP_RECENT_TURNS } = options;
+  const tokensBefore = sumTokens(messages);
+  if (tokensBefore + reservedTokens <= budget) {
+    return null;
+  }
+
+  const turns = groupTurns(messages);
+  const candidates = turns
+    .slice(0, Math.max(0, turns.length - keepRecentTurns))
+    .filter(turn => !turn.some(isPinned) && turn.every(message => message.id));
+
+  const target = Math.floor(budget * COMPACTION_TARGET_RATIO) - reservedTokens;
+  const compacted = new Set<ClaudeMessage>();
+  let tokens = tokensBefore;
+
+  for (const turn of candidates) {
+    if (strategy !== 'summarize' && tokens <= target) {
+      break;
+    }
+    for (const message of turn) {
+      compacted.add(message);
+      tokens -= estimateMessageTokens(message);
+    }
+  }
+
+  if (compacted.size === 0) {
+    return null;
+  }
+
+  return {
+    compact: messages.filter(message => compacted.has(message)),
+    keep: messages.filter(message => !compacted.has(message)),
+    tokensBefore,
+    tokensAfter: tokens,
+  };
+}
+
+export const SUMMARY_SYSTEM_PROMPT =
+  'You maintain a running summary of a conversation between a user and an AI assistant. ' +
+  'Write a concise summary that preserves facts, decisions, open questions, names, file paths ' +
+  'and code identifiers needed to continue the conversation. Reply with the summary only.';
+
+export function buildSummaryPrompt(previousSummary: string | undefined, messages: ClaudeMessage[]): string {
+  const transcript = messages
+    .map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`)
+    .join('\n\n');
+
+  return previousSummary
+    ? `Existing summary:\n${previousSummary}\n\nFold these newer turns into it:\n\n${transcript}`
+    : `Summarize these turns:\n\n${transcript}`;
+}
+
+// System prompt carrying the rolling summary into the request
+export function formatSummaryForSystem(summary: string): string {
+  return `Summary of the earlier part of this conversation:\n\n${summary}`;
+}
@@ -0,0 +1,477 @@
+import { ContextStrategy as PrismaContextStrategy, MessageRole, Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import type { ClaudeMessage, ConversationContext } from './claude-client';
+import { ContextStrategy, DEFAULT_CONTEXT_STRATEGY } from './context-manager';
+
+export interface CreateConversationOptions {
+  id?: string;
+  title?: string;
+  model?: string;
+  contextStrategy?: ContextStrategy;
+  systemPrompt?: string;
+  // Prompt template the system prompt was rendered from
+  templateId?: string;
+  templateVersion?: number;
+}
+
+export interface ConversationUpdate {
+  title?: string;
+  contextStrategy?: ContextStrategy;
+  // An empty string clears the system prompt
+  systemPrompt?: string;
+  activeLeafId?: string;
+}
+
+// Result of compacting older turns: the turns are kept but flagged in their
+// metadata, and an optional new rolling summary folds in the previous one.
+// Earlier summaries are kept since other branches may still be anchored to them.
+export interface ConversationCompaction {
+  compactedIds: string[];
+  // Anchored at the last compacted message through its parentId
+  summary?: ClaudeMessage;
+  // Merged into each compacted message's metadata under `compacted`
+  details: Record<string, unknown>;
+}
+
+// Storage backend for ClaudeClient conversations. Every lookup is scoped by
+// userId so one user can never read or modify another user's history.
+export interface ConversationStore {
+  create(userId: string, options?: CreateConversationOptions): Promise<ConversationContext>;
+  get(id: string, userId: string): Promise<ConversationContext | null>;
+  // Appends the messages as a chain below `parentId` (default: the active
+  // leaf; null starts a new root) and makes the last one the active leaf
+  appendMessages(id: string, userId: string, messages: ClaudeMessage[], parentId?: string | null): Promise<boolean>;
+  // Replaces the whole tree with a single linear branch
+  replaceMessages(id: string, userId: string, messages: ClaudeMessage[]): Promise<boolean>;
+  update(id: string, userId: string, update: ConversationUpdate): Promise<boolean>;
+  // Shallow-merges into the message's metadata
+  updateMessageMetadata(id: string, userId: string, messageId: string, metadata: Record<string, unknown>): Promise<boolean>;
+  compact(id: string, userId: string, compaction: ConversationCompaction): Promise<boolean>;
+  delete(id: string, userId: string): Promise<boolean>;
+}
+
+const DEFAULT_TITLE = 'New conversation';
+
+function generateId(prefix = 'conv'): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+function withIds(messages: ClaudeMessage[]): ClaudeMessage[] {
+  return messages.map(message => ({
+    ...message,
+    id: message.id || generateId('msg'),
+    createdAt: message.createdAt || new Date(),
+  }));
+}
+
+// Link messages into a chain below `parentId`; system messages keep their own anchor
+function chain(messages: ClaudeMessage[], parentId: string | null): ClaudeMessage[] {
+  let previous = parentId;
+  return withIds(messages).map(message => {
+    if (message.role === 'system') {
+      return message;
+    }
+    const linked = { ...message, parentId: previous };
+    previous = linked.id!;
+    return linked;
+  });
+}
+
+function lastTurnId(messages: ClaudeMessage[]): string | undefined {
+  return messages.filter(message => message.role !== 'system').pop()?.id;
+}
+
+// Process-local store, used when no database is configured
+export class InMemoryConversationStore implements ConversationStore {
+  private conversations: Map<string, ConversationContext> = new Map();
+
+  async create(userId: string, options: CreateConversationOptions = {}): Promise<ConversationContext> {
+    const conversation: ConversationContext = {
+      id: options.id || generateId(),
+      userId,
+      title: options.title || DEFAULT_TITLE,
+      model: options.model,
+      contextStrategy: options.contextStrategy || DEFAULT_CONTEXT_STRATEGY,
+      ...(options.systemPrompt && { systemPrompt: options.systemPrompt }),
+      ...(options.templateId && { templateId: options.templateId, templateVersion: options.templateVersion }),
+      messages: [],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.conversations.set(conversation.id, conversation);
+    return conversation;
+  }
+
+  async get(id: string, userId: string): Promise<ConversationContext | null> {
+    const conversation = this.conversations.get(id);
+    if (!conversation || conversation.userId !== userId) {
+      return null;
+    }
+    return { ...conversation, messages: conversation.messages.map(message => ({ ...message })) };
+  }
+
+  async appendMessages(
+    id: string,
+    userId: string,
+    messages: ClaudeMessage[],
+    parentId?: string | null
+  ): Promise<boolean> {
+    const conversation = this.conversations.get(id);
+    if (!conversation || conversation.userId !== userId) {
+      return false;
+    }
+    const appended = chain(messages, parentId !== undefined ? parentId : conversation.activeLeafId ?? null);
+    conversation.messages.push(...appended);
+    conversation.activeLeafId = lastTurnId(appended) ?? conversation.activeLeafId;
+    conversation.updatedAt = new Date();
+    return true;
+  }
+
+  async replaceMessages(id: string, userId: string, messages: ClaudeMessage[]): Promise<boolean> {
+    const conversation = this.conversations.get(id);
+    if (!conversation || conversation.userId !== userId) {
+      return false;
+    }
+    conversation.messages = chain(messages, null);
+    conversation.activeLeafId = lastTurnId(conversation.messages);
+    conversation.updatedAt = new Date();
+    return true;
+  }
+
+  async update(id: string, userId: string, update: ConversationUpdate): Promise<boolean> {
+    const conversation = this.conversations.get(id);
+    if (!conversation || conversation.userId !== userId) {
+      return false;
+    }
+    if (update.title) {
+      conversation.title = update.title;
+    }
+    if (update.contextStrategy) {
+      conversation.contextStrategy = update.contextStrategy;
+    }
+    if (update.activeLeafId) {
+      conversation.activeLeafId = update.activeLeafId;
+    }
+    if (update.systemPrompt !== undefined) {
+      conversation.systemPrompt = update.systemPrompt || undefined;
+    }
+    conversation.updatedAt = new Date();
+    return true;
+  }
+
+  async updateMessageMetadata(
+    id: string,
+    userId: string,
+    messageId: string,
+    metadata: Record<string, unknown>
+  ): Promise<boolean> {
+    const conversation = this.conversations.get(id);
+    const message = conversation?.userId === userId
+      ? conversation.messages.find(candidate => candidate.id === messageId)
+      : undefined;
+    if (!message) {
+      return false;
+    }
+    message.metadata = { ...message.metadata, ...metadata };
+    return true;
+  }
+
+  async compact(id: string, userId: string, compaction: ConversationCompaction): Promise<boolean> {
+    const conversation = this.conversations.get(id);
+    if (!conversation || conversation.userId !== userId) {
+      return false;
+    }
+
+    let summaryId: string | undefined;
+    if (compaction.summary) {
+      const [summary] = withIds([compaction.summary]);
+      summaryId = summary.id;
+      conversation.messages.push(summary);
+    }
+
+    const ids = new Set(compaction.compactedIds);
+    for (const message of conversation.messages) {
+      if (message.id && ids.has(message.id)) {
+        message.metadata = { ...message.metadata, compacted: { ...compaction.details, summaryId } };
+      }
+    }
+    conversation.updatedAt = new Date();
+    return true;
+  }
+
+  async delete(id: string, userId: string): Promise<boolean> {
+    const conversation = this.conversations.get(id);
+    if (!conversation || conversation.userId !== userId) {
+      return false;
+    }
+    return this.conversations.delete(id);
+  }
+}
+
+type ConversationWithMessages = Prisma.ConversationGetPayload<{ include: { messages: true } }>;
+
+function toMessageRole(role: ClaudeMessage['role']): MessageRole {
+  switch (role) {
+    case 'assistant':
+      return MessageRole.ASSISTANT;
+    case 'system':
+      return MessageRole.SYSTEM;
+    default:
+      return MessageRole.USER;
+  }
+}
+
+function fromMessageRole(role: MessageRole): ClaudeMessage['role'] {
+  switch (role) {
+    case MessageRole.ASSISTANT:
+      return 'assistant';
+    case MessageRole.SYSTEM:
+      return 'system';
+    default:
+      return 'user';
+  }
+}
+
+function toContext(conversation: ConversationWithMessages): ConversationContext {
+  return {
+    id: conversation.id,
+    userId: conversation.userId,
+    title: conversation.title,
+    model: conversation.model,
+    contextStrategy: conversation.contextStrategy.toLowerCase() as ContextStrategy,
+    activeLeafId: conversation.activeLeafId ?? undefined,
+    systemPrompt: conversation.systemPrompt ?? undefined,
+    templateId: conversation.templateId ?? undefined,
+    templateVersion: conversation.templateVersion ?? undefined,
+    // System rows (the rolling summary) are returned too; ClaudeClient keeps
+    // them out of the replayed turns
+    messages: conversation.messages.map(message => ({
+      id: message.id,
+      parentId: message.parentId,
+      role: fromMessageRole(message.role),
+      content: message.content,
+      attachments: message.attachments ?? undefined,
+      metadata: (message.metadata as Record<string, unknown> | null) ?? undefined,
+      createdAt: message.createdAt,
+    })),
+    createdAt: conversation.createdAt,
+    updatedAt: conversation.updatedAt,
+  };
+}
+
+// Spread createdAt by a millisecond per row so turns written in one batch
+// keep their order when read back
+function toMessageRows(conversationId: string, messages: ClaudeMessage[]): Prisma.MessageCreateManyInput[] {
+  const now = Date.now();
+  return messages.map((message, index) => ({
+    conversationId,
+    parentId: message.parentId ?? null,
+    role: toMessageRole(message.role),
+    content: message.content,
+    attachments: message.attachments as Prisma.InputJsonValue | undefined,
+    metadata: message.metadata as Prisma.InputJsonValue | undefined,
+    createdAt: new Date(now + index),
+  }));
+}
+
+type TransactionClient = Prisma.TransactionClient;
+
+// Create messages one by one so each can point at the row before it.
+// Returns the ID of the last user/assistant message.
+async function createChain(
+  tx: TransactionClient,
+  conversationId: string,
+  messages: ClaudeMessage[],
+  parentId: string | null
+): Promise<string | undefined> {
+  const rows = toMessageRows(conversationId, messages);
+  let previous = parentId;
+  let leafId: string | undefined;
+  for (const [index, row] of rows.entries()) {
+    const isTurn = messages[index].role !== 'system';
+    const created = await tx.message.create({
+      data: { ...row, parentId: isTurn ? previous : row.parentId },
+      select: { id: true },
+    });
+    if (isTurn) {
+      previous = created.id;
+      leafId = created.id;
+    }
+  }
+  return leafId;
+}
+
+// Conversations saved before messages had parents are linked into a single
+// branch the first time they are appended to. Returns the last message's ID.
+async function linkLegacyMessages(tx: TransactionClient, conversationId: string): Promise<string | null> {
+  const rows = await tx.message.findMany({
+    where: { conversationId, role: { not: MessageRole.SYSTEM } },
+    orderBy: { createdAt: 'asc' },
+    select: { id: true, parentId: true },
+  });
+  if (rows.length === 0 || rows.some(row => row.parentId)) {
+    return rows.length > 0 ? rows[rows.length - 1].id : null;
+  }
+  for (let i = 1; i < rows.length; i++) {
+    await tx.message.update({ where: { id: rows[i].id }, data: { parentId: rows[i - 1].id } });
+  }
+  return rows[rows.length - 1].id;
+}
+
+function mergeMetadata(current: Prisma.JsonValue, patch: Record<string, unknown>): Prisma.InputJsonValue {
+  const base = current && typeof current === 'object' && !Array.isArray(current) ? current : {};
+  return { ...base, ...patch } as Prisma.InputJsonValue;
+}
+
+// Durable store backed by the Conversation and Message tables
+export class PrismaConversationStore implements ConversationStore {
+  async create(userId: string, options: CreateConversationOptions = {}): Promise<ConversationContext> {
+    const conversation = await prisma.conversation.create({
+      data: {
+        ...(options.id && { id: options.id }),
+        ...(options.model && { model: options.model }),
+        ...(options.contextStrategy && {
+          contextStrategy: options.contextStrategy.toUpperCase() as PrismaContextStrategy,
+        }),
+        ...(options.systemPrompt && { systemPrompt: options.systemPrompt }),
+        ...(options.templateId && { templateId: options.templateId, templateVersion: options.templateVersion }),
+        title: options.title || DEFAULT_TITLE,
+        userId,
+      },
+      include: { messages: true },
+    });
+    return toContext(conversation);
+  }
+
+  async get(id: string, userId: string): Promise<ConversationContext | null> {
+    const conversation = await prisma.conversation.findFirst({
+      where: { id, userId },
+      include: { messages: { orderBy: { createdAt: 'asc' } } },
+    });
+    return conversation ? toContext(conversation) : null;
+  }
+
+  async appendMessages(
+    id: string,
+    userId: string,
+    messages: ClaudeMessage[],
+    parentId?: string | null
+  ): Promise<boolean> {
+    return prisma.$transaction(async (tx) => {
+      const conversation = await tx.conversation.findFirst({
+        where: { id, userId },
+        select: { activeLeafId: true },
+      });
+      if (!conversation) {
+        return false;
+      }
+
+      const legacyLeafId = conversation.activeLeafId ? null : await linkLegacyMessages(tx, id);
+      const parent = parentId !== undefined ? parentId : conversation.activeLeafId ?? legacyLeafId;
+      const leafId = await createChain(tx, id, messages, parent);
+
+      await tx.conversation.update({
+        where: { id },
+        data: { updatedAt: new Date(), ...(leafId && { activeLeafId: leafId }) },
+      });
+      return true;
+    });
+  }
+
+  async replaceMessages(id: string, userId: string, messages: ClaudeMessage[]): Promise<boolean> {
+    return prisma.$transaction(async (tx) => {
+      const { count } = await tx.conversation.updateMany({
+        where: { id, userId },
+        data: { updatedAt: new Date() },
+      });
+      if (count === 0) {
+        return false;
+      }
+      await tx.message.deleteMany({ where: { conversationId: id } });
+      const leafId = await createChain(tx, id, messages, null);
+      await tx.conversation.update({ where: { id }, data: { activeLeafId: leafId ?? null } });
+      return true;
+    });
+  }
+
+  async update(id: string, userId: string, update: ConversationUpdate): Promise<boolean> {
+    const { count } = await prisma.conversation.updateMany({
+      where: { id, userId },
+      data: {
+        ...(update.title && { title: update.title }),
+        ...(update.contextStrategy && {
+          contextStrategy: update.contextStrategy.toUpperCase() as PrismaContextStrategy,
+        }),
+        ...(update.activeLeafId && { activeLeafId: update.activeLeafId }),
+        ...(update.systemPrompt !== undefined && { systemPrompt: update.systemPrompt || null }),
+      },
+    });
+    return count > 0;
+  }
+
+  async updateMessageMetadata(
+    id: string,
+    userId: string,
+    messageId: string,
+    metadata: Record<string, unknown>
+  ): Promise<boolean> {
+    return prisma.$transaction(async (tx) => {
+      const message = await tx.message.findFirst({
+        where: { id: messageId, conversationId: id, conversation: { userId } },
+        select: { metadata: true },
+      });
+      if (!message) {
+        return false;
+      }
+      await tx.message.update({
+        where: { id: messageId },
+        data: { metadata: mergeMetadata(message.metadata, metadata) },
+      });
+      return true;
+    });
+  }
+
+  async compact(id: string, userId: string, compaction: ConversationCompaction): Promise<boolean> {
+    return prisma.$transaction(async (tx) => {
+      const { count } = await tx.conversation.updateMany({
+        where: { id, userId },
+        data: { updatedAt: new Date() },
+      });
+      if (count === 0) {
+        return false;
+      }
+
+      let summaryId: string | undefined;
+      if (compaction.summary) {
+        const [data] = toMessageRows(id, [compaction.summary]);
+        const summary = await tx.message.create({ data, select: { id: true } });
+        summaryId = summary.id;
+      }
+
+      const messages = await tx.message.findMany({
+        where: { conversationId: id, id: { in: compaction.compactedIds } },
+        select: { id: true, metadata: true },
+      });
+      for (const message of messages) {
+        await tx.message.update({
+          where: { id: message.id },
+          data: { metadata: mergeMetadata(message.metadata, { compacted: { ...compaction.details, summaryId } }) },
+        });
+      }
+      return true;
+    });
+  }
+
+  async delete(id: string, userId: string): Promise<boolean> {
+    const { count } = await prisma.conversation.deleteMany({ where: { id, userId } });
+    return count > 0;
+  }
+}
+
+// Use the database whenever one is configured so history survives restarts
+// and is shared across serverless instances
+export function createConversationStore(): ConversationStore {
+  return process.env.DATABASE_URL
+    ? new PrismaConversationStore()
+    : new InMemoryConversationStore();
+}
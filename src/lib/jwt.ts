@@ -1,5 +1,6 @@
 import { SignJWT, jwtVerify } from 'jose';
 import { cookies } from 'next/headers';
+import type { NextRequest } from 'next/server';
 
 const JWT_SECRET = new TextEncoder().encode(
   process.env.JWT_SECRET || 'your-secret-key-change-this-in-production'
@@ -92,4 +93,27 @@ export async function clearAuthCookies() {
   const cookieStore = await cookies();
   cookieStore.delete('auth-token');
   cookieStore.delete('refresh-token');
-}
\ No newline at end of file
+}
+// Resolve the authenticated user from the auth cookie or a Bearer token
+export async function getUserIdFromRequest(request: NextRequest): Promise<string | null> {
+  try {
+    let token = request.cookies.get('auth-token')?.value;
+
+    if (!token) {
+      const authHeader = request.headers.get('Authorization');
+      if (authHeader?.startsWith('Bearer ')) {
+        token = authHeader.substring(7);
+      }
+    }
+
+    if (!token) {
+      return null;
+    }
+
+    const payload = await verifyJWT(token);
+    return payload.userId;
+  } catch (error) {
+    console.error('Error extracting user ID:', error);
+    return null;
+  }
+}
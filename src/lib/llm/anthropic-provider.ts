@@ -0,0 +1,120 @@
+import Anthropic from '@anthropic-ai/sdk';
+import {
+  LLMContentBlock,
+  LLMMessage,
+  LLMProvider,
+  LLMProviderError,
+  LLMRequest,
+  LLMResponse,
+  LLMStopReason,
+  LLMStreamEvent,
+} from './types';
+
+function toAnthropicMessages(messages: LLMMessage[]): Anthropic.MessageParam[] {
+  return messages.map(message => ({
+    role: message.role,
+    content: typeof message.content === 'string'
+      ? message.content
+      : message.content.map((block): Anthropic.ContentBlockParam => {
+          switch (block.type) {
+            case 'text':
+              return { type: 'text', text: block.text };
+            case 'tool_use':
+              return { type: 'tool_use', id: block.id, name: block.name, input: block.input };
+            case 'tool_result':
+              return {
+                type: 'tool_result',
+                tool_use_id: block.toolUseId,
+                content: block.content,
+                ...(block.isError && { is_error: true }),
+              };
+          }
+        }),
+  }));
+}
+
+function toStopReason(reason: Anthropic.Message['stop_reason']): LLMStopReason {
+  switch (reason) {
+    case 'tool_use':
+    case 'max_tokens':
+    case 'stop_sequence':
+      return reason;
+    case null:
+      return null;
+    default:
+      return 'end_turn';
+  }
+}
+
+function fromAnthropicMessage(message: Anthropic.Message): LLMResponse {
+  const content: LLMContentBlock[] = [];
+  for (const block of message.content) {
+    if (block.type === 'text') {
+      content.push({ type: 'text', text: block.text });
+    } else if (block.type === 'tool_use') {
+      content.push({ type: 'tool_use', id: block.id, name: block.name, input: block.input });
+    }
+  }
+
+  return {
+    id: message.id,
+    model: message.model,
+    provider: 'anthropic',
+    content,
+    stopReason: toStopReason(message.stop_reason),
+    usage: {
+      inputTokens: message.usage.input_tokens,
+      outputTokens: message.usage.output_tokens,
+    },
+  };
+}
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic' as const;
+  private client: Anthropic;
+
+  constructor(apiKey: string) {
+    this.client = new Anthropic({ apiKey });
+  }
+
+  private toParams(request: LLMRequest): Anthropic.MessageCreateParamsNonStreaming {
+    return {
+      model: request.model,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      messages: toAnthropicMessages(request.messages),
+      ...(request.system && { system: request.system }),
+      ...(request.tools && request.tools.length > 0 && { tools: request.tools }),
+    };
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    try {
+      const message = await this.client.messages.create(this.toParams(request), { signal: request.signal });
+      return fromAnthropicMessage(message);
+    } catch (error) {
+      throw this.wrapError(error);
+    }
+  }
+
+  async *stream(request: LLMRequest): AsyncIterable<LLMStreamEvent> {
+    try {
+      const stream = this.client.messages.stream(this.toParams(request), { signal: request.signal });
+      for await (const event of stream) {
+        if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+          yield { type: 'text', text: event.delta.text };
+        }
+      }
+      yield { type: 'done', response: fromAnthropicMessage(await stream.finalMessage()) };
+    } catch (error) {
+      throw this.wrapError(error);
+    }
+  }
+
+  private wrapError(error: unknown): Error {
+    if (error instanceof Anthropic.APIError) {
+      return new LLMProviderError('anthropic', `Anthropic API error: ${error.message}`, error.status);
+    }
+    return error instanceof Error ? error : new Error(String(error));
+  }
+}
@@ -0,0 +1,48 @@
+import { AnthropicProvider } from './anthropic-provider';
+import { OpenAICompatibleProvider } from './openai-provider';
+import { LLMProvider, LLMProviderError, LLMProviderName } from './types';
+
+export * from './types';
+export * from './anthropic-provider';
+export * from './openai-provider';
+
+export interface ProviderCredentials {
+  anthropicApiKey?: string;
+  openaiApiKey?: string;
+  openaiBaseUrl?: string;
+}
+
+const OPENAI_MODEL_PREFIXES = ['gpt-', 'o1', 'o3', 'o4'];
+
+// Map a conversation's model field to a provider. An explicit
+// `provider/model` prefix wins (e.g. `openai/llama3` for a local
+// OpenAI-compatible server); otherwise the model name decides.
+export function resolveModel(model: string): { provider: LLMProviderName; model: string } {
+  const separator = model.indexOf('/');
+  if (separator > 0) {
+    const prefix = model.slice(0, separator);
+    if (prefix === 'anthropic' || prefix === 'openai') {
+      return { provider: prefix, model: model.slice(separator + 1) };
+    }
+  }
+
+  if (OPENAI_MODEL_PREFIXES.some(prefix => model.startsWith(prefix))) {
+    return { provider: 'openai', model };
+  }
+  return { provider: 'anthropic', model };
+}
+
+export function createProvider(name: LLMProviderName, credentials: ProviderCredentials): LLMProvider {
+  switch (name) {
+    case 'anthropic':
+      if (!credentials.anthropicApiKey) {
+        throw new LLMProviderError('anthropic', 'Anthropic API key is not configured');
+      }
+      return new AnthropicProvider(credentials.anthropicApiKey);
+    case 'openai':
+      return new OpenAICompatibleProvider({
+        apiKey: credentials.openaiApiKey,
+        baseUrl: credentials.openaiBaseUrl || 'https://api.openai.com/v1',
+      });
+  }
+}
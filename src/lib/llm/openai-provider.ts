@@ -0,0 +1,276 @@
+import { EventSourceParserStream } from 'eventsource-parser/stream';
+import {
+  LLMContentBlock,
+  LLMMessage,
+  LLMProvider,
+  LLMProviderError,
+  LLMRequest,
+  LLMResponse,
+  LLMStopReason,
+  LLMStreamEvent,
+  LLMToolDefinition,
+} from './types';
+
+export interface OpenAICompatibleConfig {
+  apiKey?: string;
+  // Any server implementing the Chat Completions API, e.g. a local stand-in
+  baseUrl: string;
+}
+
+interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+type OpenAIMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string | null; tool_calls?: OpenAIToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+interface OpenAIChatCompletion {
+  id: string;
+  model: string;
+  choices: Array<{
+    message: { content: string | null; tool_calls?: OpenAIToolCall[] };
+    finish_reason: string | null;
+  }>;
+  usage?: { prompt_tokens: number; completion_tokens: number };
+}
+
+interface OpenAIChatCompletionChunk {
+  id: string;
+  model: string;
+  choices: Array<{
+    delta: {
+      content?: string | null;
+      tool_calls?: Array<{
+        index: number;
+        id?: string;
+        function?: { name?: string; arguments?: string };
+      }>;
+    };
+    finish_reason: string | null;
+  }>;
+  usage?: { prompt_tokens: number; completion_tokens: number } | null;
+}
+
+export function toOpenAITools(tools: LLMToolDefinition[]) {
+  return tools.map(tool => ({
+    type: 'function' as const,
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.input_schema,
+    },
+  }));
+}
+
+function toOpenAIMessages(system: string | undefined, messages: LLMMessage[]): OpenAIMessage[] {
+  const result: OpenAIMessage[] = system ? [{ role: 'system', content: system }] : [];
+
+  for (const message of messages) {
+    if (typeof message.content === 'string') {
+      result.push({ role: message.role, content: message.content });
+      continue;
+    }
+
+    const text = message.content
+      .map(block => (block.type === 'text' ? block.text : ''))
+      .join('');
+
+    if (message.role === 'assistant') {
+      const toolCalls = message.content.flatMap(block =>
+        block.type === 'tool_use'
+          ? [{
+              id: block.id,
+              type: 'function' as const,
+              function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) },
+            }]
+          : []
+      );
+      result.push({
+        role: 'assistant',
+        content: text || null,
+        ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+      });
+      continue;
+    }
+
+    // Tool results become individual `tool` messages
+    for (const block of message.content) {
+      if (block.type === 'tool_result') {
+        result.push({ role: 'tool', tool_call_id: block.toolUseId, content: block.content });
+      }
+    }
+    if (text) {
+      result.push({ role: 'user', content: text });
+    }
+  }
+
+  return result;
+}
+
+function toStopReason(reason: string | null): LLMStopReason {
+  switch (reason) {
+    case 'tool_calls':
+    case 'function_call':
+      return 'tool_use';
+    case 'length':
+      return 'max_tokens';
+    case null:
+      return null;
+    default:
+      return 'end_turn';
+  }
+}
+
+function parseArguments(raw: string): unknown {
+  if (!raw) {
+    return {};
+  }
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return { raw };
+  }
+}
+
+function toContent(text: string | null | undefined, toolCalls: OpenAIToolCall[] = []): LLMContentBlock[] {
+  const content: LLMContentBlock[] = [];
+  if (text) {
+    content.push({ type: 'text', text });
+  }
+  for (const call of toolCalls) {
+    content.push({
+      type: 'tool_use',
+      id: call.id,
+      name: call.function.name,
+      input: parseArguments(call.function.arguments),
+    });
+  }
+  return content;
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai' as const;
+
+  constructor(private config: OpenAICompatibleConfig) {}
+
+  private async post(request: LLMRequest, stream: boolean): Promise<Response> {
+    const response = await fetch(`${this.config.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.config.apiKey && { Authorization: `Bearer ${this.config.apiKey}` }),
+      },
+      body: JSON.stringify({
+        model: request.model,
+        messages: toOpenAIMessages(request.system, request.messages),
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        ...(request.tools && request.tools.length > 0 && { tools: toOpenAITools(request.tools) }),
+        ...(stream && { stream: true, stream_options: { include_usage: true } }),
+      }),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      let message = response.statusText;
+      try {
+        const body = await response.json();
+        message = body?.error?.message || message;
+      } catch {
+        // Keep the status text
+      }
+      throw new LLMProviderError('openai', `OpenAI-compatible API error: ${message}`, response.status);
+    }
+
+    return response;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const response = await this.post(request, false);
+    const completion = (await response.json()) as OpenAIChatCompletion;
+    const choice = completion.choices[0];
+
+    return {
+      id: completion.id,
+      model: completion.model,
+      provider: 'openai',
+      content: toContent(choice?.message.content, choice?.message.tool_calls),
+      stopReason: toStopReason(choice?.finish_reason ?? null),
+      usage: {
+        inputTokens: completion.usage?.prompt_tokens ?? 0,
+        outputTokens: completion.usage?.completion_tokens ?? 0,
+      },
+    };
+  }
+
+  async *stream(request: LLMRequest): AsyncIterable<LLMStreamEvent> {
+    const response = await this.post(request, true);
+    if (!response.body) {
+      throw new LLMProviderError('openai', 'OpenAI-compatible API returned no response body');
+    }
+
+    const reader = response.body
+      .pipeThrough(new TextDecoderStream())
+      .pipeThrough(new EventSourceParserStream())
+      .getReader();
+
+    let id = '';
+    let model = request.model;
+    let text = '';
+    let finishReason: string | null = null;
+    const usage = { inputTokens: 0, outputTokens: 0 };
+    // Tool call fragments arrive keyed by index and are stitched together
+    const toolCalls: OpenAIToolCall[] = [];
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done || value.data === '[DONE]') {
+        break;
+      }
+
+      const chunk = JSON.parse(value.data) as OpenAIChatCompletionChunk;
+      id = chunk.id || id;
+      model = chunk.model || model;
+      if (chunk.usage) {
+        usage.inputTokens = chunk.usage.prompt_tokens;
+        usage.outputTokens = chunk.usage.completion_tokens;
+      }
+
+      const choice = chunk.choices[0];
+      if (!choice) {
+        continue;
+      }
+      if (choice.delta.content) {
+        text += choice.delta.content;
+        yield { type: 'text', text: choice.delta.content };
+      }
+      for (const fragment of choice.delta.tool_calls || []) {
+        const call = toolCalls[fragment.index] ||= {
+          id: '',
+          type: 'function',
+          function: { name: '', arguments: '' },
+        };
+        call.id = fragment.id || call.id;
+        call.function.name += fragment.function?.name || '';
+        call.function.arguments += fragment.function?.arguments || '';
+      }
+      finishReason = choice.finish_reason ?? finishReason;
+    }
+
+    yield {
+      type: 'done',
+      response: {
+        id,
+        model,
+        provider: 'openai',
+        content: toContent(text, toolCalls.filter(Boolean)),
+        stopReason: toStopReason(finishReason),
+        usage,
+      },
+    };
+  }
+}
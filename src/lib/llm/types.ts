@@ -0,0 +1,80 @@
+// Provider-neutral message, tool and response types shared by every LLM adapter
+
+export type LLMProviderName = 'anthropic' | 'openai';
+
+// Tool definitions use the Anthropic shape (as in CLAUDE_TOOLS); adapters
+// translate them to their provider's format
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  input_schema: {
+    type: 'object';
+    properties: Record<string, unknown>;
+    required?: string[];
+  };
+}
+
+export type LLMContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: unknown }
+  | { type: 'tool_result'; toolUseId: string; content: string; isError?: boolean };
+
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  content: string | LLMContentBlock[];
+}
+
+export interface LLMRequest {
+  model: string;
+  messages: LLMMessage[];
+  system?: string;
+  tools?: LLMToolDefinition[];
+  maxTokens: number;
+  temperature: number;
+  signal?: AbortSignal;
+}
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export type LLMStopReason = 'end_turn' | 'tool_use' | 'max_tokens' | 'stop_sequence' | null;
+
+export interface LLMResponse {
+  id: string;
+  model: string;
+  provider: LLMProviderName;
+  content: LLMContentBlock[];
+  stopReason: LLMStopReason;
+  usage: LLMUsage;
+}
+
+export type LLMStreamEvent =
+  | { type: 'text'; text: string }
+  | { type: 'done'; response: LLMResponse };
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  complete(request: LLMRequest): Promise<LLMResponse>;
+  // Yields text deltas as they arrive, then a single `done` event
+  stream(request: LLMRequest): AsyncIterable<LLMStreamEvent>;
+}
+
+export class LLMProviderError extends Error {
+  constructor(
+    public provider: LLMProviderName,
+    message: string,
+    public status?: number
+  ) {
+    super(message);
+    this.name = 'LLMProviderError';
+  }
+}
+
+// Concatenated text of a response, ignoring tool calls
+export function getResponseText(response: LLMResponse): string {
+  return response.content
+    .map(block => (block.type === 'text' ? block.text : ''))
+    .join('');
+}
@@ -0,0 +1,92 @@
+import type { ClaudeMessage } from './claude-client';
+
+// Conversation history is a tree: every user/assistant message points at the
+// message it follows through `parentId`. Editing a prompt adds a sibling of
+// that prompt and regenerating adds a sibling reply, so each path from a root
+// to a leaf is one branch. System messages (the rolling summary) hang off the
+// tree and never count as turns.
+
+export interface BranchMessage extends ClaudeMessage {
+  siblingCount: number;
+  // Position among its siblings, oldest first
+  siblingIndex: number;
+  siblingIds: string[];
+}
+
+function turns(messages: ClaudeMessage[]): ClaudeMessage[] {
+  return messages.filter(message => message.role !== 'system');
+}
+
+// Conversations saved before messages had parents are a single linear branch
+function isLinear(messages: ClaudeMessage[]): boolean {
+  return turns(messages).every(message => !message.parentId);
+}
+
+export function getChildren(messages: ClaudeMessage[], parentId: string | null): ClaudeMessage[] {
+  if (isLinear(messages)) {
+    const list = turns(messages);
+    const index = parentId === null ? 0 : list.findIndex(message => message.id === parentId) + 1;
+    // An unknown parent gives index 0, which only the root may use
+    return (parentId === null || index > 0) && list[index] ? [list[index]] : [];
+  }
+  return turns(messages).filter(message => (message.parentId ?? null) === parentId);
+}
+
+// Messages from the root down to `leafId`. Without a leaf, the most recent
+// message is used; a null leaf means an empty branch (a new root).
+export function getBranch(messages: ClaudeMessage[], leafId?: string | null): ClaudeMessage[] {
+  const list = turns(messages);
+  if (leafId === null || list.length === 0) {
+    return [];
+  }
+  if (isLinear(messages)) {
+    const end = leafId ? list.findIndex(message => message.id === leafId) : list.length - 1;
+    return end >= 0 ? list.slice(0, end + 1) : [];
+  }
+
+  const byId = new Map(list.map(message => [message.id, message]));
+  const branch: ClaudeMessage[] = [];
+  let current = leafId ? byId.get(leafId) : list[list.length - 1];
+  // Guard against cycles in corrupted data
+  while (current && branch.length <= list.length) {
+    branch.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return branch;
+}
+
+// Follow the most recent child from `messageId` down to a leaf, so switching
+// to a message shows the latest continuation of its branch
+export function findLatestLeaf(messages: ClaudeMessage[], messageId: string): ClaudeMessage | undefined {
+  let current = turns(messages).find(message => message.id === messageId);
+  const seen = new Set<string>();
+  while (current?.id && !seen.has(current.id)) {
+    seen.add(current.id);
+    const children = getChildren(messages, current.id);
+    if (children.length === 0) {
+      return current;
+    }
+    current = children[children.length - 1];
+  }
+  return current;
+}
+
+// Annotate a branch with its siblings so clients can offer branch switching
+export function withSiblingInfo(messages: ClaudeMessage[], branch: ClaudeMessage[]): BranchMessage[] {
+  return branch.map(message => {
+    const siblings = getChildren(messages, message.parentId ?? null);
+    const siblingIds = siblings.map(sibling => sibling.id!).filter(Boolean);
+    return {
+      ...message,
+      siblingCount: siblings.length,
+      siblingIndex: Math.max(0, siblingIds.indexOf(message.id!)),
+      siblingIds,
+    };
+  });
+}
+
+// The message a given message follows on its branch, or null for a root
+export function getParent(messages: ClaudeMessage[], messageId: string): ClaudeMessage | null {
+  const branch = getBranch(messages, messageId);
+  return branch.length > 1 ? branch[branch.length - 2] : null;
+}
@@ -0,0 +1,409 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+
+// Reusable prompts: an optional system prompt and an optional user prompt,
+// both of which may reference `{{variables}}`. Editing either prompt saves a
+// new version so conversations can record exactly what they were sent.
+export interface PromptTemplate {
+  id: string;
+  userId: string;
+  // Shared with everyone who can open the project
+  projectId?: string;
+  name: string;
+  description?: string;
+  version: number;
+  latestVersion: number;
+  systemPrompt?: string;
+  userPrompt?: string;
+  variables: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface PromptTemplateVersion {
+  version: number;
+  systemPrompt?: string;
+  userPrompt?: string;
+  variables: string[];
+  createdAt: Date;
+}
+
+export interface CreatePromptTemplateData {
+  name: string;
+  description?: string;
+  projectId?: string;
+  systemPrompt?: string;
+  userPrompt?: string;
+}
+
+export type UpdatePromptTemplateData = Partial<Omit<CreatePromptTemplateData, 'projectId'>>;
+
+// Rendered prompts plus what to record in Message.metadata
+export interface RenderedPromptTemplate {
+  system?: string;
+  message?: string;
+  metadata: {
+    template: { id: string; name: string; version: number; variables: Record<string, string> };
+  };
+}
+
+// In the user prompt, {{message}} stands for the text sent with the request
+export const MESSAGE_VARIABLE = 'message';
+
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z_][\w.-]*)\s*\}\}/g;
+
+export class PromptTemplateError extends Error {
+  constructor(message: string, public status: number, public missing?: string[]) {
+    super(message);
+    this.name = 'PromptTemplateError';
+  }
+}
+
+// Variable names referenced by the prompts, in order of first use
+export function extractVariables(...prompts: Array<string | undefined>): string[] {
+  const names = new Set<string>();
+  for (const prompt of prompts) {
+    for (const match of (prompt || '').matchAll(VARIABLE_PATTERN)) {
+      names.add(match[1]);
+    }
+  }
+  return Array.from(names);
+}
+
+export function renderTemplate(prompt: string, variables: Record<string, string>): string {
+  return prompt.replace(VARIABLE_PATTERN, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : placeholder
+  );
+}
+
+// Render a template version for a request. Every variable the rendered
+// prompts use must be supplied; `message` is filled in from the request text
+// (which may be empty when the user prompt does not use it). Without a
+// message only the system prompt is rendered, e.g. when a conversation is
+// created from a template.
+export function renderPromptTemplate(
+  template: PromptTemplate,
+  variables: Record<string, string> = {},
+  message?: string
+): RenderedPromptTemplate {
+  const values = message ? { ...variables, [MESSAGE_VARIABLE]: message } : variables;
+  const used = message !== undefined
+    ? template.variables
+    : extractVariables(template.systemPrompt);
+  const missing = used.filter(name => values[name] === undefined);
+  if (missing.length > 0) {
+    throw new PromptTemplateError(`Missing template variables: ${missing.join(', ')}`, 400, missing);
+  }
+  if (message !== undefined && !message.trim() && !template.userPrompt) {
+    throw new PromptTemplateError('A message is required for templates without a user prompt', 400);
+  }
+
+  return {
+    ...(template.systemPrompt && { system: renderTemplate(template.systemPrompt, values) }),
+    ...(message !== undefined && {
+      message: template.userPrompt ? renderTemplate(template.userPrompt, values) : message,
+    }),
+    metadata: {
+      template: { id: template.id, name: template.name, version: template.version, variables },
+    },
+  };
+}
+
+export function isVariableMap(value: unknown): value is Record<string, string> {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    !Array.isArray(value) &&
+    Object.values(value).every(entry => typeof entry === 'string')
+  );
+}
+
+export interface PromptTemplateStore {
+  // The user's own templates and those shared on their projects
+  list(userId: string, projectId?: string): Promise<PromptTemplate[]>;
+  // Latest version unless `version` is given
+  get(id: string, userId: string, version?: number): Promise<PromptTemplate | null>;
+  listVersions(id: string, userId: string): Promise<PromptTemplateVersion[] | null>;
+  create(userId: string, data: CreatePromptTemplateData): Promise<PromptTemplate>;
+  // Name and description change in place; prompt changes add a version
+  update(id: string, userId: string, data: UpdatePromptTemplateData): Promise<PromptTemplate | null>;
+  delete(id: string, userId: string): Promise<boolean>;
+}
+
+function generateId(): string {
+  return `tmpl_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+function toVersion(systemPrompt?: string, userPrompt?: string): PromptTemplateVersion {
+  return {
+    version: 1,
+    systemPrompt,
+    userPrompt,
+    variables: extractVariables(systemPrompt, userPrompt),
+    createdAt: new Date(),
+  };
+}
+
+function hasPromptChanges(current: PromptTemplateVersion, data: UpdatePromptTemplateData): boolean {
+  return (
+    (data.systemPrompt !== undefined && data.systemPrompt !== (current.systemPrompt ?? '')) ||
+    (data.userPrompt !== undefined && data.userPrompt !== (current.userPrompt ?? ''))
+  );
+}
+
+type StoredTemplate = Omit<PromptTemplate, keyof PromptTemplateVersion | 'latestVersion' | 'createdAt'> & {
+  createdAt: Date;
+  versions: PromptTemplateVersion[];
+};
+
+// Process-local store, used when no database is configured. Project sharing
+// needs the Project table, so templates are only visible to their owner here.
+export class InMemoryPromptTemplateStore implements PromptTemplateStore {
+  private templates: Map<string, StoredTemplate> = new Map();
+
+  async list(userId: string, projectId?: string): Promise<PromptTemplate[]> {
+    return Array.from(this.templates.values())
+      .filter(template => template.userId === userId && (!projectId || template.projectId === projectId))
+      .flatMap(template => this.toTemplate(template) ?? []);
+  }
+
+  async get(id: string, userId: string, version?: number): Promise<PromptTemplate | null> {
+    const template = this.templates.get(id);
+    if (!template || template.userId !== userId) {
+      return null;
+    }
+    return this.toTemplate(template, version);
+  }
+
+  async listVersions(id: string, userId: string): Promise<PromptTemplateVersion[] | null> {
+    const template = this.templates.get(id);
+    if (!template || template.userId !== userId) {
+      return null;
+    }
+    return template.versions.map(version => ({ ...version }));
+  }
+
+  async create(userId: string, data: CreatePromptTemplateData): Promise<PromptTemplate> {
+    const now = new Date();
+    const template: StoredTemplate = {
+      id: generateId(),
+      userId,
+      projectId: data.projectId,
+      name: data.name,
+      description: data.description,
+      versions: [toVersion(data.systemPrompt, data.userPrompt)],
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.templates.set(template.id, template);
+    return this.toTemplate(template)!;
+  }
+
+  async update(id: string, userId: string, data: UpdatePromptTemplateData): Promise<PromptTemplate | null> {
+    const template = this.templates.get(id);
+    if (!template || template.userId !== userId) {
+      return null;
+    }
+    const current = template.versions[template.versions.length - 1];
+    if (hasPromptChanges(current, data)) {
+      const systemPrompt = data.systemPrompt ?? current.systemPrompt;
+      const userPrompt = data.userPrompt ?? current.userPrompt;
+      template.versions.push({ ...toVersion(systemPrompt || undefined, userPrompt || undefined), version: current.version + 1 });
+    }
+    if (data.name) {
+      template.name = data.name;
+    }
+    if (data.description !== undefined) {
+      template.description = data.description || undefined;
+    }
+    template.updatedAt = new Date();
+    return this.toTemplate(template);
+  }
+
+  async delete(id: string, userId: string): Promise<boolean> {
+    const template = this.templates.get(id);
+    if (!template || template.userId !== userId) {
+      return false;
+    }
+    return this.templates.delete(id);
+  }
+
+  private toTemplate(template: StoredTemplate, version?: number): PromptTemplate | null {
+    const selected = version === undefined
+      ? template.versions[template.versions.length - 1]
+      : template.versions.find(entry => entry.version === version);
+    if (!selected) {
+      return null;
+    }
+    const { versions, createdAt, ...rest } = template;
+    return {
+      ...rest,
+      ...selected,
+      variables: [...selected.variables],
+      latestVersion: versions[versions.length - 1].version,
+      createdAt,
+    };
+  }
+}
+
+type TemplateRow = Prisma.PromptTemplateGetPayload<object>;
+type VersionRow = Prisma.PromptTemplateVersionGetPayload<object>;
+
+function fromVersionRow(row: VersionRow): PromptTemplateVersion {
+  return {
+    version: row.version,
+    systemPrompt: row.systemPrompt ?? undefined,
+    userPrompt: row.userPrompt ?? undefined,
+    variables: row.variables,
+    createdAt: row.createdAt,
+  };
+}
+
+function toTemplate(row: TemplateRow, version: VersionRow): PromptTemplate {
+  return {
+    id: row.id,
+    userId: row.userId,
+    projectId: row.projectId ?? undefined,
+    name: row.name,
+    description: row.description ?? undefined,
+    latestVersion: row.latestVersion,
+    ...fromVersionRow(version),
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+// Templates the user owns, or that are shared on a project the user owns
+function accessibleBy(userId: string): Prisma.PromptTemplateWhereInput {
+  return { OR: [{ userId }, { project: { userId } }] };
+}
+
+// Durable store backed by the PromptTemplate and PromptTemplateVersion tables
+export class PrismaPromptTemplateStore implements PromptTemplateStore {
+  async list(userId: string, projectId?: string): Promise<PromptTemplate[]> {
+    const rows = await prisma.promptTemplate.findMany({
+      where: { AND: [accessibleBy(userId), ...(projectId ? [{ projectId }] : [])] },
+      include: { versions: { orderBy: { version: 'desc' }, take: 1 } },
+      orderBy: { updatedAt: 'desc' },
+    });
+    return rows.filter(row => row.versions.length > 0).map(row => toTemplate(row, row.versions[0]));
+  }
+
+  async get(id: string, userId: string, version?: number): Promise<PromptTemplate | null> {
+    const row = await prisma.promptTemplate.findFirst({
+      where: { id, ...accessibleBy(userId) },
+      include: {
+        versions: version === undefined
+          ? { orderBy: { version: 'desc' }, take: 1 }
+          : { where: { version } },
+      },
+    });
+    return row && row.versions.length > 0 ? toTemplate(row, row.versions[0]) : null;
+  }
+
+  async listVersions(id: string, userId: string): Promise<PromptTemplateVersion[] | null> {
+    const row = await prisma.promptTemplate.findFirst({
+      where: { id, ...accessibleBy(userId) },
+      include: { versions: { orderBy: { version: 'asc' } } },
+    });
+    return row ? row.versions.map(fromVersionRow) : null;
+  }
+
+  async create(userId: string, data: CreatePromptTemplateData): Promise<PromptTemplate> {
+    if (data.projectId) {
+      const project = await prisma.project.findFirst({ where: { id: data.projectId, userId }, select: { id: true } });
+      if (!project) {
+        throw new PromptTemplateError('Project not found', 404);
+      }
+    }
+    const row = await prisma.promptTemplate.create({
+      data: {
+        userId,
+        projectId: data.projectId,
+        name: data.name,
+        description: data.description,
+        versions: {
+          create: {
+            version: 1,
+            systemPrompt: data.systemPrompt,
+            userPrompt: data.userPrompt,
+            variables: extractVariables(data.systemPrompt, data.userPrompt),
+          },
+        },
+      },
+      include: { versions: true },
+    });
+    return toTemplate(row, row.versions[0]);
+  }
+
+  async update(id: string, userId: string, data: UpdatePromptTemplateData): Promise<PromptTemplate | null> {
+    return prisma.$transaction(async (tx) => {
+      const row = await tx.promptTemplate.findFirst({
+        where: { id, ...accessibleBy(userId) },
+        include: { versions: { orderBy: { version: 'desc' }, take: 1 } },
+      });
+      if (!row || row.versions.length === 0) {
+        return null;
+      }
+
+      const current = fromVersionRow(row.versions[0]);
+      let latestVersion = row.latestVersion;
+      if (hasPromptChanges(current, data)) {
+        const systemPrompt = (data.systemPrompt ?? current.systemPrompt) || undefined;
+        const userPrompt = (data.userPrompt ?? current.userPrompt) || undefined;
+        latestVersion = current.version + 1;
+        await tx.promptTemplateVersion.create({
+          data: {
+            templateId: id,
+            version: latestVersion,
+            systemPrompt,
+            userPrompt,
+            variables: extractVariables(systemPrompt, userPrompt),
+          },
+        });
+      }
+
+      const updated = await tx.promptTemplate.update({
+        where: { id },
+        data: {
+          latestVersion,
+          ...(data.name && { name: data.name }),
+          ...(data.description !== undefined && { description: data.description || null }),
+        },
+        include: { versions: { orderBy: { version: 'desc' }, take: 1 } },
+      });
+      return toTemplate(updated, updated.versions[0]);
+    });
+  }
+
+  async delete(id: string, userId: string): Promise<boolean> {
+    const { count } = await prisma.promptTemplate.deleteMany({ where: { id, ...accessibleBy(userId) } });
+    return count > 0;
+  }
+}
+
+let storeInstance: PromptTemplateStore | null = null;
+
+export function getPromptTemplateStore(): PromptTemplateStore {
+  if (!storeInstance) {
+    storeInstance = process.env.DATABASE_URL
+      ? new PrismaPromptTemplateStore()
+      : new InMemoryPromptTemplateStore();
+  }
+  return storeInstance;
+}
+
+// Load a template the user can see and render it for a request
+export async function resolvePromptTemplate(
+  userId: string,
+  request: { templateId: string; version?: number; variables?: Record<string, string>; message?: string }
+): Promise<RenderedPromptTemplate> {
+  const template = await getPromptTemplateStore().get(request.templateId, userId, request.version);
+  if (!template) {
+    throw new PromptTemplateError(
+      request.version === undefined ? 'Prompt template not found' : `Version ${request.version} of the prompt template not found`,
+      404
+    );
+  }
+  return renderPromptTemplate(template, request.variables, request.message);
+}
@@ -0,0 +1,295 @@
+import { spawn } from 'child_process';
+
+// global.d.ts declares a reduced `process`; process groups need the full API
+const nodeProcess = process as unknown as NodeJS.Process;
+
+export interface CommandPolicy {
+  allow: string[];
+  deny: string[];
+}
+
+export interface RunCommandOptions {
+  cwd: string;
+  // Wall-clock limit in milliseconds
+  timeout?: number;
+  // CPU time limit in seconds, enforced with `ulimit -t`
+  cpuTimeLimit?: number;
+  // Combined stdout/stderr cap; the process is killed once exceeded
+  maxOutputBytes?: number;
+  signal?: AbortSignal;
+  env?: Record<string, string>;
+}
+
+export interface RunCommandResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  timedOut: boolean;
+  truncated: boolean;
+  aborted: boolean;
+}
+
+export class CommandPolicyError extends Error {
+  constructor(message: string, public command?: string) {
+    super(message);
+    this.name = 'CommandPolicyError';
+  }
+}
+
+// Interpreters, package managers and anything that can start another
+// program or read files named outside its arguments (node -e, find -exec,
+// git aliases, tsconfig includes) are left out; arguments can only be
+// checked against the workspace when the command does nothing else with them
+export const DEFAULT_COMMAND_ALLOWLIST = [
+  'ls', 'cat', 'head', 'tail', 'wc', 'echo', 'pwd', 'mkdir', 'touch', 'cp', 'mv', 'rm',
+  'sort', 'uniq', 'diff',
+];
+
+export const DEFAULT_COMMAND_DENYLIST = [
+  'sudo', 'su', 'sh', 'bash', 'zsh', 'env', 'curl', 'wget', 'ssh', 'scp', 'nc',
+  'chmod', 'chown', 'kill', 'pkill', 'killall', 'shutdown', 'reboot', 'dd', 'mkfs',
+  // Run their arguments as a command
+  'xargs', 'nohup', 'timeout', 'nice', 'setsid', 'stdbuf', 'chroot', 'exec',
+];
+
+// Options that make a command run another program or write where its
+// arguments do not say; refused even when the command itself is allowed
+export const DENIED_COMMAND_OPTIONS: Record<string, string[]> = {
+  sort: ['--compress-program'],
+  find: ['-exec', '-execdir', '-ok', '-okdir', '-delete', '-fprint', '-fprint0', '-fprintf', '-fls'],
+};
+
+export const DEFAULT_TIMEOUT_MS = 120000;
+export const DEFAULT_CPU_TIME_LIMIT = 60;
+export const DEFAULT_MAX_OUTPUT_BYTES = 512 * 1024;
+
+// Only these variables are inherited by child processes, so secrets such as
+// ANTHROPIC_API_KEY, JWT_SECRET or DATABASE_URL never reach them
+const INHERITED_ENV_VARS = ['PATH', 'LANG', 'LC_ALL', 'TZ', 'TERM'];
+
+function parseList(value: string | undefined): string[] | undefined {
+  if (!value) {
+    return undefined;
+  }
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+export function getCommandPolicy(): CommandPolicy {
+  return {
+    allow: parseList(process.env.TOOL_COMMAND_ALLOWLIST) || DEFAULT_COMMAND_ALLOWLIST,
+    deny: [...DEFAULT_COMMAND_DENYLIST, ...(parseList(process.env.TOOL_COMMAND_DENYLIST) || [])],
+  };
+}
+
+export function scrubEnvironment(cwd: string, extra: Record<string, string> = {}): NodeJS.ProcessEnv {
+  const env: Record<string, string> = {};
+  for (const name of INHERITED_ENV_VARS) {
+    const value = process.env[name];
+    if (value !== undefined) {
+      env[name] = value;
+    }
+  }
+  return { ...env, HOME: cwd, ...extra } as unknown as NodeJS.ProcessEnv;
+}
+
+// Split a command line into argv, honouring quotes and backslash escapes.
+// Shell operators are rejected rather than interpreted since nothing here is
+// ever passed through a shell.
+export function parseCommandLine(command: string): string[] {
+  const args: string[] = [];
+  let current = '';
+  let hasToken = false;
+  let quote: '"' | "'" | null = null;
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else if (char === '\\' && quote === '"' && i + 1 < command.length) {
+        current += command[++i];
+      } else {
+        current += char;
+      }
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      quote = char;
+      hasToken = true;
+    } else if (char === '\\' && i + 1 < command.length) {
+      current += command[++i];
+      hasToken = true;
+    } else if (/\s/.test(char)) {
+      if (hasToken) {
+        args.push(current);
+        current = '';
+        hasToken = false;
+      }
+    } else if ('|&;<>()$`'.includes(char)) {
+      throw new CommandPolicyError(`Shell operator "${char}" is not supported`, command);
+    } else {
+      current += char;
+      hasToken = true;
+    }
+  }
+
+  if (quote) {
+    throw new CommandPolicyError('Unterminated quote in command', command);
+  }
+  if (hasToken) {
+    args.push(current);
+  }
+  return args;
+}
+
+export function assertCommandAllowed(argv: string[], policy: CommandPolicy): void {
+  if (argv.length === 0) {
+    throw new CommandPolicyError('Command is empty');
+  }
+
+  const executable = argv[0];
+  if (executable.includes('/')) {
+    throw new CommandPolicyError(`Commands must be invoked by name, not path: ${executable}`, executable);
+  }
+  if (policy.deny.includes(executable)) {
+    throw new CommandPolicyError(`Command is denied: ${executable}`, executable);
+  }
+  if (!policy.allow.includes('*') && !policy.allow.includes(executable)) {
+    throw new CommandPolicyError(`Command is not in the allowlist: ${executable}`, executable);
+  }
+
+  const deniedOptions = DENIED_COMMAND_OPTIONS[executable] || [];
+  for (const arg of argv.slice(1)) {
+    const option = deniedOptions.find(denied => arg === denied || arg.startsWith(`${denied}=`));
+    if (option) {
+      throw new CommandPolicyError(`Option is denied: ${executable} ${option}`, executable);
+    }
+  }
+}
+
+// Values an argv passes to its command that may name files: every argument
+// that is not an option, option values given as `--name=value`, and values
+// attached to short options that look like paths (`-o/etc/passwd`)
+export function getPathArguments(args: string[]): string[] {
+  const paths: string[] = [];
+  let endOfOptions = false;
+  for (const arg of args) {
+    if (!arg || arg === '-') {
+      continue;
+    }
+    if (endOfOptions || !arg.startsWith('-')) {
+      paths.push(arg);
+    } else if (arg === '--') {
+      endOfOptions = true;
+    } else if (arg.startsWith('--')) {
+      const value = arg.slice(arg.indexOf('=') + 1);
+      if (arg.includes('=') && value) {
+        paths.push(value);
+      }
+    } else if (/[./]/.test(arg.slice(2))) {
+      paths.push(arg.slice(2));
+    }
+  }
+  return paths;
+}
+
+// Spawn argv directly (no shell) with time, CPU and output limits. The child
+// runs in its own process group so the whole tree is killed on cancellation.
+export function runCommand(argv: string[], options: RunCommandOptions): Promise<RunCommandResult> {
+  const {
+    cwd,
+    timeout = DEFAULT_TIMEOUT_MS,
+    cpuTimeLimit = DEFAULT_CPU_TIME_LIMIT,
+    maxOutputBytes = DEFAULT_MAX_OUTPUT_BYTES,
+    signal,
+    env,
+  } = options;
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      resolve({ stdout: '', stderr: '', exitCode: null, signal: null, timedOut: false, truncated: false, aborted: true });
+      return;
+    }
+
+    // argv is handed to `sh` as positional parameters, never interpolated
+    const child = process.platform === 'win32'
+      ? spawn(argv[0], argv.slice(1), { cwd, env: scrubEnvironment(cwd, env) })
+      : spawn('/bin/sh', ['-c', `ulimit -t ${Math.max(1, Math.floor(cpuTimeLimit))}; exec "$@"`, 'sh', ...argv], {
+          cwd,
+          env: scrubEnvironment(cwd, env),
+          detached: true,
+        });
+
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    let outputBytes = 0;
+    let timedOut = false;
+    let truncated = false;
+    let aborted = false;
+
+    const kill = () => {
+      try {
+        if (child.pid && process.platform !== 'win32') {
+          nodeProcess.kill(-child.pid, 'SIGKILL');
+        } else {
+          child.kill('SIGKILL');
+        }
+      } catch {
+        // Process already exited
+      }
+    };
+
+    const collect = (target: Buffer[]) => (chunk: Buffer) => {
+      if (truncated) {
+        return;
+      }
+      const remaining = maxOutputBytes - outputBytes;
+      if (chunk.length > remaining) {
+        target.push(chunk.subarray(0, remaining));
+        outputBytes = maxOutputBytes;
+        truncated = true;
+        kill();
+        return;
+      }
+      target.push(chunk);
+      outputBytes += chunk.length;
+    };
+
+    child.stdout?.on('data', collect(stdout));
+    child.stderr?.on('data', collect(stderr));
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      kill();
+    }, timeout);
+
+    const onAbort = () => {
+      aborted = true;
+      kill();
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    child.on('error', (error) => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      reject(error);
+    });
+
+    child.on('close', (exitCode, exitSignal) => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      resolve({
+        stdout: Buffer.concat(stdout).toString('utf-8'),
+        stderr: Buffer.concat(stderr).toString('utf-8'),
+        exitCode,
+        signal: exitSignal,
+        timedOut,
+        truncated,
+        aborted,
+      });
+    });
+  });
+}
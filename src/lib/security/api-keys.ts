@@ -1,6 +1,8 @@
 import crypto from 'crypto';
 import { NextRequest } from 'next/server';
 import { SignJWT, jwtVerify } from 'jose';
+import { getUserIdFromRequest } from '../jwt';
+import type { UsageTier } from '../usage';
 
 // API Key configuration
 const API_KEY_SECRET = new TextEncoder().encode(
@@ -40,6 +42,8 @@ export interface ApiKey {
   userId: string;
   permissions: ApiKeyPermission[];
   scopes: ApiKeyScope[];
+  // Token budget tier of requests made with the key
+  tier: UsageTier;
   expiresAt?: Date;
   lastUsedAt?: Date;
   createdAt: Date;
@@ -54,6 +58,7 @@ export interface CreateApiKeyOptions {
   userId: string;
   permissions?: ApiKeyPermission[];
   scopes?: ApiKeyScope[];
+  tier?: UsageTier;
   expiresIn?: number; // Days until expiration
   metadata?: Record<string, any>;
 }
@@ -99,6 +104,7 @@ export async function createApiKey(options: CreateApiKeyOptions): Promise<ApiKey
     userId: options.userId,
     permissions: options.permissions || [ApiKeyPermission.READ],
     scopes: options.scopes || [ApiKeyScope.USER],
+    tier: options.tier || 'free',
     expiresAt,
     lastUsedAt: undefined,
     createdAt: now,
@@ -135,6 +141,7 @@ export async function validateApiKey(apiKey: string): Promise<ApiKeyValidationRe
       userId: 'user-id',
       permissions: [ApiKeyPermission.READ],
       scopes: [ApiKeyScope.USER],
+      tier: 'free',
       createdAt: new Date(),
       updatedAt: new Date(),
     },
@@ -332,6 +339,7 @@ export class InMemoryApiKeyManager implements ApiKeyManager {
     if (updates.description !== undefined) keyData.description = updates.description;
     if (updates.permissions) keyData.permissions = updates.permissions;
     if (updates.scopes) keyData.scopes = updates.scopes;
+    if (updates.tier) keyData.tier = updates.tier;
     if (updates.metadata) keyData.metadata = updates.metadata;
     
     keyData.updatedAt = new Date();
@@ -352,6 +360,7 @@ export class InMemoryApiKeyManager implements ApiKeyManager {
       userId: oldKeyData.userId,
       permissions: oldKeyData.permissions,
       scopes: oldKeyData.scopes,
+      tier: oldKeyData.tier,
       metadata: { ...oldKeyData.metadata, rotatedFrom: apiKeyId },
     });
     
@@ -374,4 +383,23 @@ export function getApiKeyManager(): ApiKeyManager {
     initializeApiKeyManager();
   }
   return apiKeyManager;
-}
\ No newline at end of file
+}
+
+export interface RequestAuth {
+  userId: string;
+  // Set when the request was made with an API key
+  tier?: UsageTier;
+}
+
+// The user a request is made for: the owner of the API key it carries, with
+// the key's tier, or else the user of its auth cookie or Bearer token. An
+// invalid API key authenticates nobody.
+export async function authenticateRequest(request: NextRequest): Promise<RequestAuth | null> {
+  const key = extractApiKey(request);
+  if (key) {
+    const { valid, apiKey } = await getApiKeyManager().validate(key);
+    return valid && apiKey ? { userId: apiKey.userId, tier: apiKey.tier } : null;
+  }
+  const userId = await getUserIdFromRequest(request);
+  return userId ? { userId } : null;
+}
@@ -0,0 +1,57 @@
+import crypto from 'crypto';
+
+// Encryption at rest for secrets kept in the database, such as integration
+// access tokens. AES-256-GCM with a key derived from ENCRYPTION_KEY; a value
+// is `v1:<iv>:<auth tag>:<ciphertext>`, each part base64url encoded, so a
+// tampered or truncated value fails to decrypt instead of yielding garbage.
+const ENCRYPTION_VERSION = 'v1';
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+
+// Only development and tests may fall back to a key; it is public, so
+// anything else refuses to encrypt or decrypt without ENCRYPTION_KEY
+const DEVELOPMENT_KEY = 'development-encryption-key';
+
+function getKey(): Buffer {
+  const env = process.env.NODE_ENV;
+  const secret = process.env.ENCRYPTION_KEY || (env === 'development' || env === 'test' ? DEVELOPMENT_KEY : undefined);
+  if (!secret) {
+    throw new Error('ENCRYPTION_KEY is not set; stored secrets cannot be encrypted or decrypted');
+  }
+  return crypto.createHash('sha256').update(secret).digest();
+}
+
+export class DecryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DecryptionError';
+  }
+}
+
+export function encryptSecret(plaintext: string): string {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return [
+    ENCRYPTION_VERSION,
+    iv.toString('base64url'),
+    cipher.getAuthTag().toString('base64url'),
+    ciphertext.toString('base64url'),
+  ].join(':');
+}
+
+// Throws DecryptionError when the value was not encrypted with this key
+export function decryptSecret(value: string): string {
+  const key = getKey();
+  const [version, iv, tag, ciphertext] = value.split(':');
+  if (version !== ENCRYPTION_VERSION || !iv || !tag || ciphertext === undefined) {
+    throw new DecryptionError('Unrecognised encrypted value');
+  }
+  try {
+    const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64url'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64url')), decipher.final()]).toString('utf8');
+  } catch {
+    throw new DecryptionError('Encrypted value could not be decrypted; was ENCRYPTION_KEY changed?');
+  }
+}
@@ -87,11 +87,10 @@ export function verifyWebhookSignature(
   // Generate expected signature
   const expectedSignature = generateWebhookSignature(payload, secret, timestamp);
   
-  // Constant-time comparison
-  return crypto.timingSafeEqual(
-    Buffer.from(signature),
-    Buffer.from(expectedSignature)
-  );
+  // Constant-time comparison; timingSafeEqual throws on different lengths
+  const received = Buffer.from(signature);
+  const expected = Buffer.from(expectedSignature);
+  return received.length === expected.length && crypto.timingSafeEqual(received, expected);
 }
 
 // Create webhook payload
@@ -1,10 +1,28 @@
 import { EventSourceParserStream } from 'eventsource-parser/stream';
 
 export interface SSEMessage {
-  type: 'delta' | 'done' | 'error';
+  type:
+    | 'delta'
+    | 'tool_use'
+    | 'tool_result'
+    | 'tool_approval_required'
+    | 'tool_approval_resolved'
+    | 'done'
+    | 'error';
   content?: string;
   conversationId?: string;
   error?: string;
+  // Tool loop activity
+  iteration?: number;
+  id?: string;
+  name?: string;
+  input?: unknown;
+  result?: unknown;
+  // Tool approval workflow
+  approvalId?: string;
+  preview?: unknown;
+  status?: string;
+  reason?: string;
 }
 
 export class SSEClient {
@@ -0,0 +1,138 @@
+// Line-based unified diff, used to preview file changes before they are made
+
+type DiffOp = { type: 'equal' | 'add' | 'remove'; line: string };
+
+// Above this many LCS cells the diff falls back to replacing the whole file
+const MAX_LCS_CELLS = 4_000_000;
+
+function diffLines(oldLines: string[], newLines: string[]): DiffOp[] {
+  // Trim the common prefix and suffix so the LCS table only covers the change
+  let start = 0;
+  while (start < oldLines.length && start < newLines.length && oldLines[start] === newLines[start]) {
+    start++;
+  }
+  let oldEnd = oldLines.length;
+  let newEnd = newLines.length;
+  while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const prefix: DiffOp[] = oldLines.slice(0, start).map(line => ({ type: 'equal', line }));
+  const suffix: DiffOp[] = oldLines.slice(oldEnd).map(line => ({ type: 'equal', line }));
+  const a = oldLines.slice(start, oldEnd);
+  const b = newLines.slice(start, newEnd);
+
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    return [
+      ...prefix,
+      ...a.map(line => ({ type: 'remove' as const, line })),
+      ...b.map(line => ({ type: 'add' as const, line })),
+      ...suffix,
+    ];
+  }
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const middle: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      middle.push({ type: 'equal', line: a[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      middle.push({ type: 'remove', line: a[i++] });
+    } else {
+      middle.push({ type: 'add', line: b[j++] });
+    }
+  }
+  while (i < a.length) middle.push({ type: 'remove', line: a[i++] });
+  while (j < b.length) middle.push({ type: 'add', line: b[j++] });
+
+  return [...prefix, ...middle, ...suffix];
+}
+
+export function createUnifiedDiff(
+  filePath: string,
+  oldText: string,
+  newText: string,
+  contextLines = 3
+): string {
+  const oldLines = oldText === '' ? [] : oldText.split('\n');
+  const newLines = newText === '' ? [] : newText.split('\n');
+  const ops = diffLines(oldLines, newLines);
+
+  const header = [
+    `--- ${oldText === '' ? '/dev/null' : `a/${filePath}`}`,
+    `+++ b/${filePath}`,
+  ];
+
+  // Group changed ops into hunks with surrounding context
+  const hunks: string[] = [];
+  let index = 0;
+  let oldLine = 1;
+  let newLine = 1;
+
+  while (index < ops.length) {
+    if (ops[index].type === 'equal') {
+      index++;
+      oldLine++;
+      newLine++;
+      continue;
+    }
+
+    const contextStart = Math.max(0, index - contextLines);
+    let hunkOld = oldLine - (index - contextStart);
+    let hunkNew = newLine - (index - contextStart);
+    const body: string[] = ops.slice(contextStart, index).map(op => ` ${op.line}`);
+    let oldCount = index - contextStart;
+    let newCount = index - contextStart;
+
+    let trailingEqual = 0;
+    while (index < ops.length) {
+      const op = ops[index];
+      if (op.type === 'equal') {
+        trailingEqual++;
+        // Close the hunk once the gap to the next change exceeds the context
+        const nextChange = ops.slice(index + 1, index + 1 + contextLines).some(next => next.type !== 'equal');
+        if (trailingEqual > contextLines && !nextChange) {
+          break;
+        }
+        body.push(` ${op.line}`);
+        oldCount++;
+        newCount++;
+        oldLine++;
+        newLine++;
+      } else {
+        trailingEqual = 0;
+        if (op.type === 'remove') {
+          body.push(`-${op.line}`);
+          oldCount++;
+          oldLine++;
+        } else {
+          body.push(`+${op.line}`);
+          newCount++;
+          newLine++;
+        }
+      }
+      index++;
+    }
+
+    // Unified diff numbers empty ranges from the line before them
+    if (oldCount === 0) hunkOld--;
+    if (newCount === 0) hunkNew--;
+    hunks.push(`@@ -${hunkOld},${oldCount} +${hunkNew},${newCount} @@`, ...body);
+  }
+
+  return hunks.length > 0 ? [...header, ...hunks].join('\n') : '';
+}
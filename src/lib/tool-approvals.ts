@@ -0,0 +1,465 @@
+import { promises as fs } from 'fs';
+import {
+  Prisma,
+  ToolApprovalStatus as PrismaApprovalStatus,
+  ToolPolicyMode as PrismaPolicyMode,
+} from '@prisma/client';
+import { prisma } from './prisma';
+import { applyEdit, createToolImplementations } from './claude-tools';
+import { createUnifiedDiff } from './text-diff';
+import { WorkspacePolicy, getWorkspacePolicy, resolveWorkspacePath, toWorkspaceRelative } from './workspace';
+import type {
+  ClaudeClient,
+  SuspendedToolLoop,
+  ToolAuthorization,
+  ToolAuthorizer,
+  ToolImplementation,
+  ToolLoopOptions,
+  ToolLoopResult,
+} from './claude-client';
+
+export type ToolPolicyMode = 'allow' | 'ask' | 'deny';
+export type ToolApprovalStatus = 'pending' | 'approved' | 'rejected' | 'expired';
+
+export type ToolApprovalPreview =
+  | { type: 'diff'; path: string; diff: string }
+  | { type: 'command'; command: string }
+  | { type: 'input'; input: unknown };
+
+export interface ToolApproval {
+  id: string;
+  userId: string;
+  conversationId?: string;
+  toolUseId: string;
+  toolName: string;
+  input: unknown;
+  preview?: ToolApprovalPreview;
+  status: ToolApprovalStatus;
+  reason?: string;
+  expiresAt: Date;
+  decidedAt?: Date;
+  createdAt: Date;
+}
+
+// Saved with an approval whose call stopped a tool loop, so the decision
+// endpoint can carry the turn on
+export interface ToolLoopResumeState {
+  loop: SuspendedToolLoop;
+  projectId?: string;
+  options: Pick<ToolLoopOptions, 'conversationId' | 'parentId' | 'regenerateFrom' | 'metadata' | 'tools' | 'maxIterations' | 'usageTier'>;
+}
+
+export class ToolApprovalError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'ToolApprovalError';
+  }
+}
+
+export type CreateToolApprovalData = Pick<
+  ToolApproval,
+  'userId' | 'conversationId' | 'toolUseId' | 'toolName' | 'input' | 'preview' | 'expiresAt'
+>;
+
+// Read-only tools run straight away; anything that changes the workspace asks first
+export const DEFAULT_TOOL_POLICIES: Record<string, ToolPolicyMode> = {
+  read: 'allow',
+  list: 'allow',
+  grep: 'allow',
+  write: 'ask',
+  edit: 'ask',
+  bash: 'ask',
+};
+
+const UNKNOWN_TOOL_POLICY: ToolPolicyMode = 'ask';
+const DEFAULT_APPROVAL_TIMEOUT_MS = 60 * 60 * 1000;
+
+export interface ToolApprovalStore {
+  createApproval(data: CreateToolApprovalData): Promise<ToolApproval>;
+  getApproval(id: string, userId: string): Promise<ToolApproval | null>;
+  listPendingApprovals(userId: string): Promise<ToolApproval[]>;
+  // Only pending approvals can be decided; returns null otherwise
+  decideApproval(id: string, userId: string, status: Exclude<ToolApprovalStatus, 'pending'>, reason?: string): Promise<ToolApproval | null>;
+  saveResumeState(id: string, userId: string, state: ToolLoopResumeState): Promise<void>;
+  hasResumeState(id: string, userId: string): Promise<boolean>;
+  // Returns the saved state once and clears it, so a turn is resumed at most once
+  takeResumeState(id: string, userId: string): Promise<ToolLoopResumeState | null>;
+  getPolicies(userId: string): Promise<Record<string, ToolPolicyMode>>;
+  setPolicy(userId: string, toolName: string, mode: ToolPolicyMode): Promise<void>;
+}
+
+function generateId(): string {
+  return `appr_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+export class InMemoryToolApprovalStore implements ToolApprovalStore {
+  private approvals: Map<string, ToolApproval> = new Map();
+  private resumeStates: Map<string, ToolLoopResumeState> = new Map();
+  private policies: Map<string, Record<string, ToolPolicyMode>> = new Map();
+
+  async createApproval(data: CreateToolApprovalData): Promise<ToolApproval> {
+    const approval: ToolApproval = { ...data, id: generateId(), status: 'pending', createdAt: new Date() };
+    this.approvals.set(approval.id, approval);
+    return { ...approval };
+  }
+
+  async getApproval(id: string, userId: string): Promise<ToolApproval | null> {
+    const approval = this.approvals.get(id);
+    return approval && approval.userId === userId ? { ...approval } : null;
+  }
+
+  async listPendingApprovals(userId: string): Promise<ToolApproval[]> {
+    return Array.from(this.approvals.values())
+      .filter(approval => approval.userId === userId && approval.status === 'pending')
+      .map(approval => ({ ...approval }));
+  }
+
+  async decideApproval(
+    id: string,
+    userId: string,
+    status: Exclude<ToolApprovalStatus, 'pending'>,
+    reason?: string
+  ): Promise<ToolApproval | null> {
+    const approval = this.approvals.get(id);
+    if (!approval || approval.userId !== userId || approval.status !== 'pending') {
+      return null;
+    }
+    Object.assign(approval, { status, reason, decidedAt: new Date() });
+    return { ...approval };
+  }
+
+  async saveResumeState(id: string, userId: string, state: ToolLoopResumeState): Promise<void> {
+    if (this.approvals.get(id)?.userId === userId) {
+      this.resumeStates.set(id, JSON.parse(JSON.stringify(state)));
+    }
+  }
+
+  async hasResumeState(id: string, userId: string): Promise<boolean> {
+    return this.resumeStates.has(id) && this.approvals.get(id)?.userId === userId;
+  }
+
+  async takeResumeState(id: string, userId: string): Promise<ToolLoopResumeState | null> {
+    const state = this.resumeStates.get(id);
+    if (!state || this.approvals.get(id)?.userId !== userId) {
+      return null;
+    }
+    this.resumeStates.delete(id);
+    return state;
+  }
+
+  async getPolicies(userId: string): Promise<Record<string, ToolPolicyMode>> {
+    return { ...(this.policies.get(userId) || {}) };
+  }
+
+  async setPolicy(userId: string, toolName: string, mode: ToolPolicyMode): Promise<void> {
+    this.policies.set(userId, { ...(this.policies.get(userId) || {}), [toolName]: mode });
+  }
+}
+
+type ToolApprovalRow = Prisma.ToolApprovalGetPayload<object>;
+
+function toApproval(row: ToolApprovalRow): ToolApproval {
+  return {
+    id: row.id,
+    userId: row.userId,
+    conversationId: row.conversationId ?? undefined,
+    toolUseId: row.toolUseId,
+    toolName: row.toolName,
+    input: row.input,
+    preview: (row.preview as ToolApprovalPreview | null) ?? undefined,
+    status: row.status.toLowerCase() as ToolApprovalStatus,
+    reason: row.reason ?? undefined,
+    expiresAt: row.expiresAt,
+    decidedAt: row.decidedAt ?? undefined,
+    createdAt: row.createdAt,
+  };
+}
+
+export class PrismaToolApprovalStore implements ToolApprovalStore {
+  async createApproval(data: CreateToolApprovalData): Promise<ToolApproval> {
+    const row = await prisma.toolApproval.create({
+      data: {
+        userId: data.userId,
+        conversationId: data.conversationId,
+        toolUseId: data.toolUseId,
+        toolName: data.toolName,
+        input: data.input as Prisma.InputJsonValue,
+        preview: data.preview as Prisma.InputJsonValue | undefined,
+        expiresAt: data.expiresAt,
+      },
+    });
+    return toApproval(row);
+  }
+
+  async getApproval(id: string, userId: string): Promise<ToolApproval | null> {
+    const row = await prisma.toolApproval.findFirst({ where: { id, userId } });
+    return row ? toApproval(row) : null;
+  }
+
+  async listPendingApprovals(userId: string): Promise<ToolApproval[]> {
+    const rows = await prisma.toolApproval.findMany({
+      where: { userId, status: PrismaApprovalStatus.PENDING, expiresAt: { gt: new Date() } },
+      orderBy: { createdAt: 'asc' },
+    });
+    return rows.map(toApproval);
+  }
+
+  async decideApproval(
+    id: string,
+    userId: string,
+    status: Exclude<ToolApprovalStatus, 'pending'>,
+    reason?: string
+  ): Promise<ToolApproval | null> {
+    // Conditional update so two reviewers cannot both decide the same call
+    const { count } = await prisma.toolApproval.updateMany({
+      where: { id, userId, status: PrismaApprovalStatus.PENDING },
+      data: {
+        status: status.toUpperCase() as PrismaApprovalStatus,
+        reason,
+        decidedAt: new Date(),
+      },
+    });
+    return count > 0 ? this.getApproval(id, userId) : null;
+  }
+
+  async saveResumeState(id: string, userId: string, state: ToolLoopResumeState): Promise<void> {
+    await prisma.toolApproval.updateMany({
+      where: { id, userId },
+      data: { resumeState: state as unknown as Prisma.InputJsonValue },
+    });
+  }
+
+  async hasResumeState(id: string, userId: string): Promise<boolean> {
+    const count = await prisma.toolApproval.count({ where: { id, userId, resumeState: { not: Prisma.AnyNull } } });
+    return count > 0;
+  }
+
+  async takeResumeState(id: string, userId: string): Promise<ToolLoopResumeState | null> {
+    const row = await prisma.toolApproval.findFirst({ where: { id, userId }, select: { resumeState: true } });
+    if (!row?.resumeState) {
+      return null;
+    }
+    // Conditional clear so only one caller gets the state
+    const { count } = await prisma.toolApproval.updateMany({
+      where: { id, userId, resumeState: { not: Prisma.AnyNull } },
+      data: { resumeState: Prisma.DbNull },
+    });
+    return count > 0 ? (row.resumeState as unknown as ToolLoopResumeState) : null;
+  }
+
+  async getPolicies(userId: string): Promise<Record<string, ToolPolicyMode>> {
+    const rows = await prisma.toolPolicy.findMany({ where: { userId } });
+    return Object.fromEntries(rows.map(row => [row.toolName, row.mode.toLowerCase() as ToolPolicyMode]));
+  }
+
+  async setPolicy(userId: string, toolName: string, mode: ToolPolicyMode): Promise<void> {
+    const prismaMode = mode.toUpperCase() as PrismaPolicyMode;
+    await prisma.toolPolicy.upsert({
+      where: { userId_toolName: { userId, toolName } },
+      create: { userId, toolName, mode: prismaMode },
+      update: { mode: prismaMode },
+    });
+  }
+}
+
+let storeInstance: ToolApprovalStore | null = null;
+
+export function getToolApprovalStore(): ToolApprovalStore {
+  if (!storeInstance) {
+    storeInstance = process.env.DATABASE_URL
+      ? new PrismaToolApprovalStore()
+      : new InMemoryToolApprovalStore();
+  }
+  return storeInstance;
+}
+
+export function isToolPolicyMode(value: unknown): value is ToolPolicyMode {
+  return value === 'allow' || value === 'ask' || value === 'deny';
+}
+
+// Effective policy per tool: the user's overrides on top of the defaults
+export async function getToolPolicies(userId: string): Promise<Record<string, ToolPolicyMode>> {
+  const overrides = await getToolApprovalStore().getPolicies(userId);
+  return { ...DEFAULT_TOOL_POLICIES, ...overrides };
+}
+
+// Describe what a tool call would do so the user can review it
+export async function buildApprovalPreview(
+  toolName: string,
+  input: unknown,
+  workspace: WorkspacePolicy
+): Promise<ToolApprovalPreview> {
+  const args = (input || {}) as Record<string, unknown>;
+
+  if (toolName === 'bash' && typeof args.command === 'string') {
+    return { type: 'command', command: args.command };
+  }
+
+  if ((toolName === 'write' || toolName === 'edit') && typeof args.file_path === 'string') {
+    try {
+      const filePath = await resolveWorkspacePath(workspace, args.file_path);
+      const relative = await toWorkspaceRelative(workspace, filePath);
+      const current = await fs.readFile(filePath, 'utf-8').catch(() => '');
+
+      const next = toolName === 'write'
+        ? String(args.content ?? '')
+        : applyEdit(current, String(args.old_string ?? ''), String(args.new_string ?? ''), Boolean(args.replace_all));
+
+      if (next !== null) {
+        return { type: 'diff', path: relative, diff: createUnifiedDiff(relative, current, next) };
+      }
+    } catch {
+      // The tool itself reports policy violations; show the raw input instead
+    }
+  }
+
+  return { type: 'input', input };
+}
+
+// Decide a pending approval; approvals past their expiry are marked expired
+// instead. Until the turn the call stopped has been saved there is nothing
+// to resume, so the decision is refused with a 409 the client can retry.
+export async function decideToolApproval(
+  id: string,
+  userId: string,
+  decision: 'approved' | 'rejected',
+  reason?: string
+): Promise<ToolApproval> {
+  const store = getToolApprovalStore();
+  const existing = await store.getApproval(id, userId);
+  if (!existing) {
+    throw new ToolApprovalError('Approval not found', 404);
+  }
+  if (existing.status === 'pending' && existing.expiresAt.getTime() <= Date.now()) {
+    await store.decideApproval(id, userId, 'expired', 'No decision before the approval expired');
+    throw new ToolApprovalError('Approval has expired', 409);
+  }
+  if (existing.status === 'pending' && !(await store.hasResumeState(id, userId))) {
+    throw new ToolApprovalError('The turn waiting on this approval is still being saved; try again shortly', 409);
+  }
+
+  const approval = await store.decideApproval(id, userId, decision, reason);
+  if (!approval) {
+    const current = await store.getApproval(id, userId);
+    throw new ToolApprovalError(`Approval has already been ${current?.status ?? existing.status}`, 409);
+  }
+  return approval;
+}
+
+export interface ToolAuthorizerOptions {
+  userId: string;
+  conversationId?: string;
+  workspace: WorkspacePolicy;
+  // Streaming requests end the turn at a call that needs review and resume
+  // it from the decision endpoint; others reject those calls
+  interactive: boolean;
+}
+
+// Build the authorizer the tool loop consults before every tool call
+export async function createToolAuthorizer(options: ToolAuthorizerOptions): Promise<ToolAuthorizer> {
+  const { userId, conversationId, workspace, interactive } = options;
+  const policies = await getToolPolicies(userId);
+  const timeout = Number(process.env.TOOL_APPROVAL_TIMEOUT_MS) || DEFAULT_APPROVAL_TIMEOUT_MS;
+
+  return async (call): Promise<ToolAuthorization> => {
+    const mode = policies[call.name] || UNKNOWN_TOOL_POLICY;
+
+    if (mode === 'allow') {
+      return { approved: true };
+    }
+    if (mode === 'deny') {
+      return { approved: false, reason: `The ${call.name} tool is disabled by your tool policy` };
+    }
+    if (!interactive) {
+      return { approved: false, reason: `The ${call.name} tool requires approval; retry with streaming enabled to review it` };
+    }
+
+    const approval = await getToolApprovalStore().createApproval({
+      userId,
+      conversationId,
+      toolUseId: call.id,
+      toolName: call.name,
+      input: call.input,
+      preview: await buildApprovalPreview(call.name, call.input, workspace),
+      expiresAt: new Date(Date.now() + timeout),
+    });
+
+    // The client hears about it from saveSuspendedToolLoop, once the turn
+    // can be resumed
+    return { approved: false, pendingApprovalId: approval.id };
+  };
+}
+
+// Keep a loop that stopped for approval until the call is decided, then
+// ask the client to review the call
+export async function saveSuspendedToolLoop(
+  userId: string,
+  result: ToolLoopResult,
+  context: Omit<ToolLoopResumeState, 'loop'>,
+  send?: (event: unknown) => void
+): Promise<void> {
+  if (!result.suspended || !result.approvalId) {
+    return;
+  }
+  const store = getToolApprovalStore();
+  await store.saveResumeState(result.approvalId, userId, { ...context, loop: result.suspended });
+
+  const approval = await store.getApproval(result.approvalId, userId);
+  if (approval) {
+    send?.({
+      type: 'tool_approval_required',
+      approvalId: approval.id,
+      iteration: result.suspended.iteration,
+      id: approval.toolUseId,
+      name: approval.toolName,
+      input: approval.input,
+      preview: approval.preview,
+      expiresAt: approval.expiresAt,
+    });
+  }
+}
+
+// Carry on the turn a decided approval stopped, with the same events a
+// streaming chat request sends. Returns null when the approval did not stop
+// a loop or it was already resumed.
+export async function resumeToolLoop(
+  client: ClaudeClient,
+  approval: ToolApproval,
+  options: { signal?: AbortSignal; send?: (event: unknown) => void } = {}
+): Promise<ToolLoopResult | null> {
+  const { userId, conversationId } = approval;
+  const state = await getToolApprovalStore().takeResumeState(approval.id, userId);
+  if (!state) {
+    return null;
+  }
+  const { send, signal } = options;
+
+  send?.({
+    type: 'tool_approval_resolved',
+    approvalId: approval.id,
+    id: approval.toolUseId,
+    name: approval.toolName,
+    status: approval.status,
+    reason: approval.reason,
+  });
+
+  const workspace = await getWorkspacePolicy(userId, state.projectId);
+  if (!workspace) {
+    throw new ToolApprovalError('Project not found', 404);
+  }
+  const decision: ToolAuthorization = approval.status === 'approved'
+    ? { approved: true }
+    : { approved: false, reason: approval.reason || `The ${approval.toolName} call was ${approval.status}` };
+
+  const result = await client.resumeToolLoop(state.loop, decision, {
+    ...state.options,
+    conversationId,
+    userId,
+    toolImplementations: createToolImplementations(workspace) as Record<string, ToolImplementation>,
+    signal,
+    authorizeToolCall: await createToolAuthorizer({ userId, conversationId, workspace, interactive: true }),
+    onEvent: send,
+  });
+  await saveSuspendedToolLoop(userId, result, { projectId: state.projectId, options: state.options }, send);
+  return result;
+}
@@ -0,0 +1,117 @@
+// Server-side speech-to-text for voice input when the browser has no speech
+// recognition. The provider is chosen with TRANSCRIPTION_PROVIDER:
+// `openai` (any server implementing the audio transcriptions API) or
+// `local`, a stand-in for development and tests that needs no model.
+export interface TranscriptionRequest {
+  audio: Blob;
+  // BCP 47 tag such as `en-US`; providers may detect it when unset
+  language?: string;
+  signal?: AbortSignal;
+}
+
+export interface TranscriptionResult {
+  text: string;
+  language?: string;
+  durationMs?: number;
+}
+
+export interface TranscriptionProvider {
+  name: string;
+  transcribe(request: TranscriptionRequest): Promise<TranscriptionResult>;
+}
+
+export class TranscriptionError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = 'TranscriptionError';
+  }
+}
+
+export interface OpenAITranscriptionConfig {
+  apiKey?: string;
+  baseUrl: string;
+  model: string;
+}
+
+export class OpenAITranscriptionProvider implements TranscriptionProvider {
+  readonly name = 'openai';
+
+  constructor(private config: OpenAITranscriptionConfig) {}
+
+  async transcribe(request: TranscriptionRequest): Promise<TranscriptionResult> {
+    const form = new FormData();
+    form.append('file', request.audio, 'audio.webm');
+    form.append('model', this.config.model);
+    form.append('response_format', 'verbose_json');
+    if (request.language) {
+      // The API takes ISO 639-1 codes, so `en-US` becomes `en`
+      form.append('language', request.language.split('-')[0].toLowerCase());
+    }
+
+    const response = await fetch(`${this.config.baseUrl.replace(/\/$/, '')}/audio/transcriptions`, {
+      method: 'POST',
+      headers: {
+        ...(this.config.apiKey && { Authorization: `Bearer ${this.config.apiKey}` }),
+      },
+      body: form,
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      let message = response.statusText;
+      try {
+        const body = await response.json();
+        message = body?.error?.message || message;
+      } catch {
+        // Keep the status text
+      }
+      throw new TranscriptionError(`Transcription API error: ${message}`, response.status);
+    }
+
+    const body = await response.json() as { text?: string; language?: string; duration?: number };
+    return {
+      text: (body.text || '').trim(),
+      language: body.language || request.language,
+      ...(typeof body.duration === 'number' && { durationMs: Math.round(body.duration * 1000) }),
+    };
+  }
+}
+
+// Returns text uploads as their own transcript, so tests can "speak" by
+// posting a text/plain blob; other audio gets the configured fixed text
+export class LocalTranscriptionProvider implements TranscriptionProvider {
+  readonly name = 'local';
+
+  constructor(private fixedText = '') {}
+
+  async transcribe(request: TranscriptionRequest): Promise<TranscriptionResult> {
+    const text = request.audio.type.startsWith('text/') ? await request.audio.text() : this.fixedText;
+    return { text: text.trim(), language: request.language };
+  }
+}
+
+let providerInstance: TranscriptionProvider | null | undefined;
+
+// Null when transcription is not configured
+export function getTranscriptionProvider(): TranscriptionProvider | null {
+  if (providerInstance === undefined) {
+    const apiKey = process.env.TRANSCRIPTION_API_KEY || process.env.OPENAI_API_KEY;
+    const name = process.env.TRANSCRIPTION_PROVIDER || (apiKey ? 'openai' : undefined);
+
+    switch (name) {
+      case 'openai':
+        providerInstance = new OpenAITranscriptionProvider({
+          apiKey,
+          baseUrl: process.env.TRANSCRIPTION_BASE_URL || process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+          model: process.env.TRANSCRIPTION_MODEL || 'whisper-1',
+        });
+        break;
+      case 'local':
+        providerInstance = new LocalTranscriptionProvider(process.env.TRANSCRIPTION_LOCAL_TEXT);
+        break;
+      default:
+        providerInstance = null;
+    }
+  }
+  return providerInstance;
+}
@@ -10,6 +10,27 @@ export interface AgentCapability {
   enabled: boolean;
 }
 
+// How replies are spoken with the browser's speech synthesis
+export interface AgentVoice {
+  // Preferred system voice name; falls back to any voice for `lang`
+  name?: string;
+  lang: string;
+  rate: number;
+  pitch: number;
+}
+
+// A push-to-talk capture that produced a message, recorded in its metadata
+export interface VoiceSession {
+  id: string;
+  // Browser speech recognition, or a recording sent to /api/agents/voice
+  source: 'browser' | 'server';
+  language?: string;
+  durationMs: number;
+  confidence?: number;
+  // The user changed the transcript before sending it
+  edited?: boolean;
+}
+
 export interface Agent {
   id: string;
   name: string;
@@ -18,6 +39,7 @@ export interface Agent {
   capabilities: AgentCapability[];
   color: string;
   avatar?: string;
+  voice?: AgentVoice;
   status: 'active' | 'inactive' | 'busy';
   createdAt: Date;
   updatedAt: Date;
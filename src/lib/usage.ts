@@ -0,0 +1,249 @@
+import { UsageTier as PrismaUsageTier } from '@prisma/client';
+import { prisma } from './prisma';
+import type { LLMProviderName, LLMUsage } from './llm';
+
+// Same tiers as the `APIKey.tier` exposed by the SDK. A request made with an
+// API key is budgeted by the key's tier, any other by the user's.
+export type UsageTier = 'free' | 'basic' | 'pro' | 'enterprise';
+
+export interface UsageEntry {
+  userId: string;
+  conversationId?: string;
+  provider: LLMProviderName;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface ModelUsage {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  requests: number;
+}
+
+export interface UsageTotals {
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  requests: number;
+  byModel: ModelUsage[];
+}
+
+export interface BudgetSettings {
+  tier: UsageTier;
+  // Per-user override of the tier budget
+  monthlyTokenBudget?: number;
+}
+
+export interface BudgetOptions {
+  store?: UsageStore;
+  // Tier of the API key the request was made with
+  tier?: UsageTier;
+}
+
+export interface BudgetStatus {
+  tier: UsageTier;
+  // null means unlimited
+  budget: number | null;
+  used: number;
+  remaining: number | null;
+  periodStart: Date;
+  resetsAt: Date;
+}
+
+// Monthly input + output token allowance per tier; null is unlimited.
+// Each can be overridden with USAGE_BUDGET_<TIER> (a number or `unlimited`).
+export const DEFAULT_TIER_BUDGETS: Record<UsageTier, number | null> = {
+  free: 100_000,
+  basic: 1_000_000,
+  pro: 10_000_000,
+  enterprise: null,
+};
+
+// List prices in USD per million input/output tokens, matched by model prefix
+const MODEL_PRICING: Array<{ prefix: string; input: number; output: number }> = [
+  { prefix: 'claude-3-opus', input: 15, output: 75 },
+  { prefix: 'claude-opus-4', input: 15, output: 75 },
+  { prefix: 'claude-3-5-sonnet', input: 3, output: 15 },
+  { prefix: 'claude-3-7-sonnet', input: 3, output: 15 },
+  { prefix: 'claude-sonnet-4', input: 3, output: 15 },
+  { prefix: 'claude-3-5-haiku', input: 0.8, output: 4 },
+  { prefix: 'claude-3-haiku', input: 0.25, output: 1.25 },
+  { prefix: 'gpt-4o-mini', input: 0.15, output: 0.6 },
+  { prefix: 'gpt-4o', input: 2.5, output: 10 },
+  { prefix: 'gpt-4.1-mini', input: 0.4, output: 1.6 },
+  { prefix: 'gpt-4.1', input: 2, output: 8 },
+  { prefix: 'o3-mini', input: 1.1, output: 4.4 },
+  { prefix: 'o1', input: 15, output: 60 },
+];
+
+export class UsageBudgetError extends Error {
+  constructor(public status: BudgetStatus) {
+    super(`Monthly token budget of ${status.budget} tokens for the ${status.tier} tier has been used`);
+    this.name = 'UsageBudgetError';
+  }
+}
+
+// Estimated cost of a call; models without a known price count as free
+export function estimateCost(model: string, usage: LLMUsage): number {
+  const pricing = MODEL_PRICING
+    .filter(entry => model.startsWith(entry.prefix))
+    .sort((a, b) => b.prefix.length - a.prefix.length)[0];
+  if (!pricing) {
+    return 0;
+  }
+  return (usage.inputTokens * pricing.input + usage.outputTokens * pricing.output) / 1_000_000;
+}
+
+// Usage is accounted per calendar month in UTC
+export function getBillingPeriod(date: Date = new Date()): { start: Date; end: Date } {
+  return {
+    start: new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1)),
+    end: new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1)),
+  };
+}
+
+export function getTierBudget(tier: UsageTier): number | null {
+  const override = process.env[`USAGE_BUDGET_${tier.toUpperCase()}`];
+  if (override === 'unlimited') {
+    return null;
+  }
+  const parsed = Number(override);
+  return override && Number.isFinite(parsed) && parsed >= 0 ? parsed : DEFAULT_TIER_BUDGETS[tier];
+}
+
+export interface UsageStore {
+  record(entry: UsageEntry): Promise<void>;
+  getTotals(userId: string, start: Date, end: Date): Promise<UsageTotals>;
+  getBudgetSettings(userId: string): Promise<BudgetSettings>;
+}
+
+export class InMemoryUsageStore implements UsageStore {
+  private records: Array<UsageEntry & { createdAt: Date }> = [];
+  private settings: Map<string, BudgetSettings> = new Map();
+
+  async record(entry: UsageEntry): Promise<void> {
+    this.records.push({ ...entry, createdAt: new Date() });
+  }
+
+  async getTotals(userId: string, start: Date, end: Date): Promise<UsageTotals> {
+    const byModel = new Map<string, ModelUsage>();
+    for (const record of this.records) {
+      if (record.userId !== userId || record.createdAt < start || record.createdAt >= end) {
+        continue;
+      }
+      const totals = byModel.get(record.model) || { model: record.model, inputTokens: 0, outputTokens: 0, costUsd: 0, requests: 0 };
+      totals.inputTokens += record.inputTokens;
+      totals.outputTokens += record.outputTokens;
+      totals.costUsd += record.costUsd;
+      totals.requests++;
+      byModel.set(record.model, totals);
+    }
+    return sumModelUsage(Array.from(byModel.values()));
+  }
+
+  async getBudgetSettings(userId: string): Promise<BudgetSettings> {
+    return this.settings.get(userId) || { tier: 'free' };
+  }
+
+  setBudgetSettings(userId: string, settings: BudgetSettings): void {
+    this.settings.set(userId, settings);
+  }
+}
+
+export class PrismaUsageStore implements UsageStore {
+  async record(entry: UsageEntry): Promise<void> {
+    await prisma.usageRecord.create({ data: entry });
+  }
+
+  async getTotals(userId: string, start: Date, end: Date): Promise<UsageTotals> {
+    const groups = await prisma.usageRecord.groupBy({
+      by: ['model'],
+      where: { userId, createdAt: { gte: start, lt: end } },
+      _sum: { inputTokens: true, outputTokens: true, costUsd: true },
+      _count: { _all: true },
+    });
+    return sumModelUsage(groups.map(group => ({
+      model: group.model,
+      inputTokens: group._sum.inputTokens ?? 0,
+      outputTokens: group._sum.outputTokens ?? 0,
+      costUsd: group._sum.costUsd ?? 0,
+      requests: group._count._all,
+    })));
+  }
+
+  async getBudgetSettings(userId: string): Promise<BudgetSettings> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { tier: true, monthlyTokenBudget: true },
+    });
+    return {
+      tier: (user?.tier ?? PrismaUsageTier.FREE).toLowerCase() as UsageTier,
+      monthlyTokenBudget: user?.monthlyTokenBudget ?? undefined,
+    };
+  }
+}
+
+function sumModelUsage(byModel: ModelUsage[]): UsageTotals {
+  return byModel.reduce<UsageTotals>(
+    (totals, usage) => ({
+      ...totals,
+      inputTokens: totals.inputTokens + usage.inputTokens,
+      outputTokens: totals.outputTokens + usage.outputTokens,
+      costUsd: totals.costUsd + usage.costUsd,
+      requests: totals.requests + usage.requests,
+    }),
+    { inputTokens: 0, outputTokens: 0, costUsd: 0, requests: 0, byModel }
+  );
+}
+
+let storeInstance: UsageStore | null = null;
+
+export function getUsageStore(): UsageStore {
+  if (!storeInstance) {
+    storeInstance = process.env.DATABASE_URL
+      ? new PrismaUsageStore()
+      : new InMemoryUsageStore();
+  }
+  return storeInstance;
+}
+
+// The user's own budget override applies whatever the tier
+export async function getBudgetStatus(userId: string, options: BudgetOptions = {}): Promise<BudgetStatus> {
+  const store = options.store ?? getUsageStore();
+  const { start, end } = getBillingPeriod();
+  const [settings, totals] = await Promise.all([
+    store.getBudgetSettings(userId),
+    store.getTotals(userId, start, end),
+  ]);
+  const tier = options.tier ?? settings.tier;
+  const budget = settings.monthlyTokenBudget ?? getTierBudget(tier);
+  const used = totals.inputTokens + totals.outputTokens;
+
+  return {
+    tier,
+    budget,
+    used,
+    remaining: budget === null ? null : Math.max(0, budget - used),
+    periodStart: start,
+    resetsAt: end,
+  };
+}
+
+// Called before every upstream request so an exhausted budget never reaches the provider
+export async function assertWithinBudget(userId: string, options: BudgetOptions = {}): Promise<void> {
+  const status = await getBudgetStatus(userId, options);
+  if (status.remaining !== null && status.remaining <= 0) {
+    throw new UsageBudgetError(status);
+  }
+}
+
+export async function recordUsage(
+  entry: Omit<UsageEntry, 'costUsd'>,
+  store: UsageStore = getUsageStore()
+): Promise<void> {
+  await store.record({ ...entry, costUsd: estimateCost(entry.model, entry) });
+}
@@ -0,0 +1,207 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { runCommand } from '../safe-exec';
+import { assertFileSize, resolveWorkspacePath, WorkspacePolicy } from '../workspace';
+import { BuildAnalysisError, CodeChange, SuggestedFix } from './build-analysis';
+import type { CreatedDeployment, VercelClient } from './client';
+
+// Applying a suggested fix: the changes are committed to a new branch of the
+// git repository in the project's workspace, pushed when the repository has
+// an `origin` remote, and Vercel builds that branch as a preview deployment.
+// The workspace itself is left on the branch it was on.
+export interface AppliedFix {
+  fixId: string;
+  branch: string;
+  // Branch the fix was made from
+  baseBranch: string;
+  commit: string;
+  files: string[];
+  pushed: boolean;
+  // Why the branch could not be pushed
+  pushError?: string;
+}
+
+const GIT_TIMEOUT_MS = 30000;
+const PUSH_TIMEOUT_MS = 120000;
+const COMMIT_IDENTITY = {
+  GIT_AUTHOR_NAME: 'AutoRecovery',
+  GIT_AUTHOR_EMAIL: 'autorecovery@nex7.local',
+  GIT_COMMITTER_NAME: 'AutoRecovery',
+  GIT_COMMITTER_EMAIL: 'autorecovery@nex7.local',
+};
+
+interface GitResult {
+  ok: boolean;
+  stdout: string;
+  stderr: string;
+}
+
+async function git(cwd: string, args: string[], options: { timeout?: number; env?: Record<string, string> } = {}): Promise<GitResult> {
+  // Agent tools can write to the workspace, so configuration that runs
+  // commands (hooks, fsmonitor, a planted ~/.gitconfig) is ignored
+  const result = await runCommand(['git', '-c', 'core.hooksPath=/dev/null', '-c', 'core.fsmonitor=false', ...args], {
+    cwd,
+    timeout: options.timeout ?? GIT_TIMEOUT_MS,
+    env: { GIT_TERMINAL_PROMPT: '0', GIT_CONFIG_GLOBAL: '/dev/null', ...options.env },
+  });
+  return { ok: result.exitCode === 0, stdout: result.stdout.trim(), stderr: result.stderr.trim() };
+}
+
+async function gitOrThrow(cwd: string, args: string[], env?: Record<string, string>): Promise<string> {
+  const result = await git(cwd, args, { env });
+  if (!result.ok) {
+    throw new Error(`git ${args[0]} failed: ${result.stderr || result.stdout}`);
+  }
+  return result.stdout;
+}
+
+// Replace the change's lines when they hold oldCode, otherwise its only
+// occurrence in the file, since line numbers from a model may be off
+function applyChange(content: string, change: CodeChange): string {
+  const lines = content.split('\n');
+  if (!change.oldCode) {
+    lines.splice(Math.min(change.lineStart - 1, lines.length), 0, ...change.newCode.split('\n'));
+    return lines.join('\n');
+  }
+
+  const range = lines.slice(change.lineStart - 1, change.lineEnd).join('\n');
+  if (range.trimEnd() === change.oldCode.trimEnd()) {
+    lines.splice(change.lineStart - 1, change.lineEnd - change.lineStart + 1, ...change.newCode.split('\n'));
+    return lines.join('\n');
+  }
+
+  const occurrences = content.split(change.oldCode).length - 1;
+  if (occurrences !== 1) {
+    throw new BuildAnalysisError(
+      occurrences === 0
+        ? `The code to replace was not found in ${change.file}`
+        : `The code to replace appears ${occurrences} times in ${change.file}`,
+      409
+    );
+  }
+  return content.replace(change.oldCode, () => change.newCode);
+}
+
+// New contents of every changed file, worked out before anything is written
+async function applyChanges(policy: WorkspacePolicy, fix: SuggestedFix): Promise<Map<string, string>> {
+  const contents = new Map<string, string>();
+  // Later lines first so earlier changes keep their line numbers
+  const changes = [...fix.changes].sort((a, b) => b.lineStart - a.lineStart);
+
+  for (const change of changes) {
+    const file = await resolveWorkspacePath(policy, change.file);
+    let content = contents.get(file);
+    if (content === undefined) {
+      try {
+        content = await fs.readFile(file, 'utf-8');
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT' || change.oldCode) {
+          throw new BuildAnalysisError(`File not found in the workspace: ${change.file}`, 409);
+        }
+        content = '';
+      }
+    }
+    const updated = applyChange(content, change);
+    assertFileSize(policy, Buffer.byteLength(updated), change.file);
+    contents.set(file, updated);
+  }
+  return contents;
+}
+
+function branchName(deploymentId: string): string {
+  const id = deploymentId.replace(/[^a-zA-Z0-9_-]/g, '').slice(0, 32);
+  return `autofix/${id}-${Date.now().toString(36)}`;
+}
+
+// Commit a fix to a new branch of the workspace repository. Refuses when the
+// workspace is not the root of a git repository or has uncommitted changes.
+export async function applySuggestedFix(
+  policy: WorkspacePolicy,
+  fix: SuggestedFix,
+  deploymentId: string
+): Promise<AppliedFix> {
+  const root = await fs.realpath(policy.root);
+  const toplevel = await git(root, ['rev-parse', '--show-toplevel']);
+  if (!toplevel.ok || path.resolve(toplevel.stdout) !== root) {
+    throw new BuildAnalysisError('The project workspace is not a git repository', 409);
+  }
+  if (await gitOrThrow(root, ['status', '--porcelain'])) {
+    throw new BuildAnalysisError('The project workspace has uncommitted changes', 409);
+  }
+
+  const contents = await applyChanges(policy, fix);
+  const files = Array.from(contents.keys());
+  const relativeFiles = files.map(file => path.relative(root, file));
+
+  const head = await gitOrThrow(root, ['rev-parse', '--abbrev-ref', 'HEAD']);
+  // A detached HEAD is restored by its commit
+  const baseBranch = head === 'HEAD' ? await gitOrThrow(root, ['rev-parse', 'HEAD']) : head;
+  const branch = branchName(deploymentId);
+
+  await gitOrThrow(root, ['checkout', '-b', branch]);
+  let commit: string;
+  try {
+    for (const [file, content] of contents) {
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, content, 'utf-8');
+    }
+    await gitOrThrow(root, ['add', '--', ...relativeFiles]);
+    await gitOrThrow(root, [
+      'commit',
+      '-m', `Fix build: ${fix.description}`,
+      '-m', [fix.explanation, `Deployment: ${deploymentId}`].filter(Boolean).join('\n\n'),
+    ], COMMIT_IDENTITY);
+    commit = await gitOrThrow(root, ['rev-parse', 'HEAD']);
+  } catch (error) {
+    await git(root, ['checkout', '--force', baseBranch]);
+    await git(root, ['branch', '-D', branch]);
+    throw error;
+  }
+  await gitOrThrow(root, ['checkout', baseBranch]);
+
+  const applied: AppliedFix = { fixId: fix.id, branch, baseBranch, commit, files: relativeFiles, pushed: false };
+  if ((await git(root, ['remote', 'get-url', 'origin'])).ok) {
+    const push = await git(root, ['push', 'origin', `${branch}:refs/heads/${branch}`], { timeout: PUSH_TIMEOUT_MS });
+    applied.pushed = push.ok;
+    if (!push.ok) {
+      applied.pushError = push.stderr || 'Push failed';
+    }
+  }
+  return applied;
+}
+
+// Build the fix branch as a preview of the failed deployment's project; it
+// can be promoted once it is READY and healthy
+export async function redeployWithFix(
+  client: VercelClient,
+  vercelProjectId: string,
+  applied: AppliedFix
+): Promise<CreatedDeployment> {
+  if (!applied.pushed) {
+    throw new BuildAnalysisError(
+      applied.pushError
+        ? `The fix branch could not be pushed: ${applied.pushError}`
+        : 'The workspace repository has no origin remote to push the fix branch to',
+      409
+    );
+  }
+  const project = await client.getProject(vercelProjectId);
+  if (!project.gitRepository) {
+    throw new BuildAnalysisError('Project is not connected to a Git repository', 409);
+  }
+  return client.createDeployment({
+    name: project.name,
+    project: vercelProjectId,
+    gitSource: {
+      type: project.gitRepository.type,
+      ref: applied.branch,
+      sha: applied.commit,
+    },
+    meta: {
+      githubCommitRef: applied.branch,
+      githubCommitSha: applied.commit,
+      autofixId: applied.fixId,
+    },
+    files: [],
+  });
+}
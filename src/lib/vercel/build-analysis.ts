@@ -0,0 +1,339 @@
+import { promises as fs } from 'fs';
+import type { ClaudeClient, ClaudeTool } from '../claude-client';
+import { getResponseText } from '../llm/types';
+import { resolveWorkspacePath, WorkspacePolicy } from '../workspace';
+import type { VercelBuildLog } from './client';
+
+// Analysis of failed builds: the failing errors are read from a deployment's
+// build logs and Claude is asked for concrete code changes that fix them.
+// The shapes match what the AutoRecovery component renders.
+export type BuildErrorType = 'typescript' | 'module-not-found' | 'lint' | 'out-of-memory' | 'build';
+
+export interface ErrorInfo {
+  id: string;
+  type: BuildErrorType;
+  message: string;
+  // The log lines around the error, e.g. the code frame
+  stackTrace: string;
+  timestamp: string;
+  context?: {
+    file?: string;
+    line?: number;
+    column?: number;
+  };
+}
+
+export interface CodeChange {
+  // Relative to the repository root
+  file: string;
+  // Exact text to replace; empty to insert at lineStart or create the file
+  oldCode: string;
+  newCode: string;
+  lineStart: number;
+  lineEnd: number;
+}
+
+export interface SuggestedFix {
+  id: string;
+  description: string;
+  // 0 to 100
+  confidence: number;
+  changes: CodeChange[];
+  explanation: string;
+  estimatedImpact: 'low' | 'medium' | 'high';
+}
+
+// An analysis or fix that cannot be made, with the HTTP status to report
+export class BuildAnalysisError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'BuildAnalysisError';
+  }
+}
+
+const MAX_ERRORS = 20;
+const EXCERPT_LINES = 12;
+const MAX_FIXES = 3;
+const MAX_CHANGES = 20;
+// Lines of the failing file shown to Claude on each side of the error
+const SOURCE_CONTEXT_LINES = 40;
+
+interface LogLine {
+  text: string;
+  created: number;
+}
+
+const SOURCE_FILE = String.raw`[^\s:()'"]+\.(?:[cm]?[tj]sx?|vue|svelte|json)`;
+const TSC_PAREN = new RegExp(String.raw`^(${SOURCE_FILE})\((\d+),(\d+)\): error (TS\d+): (.+)$`);
+const TSC_DASH = new RegExp(String.raw`^(${SOURCE_FILE}):(\d+):(\d+) - error (TS\d+): (.+)$`);
+// Next.js prints the location on its own line above the error
+const LOCATION = new RegExp(String.raw`^(${SOURCE_FILE}):(\d+):(\d+)$`);
+const TYPE_ERROR = /^Type error: (.+)$/;
+const MODULE_NOT_FOUND = /Module not found: (?:Error: )?(Can't resolve '[^']+'.*)$/;
+const CANNOT_FIND_MODULE = /^(?:Error: )?(Cannot find module '[^']+')/;
+// A lint report names the file, then lists its problems below it
+const LINT_FILE = new RegExp(String.raw`^(${SOURCE_FILE})$`);
+const LINT_PROBLEM = /^(\d+):(\d+)\s+(?:Error:|error)\s+(.+?)(?:\s{2,}(\S+))?$/;
+const OUT_OF_MEMORY = /JavaScript heap out of memory|Reached heap limit|Allocation failed|Out of Memory|SIGKILL|exited with 137/i;
+const GENERIC_ERROR = /\berror\b/i;
+
+// Build paths are absolute inside Vercel's build container
+function normalizePath(file: string): string {
+  return file.replace(/^\/vercel\/path\d+\//, '').replace(/^\.\//, '');
+}
+
+function toContext(file: string, line: string, column: string): ErrorInfo['context'] {
+  return { file: normalizePath(file), line: Number(line), column: Number(column) };
+}
+
+function toLines(logs: VercelBuildLog[]): LogLine[] {
+  return logs
+    .filter(log => log.type !== 'command' && typeof log.payload === 'string')
+    .flatMap(log => log.payload
+      // eslint-disable-next-line no-control-regex
+      .replace(/\x1b\[[0-9;]*m/g, '')
+      .split(/\r?\n/)
+      .map(text => ({ text: text.trim(), created: log.created })))
+    .filter(line => line.text);
+}
+
+// The failing errors in a deployment's build logs, first failure first.
+// When no known kind of error is found the last error line is reported.
+export function extractBuildErrors(logs: VercelBuildLog[]): ErrorInfo[] {
+  const lines = toLines(logs);
+  const errors: ErrorInfo[] = [];
+  const seen = new Set<string>();
+  let lintFile: string | undefined;
+
+  const add = (index: number, type: BuildErrorType, message: string, context?: ErrorInfo['context']) => {
+    const key = `${type}:${message}:${context?.file}:${context?.line}`;
+    if (seen.has(key) || errors.length >= MAX_ERRORS) {
+      return;
+    }
+    seen.add(key);
+    errors.push({
+      id: `err_${errors.length + 1}`,
+      type,
+      message,
+      stackTrace: lines.slice(index, index + EXCERPT_LINES).map(line => line.text).join('\n'),
+      timestamp: new Date(lines[index].created).toISOString(),
+      ...(context && { context }),
+    });
+  };
+
+  // The location line just above `index`, as printed by Next.js
+  const locationAbove = (index: number): ErrorInfo['context'] => {
+    for (let i = index - 1; i >= Math.max(0, index - 3); i--) {
+      const match = lines[i].text.match(LOCATION);
+      if (match) {
+        return toContext(match[1], match[2], match[3]);
+      }
+    }
+    return undefined;
+  };
+
+  lines.forEach(({ text }, index) => {
+    let match: RegExpMatchArray | null;
+    if ((match = text.match(TSC_PAREN) || text.match(TSC_DASH))) {
+      add(index, 'typescript', `${match[4]}: ${match[5]}`, toContext(match[1], match[2], match[3]));
+    } else if ((match = text.match(TYPE_ERROR))) {
+      const location = locationAbove(index);
+      add(location ? index - 1 : index, 'typescript', match[1], location);
+    } else if ((match = text.match(MODULE_NOT_FOUND))) {
+      const location = locationAbove(index);
+      add(location ? index - 1 : index, 'module-not-found', `Module not found: ${match[1]}`, location);
+    } else if ((match = text.match(CANNOT_FIND_MODULE))) {
+      add(index, 'module-not-found', match[1]);
+    } else if ((match = text.match(LINT_FILE))) {
+      lintFile = match[1];
+    } else if (lintFile && (match = text.match(LINT_PROBLEM))) {
+      add(index, 'lint', match[4] ? `${match[3]} (${match[4]})` : match[3], toContext(lintFile, match[1], match[2]));
+    } else if (OUT_OF_MEMORY.test(text)) {
+      add(index, 'out-of-memory', text);
+    }
+  });
+
+  if (errors.length === 0) {
+    const index = lines.map(line => GENERIC_ERROR.test(line.text)).lastIndexOf(true);
+    if (index >= 0) {
+      add(Math.max(0, index - EXCERPT_LINES + 1), 'build', lines[index].text);
+    }
+  }
+  return errors;
+}
+
+// The failing file with line numbers around the error, read from the
+// project's workspace; undefined when it is not there
+export async function readSourceContext(policy: WorkspacePolicy, error: ErrorInfo): Promise<string | undefined> {
+  const file = error.context?.file;
+  if (!file) {
+    return undefined;
+  }
+  try {
+    const content = await fs.readFile(await resolveWorkspacePath(policy, file), 'utf-8');
+    const lines = content.split('\n');
+    const line = error.context?.line ?? 1;
+    const start = Math.max(1, line - SOURCE_CONTEXT_LINES);
+    const end = Math.min(lines.length, line + SOURCE_CONTEXT_LINES);
+    return lines
+      .slice(start - 1, end)
+      .map((text, offset) => `${String(start + offset).padStart(5)} | ${text}`)
+      .join('\n');
+  } catch {
+    return undefined;
+  }
+}
+
+const FIXES_TOOL: ClaudeTool = {
+  name: 'propose_fixes',
+  description: 'Propose fixes for a failed build, most likely first',
+  input_schema: {
+    type: 'object',
+    properties: {
+      fixes: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            description: { type: 'string', description: 'One-line summary of the fix' },
+            explanation: { type: 'string', description: 'Why the build fails and how the change fixes it' },
+            confidence: { type: 'number', description: 'How likely the fix is to make the build pass, 0 to 100' },
+            estimatedImpact: { type: 'string', enum: ['low', 'medium', 'high'], description: 'How much behaviour the change affects' },
+            changes: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  file: { type: 'string', description: 'Path relative to the repository root' },
+                  oldCode: { type: 'string', description: 'Exact text to replace, copied from the file; empty to insert' },
+                  newCode: { type: 'string' },
+                  lineStart: { type: 'number' },
+                  lineEnd: { type: 'number' },
+                },
+                required: ['file', 'oldCode', 'newCode', 'lineStart', 'lineEnd'],
+              },
+            },
+          },
+          required: ['description', 'explanation', 'confidence', 'estimatedImpact', 'changes'],
+        },
+      },
+    },
+    required: ['fixes'],
+  },
+};
+
+const SYSTEM_PROMPT = [
+  'You fix failed Vercel builds.',
+  'Propose the smallest code changes that make the build pass without changing what the application does.',
+  'Copy oldCode exactly from the source shown, including indentation, and give its line range.',
+  'Only change files the error points to unless the fix needs another one, such as package.json for a missing dependency.',
+  'Answer by calling propose_fixes.',
+].join(' ');
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function parseCodeChange(input: unknown): CodeChange {
+  if (!isRecord(input)) {
+    throw new BuildAnalysisError('Each change must be an object', 400);
+  }
+  const { file, oldCode, newCode, lineStart, lineEnd } = input;
+  if (typeof file !== 'string' || !file.trim()) {
+    throw new BuildAnalysisError('Each change needs a file', 400);
+  }
+  if (typeof oldCode !== 'string' || typeof newCode !== 'string') {
+    throw new BuildAnalysisError(`Change to ${file} needs oldCode and newCode strings`, 400);
+  }
+  const start = typeof lineStart === 'number' && lineStart >= 1 ? Math.floor(lineStart) : 1;
+  const end = typeof lineEnd === 'number' && lineEnd >= start ? Math.floor(lineEnd) : start;
+  return { file: normalizePath(file.trim()), oldCode, newCode, lineStart: start, lineEnd: end };
+}
+
+// Validate a fix sent by a client or proposed by Claude
+export function parseSuggestedFix(input: unknown, id?: string): SuggestedFix {
+  if (!isRecord(input)) {
+    throw new BuildAnalysisError('Fix must be an object', 400);
+  }
+  const { description, explanation, confidence, estimatedImpact, changes } = input;
+  if (typeof description !== 'string' || !description.trim()) {
+    throw new BuildAnalysisError('Fix needs a description', 400);
+  }
+  if (!Array.isArray(changes) || changes.length === 0 || changes.length > MAX_CHANGES) {
+    throw new BuildAnalysisError(`Fix needs between 1 and ${MAX_CHANGES} changes`, 400);
+  }
+  return {
+    id: typeof input.id === 'string' && input.id ? input.id : id ?? `fix_${Date.now()}`,
+    description: description.trim(),
+    confidence: typeof confidence === 'number' ? Math.round(Math.min(100, Math.max(0, confidence))) : 0,
+    changes: changes.map(parseCodeChange),
+    explanation: typeof explanation === 'string' ? explanation : '',
+    estimatedImpact: estimatedImpact === 'low' || estimatedImpact === 'high' ? estimatedImpact : 'medium',
+  };
+}
+
+// Fixes from Claude's reply; malformed ones are dropped
+function parseProposedFixes(input: unknown): SuggestedFix[] {
+  const fixes = isRecord(input) && Array.isArray(input.fixes) ? input.fixes : [];
+  return fixes.flatMap((fix, index) => {
+    try {
+      // Ids are assigned here so a reply cannot reuse them
+      return [parseSuggestedFix(isRecord(fix) ? { ...fix, id: undefined } : fix, `fix_${index + 1}`)];
+    } catch {
+      return [];
+    }
+  }).slice(0, MAX_FIXES);
+}
+
+export interface SuggestFixesOptions {
+  userId: string;
+  deploymentId: string;
+  // Numbered source around the error, see readSourceContext
+  source?: string;
+}
+
+// Ask Claude how to fix a build error. Usage counts against the user's budget.
+export async function suggestFixes(
+  client: ClaudeClient,
+  error: ErrorInfo,
+  options: SuggestFixesOptions
+): Promise<SuggestedFix[]> {
+  const location = error.context?.file
+    ? `${error.context.file}:${error.context.line ?? 1}:${error.context.column ?? 1}`
+    : 'unknown';
+  const prompt = [
+    `The Vercel build of deployment ${options.deploymentId} failed.`,
+    '',
+    `Error (${error.type}): ${error.message}`,
+    `Location: ${location}`,
+    '',
+    'Build log:',
+    '```',
+    error.stackTrace,
+    '```',
+    ...(options.source
+      ? ['', `Source of ${error.context?.file} with line numbers:`, '```', options.source, '```']
+      : ['', 'The source of the failing file is not available.']),
+    '',
+    `Propose up to ${MAX_FIXES} fixes.`,
+  ].join('\n');
+
+  const response = await client.sendMessage(prompt, {
+    userId: options.userId,
+    system: SYSTEM_PROMPT,
+    tools: [FIXES_TOOL],
+  });
+
+  const call = response.content.find(block => block.type === 'tool_use' && block.name === FIXES_TOOL.name);
+  if (call && call.type === 'tool_use') {
+    return parseProposedFixes(call.input);
+  }
+  // Some providers answer in text; accept a JSON object there too
+  const text = getResponseText(response);
+  const json = text.slice(text.indexOf('{'), text.lastIndexOf('}') + 1);
+  try {
+    return parseProposedFixes(JSON.parse(json));
+  } catch {
+    return [];
+  }
+}
@@ -1,5 +1,3 @@
-import { cookies } from 'next/headers';
-
 export interface VercelProject {
   id: string;
   name: string;
@@ -32,6 +30,9 @@ export interface VercelDeployment {
     code: string;
     message: string;
   };
+  errorMessage?: string | null;
+  projectId?: string;
+  target?: string | null;
   meta?: Record<string, unknown>;
 }
 
@@ -53,6 +54,14 @@ export interface VercelDomain {
   }[];
 }
 
+export interface VercelAlias {
+  uid: string;
+  alias: string;
+  deploymentId: string | null;
+  projectId: string | null;
+  createdAt?: number;
+}
+
 export interface VercelEnv {
   type: 'plain' | 'secret' | 'encrypted' | 'sensitive';
   id: string;
@@ -77,18 +86,43 @@ export interface DeploymentBuildLogs {
   logs: VercelBuildLog[];
 }
 
+// A deployment as returned when it is created or redeployed
+export interface CreatedDeployment {
+  id: string;
+  url: string;
+  name?: string;
+  readyState: string;
+  target?: string | null;
+  projectId?: string;
+  createdAt?: number;
+  meta?: Record<string, string>;
+}
+
+export interface VercelClientHooks {
+  // Called with each deployment created or redeployed through the client
+  onDeploymentCreated?: (deployment: CreatedDeployment) => Promise<void>;
+}
+
 export class VercelClient {
   private baseURL = 'https://api.vercel.com';
   private apiVersion = 'v9';
 
-  constructor(private accessToken: string) {}
+  // Calls act on the team's resources when a team ID is given
+  constructor(private accessToken: string, private teamId?: string, private hooks: VercelClientHooks = {}) {}
+
+  private url(endpoint: string): string {
+    const url = new URL(`${this.baseURL}/${endpoint}`);
+    if (this.teamId && !url.searchParams.has('teamId')) {
+      url.searchParams.set('teamId', this.teamId);
+    }
+    return url.toString();
+  }
 
   private async request<T>(
     endpoint: string,
     options: RequestInit = {}
   ): Promise<T> {
-    const url = `${this.baseURL}/${endpoint}`;
-    const response = await fetch(url, {
+    const response = await fetch(this.url(endpoint), {
       ...options,
       headers: {
         Authorization: `Bearer ${this.accessToken}`,
@@ -121,7 +155,14 @@ export class VercelClient {
     clientId: string,
     clientSecret: string,
     redirectUri: string
-  ): Promise<{ access_token: string; token_type: string }> {
+  ): Promise<{
+    access_token: string;
+    token_type: string;
+    installation_id?: string;
+    user_id?: string;
+    // Set when the integration was installed on a team
+    team_id?: string | null;
+  }> {
     const response = await fetch('https://api.vercel.com/v2/oauth/access_token', {
       method: 'POST',
       headers: {
@@ -142,6 +183,15 @@ export class VercelClient {
     return response.json();
   }
 
+  // Account
+  async getUser(): Promise<{ user: { id: string; username: string; name?: string | null } }> {
+    return this.request('v2/user');
+  }
+
+  async getTeam(teamId: string): Promise<{ id: string; slug: string; name?: string | null }> {
+    return this.request(`v2/teams/${teamId}`);
+  }
+
   // Project Management
   async createProject(params: {
     name: string;
@@ -194,26 +244,35 @@ export class VercelClient {
     };
     target?: 'production' | 'staging';
     meta?: Record<string, string>;
-  }): Promise<{ id: string; url: string; readyState: string }> {
+    // Build a commit of the project's linked repository instead of files
+    gitSource?: {
+      type: string;
+      ref: string;
+      sha?: string;
+    };
+  }): Promise<CreatedDeployment> {
     // First, upload files
     const { files, ...deploymentParams } = params;
     
-    return this.request('v13/deployments', {
+    const deployment = await this.request<CreatedDeployment>('v13/deployments', {
       method: 'POST',
       body: JSON.stringify({
         ...deploymentParams,
         files,
       }),
     });
+    await this.deploymentCreated(deployment);
+    return deployment;
   }
 
   async getDeployment(deploymentId: string): Promise<VercelDeployment> {
     return this.request(`v13/deployments/${deploymentId}`);
   }
 
-  async listDeployments(projectId?: string, limit = 20): Promise<{ deployments: VercelDeployment[] }> {
+  async listDeployments(projectId?: string, limit = 20, target?: 'production' | 'preview'): Promise<{ deployments: VercelDeployment[] }> {
     const params = new URLSearchParams({ limit: limit.toString() });
     if (projectId) params.append('projectId', projectId);
+    if (target) params.append('target', target);
     
     return this.request(`v6/deployments?${params.toString()}`);
   }
@@ -227,11 +286,35 @@ export class VercelClient {
   async redeployDeployment(deploymentId: string, params?: {
     name?: string;
     target?: 'production' | 'staging';
-  }): Promise<{ id: string; url: string }> {
-    return this.request(`v13/deployments/${deploymentId}/redeploy`, {
+  }): Promise<CreatedDeployment> {
+    const deployment = await this.request<CreatedDeployment>(`v13/deployments/${deploymentId}/redeploy`, {
       method: 'POST',
       body: JSON.stringify(params || {}),
     });
+    await this.deploymentCreated(deployment);
+    return deployment;
+  }
+
+  // A failing hook must not fail the deployment it reports
+  private async deploymentCreated(deployment: CreatedDeployment): Promise<void> {
+    try {
+      await this.hooks.onDeploymentCreated?.(deployment);
+    } catch (error) {
+      console.error(`Failed to record Vercel deployment ${deployment.id}:`, error);
+    }
+  }
+
+  // Alias Management
+  async getAlias(alias: string): Promise<VercelAlias> {
+    return this.request(`v4/aliases/${encodeURIComponent(alias)}`);
+  }
+
+  // Points the alias at the deployment, replacing whatever it served before
+  async assignAlias(deploymentId: string, alias: string): Promise<{ uid: string; alias: string; created: string; oldDeploymentId?: string | null }> {
+    return this.request(`v2/deployments/${deploymentId}/aliases`, {
+      method: 'POST',
+      body: JSON.stringify({ alias }),
+    });
   }
 
   // Domain Management
@@ -305,7 +388,7 @@ export class VercelClient {
   // Build Logs Streaming
   async *streamBuildLogs(deploymentId: string): AsyncGenerator<VercelBuildLog> {
     const response = await fetch(
-      `${this.baseURL}/v2/deployments/${deploymentId}/events`,
+      this.url(`v2/deployments/${deploymentId}/events`),
       {
         headers: {
           Authorization: `Bearer ${this.accessToken}`,
@@ -347,7 +430,7 @@ export class VercelClient {
   async getBuildLogs(deploymentId: string): Promise<DeploymentBuildLogs> {
     const [deployment, logsResponse] = await Promise.all([
       this.getDeployment(deploymentId),
-      fetch(`${this.baseURL}/v2/deployments/${deploymentId}/events`, {
+      fetch(this.url(`v2/deployments/${deploymentId}/events`), {
         headers: {
           Authorization: `Bearer ${this.accessToken}`,
         },
@@ -375,16 +458,4 @@ export class VercelClient {
   }
 }
 
-// Helper function to get Vercel client from stored token
-export async function getVercelClient(): Promise<VercelClient | null> {
-  const cookieStore = await cookies();
-  const token = cookieStore.get('vercel_token')?.value;
-  
-  if (!token) {
-    return null;
-  }
-
-  return new VercelClient(token);
-}
-
 export default VercelClient;
\ No newline at end of file
@@ -0,0 +1,272 @@
+import crypto from 'crypto';
+import { TriggerFiring, emitWorkflowEvent, executeFirings } from '../workflow-triggers';
+import type { VercelDeployment } from './client';
+import {
+  DeploymentRecord,
+  DeploymentSnapshot,
+  getDeploymentStore,
+  snapshotFromDeployment,
+} from './deployments';
+import { checkDeploymentHealth, getHealthCheckConfig, healthCheckOptions } from './health';
+import { createIntegrationClient, getVercelIntegrationStore } from './integrations';
+import { createNotificationService } from './notifications';
+import { VercelService } from './services';
+
+// Keeps the local Deployment mirror in step with Vercel. Webhooks deliver
+// changes as they happen; reconciliation catches up on anything missed
+// while the webhook was down or not configured. A deployment reaching
+// READY is health checked, and a failing production one rolled back.
+// Requests only update the mirror: the events and checks a change calls for
+// run after the response (runFollowUps), and reconciliation redoes health
+// checks that were lost with the request running them.
+const RECONCILE_LIST_LIMIT = 20;
+// Deployments first seen longer than this after they finished, e.g. by the
+// first reconciliation, are recorded without firing events or checks
+const FRESH_FOR_MS = 30 * 60 * 1000;
+const STALE_AFTER_MS = 2 * 60 * 1000;
+const STALE_LIMIT = 20;
+
+// Vercel webhook event types and the deployment state each one reports
+const WEBHOOK_STATES: Record<string, string> = {
+  'deployment.created': 'BUILDING',
+  'deployment.succeeded': 'READY',
+  'deployment.ready': 'READY',
+  'deployment.error': 'ERROR',
+  'deployment.canceled': 'CANCELED',
+};
+
+export interface VercelWebhookEvent {
+  id: string;
+  type: string;
+  createdAt: number;
+  payload: {
+    team?: { id: string } | null;
+    user?: { id: string } | null;
+    deployment?: {
+      id: string;
+      name?: string;
+      url?: string;
+      inspectorUrl?: string;
+      meta?: Record<string, unknown>;
+    };
+    project?: { id: string };
+    target?: string | null;
+  };
+}
+
+export interface ReconcileResult {
+  integrations: number;
+  updated: number;
+  errors: { integrationId: string; error: string }[];
+}
+
+// A deployment state recorded in the mirror. `followUp` is set when the
+// deployment just became ready or failed: it starts the workflows waiting
+// on it and health checks a ready one.
+export interface DeploymentUpdate {
+  record: DeploymentRecord;
+  followUp?: () => Promise<DeploymentFollowUp>;
+}
+
+export interface DeploymentFollowUp {
+  // With its health check, when one ran
+  record: DeploymentRecord;
+  // Workflow runs recorded for the event, still to be executed
+  firings: TriggerFiring[];
+}
+
+export function getVercelWebhookSecret(): string | undefined {
+  return process.env.VERCEL_WEBHOOK_SECRET || process.env.VERCEL_CLIENT_SECRET;
+}
+
+// Vercel signs the raw body with HMAC-SHA1 in the x-vercel-signature header
+export function verifyVercelSignature(body: string, signature: string, secret: string): boolean {
+  const expected = Buffer.from(crypto.createHmac('sha1', secret).update(body).digest('hex'));
+  const received = Buffer.from(signature);
+  return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+}
+
+// Record a deployment's state for a user. The first time it is seen ready
+// or failed, the update carries the follow-up to run.
+export async function recordDeploymentState(
+  userId: string,
+  integrationId: string | undefined,
+  snapshot: DeploymentSnapshot,
+  inspectorUrl?: string
+): Promise<DeploymentUpdate> {
+  const { record, previous } = await getDeploymentStore().upsert(userId, integrationId, snapshot);
+  const finishedAt = snapshot.readyAt ?? snapshot.createdAt;
+  const fresh = previous !== undefined || !finishedAt || Date.now() - finishedAt.getTime() < FRESH_FOR_MS;
+  if (fresh && record.status !== previous && (record.status === 'ready' || record.status === 'error')) {
+    return { record, followUp: () => followUpDeployment(record, inspectorUrl) };
+  }
+  return { record };
+}
+
+// Record the runs of the workflows waiting on a deployment that became
+// ready or failed, then health check a ready one
+async function followUpDeployment(record: DeploymentRecord, inspectorUrl?: string): Promise<DeploymentFollowUp> {
+  const state = record.status.toUpperCase();
+  // Same dedupe key as the status stream, so each source fires once
+  const firings = await emitWorkflowEvent(
+    record.userId,
+    record.status === 'ready' ? 'deployment.ready' : 'deployment.error',
+    {
+      project: record.name,
+      deploymentId: record.deploymentId,
+      url: record.url,
+      state,
+      ...(inspectorUrl && { inspectorUrl }),
+    },
+    `${record.deploymentId}:${state}`
+  ).catch(error => {
+    console.error('Failed to emit deployment event:', error);
+    return [];
+  });
+
+  const checked = record.status === 'ready' ? await runDeploymentHealthCheck(record) : record;
+  return { record: checked, firings };
+}
+
+// Run the follow-ups of recorded updates side by side, each health check
+// before the workflow runs; failures are logged
+export async function runFollowUps(updates: DeploymentUpdate[]): Promise<void> {
+  await Promise.all(updates.map(async ({ record, followUp }) => {
+    if (!followUp) {
+      return;
+    }
+    try {
+      const { firings } = await followUp();
+      await executeFirings(firings);
+    } catch (error) {
+      console.error(`Follow-up of deployment ${record.deploymentId} failed:`, error);
+    }
+  }));
+}
+
+// Check a READY deployment's URL with its project's settings and store the
+// result on the record. A failing production deployment is rolled back when
+// the project allows it.
+export async function runDeploymentHealthCheck(record: DeploymentRecord): Promise<DeploymentRecord> {
+  if (!record.url || !record.vercelProjectId) {
+    return record;
+  }
+  const config = await getHealthCheckConfig(record.userId, record.vercelProjectId);
+  if (!config.enabled) {
+    return record;
+  }
+
+  const health = await checkDeploymentHealth(record.url, healthCheckOptions(config));
+  const checked = (await getDeploymentStore().setHealth(record.userId, record.deploymentId, health)) ?? { ...record, health };
+  if (!health.healthy && checked.environment === 'production' && config.autoRollback) {
+    await rollbackUnhealthyDeployment(checked).catch(error =>
+      console.error(`Automatic rollback of deployment ${checked.deploymentId} failed:`, error)
+    );
+  }
+  return checked;
+}
+
+// Put production back on the last deployment not known to be unhealthy and
+// notify through the configured channels
+async function rollbackUnhealthyDeployment(record: DeploymentRecord): Promise<void> {
+  const integration = record.integrationId ? await getVercelIntegrationStore().get(record.integrationId) : null;
+  const client = integration && createIntegrationClient(integration);
+  if (!integration || !client) {
+    console.error(`Deployment ${record.deploymentId} failed its health check but has no usable Vercel integration to roll back with`);
+    return;
+  }
+
+  const failure = record.health?.error ?? 'Health check failed';
+  const reason = `Automatic rollback: ${failure}`;
+  const service = new VercelService(client, { userId: record.userId, integrationId: integration.id });
+  const result = await service.rollbackFrom(record.deploymentId, {
+    reason,
+    isUnhealthy: async (deploymentId) =>
+      (await getDeploymentStore().get(record.userId, deploymentId))?.health?.healthy === false,
+  });
+  if (!result) {
+    return;
+  }
+
+  await createNotificationService()?.sendNotification({
+    type: 'deployment.rollback',
+    project: { id: record.vercelProjectId!, name: record.name ?? record.vercelProjectId! },
+    deployment: { id: record.deploymentId, url: record.url!, state: record.status.toUpperCase() },
+    error: { code: 'HEALTH_CHECK_FAILED', message: failure },
+    rollback: { toDeploymentId: result.deployment.uid, toUrl: result.deployment.url, reason },
+    timestamp: Date.now(),
+  });
+}
+
+// Apply a webhook delivery to the mirror of every user connected to the
+// account it is for. Unknown events are ignored.
+export async function applyVercelWebhookEvent(event: VercelWebhookEvent): Promise<DeploymentUpdate[]> {
+  const state = WEBHOOK_STATES[event.type];
+  const deployment = event.payload?.deployment;
+  const accountId = event.payload?.team?.id ?? event.payload?.user?.id;
+  if (!state || !deployment?.id || !accountId) {
+    return [];
+  }
+
+  const integrations = await getVercelIntegrationStore().listByAccount(accountId);
+  const snapshot: DeploymentSnapshot = {
+    deploymentId: deployment.id,
+    state,
+    vercelProjectId: event.payload.project?.id,
+    name: deployment.name,
+    url: deployment.url,
+    ...(event.payload.target !== undefined && { target: event.payload.target }),
+    metadata: deployment.meta,
+    ...(event.type === 'deployment.created' && { createdAt: new Date(event.createdAt) }),
+  };
+  return Promise.all(integrations.map(integration =>
+    recordDeploymentState(integration.userId, integration.id, snapshot, deployment.inspectorUrl)
+  ));
+}
+
+// Refresh the mirror from Vercel for every integration, side by side: the
+// most recent deployments, then any unfinished ones not heard about for a
+// while. The updates include follow-ups for ready deployments whose health
+// check never ran.
+export async function reconcileDeployments(now = new Date()): Promise<{ result: ReconcileResult; updates: DeploymentUpdate[] }> {
+  const integrations = await getVercelIntegrationStore().listAll();
+  const result: ReconcileResult = { integrations: integrations.length, updated: 0, errors: [] };
+  const updates: DeploymentUpdate[] = [];
+  const store = getDeploymentStore();
+
+  await Promise.all(integrations.map(async integration => {
+    const client = createIntegrationClient(integration);
+    if (!client) {
+      result.errors.push({ integrationId: integration.id, error: 'Access token could not be decrypted' });
+      return;
+    }
+    try {
+      const recordState = (deployment: VercelDeployment) =>
+        recordDeploymentState(integration.userId, integration.id, snapshotFromDeployment(deployment), deployment.inspectorUrl);
+
+      const { deployments } = await client.listDeployments(undefined, RECONCILE_LIST_LIMIT);
+      const recent = await Promise.all(deployments.map(recordState));
+      const stale = await store.listStale(integration.id, new Date(now.getTime() - STALE_AFTER_MS), STALE_LIMIT);
+      const refreshed = await Promise.all(stale.map(async ({ deploymentId }) => recordState(await client.getDeployment(deploymentId))));
+      updates.push(...recent, ...refreshed);
+      result.updated += recent.length + refreshed.length;
+
+      // Left long enough that a follow-up still running would have finished
+      const unchecked = await store.listUnchecked(
+        integration.id,
+        new Date(now.getTime() - FRESH_FOR_MS),
+        new Date(now.getTime() - STALE_AFTER_MS),
+        STALE_LIMIT
+      );
+      for (const record of unchecked) {
+        if (!updates.some(update => update.followUp && update.record.id === record.id)) {
+          updates.push({ record, followUp: () => followUpDeployment(record) });
+        }
+      }
+    } catch (error) {
+      console.error(`Failed to reconcile deployments for Vercel integration ${integration.id}:`, error);
+      result.errors.push({ integrationId: integration.id, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }));
+  return { result, updates };
+}
@@ -0,0 +1,335 @@
+import { Prisma, DeploymentStatus as PrismaDeploymentStatus } from '@prisma/client';
+import { prisma } from '../prisma';
+import type { CreatedDeployment, VercelDeployment } from './client';
+import { healthCheckFromJson, HealthCheckResult } from './health';
+
+// Local mirror of Vercel deployments in the Deployment table, so history
+// and status can be read without calling Vercel. Rows are written when a
+// deployment is created through VercelClient, when Vercel's webhook
+// reports a change, and by reconciliation (see deployment-sync.ts).
+export type DeploymentStatus = 'pending' | 'building' | 'ready' | 'error' | 'canceled';
+
+export interface DeploymentRecord {
+  id: string;
+  userId: string;
+  integrationId?: string;
+  // Local project, when linked
+  projectId?: string;
+  deploymentId: string;
+  vercelProjectId?: string;
+  name?: string;
+  url?: string;
+  status: DeploymentStatus;
+  environment: string;
+  metadata?: Record<string, unknown>;
+  errorMessage?: string;
+  readyAt?: Date;
+  // Latest health check of the deployment URL
+  health?: HealthCheckResult;
+  // Last time the state was confirmed with Vercel
+  syncedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// What Vercel reported about a deployment at one moment
+export interface DeploymentSnapshot {
+  deploymentId: string;
+  // Vercel state, e.g. QUEUED, BUILDING or READY
+  state: string;
+  vercelProjectId?: string;
+  name?: string;
+  url?: string;
+  target?: string | null;
+  metadata?: Record<string, unknown>;
+  errorMessage?: string;
+  createdAt?: Date;
+  readyAt?: Date;
+}
+
+export interface ListDeploymentsOptions {
+  vercelProjectId?: string;
+  status?: DeploymentStatus;
+  limit?: number;
+}
+
+export const FINISHED_STATUSES: DeploymentStatus[] = ['ready', 'error', 'canceled'];
+
+const DEFAULT_LIST_LIMIT = 20;
+
+export function toDeploymentStatus(state: string): DeploymentStatus {
+  switch (state.toUpperCase()) {
+    case 'BUILDING':
+      return 'building';
+    case 'READY':
+      return 'ready';
+    case 'ERROR':
+      return 'error';
+    case 'CANCELED':
+      return 'canceled';
+    default:
+      // QUEUED and INITIALIZING
+      return 'pending';
+  }
+}
+
+export function snapshotFromDeployment(deployment: VercelDeployment): DeploymentSnapshot {
+  return {
+    deploymentId: deployment.uid,
+    state: deployment.state,
+    vercelProjectId: deployment.projectId,
+    name: deployment.name,
+    url: deployment.url,
+    target: deployment.target,
+    metadata: deployment.meta,
+    errorMessage: deployment.errorMessage ?? deployment.aliasError?.message ?? undefined,
+    createdAt: new Date(deployment.createdAt),
+    ...(deployment.ready && { readyAt: new Date(deployment.ready) }),
+  };
+}
+
+export function snapshotFromCreated(deployment: CreatedDeployment): DeploymentSnapshot {
+  return {
+    deploymentId: deployment.id,
+    state: deployment.readyState,
+    vercelProjectId: deployment.projectId,
+    name: deployment.name,
+    url: deployment.url,
+    target: deployment.target,
+    metadata: deployment.meta,
+    ...(deployment.createdAt && { createdAt: new Date(deployment.createdAt) }),
+  };
+}
+
+// Webhooks can arrive out of order: a finished deployment never goes back
+// to pending or building
+function nextStatus(current: DeploymentStatus, reported: DeploymentStatus): DeploymentStatus {
+  if (FINISHED_STATUSES.includes(current) && !FINISHED_STATUSES.includes(reported)) {
+    return current;
+  }
+  if (current === 'building' && reported === 'pending') {
+    return current;
+  }
+  return reported;
+}
+
+// Fields of a snapshot that update an existing record
+function snapshotFields(snapshot: DeploymentSnapshot, status: DeploymentStatus) {
+  return {
+    status,
+    ...(snapshot.vercelProjectId && { vercelProjectId: snapshot.vercelProjectId }),
+    ...(snapshot.name && { name: snapshot.name }),
+    ...(snapshot.url && { url: snapshot.url }),
+    ...(snapshot.target !== undefined && { environment: snapshot.target || 'preview' }),
+    ...(snapshot.metadata && { metadata: snapshot.metadata }),
+    ...(snapshot.errorMessage && { errorMessage: snapshot.errorMessage }),
+    ...(status === 'ready' && { readyAt: snapshot.readyAt ?? new Date() }),
+  };
+}
+
+export interface DeploymentStore {
+  // Record what Vercel reported, creating the row on first sight
+  upsert(userId: string, integrationId: string | undefined, snapshot: DeploymentSnapshot): Promise<{ record: DeploymentRecord; previous?: DeploymentStatus }>;
+  get(userId: string, deploymentId: string): Promise<DeploymentRecord | null>;
+  // Most recent first
+  list(userId: string, options?: ListDeploymentsOptions): Promise<DeploymentRecord[]>;
+  // Unfinished deployments of an integration not confirmed since `before`
+  listStale(integrationId: string, before: Date, limit: number): Promise<DeploymentRecord[]>;
+  // Ready deployments of an integration without a health check that became
+  // ready between the two times
+  listUnchecked(integrationId: string, readyAfter: Date, readyBefore: Date, limit: number): Promise<DeploymentRecord[]>;
+  setHealth(userId: string, deploymentId: string, health: HealthCheckResult): Promise<DeploymentRecord | null>;
+}
+
+function generateId(): string {
+  return `dep_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+// Process-local store, used when no database is configured
+export class InMemoryDeploymentStore implements DeploymentStore {
+  private deployments: Map<string, DeploymentRecord> = new Map();
+
+  async upsert(userId: string, integrationId: string | undefined, snapshot: DeploymentSnapshot): Promise<{ record: DeploymentRecord; previous?: DeploymentStatus }> {
+    const key = `${userId}:${snapshot.deploymentId}`;
+    const existing = this.deployments.get(key);
+    const now = new Date();
+    const reported = toDeploymentStatus(snapshot.state);
+    const record: DeploymentRecord = existing
+      ? { ...existing, ...snapshotFields(snapshot, nextStatus(existing.status, reported)), syncedAt: now, updatedAt: now }
+      : {
+          id: generateId(),
+          userId,
+          ...(integrationId && { integrationId }),
+          deploymentId: snapshot.deploymentId,
+          environment: 'production',
+          ...snapshotFields(snapshot, reported),
+          syncedAt: now,
+          createdAt: snapshot.createdAt ?? now,
+          updatedAt: now,
+        };
+    this.deployments.set(key, record);
+    return { record: structuredClone(record), previous: existing?.status };
+  }
+
+  async get(userId: string, deploymentId: string): Promise<DeploymentRecord | null> {
+    const record = this.deployments.get(`${userId}:${deploymentId}`);
+    return record ? structuredClone(record) : null;
+  }
+
+  async list(userId: string, options: ListDeploymentsOptions = {}): Promise<DeploymentRecord[]> {
+    return Array.from(this.deployments.values())
+      .filter(record =>
+        record.userId === userId &&
+        (!options.vercelProjectId || record.vercelProjectId === options.vercelProjectId) &&
+        (!options.status || record.status === options.status)
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, options.limit ?? DEFAULT_LIST_LIMIT)
+      .map(record => structuredClone(record));
+  }
+
+  async listStale(integrationId: string, before: Date, limit: number): Promise<DeploymentRecord[]> {
+    return Array.from(this.deployments.values())
+      .filter(record => record.integrationId === integrationId && !FINISHED_STATUSES.includes(record.status) && record.syncedAt < before)
+      .slice(0, limit)
+      .map(record => structuredClone(record));
+  }
+
+  async listUnchecked(integrationId: string, readyAfter: Date, readyBefore: Date, limit: number): Promise<DeploymentRecord[]> {
+    return Array.from(this.deployments.values())
+      .filter(record =>
+        record.integrationId === integrationId &&
+        record.status === 'ready' &&
+        !record.health &&
+        !!record.readyAt && record.readyAt > readyAfter && record.readyAt < readyBefore
+      )
+      .slice(0, limit)
+      .map(record => structuredClone(record));
+  }
+
+  async setHealth(userId: string, deploymentId: string, health: HealthCheckResult): Promise<DeploymentRecord | null> {
+    const record = this.deployments.get(`${userId}:${deploymentId}`);
+    if (!record) {
+      return null;
+    }
+    record.health = health;
+    return structuredClone(record);
+  }
+}
+
+type DeploymentRow = Prisma.DeploymentGetPayload<object>;
+
+function toRecord(row: DeploymentRow): DeploymentRecord {
+  return {
+    id: row.id,
+    userId: row.userId,
+    integrationId: row.integrationId ?? undefined,
+    projectId: row.projectId ?? undefined,
+    deploymentId: row.deploymentId,
+    vercelProjectId: row.vercelProjectId ?? undefined,
+    name: row.name ?? undefined,
+    url: row.url ?? undefined,
+    status: row.status.toLowerCase() as DeploymentStatus,
+    environment: row.environment,
+    metadata: (row.metadata as Record<string, unknown> | null) ?? undefined,
+    errorMessage: row.errorMessage ?? undefined,
+    readyAt: row.readyAt ?? undefined,
+    health: healthCheckFromJson(row.health),
+    syncedAt: row.syncedAt,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+function toPrismaFields(fields: ReturnType<typeof snapshotFields>) {
+  return {
+    ...fields,
+    status: fields.status.toUpperCase() as PrismaDeploymentStatus,
+    ...(fields.metadata && { metadata: fields.metadata as Prisma.InputJsonValue }),
+  };
+}
+
+// Durable store backed by the Deployment table
+export class PrismaDeploymentStore implements DeploymentStore {
+  async upsert(userId: string, integrationId: string | undefined, snapshot: DeploymentSnapshot): Promise<{ record: DeploymentRecord; previous?: DeploymentStatus }> {
+    return prisma.$transaction(async (tx) => {
+      const existing = await tx.deployment.findUnique({
+        where: { userId_deploymentId: { userId, deploymentId: snapshot.deploymentId } },
+      });
+      const reported = toDeploymentStatus(snapshot.state);
+      if (existing) {
+        const previous = existing.status.toLowerCase() as DeploymentStatus;
+        const row = await tx.deployment.update({
+          where: { id: existing.id },
+          data: { ...toPrismaFields(snapshotFields(snapshot, nextStatus(previous, reported))), syncedAt: new Date() },
+        });
+        return { record: toRecord(row), previous };
+      }
+      const row = await tx.deployment.create({
+        data: {
+          userId,
+          integrationId,
+          deploymentId: snapshot.deploymentId,
+          ...toPrismaFields(snapshotFields(snapshot, reported)),
+          ...(snapshot.createdAt && { createdAt: snapshot.createdAt }),
+        },
+      });
+      return { record: toRecord(row) };
+    });
+  }
+
+  async get(userId: string, deploymentId: string): Promise<DeploymentRecord | null> {
+    const row = await prisma.deployment.findUnique({ where: { userId_deploymentId: { userId, deploymentId } } });
+    return row ? toRecord(row) : null;
+  }
+
+  async list(userId: string, options: ListDeploymentsOptions = {}): Promise<DeploymentRecord[]> {
+    const rows = await prisma.deployment.findMany({
+      where: {
+        userId,
+        ...(options.vercelProjectId && { vercelProjectId: options.vercelProjectId }),
+        ...(options.status && { status: options.status.toUpperCase() as PrismaDeploymentStatus }),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: options.limit ?? DEFAULT_LIST_LIMIT,
+    });
+    return rows.map(toRecord);
+  }
+
+  async listStale(integrationId: string, before: Date, limit: number): Promise<DeploymentRecord[]> {
+    const rows = await prisma.deployment.findMany({
+      where: { integrationId, status: { in: ['PENDING', 'BUILDING'] }, syncedAt: { lt: before } },
+      orderBy: { syncedAt: 'asc' },
+      take: limit,
+    });
+    return rows.map(toRecord);
+  }
+
+  async listUnchecked(integrationId: string, readyAfter: Date, readyBefore: Date, limit: number): Promise<DeploymentRecord[]> {
+    const rows = await prisma.deployment.findMany({
+      where: { integrationId, status: 'READY', health: { equals: Prisma.AnyNull }, readyAt: { gt: readyAfter, lt: readyBefore } },
+      orderBy: { readyAt: 'asc' },
+      take: limit,
+    });
+    return rows.map(toRecord);
+  }
+
+  async setHealth(userId: string, deploymentId: string, health: HealthCheckResult): Promise<DeploymentRecord | null> {
+    const { count } = await prisma.deployment.updateMany({
+      where: { userId, deploymentId },
+      data: { health: health as unknown as Prisma.InputJsonValue },
+    });
+    return count > 0 ? this.get(userId, deploymentId) : null;
+  }
+}
+
+let storeInstance: DeploymentStore | null = null;
+
+export function getDeploymentStore(): DeploymentStore {
+  if (!storeInstance) {
+    storeInstance = process.env.DATABASE_URL
+      ? new PrismaDeploymentStore()
+      : new InMemoryDeploymentStore();
+  }
+  return storeInstance;
+}
@@ -0,0 +1,319 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+
+// HTTP health checks of deployments: run against a deployment once it is
+// READY, and after production changes such as a rollback. What a healthy
+// response looks like is configured per Vercel project.
+export interface HealthCheckOptions {
+  path?: string;
+  // Any 2xx or 3xx when not set; redirects are not followed
+  expectedStatus?: number;
+  // Regular expression the response body must match
+  bodyPattern?: string;
+  maxLatencyMs?: number;
+  // Requests made; each must pass
+  probes?: number;
+  // Wait between probes
+  intervalMs?: number;
+  // Per request
+  timeoutMs?: number;
+  // Stop at the first passing probe instead, e.g. while a site warms up
+  untilHealthy?: boolean;
+}
+
+export interface HealthProbe {
+  ok: boolean;
+  status?: number;
+  latencyMs: number;
+  // Why the probe failed
+  error?: string;
+}
+
+export interface HealthCheckResult {
+  healthy: boolean;
+  url: string;
+  // Of the last probe
+  status?: number;
+  latencyMs?: number;
+  // First failure, when unhealthy
+  error?: string;
+  attempts: number;
+  probes?: HealthProbe[];
+  checkedAt: Date;
+}
+
+// Per-project settings; `updatedAt` is absent while the defaults apply
+export interface HealthCheckConfig {
+  vercelProjectId: string;
+  enabled: boolean;
+  path: string;
+  expectedStatus?: number;
+  bodyPattern?: string;
+  maxLatencyMs?: number;
+  probes: number;
+  intervalMs: number;
+  // Roll production back when a production deployment fails its checks
+  autoRollback: boolean;
+  updatedAt?: Date;
+}
+
+export type HealthCheckSettings = Omit<HealthCheckConfig, 'vercelProjectId' | 'updatedAt'>;
+
+export const DEFAULT_HEALTH_CHECK: HealthCheckSettings = {
+  enabled: true,
+  path: '/',
+  probes: 3,
+  intervalMs: 2000,
+  autoRollback: true,
+};
+
+const DEFAULT_TIMEOUT_MS = 5000;
+const MAX_PROBES = 10;
+const MAX_INTERVAL_MS = 10000;
+const MAX_LATENCY_MS = 60000;
+const MAX_PATTERN_LENGTH = 500;
+// Only the start of the body is matched against the pattern
+const MAX_BODY_LENGTH = 100_000;
+
+export class HealthCheckConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HealthCheckConfigError';
+  }
+}
+
+async function probe(url: string, options: HealthCheckOptions): Promise<HealthProbe> {
+  const started = Date.now();
+  try {
+    const response = await fetch(url, {
+      method: 'GET',
+      redirect: 'manual',
+      cache: 'no-store',
+      signal: AbortSignal.timeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+    });
+    const body = options.bodyPattern ? (await response.text()).slice(0, MAX_BODY_LENGTH) : '';
+    const latencyMs = Date.now() - started;
+    const result = { status: response.status, latencyMs };
+
+    if (options.expectedStatus ? response.status !== options.expectedStatus : response.status < 200 || response.status >= 400) {
+      return { ...result, ok: false, error: `Status ${response.status}, expected ${options.expectedStatus ?? '2xx or 3xx'}` };
+    }
+    if (options.bodyPattern && !new RegExp(options.bodyPattern).test(body)) {
+      return { ...result, ok: false, error: `Body does not match /${options.bodyPattern}/` };
+    }
+    if (options.maxLatencyMs && latencyMs > options.maxLatencyMs) {
+      return { ...result, ok: false, error: `Took ${latencyMs}ms, over the ${options.maxLatencyMs}ms limit` };
+    }
+    return { ...result, ok: true };
+  } catch (error) {
+    return {
+      ok: false,
+      latencyMs: Date.now() - started,
+      error: error instanceof Error ? error.message : 'Request failed',
+    };
+  }
+}
+
+// `host` is a deployment URL or alias, with or without the scheme
+export async function checkDeploymentHealth(host: string, options: HealthCheckOptions = {}): Promise<HealthCheckResult> {
+  const url = new URL(options.path || '/', host.startsWith('http') ? host : `https://${host}`).toString();
+  const count = Math.min(Math.max(1, options.probes ?? DEFAULT_HEALTH_CHECK.probes), MAX_PROBES);
+  const probes: HealthProbe[] = [];
+
+  for (let attempt = 1; attempt <= count; attempt++) {
+    if (attempt > 1) {
+      await new Promise(resolve => setTimeout(resolve, options.intervalMs ?? DEFAULT_HEALTH_CHECK.intervalMs));
+    }
+    const result = await probe(url, options);
+    probes.push(result);
+    if (options.untilHealthy ? result.ok : !result.ok) {
+      break;
+    }
+  }
+
+  const last = probes[probes.length - 1];
+  const healthy = options.untilHealthy ? last.ok : probes.every(result => result.ok);
+  return {
+    healthy,
+    url,
+    status: last.status,
+    latencyMs: last.latencyMs,
+    ...(!healthy && { error: probes.find(result => !result.ok)?.error }),
+    attempts: probes.length,
+    probes,
+    checkedAt: new Date(),
+  };
+}
+
+// A result as stored in a JSON column, where dates are strings
+export function healthCheckFromJson(value: Prisma.JsonValue | null): HealthCheckResult | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return undefined;
+  }
+  const result = value as unknown as Omit<HealthCheckResult, 'checkedAt'> & { checkedAt: string };
+  return { ...result, checkedAt: new Date(result.checkedAt) };
+}
+
+export function healthCheckOptions(config: HealthCheckSettings): HealthCheckOptions {
+  return {
+    path: config.path,
+    expectedStatus: config.expectedStatus,
+    bodyPattern: config.bodyPattern,
+    maxLatencyMs: config.maxLatencyMs,
+    probes: config.probes,
+    intervalMs: config.intervalMs,
+  };
+}
+
+function isInteger(value: unknown, min: number, max: number): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+}
+
+// Validate settings sent by a client; omitted fields keep their defaults
+export function parseHealthCheckSettings(input: unknown): HealthCheckSettings {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new HealthCheckConfigError('Health check settings must be an object');
+  }
+  const data = input as Record<string, unknown>;
+  const settings: HealthCheckSettings = { ...DEFAULT_HEALTH_CHECK };
+
+  for (const key of ['enabled', 'autoRollback'] as const) {
+    if (data[key] !== undefined) {
+      if (typeof data[key] !== 'boolean') {
+        throw new HealthCheckConfigError(`${key} must be a boolean`);
+      }
+      settings[key] = data[key];
+    }
+  }
+  if (data.path !== undefined) {
+    if (typeof data.path !== 'string' || !data.path.startsWith('/') || data.path.length > MAX_PATTERN_LENGTH) {
+      throw new HealthCheckConfigError('path must start with / and be at most 500 characters');
+    }
+    settings.path = data.path;
+  }
+  if (data.expectedStatus !== undefined && data.expectedStatus !== null) {
+    if (!isInteger(data.expectedStatus, 100, 599)) {
+      throw new HealthCheckConfigError('expectedStatus must be an HTTP status code');
+    }
+    settings.expectedStatus = data.expectedStatus;
+  }
+  if (data.bodyPattern !== undefined && data.bodyPattern !== null && data.bodyPattern !== '') {
+    if (typeof data.bodyPattern !== 'string' || data.bodyPattern.length > MAX_PATTERN_LENGTH) {
+      throw new HealthCheckConfigError('bodyPattern must be at most 500 characters');
+    }
+    try {
+      new RegExp(data.bodyPattern);
+    } catch {
+      throw new HealthCheckConfigError('bodyPattern is not a valid regular expression');
+    }
+    settings.bodyPattern = data.bodyPattern;
+  }
+  if (data.maxLatencyMs !== undefined && data.maxLatencyMs !== null) {
+    if (!isInteger(data.maxLatencyMs, 1, MAX_LATENCY_MS)) {
+      throw new HealthCheckConfigError(`maxLatencyMs must be between 1 and ${MAX_LATENCY_MS}`);
+    }
+    settings.maxLatencyMs = data.maxLatencyMs;
+  }
+  if (data.probes !== undefined) {
+    if (!isInteger(data.probes, 1, MAX_PROBES)) {
+      throw new HealthCheckConfigError(`probes must be between 1 and ${MAX_PROBES}`);
+    }
+    settings.probes = data.probes;
+  }
+  if (data.intervalMs !== undefined) {
+    if (!isInteger(data.intervalMs, 0, MAX_INTERVAL_MS)) {
+      throw new HealthCheckConfigError(`intervalMs must be between 0 and ${MAX_INTERVAL_MS}`);
+    }
+    settings.intervalMs = data.intervalMs;
+  }
+  return settings;
+}
+
+export interface HealthCheckConfigStore {
+  get(userId: string, vercelProjectId: string): Promise<HealthCheckConfig | null>;
+  save(userId: string, vercelProjectId: string, settings: HealthCheckSettings): Promise<HealthCheckConfig>;
+  delete(userId: string, vercelProjectId: string): Promise<boolean>;
+}
+
+// Process-local store, used when no database is configured
+export class InMemoryHealthCheckConfigStore implements HealthCheckConfigStore {
+  private configs: Map<string, HealthCheckConfig> = new Map();
+
+  async get(userId: string, vercelProjectId: string): Promise<HealthCheckConfig | null> {
+    const config = this.configs.get(`${userId}:${vercelProjectId}`);
+    return config ? { ...config } : null;
+  }
+
+  async save(userId: string, vercelProjectId: string, settings: HealthCheckSettings): Promise<HealthCheckConfig> {
+    const config: HealthCheckConfig = { ...settings, vercelProjectId, updatedAt: new Date() };
+    this.configs.set(`${userId}:${vercelProjectId}`, config);
+    return { ...config };
+  }
+
+  async delete(userId: string, vercelProjectId: string): Promise<boolean> {
+    return this.configs.delete(`${userId}:${vercelProjectId}`);
+  }
+}
+
+type HealthConfigRow = Prisma.DeploymentHealthConfigGetPayload<object>;
+
+function toConfig(row: HealthConfigRow): HealthCheckConfig {
+  return {
+    vercelProjectId: row.vercelProjectId,
+    enabled: row.enabled,
+    path: row.path,
+    expectedStatus: row.expectedStatus ?? undefined,
+    bodyPattern: row.bodyPattern ?? undefined,
+    maxLatencyMs: row.maxLatencyMs ?? undefined,
+    probes: row.probes,
+    intervalMs: row.intervalMs,
+    autoRollback: row.autoRollback,
+    updatedAt: row.updatedAt,
+  };
+}
+
+// Durable store backed by the DeploymentHealthConfig table
+export class PrismaHealthCheckConfigStore implements HealthCheckConfigStore {
+  async get(userId: string, vercelProjectId: string): Promise<HealthCheckConfig | null> {
+    const row = await prisma.deploymentHealthConfig.findUnique({
+      where: { userId_vercelProjectId: { userId, vercelProjectId } },
+    });
+    return row ? toConfig(row) : null;
+  }
+
+  async save(userId: string, vercelProjectId: string, settings: HealthCheckSettings): Promise<HealthCheckConfig> {
+    const data = {
+      ...settings,
+      expectedStatus: settings.expectedStatus ?? null,
+      bodyPattern: settings.bodyPattern ?? null,
+      maxLatencyMs: settings.maxLatencyMs ?? null,
+    };
+    const row = await prisma.deploymentHealthConfig.upsert({
+      where: { userId_vercelProjectId: { userId, vercelProjectId } },
+      update: data,
+      create: { ...data, userId, vercelProjectId },
+    });
+    return toConfig(row);
+  }
+
+  async delete(userId: string, vercelProjectId: string): Promise<boolean> {
+    const { count } = await prisma.deploymentHealthConfig.deleteMany({ where: { userId, vercelProjectId } });
+    return count > 0;
+  }
+}
+
+let storeInstance: HealthCheckConfigStore | null = null;
+
+export function getHealthCheckConfigStore(): HealthCheckConfigStore {
+  if (!storeInstance) {
+    storeInstance = process.env.DATABASE_URL
+      ? new PrismaHealthCheckConfigStore()
+      : new InMemoryHealthCheckConfigStore();
+  }
+  return storeInstance;
+}
+
+// The project's settings, or the defaults when none were saved
+export async function getHealthCheckConfig(userId: string, vercelProjectId: string): Promise<HealthCheckConfig> {
+  return (await getHealthCheckConfigStore().get(userId, vercelProjectId)) ?? { ...DEFAULT_HEALTH_CHECK, vercelProjectId };
+}
@@ -0,0 +1,372 @@
+import crypto from 'crypto';
+import { NextRequest } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import { getUserIdFromRequest } from '../jwt';
+import { DecryptionError, decryptSecret, encryptSecret } from '../security/encryption';
+import VercelClient from './client';
+import { getDeploymentStore, snapshotFromCreated } from './deployments';
+
+// Vercel accounts and teams connected by each user. Access tokens are kept
+// server-side, encrypted at rest, and one integration per user is active:
+// the one the /api/vercel routes act on. OAuth state is stored with the
+// user who started the flow, so the callback can be served by any instance.
+export interface VercelIntegration {
+  id: string;
+  userId: string;
+  // Team ID, or the Vercel user ID for a personal account
+  accountId: string;
+  teamId?: string;
+  name: string;
+  installationId?: string;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// As stored, with the encrypted access token
+export interface StoredVercelIntegration extends VercelIntegration {
+  accessToken: string;
+}
+
+export type NewVercelIntegration = Pick<StoredVercelIntegration, 'accountId' | 'teamId' | 'name' | 'accessToken' | 'installationId'>;
+
+export type VercelTokenResponse = Awaited<ReturnType<typeof VercelClient.exchangeCodeForToken>>;
+
+const OAUTH_STATE_TTL_MS = 10 * 60 * 1000;
+
+export interface VercelIntegrationStore {
+  // Most recently connected first
+  list(userId: string): Promise<StoredVercelIntegration[]>;
+  getActive(userId: string): Promise<StoredVercelIntegration | null>;
+  // Adds the account or replaces its token, and makes it the active one
+  save(userId: string, integration: NewVercelIntegration): Promise<StoredVercelIntegration>;
+  activate(userId: string, id: string): Promise<StoredVercelIntegration | null>;
+  // Removing the active integration activates the most recent other one
+  delete(userId: string, id: string): Promise<boolean>;
+  get(id: string): Promise<StoredVercelIntegration | null>;
+  // Integrations of every user connected to a Vercel account or team
+  listByAccount(accountId: string): Promise<StoredVercelIntegration[]>;
+  // Every integration, for background reconciliation
+  listAll(): Promise<StoredVercelIntegration[]>;
+  createState(userId: string, state: string, expiresAt: Date): Promise<void>;
+  // The user who started the flow; a state works once, before it expires
+  consumeState(state: string, now: Date): Promise<string | null>;
+}
+
+function generateId(): string {
+  return `vci_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+function toIntegration({ accessToken: _accessToken, ...integration }: StoredVercelIntegration): VercelIntegration {
+  return integration;
+}
+
+// Process-local store, used when no database is configured
+export class InMemoryVercelIntegrationStore implements VercelIntegrationStore {
+  private integrations: Map<string, StoredVercelIntegration> = new Map();
+  private states: Map<string, { userId: string; expiresAt: Date }> = new Map();
+
+  private userIntegrations(userId: string): StoredVercelIntegration[] {
+    return Array.from(this.integrations.values())
+      .filter(integration => integration.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  private setActive(userId: string, id: string | undefined): void {
+    for (const integration of this.userIntegrations(userId)) {
+      integration.isActive = integration.id === id;
+    }
+  }
+
+  async list(userId: string): Promise<StoredVercelIntegration[]> {
+    return this.userIntegrations(userId).map(integration => ({ ...integration }));
+  }
+
+  async getActive(userId: string): Promise<StoredVercelIntegration | null> {
+    const active = this.userIntegrations(userId).find(integration => integration.isActive);
+    return active ? { ...active } : null;
+  }
+
+  async save(userId: string, integration: NewVercelIntegration): Promise<StoredVercelIntegration> {
+    const now = new Date();
+    const existing = this.userIntegrations(userId).find(entry => entry.accountId === integration.accountId);
+    const saved: StoredVercelIntegration = existing
+      ? Object.assign(existing, integration, { updatedAt: now })
+      : { ...integration, id: generateId(), userId, isActive: false, createdAt: now, updatedAt: now };
+    this.integrations.set(saved.id, saved);
+    this.setActive(userId, saved.id);
+    return { ...saved };
+  }
+
+  async activate(userId: string, id: string): Promise<StoredVercelIntegration | null> {
+    const integration = this.integrations.get(id);
+    if (!integration || integration.userId !== userId) {
+      return null;
+    }
+    this.setActive(userId, id);
+    return { ...integration };
+  }
+
+  async delete(userId: string, id: string): Promise<boolean> {
+    const integration = this.integrations.get(id);
+    if (!integration || integration.userId !== userId) {
+      return false;
+    }
+    this.integrations.delete(id);
+    if (integration.isActive) {
+      this.setActive(userId, this.userIntegrations(userId)[0]?.id);
+    }
+    return true;
+  }
+
+  async get(id: string): Promise<StoredVercelIntegration | null> {
+    const integration = this.integrations.get(id);
+    return integration ? { ...integration } : null;
+  }
+
+  async listByAccount(accountId: string): Promise<StoredVercelIntegration[]> {
+    return Array.from(this.integrations.values())
+      .filter(integration => integration.accountId === accountId)
+      .map(integration => ({ ...integration }));
+  }
+
+  async listAll(): Promise<StoredVercelIntegration[]> {
+    return Array.from(this.integrations.values()).map(integration => ({ ...integration }));
+  }
+
+  async createState(userId: string, state: string, expiresAt: Date): Promise<void> {
+    const now = new Date();
+    for (const [key, entry] of this.states) {
+      if (entry.expiresAt <= now) {
+        this.states.delete(key);
+      }
+    }
+    this.states.set(state, { userId, expiresAt });
+  }
+
+  async consumeState(state: string, now: Date): Promise<string | null> {
+    const entry = this.states.get(state);
+    this.states.delete(state);
+    return entry && entry.expiresAt > now ? entry.userId : null;
+  }
+}
+
+type IntegrationRow = Prisma.VercelIntegrationGetPayload<object>;
+
+function toStored(row: IntegrationRow): StoredVercelIntegration {
+  return {
+    id: row.id,
+    userId: row.userId,
+    accountId: row.accountId,
+    teamId: row.teamId ?? undefined,
+    name: row.name,
+    installationId: row.installationId ?? undefined,
+    isActive: row.isActive,
+    accessToken: row.accessToken,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+// Durable store backed by the VercelIntegration and VercelOAuthState tables
+export class PrismaVercelIntegrationStore implements VercelIntegrationStore {
+  async list(userId: string): Promise<StoredVercelIntegration[]> {
+    const rows = await prisma.vercelIntegration.findMany({ where: { userId }, orderBy: { createdAt: 'desc' } });
+    return rows.map(toStored);
+  }
+
+  async getActive(userId: string): Promise<StoredVercelIntegration | null> {
+    const row = await prisma.vercelIntegration.findFirst({ where: { userId, isActive: true } });
+    return row ? toStored(row) : null;
+  }
+
+  async save(userId: string, integration: NewVercelIntegration): Promise<StoredVercelIntegration> {
+    const data = {
+      teamId: integration.teamId ?? null,
+      name: integration.name,
+      accessToken: integration.accessToken,
+      installationId: integration.installationId ?? null,
+      isActive: true,
+    };
+    const row = await prisma.$transaction(async (tx) => {
+      await tx.vercelIntegration.updateMany({ where: { userId, isActive: true }, data: { isActive: false } });
+      return tx.vercelIntegration.upsert({
+        where: { userId_accountId: { userId, accountId: integration.accountId } },
+        update: data,
+        create: { ...data, userId, accountId: integration.accountId },
+      });
+    });
+    return toStored(row);
+  }
+
+  async activate(userId: string, id: string): Promise<StoredVercelIntegration | null> {
+    const row = await prisma.$transaction(async (tx) => {
+      const existing = await tx.vercelIntegration.findFirst({ where: { id, userId } });
+      if (!existing) {
+        return null;
+      }
+      await tx.vercelIntegration.updateMany({ where: { userId, isActive: true }, data: { isActive: false } });
+      return tx.vercelIntegration.update({ where: { id }, data: { isActive: true } });
+    });
+    return row ? toStored(row) : null;
+  }
+
+  async delete(userId: string, id: string): Promise<boolean> {
+    return prisma.$transaction(async (tx) => {
+      const existing = await tx.vercelIntegration.findFirst({ where: { id, userId } });
+      if (!existing) {
+        return false;
+      }
+      await tx.vercelIntegration.delete({ where: { id } });
+      if (existing.isActive) {
+        const next = await tx.vercelIntegration.findFirst({ where: { userId }, orderBy: { createdAt: 'desc' } });
+        if (next) {
+          await tx.vercelIntegration.update({ where: { id: next.id }, data: { isActive: true } });
+        }
+      }
+      return true;
+    });
+  }
+
+  async get(id: string): Promise<StoredVercelIntegration | null> {
+    const row = await prisma.vercelIntegration.findUnique({ where: { id } });
+    return row ? toStored(row) : null;
+  }
+
+  async listByAccount(accountId: string): Promise<StoredVercelIntegration[]> {
+    const rows = await prisma.vercelIntegration.findMany({ where: { accountId } });
+    return rows.map(toStored);
+  }
+
+  async listAll(): Promise<StoredVercelIntegration[]> {
+    const rows = await prisma.vercelIntegration.findMany({ orderBy: { createdAt: 'asc' } });
+    return rows.map(toStored);
+  }
+
+  async createState(userId: string, state: string, expiresAt: Date): Promise<void> {
+    await prisma.vercelOAuthState.deleteMany({ where: { expiresAt: { lte: new Date() } } });
+    await prisma.vercelOAuthState.create({ data: { userId, state, expiresAt } });
+  }
+
+  async consumeState(state: string, now: Date): Promise<string | null> {
+    const row = await prisma.vercelOAuthState.findUnique({ where: { state } });
+    if (!row) {
+      return null;
+    }
+    // Only the request that deletes the row may use it
+    const { count } = await prisma.vercelOAuthState.deleteMany({ where: { id: row.id } });
+    return count === 1 && row.expiresAt > now ? row.userId : null;
+  }
+}
+
+let storeInstance: VercelIntegrationStore | null = null;
+
+export function getVercelIntegrationStore(): VercelIntegrationStore {
+  if (!storeInstance) {
+    storeInstance = process.env.DATABASE_URL
+      ? new PrismaVercelIntegrationStore()
+      : new InMemoryVercelIntegrationStore();
+  }
+  return storeInstance;
+}
+
+// Start an OAuth flow for the user; returns the state to send to Vercel
+export async function createVercelOAuthState(userId: string): Promise<string> {
+  const state = crypto.randomBytes(32).toString('hex');
+  await getVercelIntegrationStore().createState(userId, state, new Date(Date.now() + OAUTH_STATE_TTL_MS));
+  return state;
+}
+
+export async function consumeVercelOAuthState(state: string): Promise<string | null> {
+  return getVercelIntegrationStore().consumeState(state, new Date());
+}
+
+// Save the account or team a token was issued for and make it active
+export async function saveVercelIntegration(userId: string, token: VercelTokenResponse): Promise<VercelIntegration> {
+  const teamId = token.team_id || undefined;
+  const client = new VercelClient(token.access_token, teamId);
+  let accountId: string;
+  let name: string;
+  if (teamId) {
+    const team = await client.getTeam(teamId);
+    accountId = team.id;
+    name = team.name || team.slug;
+  } else {
+    const { user } = await client.getUser();
+    accountId = user.id;
+    name = user.name || user.username;
+  }
+
+  const saved = await getVercelIntegrationStore().save(userId, {
+    accountId,
+    teamId,
+    name,
+    accessToken: encryptSecret(token.access_token),
+    installationId: token.installation_id,
+  });
+  return toIntegration(saved);
+}
+
+export async function listVercelIntegrations(userId: string): Promise<VercelIntegration[]> {
+  return (await getVercelIntegrationStore().list(userId)).map(toIntegration);
+}
+
+export async function activateVercelIntegration(userId: string, id: string): Promise<VercelIntegration | null> {
+  const integration = await getVercelIntegrationStore().activate(userId, id);
+  return integration ? toIntegration(integration) : null;
+}
+
+// Disconnect one integration, or the active one
+export async function disconnectVercelIntegration(userId: string, id?: string): Promise<boolean> {
+  const store = getVercelIntegrationStore();
+  const target = id ?? (await store.getActive(userId))?.id;
+  return target ? store.delete(userId, target) : false;
+}
+
+// Deployments created through the client are mirrored for the integration.
+// A token that no longer decrypts counts as disconnected; a missing
+// ENCRYPTION_KEY is thrown.
+export function createIntegrationClient(integration: StoredVercelIntegration): VercelClient | null {
+  try {
+    return new VercelClient(decryptSecret(integration.accessToken), integration.teamId, {
+      onDeploymentCreated: async (deployment) => {
+        await getDeploymentStore().upsert(integration.userId, integration.id, snapshotFromCreated(deployment));
+      },
+    });
+  } catch (error) {
+    if (!(error instanceof DecryptionError)) {
+      throw error;
+    }
+    console.error(`Vercel integration ${integration.id} token could not be decrypted:`, error);
+    return null;
+  }
+}
+
+export interface VercelSession {
+  userId: string;
+  integration: VercelIntegration;
+  client: VercelClient;
+}
+
+// The user's active integration and its client, or null when none is connected
+export async function getVercelSessionForUser(userId: string): Promise<VercelSession | null> {
+  const integration = await getVercelIntegrationStore().getActive(userId);
+  const client = integration && createIntegrationClient(integration);
+  return integration && client ? { userId, integration: toIntegration(integration), client } : null;
+}
+
+export async function getVercelSession(request: NextRequest): Promise<VercelSession | null> {
+  const userId = await getUserIdFromRequest(request);
+  return userId ? getVercelSessionForUser(userId) : null;
+}
+
+// Client for the user's active integration, or null when none is connected
+export async function getVercelClientForUser(userId: string): Promise<VercelClient | null> {
+  return (await getVercelSessionForUser(userId))?.client ?? null;
+}
+
+// Client for the signed-in user of a request
+export async function getVercelClient(request: NextRequest): Promise<VercelClient | null> {
+  return (await getVercelSession(request))?.client ?? null;
+}
@@ -38,6 +38,12 @@ export interface DeploymentNotification {
     code: string;
     message: string;
   };
+  // For deployment.rollback: what production went back to
+  rollback?: {
+    toDeploymentId: string;
+    toUrl: string;
+    reason?: string;
+  };
   timestamp: number;
 }
 
@@ -112,6 +118,14 @@ export class NotificationService {
       });
     }
 
+    if (notification.rollback) {
+      payload.attachments[0].fields.push({
+        title: 'Rolled Back To',
+        value: notification.rollback.toUrl,
+        short: false,
+      });
+    }
+
     await fetch(this.config.slack.webhookUrl, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
@@ -159,6 +173,14 @@ export class NotificationService {
       });
     }
 
+    if (notification.rollback) {
+      embed.fields.push({
+        name: 'Rolled Back To',
+        value: notification.rollback.toUrl,
+        inline: false,
+      });
+    }
+
     await fetch(this.config.discord.webhookUrl, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
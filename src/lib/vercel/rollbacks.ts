@@ -0,0 +1,152 @@
+import { Prisma, DeploymentRollbackAction, DeploymentRollbackStatus } from '@prisma/client';
+import { prisma } from '../prisma';
+import { healthCheckFromJson, HealthCheckResult } from './health';
+
+// Audit trail of production rollbacks and promotions: who pointed which
+// project's production aliases at which deployment, why, and whether the
+// site was healthy afterwards.
+export type RollbackAction = 'rollback' | 'promote';
+
+export interface DeploymentRollbackRecord {
+  id: string;
+  userId: string;
+  integrationId?: string;
+  action: RollbackAction;
+  vercelProjectId: string;
+  fromDeploymentId?: string;
+  toDeploymentId: string;
+  reason?: string;
+  aliases: string[];
+  status: 'succeeded' | 'failed';
+  error?: string;
+  health?: HealthCheckResult;
+  createdAt: Date;
+}
+
+export type NewDeploymentRollback = Omit<DeploymentRollbackRecord, 'id' | 'createdAt'>;
+
+export interface ListRollbacksOptions {
+  vercelProjectId?: string;
+  limit?: number;
+}
+
+const DEFAULT_LIST_LIMIT = 20;
+
+export interface DeploymentRollbackStore {
+  create(rollback: NewDeploymentRollback): Promise<DeploymentRollbackRecord>;
+  setHealth(id: string, health: HealthCheckResult): Promise<DeploymentRollbackRecord | null>;
+  // Most recent first
+  list(userId: string, options?: ListRollbacksOptions): Promise<DeploymentRollbackRecord[]>;
+}
+
+function generateId(): string {
+  return `rbk_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+// Process-local store, used when no database is configured
+export class InMemoryDeploymentRollbackStore implements DeploymentRollbackStore {
+  private rollbacks: Map<string, DeploymentRollbackRecord> = new Map();
+
+  async create(rollback: NewDeploymentRollback): Promise<DeploymentRollbackRecord> {
+    const record: DeploymentRollbackRecord = { ...rollback, id: generateId(), createdAt: new Date() };
+    this.rollbacks.set(record.id, record);
+    return structuredClone(record);
+  }
+
+  async setHealth(id: string, health: HealthCheckResult): Promise<DeploymentRollbackRecord | null> {
+    const record = this.rollbacks.get(id);
+    if (!record) {
+      return null;
+    }
+    record.health = health;
+    return structuredClone(record);
+  }
+
+  async list(userId: string, options: ListRollbacksOptions = {}): Promise<DeploymentRollbackRecord[]> {
+    return Array.from(this.rollbacks.values())
+      .filter(record =>
+        record.userId === userId &&
+        (!options.vercelProjectId || record.vercelProjectId === options.vercelProjectId)
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, options.limit ?? DEFAULT_LIST_LIMIT)
+      .map(record => structuredClone(record));
+  }
+}
+
+type RollbackRow = Prisma.DeploymentRollbackGetPayload<object>;
+
+function toRecord(row: RollbackRow): DeploymentRollbackRecord {
+  return {
+    id: row.id,
+    userId: row.userId,
+    integrationId: row.integrationId ?? undefined,
+    action: row.action.toLowerCase() as RollbackAction,
+    vercelProjectId: row.vercelProjectId,
+    fromDeploymentId: row.fromDeploymentId ?? undefined,
+    toDeploymentId: row.toDeploymentId,
+    reason: row.reason ?? undefined,
+    aliases: row.aliases,
+    status: row.status.toLowerCase() as DeploymentRollbackRecord['status'],
+    error: row.error ?? undefined,
+    health: healthCheckFromJson(row.health),
+    createdAt: row.createdAt,
+  };
+}
+
+// Durable store backed by the DeploymentRollback table
+export class PrismaDeploymentRollbackStore implements DeploymentRollbackStore {
+  async create(rollback: NewDeploymentRollback): Promise<DeploymentRollbackRecord> {
+    const row = await prisma.deploymentRollback.create({
+      data: {
+        userId: rollback.userId,
+        integrationId: rollback.integrationId,
+        action: rollback.action.toUpperCase() as DeploymentRollbackAction,
+        vercelProjectId: rollback.vercelProjectId,
+        fromDeploymentId: rollback.fromDeploymentId,
+        toDeploymentId: rollback.toDeploymentId,
+        reason: rollback.reason,
+        aliases: rollback.aliases,
+        status: rollback.status.toUpperCase() as DeploymentRollbackStatus,
+        error: rollback.error,
+        ...(rollback.health && { health: rollback.health as unknown as Prisma.InputJsonValue }),
+      },
+    });
+    return toRecord(row);
+  }
+
+  async setHealth(id: string, health: HealthCheckResult): Promise<DeploymentRollbackRecord | null> {
+    const { count } = await prisma.deploymentRollback.updateMany({
+      where: { id },
+      data: { health: health as unknown as Prisma.InputJsonValue },
+    });
+    if (count === 0) {
+      return null;
+    }
+    const row = await prisma.deploymentRollback.findUnique({ where: { id } });
+    return row ? toRecord(row) : null;
+  }
+
+  async list(userId: string, options: ListRollbacksOptions = {}): Promise<DeploymentRollbackRecord[]> {
+    const rows = await prisma.deploymentRollback.findMany({
+      where: {
+        userId,
+        ...(options.vercelProjectId && { vercelProjectId: options.vercelProjectId }),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: options.limit ?? DEFAULT_LIST_LIMIT,
+    });
+    return rows.map(toRecord);
+  }
+}
+
+let storeInstance: DeploymentRollbackStore | null = null;
+
+export function getDeploymentRollbackStore(): DeploymentRollbackStore {
+  if (!storeInstance) {
+    storeInstance = process.env.DATABASE_URL
+      ? new PrismaDeploymentRollbackStore()
+      : new InMemoryDeploymentRollbackStore();
+  }
+  return storeInstance;
+}
@@ -1,4 +1,8 @@
-import { getVercelClient, VercelClient, VercelProject, VercelDeployment, VercelEnv } from './client';
+import { NextRequest } from 'next/server';
+import { VercelClient, VercelProject, VercelDeployment, VercelEnv } from './client';
+import { getVercelSession } from './integrations';
+import { checkDeploymentHealth, getHealthCheckConfig, healthCheckOptions, HealthCheckResult } from './health';
+import { DeploymentRollbackRecord, getDeploymentRollbackStore, RollbackAction } from './rollbacks';
 import { projectTemplates, ProjectTemplate } from './templates';
 
 export interface DeploymentOptions {
@@ -10,6 +14,32 @@ export interface DeploymentOptions {
   environmentVariables?: Record<string, string>;
 }
 
+// The user (and integration) production changes are recorded against
+export interface DeploymentActor {
+  userId: string;
+  integrationId?: string;
+}
+
+export interface ProductionChangeOptions {
+  reason?: string;
+  // Check the site after the change; on by default
+  healthCheck?: boolean;
+}
+
+export interface ProductionChangeResult {
+  deployment: VercelDeployment;
+  rollback: DeploymentRollbackRecord;
+  health?: HealthCheckResult;
+}
+
+// A rollback or promotion that cannot be made, with the HTTP status to report
+export class DeploymentRollbackError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'DeploymentRollbackError';
+  }
+}
+
 export interface BranchDeploymentConfig {
   projectId: string;
   branch: string;
@@ -21,15 +51,15 @@ export interface BranchDeploymentConfig {
 export class VercelService {
   private client: VercelClient;
 
-  constructor(client: VercelClient) {
+  constructor(client: VercelClient, private actor?: DeploymentActor) {
     this.client = client;
   }
 
-  // Static method to get service instance
-  static async getInstance(): Promise<VercelService | null> {
-    const client = await getVercelClient();
-    if (!client) return null;
-    return new VercelService(client);
+  // Service for the active Vercel integration of the request's user
+  static async getInstance(request: NextRequest): Promise<VercelService | null> {
+    const session = await getVercelSession(request);
+    if (!session) return null;
+    return new VercelService(session.client, { userId: session.userId, integrationId: session.integration.id });
   }
 
   // Project creation with templates
@@ -154,17 +184,16 @@ export class VercelService {
     return response.json();
   }
 
-  // Promote deployment from preview to production
-  async promoteDeployment(deploymentId: string): Promise<VercelDeployment> {
-    // Get deployment details
+  // Serve an existing READY deployment, such as a preview, in production
+  // by pointing the project's production aliases at it; nothing is rebuilt
+  async promoteDeployment(deploymentId: string, options: ProductionChangeOptions = {}): Promise<ProductionChangeResult> {
     const deployment = await this.client.getDeployment(deploymentId);
-    
-    // Redeploy with production target
-    const result = await this.client.redeployDeployment(deploymentId, {
-      target: 'production',
-    });
-
-    return this.client.getDeployment(result.id);
+    if (!deployment.projectId) {
+      throw new DeploymentRollbackError('Deployment does not belong to a project', 400);
+    }
+    const production = await this.getProductionState(deployment.projectId);
+    this.assertCanServe(deployment, deployment.projectId, production.currentDeploymentId);
+    return this.reassignProduction('promote', deployment, production, options);
   }
 
   // Get deployment analytics
@@ -190,37 +219,147 @@ export class VercelService {
     };
   }
 
-  // Rollback to previous deployment
-  async rollbackDeployment(projectId: string): Promise<VercelDeployment> {
-    // Get recent deployments
-    const { deployments } = await this.client.listDeployments(projectId, 10);
-    
-    // Find the current production deployment
-    const currentProd = deployments.find(d => 
-      d.state === 'READY' && d.type === 'LAMBDAS'
-    );
-    
-    if (!currentProd) {
-      throw new Error('No current production deployment found');
+  // Roll production back to an earlier production deployment: the given
+  // one, or the most recent READY one older than what is served now
+  async rollbackDeployment(
+    projectId: string,
+    options: ProductionChangeOptions & { targetDeploymentId?: string } = {}
+  ): Promise<ProductionChangeResult> {
+    const production = await this.getProductionState(projectId);
+    let target: VercelDeployment | undefined;
+    if (options.targetDeploymentId) {
+      target = await this.client.getDeployment(options.targetDeploymentId);
+      if (target.target !== 'production') {
+        throw new DeploymentRollbackError('Rollback target must be a production deployment; promote previews instead', 400);
+      }
+    } else {
+      target = (await this.getRollbackCandidates(projectId, production.currentDeploymentId))[0];
+      if (!target) {
+        throw new DeploymentRollbackError('No previous production deployment available for rollback', 409);
+      }
+    }
+    this.assertCanServe(target, projectId, production.currentDeploymentId);
+    return this.reassignProduction('rollback', target, production, options);
+  }
+
+  // Roll production back to the given earlier production deployment
+  async rollbackToDeployment(deploymentId: string, options: ProductionChangeOptions = {}): Promise<ProductionChangeResult> {
+    const target = await this.client.getDeployment(deploymentId);
+    if (!target.projectId) {
+      throw new DeploymentRollbackError('Deployment does not belong to a project', 400);
     }
+    return this.rollbackDeployment(target.projectId, { ...options, targetDeploymentId: deploymentId });
+  }
 
-    // Find previous successful deployment
-    const previousDeployment = deployments.find(d =>
-      d.state === 'READY' && 
-      d.uid !== currentProd.uid &&
-      d.createdAt < currentProd.createdAt
+  // Take a deployment that failed its checks out of production, going back
+  // to the most recent earlier one not known to be unhealthy. Returns null
+  // when the deployment is not the one serving production.
+  async rollbackFrom(
+    deploymentId: string,
+    options: ProductionChangeOptions & { isUnhealthy?: (deploymentId: string) => Promise<boolean> } = {}
+  ): Promise<ProductionChangeResult | null> {
+    const failed = await this.client.getDeployment(deploymentId);
+    if (!failed.projectId) {
+      return null;
+    }
+    const production = await this.getProductionState(failed.projectId);
+    if (production.currentDeploymentId !== deploymentId) {
+      return null;
+    }
+    for (const candidate of await this.getRollbackCandidates(failed.projectId, deploymentId)) {
+      if (!(await options.isUnhealthy?.(candidate.uid))) {
+        return this.reassignProduction('rollback', candidate, production, options);
+      }
+    }
+    throw new DeploymentRollbackError('No healthy earlier production deployment available for rollback', 409);
+  }
+
+  // READY production deployments production could be rolled back to, most
+  // recent first; only those older than the current one when it is known
+  async getRollbackCandidates(projectId: string, currentDeploymentId?: string): Promise<VercelDeployment[]> {
+    const { deployments } = await this.client.listDeployments(projectId, 20, 'production');
+    const current = deployments.find(d => d.uid === currentDeploymentId);
+    return deployments.filter(d =>
+      d.state === 'READY' &&
+      d.uid !== currentDeploymentId &&
+      (!current || d.createdAt < current.createdAt)
     );
+  }
 
-    if (!previousDeployment) {
-      throw new Error('No previous deployment available for rollback');
+  // Production aliases are the project's domains that serve content (not
+  // redirects or branch domains); the deployment behind the first one is
+  // the one currently in production
+  private async getProductionState(projectId: string): Promise<{ aliases: string[]; currentDeploymentId?: string }> {
+    const { domains } = await this.client.listDomains(projectId);
+    const aliases = domains.filter(d => !d.redirect && !d.gitBranch).map(d => d.name);
+    if (aliases.length === 0) {
+      throw new DeploymentRollbackError('Project has no production domains', 409);
     }
+    const current = await this.client.getAlias(aliases[0]).catch(() => null);
+    return { aliases, currentDeploymentId: current?.deploymentId ?? undefined };
+  }
 
-    // Redeploy the previous version
-    const result = await this.client.redeployDeployment(previousDeployment.uid, {
-      target: 'production',
-    });
+  private assertCanServe(deployment: VercelDeployment, projectId: string, currentDeploymentId?: string): void {
+    if (deployment.projectId !== projectId) {
+      throw new DeploymentRollbackError('Deployment belongs to a different project', 400);
+    }
+    if (deployment.state !== 'READY') {
+      throw new DeploymentRollbackError(`Deployment is ${deployment.state}; only READY deployments can serve production`, 409);
+    }
+    if (deployment.uid === currentDeploymentId) {
+      throw new DeploymentRollbackError('Deployment is already serving production', 409);
+    }
+  }
+
+  // Point every production alias at the target and record the change. If an
+  // alias cannot be moved, the ones already moved are pointed back.
+  private async reassignProduction(
+    action: RollbackAction,
+    target: VercelDeployment,
+    production: { aliases: string[]; currentDeploymentId?: string },
+    options: ProductionChangeOptions
+  ): Promise<ProductionChangeResult> {
+    if (!this.actor) {
+      throw new Error('Production changes need the user making them');
+    }
+    const store = getDeploymentRollbackStore();
+    const change = {
+      ...this.actor,
+      action,
+      vercelProjectId: target.projectId!,
+      fromDeploymentId: production.currentDeploymentId,
+      toDeploymentId: target.uid,
+      reason: options.reason,
+    };
 
-    return this.client.getDeployment(result.id);
+    const moved: { alias: string; previous?: string | null }[] = [];
+    try {
+      for (const alias of production.aliases) {
+        const result = await this.client.assignAlias(target.uid, alias);
+        moved.push({ alias, previous: result.oldDeploymentId ?? production.currentDeploymentId });
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Alias assignment failed';
+      for (const { alias, previous } of moved) {
+        if (previous) {
+          await this.client.assignAlias(previous, alias).catch(restoreError =>
+            console.error(`Failed to point ${alias} back at ${previous}:`, restoreError)
+          );
+        }
+      }
+      await store.create({ ...change, aliases: production.aliases, status: 'failed', error: message });
+      throw new DeploymentRollbackError(`Failed to reassign production aliases: ${message}`, 502);
+    }
+
+    let rollback = await store.create({ ...change, aliases: production.aliases, status: 'succeeded' });
+    let health: HealthCheckResult | undefined;
+    if (options.healthCheck !== false) {
+      // The project's checks, passing once the site answers as expected
+      const config = await getHealthCheckConfig(this.actor.userId, change.vercelProjectId);
+      health = await checkDeploymentHealth(production.aliases[0], { ...healthCheckOptions(config), untilHealthy: true });
+      rollback = (await store.setHealth(rollback.id, health)) ?? rollback;
+    }
+    return { deployment: target, rollback, health };
   }
 
   // Clone project with settings
@@ -283,11 +422,12 @@ export class VercelService {
 
 // Utility functions for common operations
 export async function quickDeploy(
+  request: NextRequest,
   projectName: string,
   framework: string,
   gitRepo?: { repo: string; type: 'github' | 'gitlab' | 'bitbucket' }
 ): Promise<{ project: VercelProject; deployment?: VercelDeployment }> {
-  const service = await VercelService.getInstance();
+  const service = await VercelService.getInstance(request);
   if (!service) {
     throw new Error('Not authenticated with Vercel');
   }
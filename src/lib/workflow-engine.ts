@@ -0,0 +1,784 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Prisma, WorkflowRunStatus as PrismaRunStatus } from '@prisma/client';
+import { prisma } from './prisma';
+import { getResponseText } from './llm';
+import { runCommand } from './safe-exec';
+import { renderTemplate } from './prompt-templates';
+import type { ClaudeClient } from './claude-client';
+import type { UsageTier } from './usage';
+import type { Workflow, WorkflowEdge, WorkflowNode } from './workflows';
+
+// Runs a workflow graph. Nodes run one at a time in topological order; each
+// node receives the values on its incoming edges keyed by target handle
+// (`input` by default) and its output travels along its outgoing edges. An
+// edge from a named source handle carries that field of the output, so a
+// node can pick a branch by returning only some fields. When a node fails
+// after its retries, edges from its `error` handle carry the error on and
+// the run continues; without such edges the run fails.
+export type RunStatus = 'running' | 'succeeded' | 'failed' | 'skipped' | 'cancelled';
+
+export interface NodeRun {
+  id: string;
+  nodeId: string;
+  nodeType: string;
+  status: RunStatus;
+  input?: Record<string, unknown>;
+  output?: unknown;
+  error?: string;
+  attempts: number;
+  durationMs?: number;
+  startedAt: Date;
+  finishedAt?: Date;
+}
+
+export interface WorkflowRun {
+  id: string;
+  workflowId: string;
+  // Saved version the executed graph matched
+  version?: number;
+  // Set when a trigger started the run
+  triggerId?: string;
+  userId: string;
+  status: RunStatus;
+  input?: unknown;
+  // Outputs of the nodes without outgoing edges, by node id
+  output?: Record<string, unknown>;
+  error?: string;
+  nodeRuns: NodeRun[];
+  startedAt: Date;
+  finishedAt?: Date;
+}
+
+export type WorkflowRunSummary = Omit<WorkflowRun, 'nodeRuns'>;
+
+export type WorkflowRunEvent =
+  | { type: 'run_start'; run: WorkflowRun }
+  | { type: 'node_start'; nodeId: string; attempt: number }
+  | { type: 'node_retry'; nodeId: string; attempt: number; error: string }
+  | { type: 'node_complete'; nodeRun: NodeRun }
+  | { type: 'run_complete'; run: WorkflowRun };
+
+export class WorkflowExecutionError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'WorkflowExecutionError';
+  }
+}
+
+export interface NodeExecutionContext {
+  node: WorkflowNode;
+  input: Record<string, unknown>;
+  userId: string;
+  client?: ClaudeClient;
+  // Budgets the node's LLM calls; see ExecuteWorkflowOptions.usageTier
+  usageTier?: UsageTier;
+  // Aborted when the node times out or the run is cancelled
+  signal: AbortSignal;
+  timeoutMs: number;
+}
+
+export type NodeExecutor = (context: NodeExecutionContext) => Promise<unknown>;
+
+export const ERROR_HANDLE = 'error';
+const DEFAULT_HANDLE = 'output';
+const DEFAULT_INPUT_HANDLE = 'input';
+
+const DEFAULT_NODE_TIMEOUT_MS = 30000;
+const MAX_NODE_TIMEOUT_MS = 5 * 60 * 1000;
+const MAX_RETRIES = 5;
+const DEFAULT_RETRY_DELAY_MS = 1000;
+const MAX_API_RESPONSE_BYTES = 1024 * 1024;
+const MAX_API_REDIRECTS = 5;
+// Runs are cut off after this long, so one still running well past it was
+// lost with the process executing it
+const MAX_RUN_DURATION_MS = 15 * 60 * 1000;
+const STALE_RUN_GRACE_MS = 5 * 60 * 1000;
+
+export type NewWorkflowRun = Pick<WorkflowRun, 'workflowId' | 'version' | 'triggerId' | 'userId' | 'input'>;
+
+export interface WorkflowRunStore {
+  create(run: NewWorkflowRun): Promise<WorkflowRun>;
+  saveNodeRun(runId: string, nodeRun: Omit<NodeRun, 'id'>): Promise<NodeRun>;
+  finish(runId: string, result: { status: RunStatus; output?: Record<string, unknown>; error?: string }): Promise<WorkflowRun>;
+  // Runs are visible to the user who started them
+  get(id: string, userId: string): Promise<WorkflowRun | null>;
+  // Most recent first
+  list(workflowId: string, userId: string, limit?: number): Promise<WorkflowRunSummary[]>;
+  // Fail the runs still running that started before `startedBefore`;
+  // returns how many there were
+  failStale(startedBefore: Date, error: string): Promise<number>;
+}
+
+function generateId(prefix: string): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+// Process-local store, used when no database is configured
+export class InMemoryWorkflowRunStore implements WorkflowRunStore {
+  private runs: Map<string, WorkflowRun> = new Map();
+
+  async create(run: NewWorkflowRun): Promise<WorkflowRun> {
+    const saved: WorkflowRun = { ...run, id: generateId('run'), status: 'running', nodeRuns: [], startedAt: new Date() };
+    this.runs.set(saved.id, saved);
+    return structuredClone(saved);
+  }
+
+  async saveNodeRun(runId: string, nodeRun: Omit<NodeRun, 'id'>): Promise<NodeRun> {
+    const saved = { ...nodeRun, id: generateId('noderun') };
+    this.runs.get(runId)?.nodeRuns.push(structuredClone(saved));
+    return saved;
+  }
+
+  async finish(runId: string, result: { status: RunStatus; output?: Record<string, unknown>; error?: string }): Promise<WorkflowRun> {
+    const run = this.runs.get(runId)!;
+    Object.assign(run, structuredClone(result), { finishedAt: new Date() });
+    return structuredClone(run);
+  }
+
+  async get(id: string, userId: string): Promise<WorkflowRun | null> {
+    const run = this.runs.get(id);
+    return run && run.userId === userId ? structuredClone(run) : null;
+  }
+
+  async list(workflowId: string, userId: string, limit?: number): Promise<WorkflowRunSummary[]> {
+    return Array.from(this.runs.values())
+      .filter(run => run.workflowId === workflowId && run.userId === userId)
+      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime())
+      .slice(0, limit)
+      .map(({ nodeRuns: _nodeRuns, ...run }) => structuredClone(run));
+  }
+
+  async failStale(startedBefore: Date, error: string): Promise<number> {
+    const stale = Array.from(this.runs.values()).filter(run => run.status === 'running' && run.startedAt < startedBefore);
+    for (const run of stale) {
+      Object.assign(run, { status: 'failed', error, finishedAt: new Date() });
+    }
+    return stale.length;
+  }
+}
+
+type RunRow = Prisma.WorkflowRunGetPayload<object>;
+type NodeRunRow = Prisma.WorkflowNodeRunGetPayload<object>;
+
+function toNodeRun(row: NodeRunRow): NodeRun {
+  return {
+    id: row.id,
+    nodeId: row.nodeId,
+    nodeType: row.nodeType,
+    status: row.status.toLowerCase() as RunStatus,
+    input: (row.input as Record<string, unknown> | null) ?? undefined,
+    output: row.output ?? undefined,
+    error: row.error ?? undefined,
+    attempts: row.attempts,
+    durationMs: row.durationMs ?? undefined,
+    startedAt: row.startedAt,
+    finishedAt: row.finishedAt ?? undefined,
+  };
+}
+
+function toRunSummary(row: RunRow): WorkflowRunSummary {
+  return {
+    id: row.id,
+    workflowId: row.workflowId,
+    version: row.version ?? undefined,
+    triggerId: row.triggerId ?? undefined,
+    userId: row.userId,
+    status: row.status.toLowerCase() as RunStatus,
+    input: row.input ?? undefined,
+    output: (row.output as Record<string, unknown> | null) ?? undefined,
+    error: row.error ?? undefined,
+    startedAt: row.startedAt,
+    finishedAt: row.finishedAt ?? undefined,
+  };
+}
+
+function toJson(value: unknown): Prisma.InputJsonValue | typeof Prisma.DbNull {
+  return value === undefined ? Prisma.DbNull : value as Prisma.InputJsonValue;
+}
+
+const nodeRunsInclude = { nodeRuns: { orderBy: { startedAt: 'asc' } } } satisfies Prisma.WorkflowRunInclude;
+
+// Durable store backed by the WorkflowRun and WorkflowNodeRun tables
+export class PrismaWorkflowRunStore implements WorkflowRunStore {
+  async create(run: NewWorkflowRun): Promise<WorkflowRun> {
+    const row = await prisma.workflowRun.create({
+      data: { workflowId: run.workflowId, version: run.version, triggerId: run.triggerId, userId: run.userId, input: toJson(run.input) },
+    });
+    return { ...toRunSummary(row), nodeRuns: [] };
+  }
+
+  async saveNodeRun(runId: string, nodeRun: Omit<NodeRun, 'id'>): Promise<NodeRun> {
+    const row = await prisma.workflowNodeRun.create({
+      data: {
+        ...nodeRun,
+        runId,
+        status: nodeRun.status.toUpperCase() as PrismaRunStatus,
+        input: toJson(nodeRun.input),
+        output: toJson(nodeRun.output),
+      },
+    });
+    return toNodeRun(row);
+  }
+
+  async finish(runId: string, result: { status: RunStatus; output?: Record<string, unknown>; error?: string }): Promise<WorkflowRun> {
+    const row = await prisma.workflowRun.update({
+      where: { id: runId },
+      data: {
+        status: result.status.toUpperCase() as PrismaRunStatus,
+        output: toJson(result.output),
+        error: result.error,
+        finishedAt: new Date(),
+      },
+      include: nodeRunsInclude,
+    });
+    return { ...toRunSummary(row), nodeRuns: row.nodeRuns.map(toNodeRun) };
+  }
+
+  async get(id: string, userId: string): Promise<WorkflowRun | null> {
+    const row = await prisma.workflowRun.findFirst({ where: { id, userId }, include: nodeRunsInclude });
+    return row ? { ...toRunSummary(row), nodeRuns: row.nodeRuns.map(toNodeRun) } : null;
+  }
+
+  async list(workflowId: string, userId: string, limit?: number): Promise<WorkflowRunSummary[]> {
+    const rows = await prisma.workflowRun.findMany({
+      where: { workflowId, userId },
+      orderBy: { startedAt: 'desc' },
+      take: limit,
+    });
+    return rows.map(toRunSummary);
+  }
+
+  async failStale(startedBefore: Date, error: string): Promise<number> {
+    const { count } = await prisma.workflowRun.updateMany({
+      where: { status: 'RUNNING', startedAt: { lt: startedBefore } },
+      data: { status: 'FAILED', error, finishedAt: new Date() },
+    });
+    return count;
+  }
+}
+
+let storeInstance: WorkflowRunStore | null = null;
+
+export function getWorkflowRunStore(): WorkflowRunStore {
+  if (!storeInstance) {
+    storeInstance = process.env.DATABASE_URL
+      ? new PrismaWorkflowRunStore()
+      : new InMemoryWorkflowRunStore();
+  }
+  return storeInstance;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Template variables for a node: each input handle, with non-strings as JSON
+function inputVariables(input: Record<string, unknown>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(input).map(([name, value]) => [name, typeof value === 'string' ? value : JSON.stringify(value ?? null)])
+  );
+}
+
+function requireString(node: WorkflowNode, field: string): string {
+  const value = node.data[field];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new Error(`${node.type} node needs a ${field}`);
+  }
+  return value;
+}
+
+// data: { prompt, system?, model? }; `{{input}}` and other input handles
+// are filled into the prompt
+async function runAiNode({ node, input, userId, client, usageTier }: NodeExecutionContext): Promise<unknown> {
+  if (!client) {
+    throw new Error('AI nodes need an LLM client');
+  }
+  const variables = inputVariables(input);
+  const { system, model } = node.data;
+  const response = await client.sendMessage(renderTemplate(requireString(node, 'prompt'), variables), {
+    userId,
+    usageTier,
+    ...(typeof system === 'string' && system && { system: renderTemplate(system, variables) }),
+    ...(typeof model === 'string' && model && { model }),
+  });
+  return getResponseText(response);
+}
+
+// Hosts an API node may not call unless WORKFLOW_ALLOW_PRIVATE_URLS=true;
+// only literal addresses are checked, not what a hostname resolves to
+function isPrivateHost(hostname: string): boolean {
+  const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  return (
+    host === 'localhost' ||
+    host.endsWith('.localhost') ||
+    host.endsWith('.internal') ||
+    /^(127|10|0)\./.test(host) ||
+    /^192\.168\./.test(host) ||
+    /^169\.254\./.test(host) ||
+    /^172\.(1[6-9]|2\d|3[01])\./.test(host) ||
+    host === '::1' ||
+    /^f[cd][0-9a-f]{2}:/.test(host) ||
+    /^fe80:/.test(host)
+  );
+}
+
+function assertAllowedUrl(url: URL): void {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`Unsupported protocol: ${url.protocol}`);
+  }
+  if (isPrivateHost(url.hostname) && process.env.WORKFLOW_ALLOW_PRIVATE_URLS !== 'true') {
+    throw new Error(`Requests to ${url.hostname} are not allowed`);
+  }
+}
+
+// data: { url, method?, headers?, body? }; input handles can be used in the
+// url and in a string body. Returns the parsed JSON or text response.
+// Redirects are followed by hand so every hop is checked like the first.
+async function runApiNode({ node, input, signal }: NodeExecutionContext): Promise<unknown> {
+  const variables = inputVariables(input);
+  let url = new URL(renderTemplate(requireString(node, 'url'), variables));
+
+  const { method = 'GET', headers, body } = node.data;
+  let requestMethod = String(method).toUpperCase();
+  let requestHeaders: Record<string, string> = isRecord(headers)
+    ? Object.fromEntries(Object.entries(headers).map(([name, value]) => [name, renderTemplate(String(value), variables)]))
+    : {};
+  let requestBody: string | undefined;
+  if (typeof body === 'string') {
+    requestBody = renderTemplate(body, variables);
+  } else if (body !== undefined && body !== null) {
+    requestBody = JSON.stringify(body);
+    requestHeaders['Content-Type'] = requestHeaders['Content-Type'] || 'application/json';
+  }
+
+  let response: Response;
+  for (let redirects = 0; ; redirects++) {
+    assertAllowedUrl(url);
+    response = await fetch(url, {
+      method: requestMethod,
+      headers: requestHeaders,
+      body: requestBody,
+      redirect: 'manual',
+      signal,
+    });
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      break;
+    }
+    await response.body?.cancel();
+    if (redirects >= MAX_API_REDIRECTS) {
+      throw new Error(`More than ${MAX_API_REDIRECTS} redirects`);
+    }
+
+    const next = new URL(location, url);
+    // As browsers do: credentials stay with their origin, and 303 (or 301/302
+    // after a POST) turns the request into a GET
+    if (next.origin !== url.origin) {
+      requestHeaders = Object.fromEntries(
+        Object.entries(requestHeaders).filter(([name]) => !/^(authorization|cookie|proxy-authorization)$/i.test(name))
+      );
+    }
+    if (response.status === 303 || ((response.status === 301 || response.status === 302) && requestMethod === 'POST')) {
+      requestMethod = 'GET';
+      requestBody = undefined;
+      requestHeaders = Object.fromEntries(Object.entries(requestHeaders).filter(([name]) => !/^content-type$/i.test(name)));
+    }
+    url = next;
+  }
+  const text = await response.text();
+  if (text.length > MAX_API_RESPONSE_BYTES) {
+    throw new Error('Response is larger than 1 MB');
+  }
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${text.slice(0, 200) || response.statusText}`);
+  }
+  if ((response.headers.get('content-type') || '').includes('json')) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new Error('Response is not valid JSON');
+    }
+  }
+  return text;
+}
+
+// Code nodes get no network: Node's permission model does not cover it, so
+// the runner only lets the code require modules that cannot open
+// connections, removes fetch and compiles the code with vm, where dynamic
+// import() is unavailable. Child processes, workers, addons, bindings and
+// files outside the directory are refused by the permission model, and
+// eval by --disallow-code-generation-from-strings.
+const CODE_NODE_MODULES = ['assert', 'buffer', 'crypto', 'events', 'path', 'querystring', 'stream', 'string_decoder', 'timers', 'url', 'util', 'zlib'];
+
+const CODE_RUNNER = `const fs = require('fs');
+const vm = require('vm');
+const Module = require('module');
+const finish = (result) => fs.writeFileSync('output.json', JSON.stringify(result));
+if (!process.permission) {
+  finish({ error: 'The Node.js permission model is not enabled' });
+  process.exit(1);
+}
+const allowed = new Set(${JSON.stringify(CODE_NODE_MODULES)});
+const check = (name) => {
+  const id = String(name).replace(/^node:/, '');
+  if (!allowed.has(id.split('/')[0])) {
+    throw new Error('Cannot require ' + name + ' in a code node');
+  }
+  return id;
+};
+const load = Module._load;
+Module._load = function (request, parent, isMain) {
+  check(request);
+  return load.call(this, request, parent, isMain);
+};
+const getBuiltinModule = process.getBuiltinModule;
+if (getBuiltinModule) {
+  process.getBuiltinModule = (name) => getBuiltinModule(check(name));
+}
+for (const name of ['fetch', 'WebSocket', 'EventSource']) {
+  delete globalThis[name];
+}
+const run = vm.compileFunction(
+  'return (async () => {\\n' + fs.readFileSync('node.js', 'utf8') + '\\n})();',
+  ['input', 'require'],
+  { filename: 'node.js' }
+);
+Promise.resolve()
+  .then(() => run(JSON.parse(fs.readFileSync('input.json', 'utf8')), require))
+  .then(output => finish({ output: output === undefined ? null : output }))
+  .catch(error => {
+    finish({ error: String((error && error.message) || error) });
+    process.exitCode = 1;
+  });
+`;
+
+// Node's permission model keeps code nodes inside their directory and away
+// from child processes; the flag was renamed in Node 22. Without it code
+// nodes are refused rather than run unconfined.
+function sandboxFlags(dir: string): string[] {
+  const major = Number(process.versions.node.split('.')[0]);
+  if (major < 20) {
+    throw new Error(`Code nodes need Node.js 20 or later for its permission model; this is ${process.versions.node}`);
+  }
+  return [
+    major >= 22 ? '--permission' : '--experimental-permission',
+    `--allow-fs-read=${dir}`,
+    `--allow-fs-write=${dir}`,
+    '--disallow-code-generation-from-strings',
+  ];
+}
+
+// data: { code }, the body of an async function of `input` whose return
+// value is the node's output. Runs in a separate Node process with a
+// scrubbed environment, in a temporary directory it cannot leave and
+// without network access.
+async function runCodeNode({ node, input, signal, timeoutMs }: NodeExecutionContext): Promise<unknown> {
+  const code = requireString(node, 'code');
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'workflow-node-'));
+  try {
+    await fs.writeFile(path.join(dir, 'node.js'), code);
+    await fs.writeFile(path.join(dir, 'runner.js'), CODE_RUNNER);
+    await fs.writeFile(path.join(dir, 'input.json'), JSON.stringify(input));
+
+    const result = await runCommand(
+      ['node', '--no-warnings', '--max-old-space-size=128', ...sandboxFlags(dir), 'runner.js'],
+      { cwd: dir, timeout: timeoutMs, cpuTimeLimit: Math.ceil(timeoutMs / 1000), signal }
+    );
+    if (result.aborted || result.timedOut) {
+      throw new Error(result.timedOut ? `Timed out after ${timeoutMs}ms` : 'Cancelled');
+    }
+
+    let outcome: { output?: unknown; error?: string };
+    try {
+      outcome = JSON.parse(await fs.readFile(path.join(dir, 'output.json'), 'utf8'));
+    } catch {
+      throw new Error(result.stderr.trim().split('\n').pop() || `Code exited with ${result.exitCode ?? result.signal}`);
+    }
+    if (outcome.error !== undefined) {
+      throw new Error(outcome.error);
+    }
+    return outcome.output;
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+// Trigger nodes start a run (see workflow-triggers.ts) and pass the trigger's
+// payload on; run by hand they pass on the run's input
+export const TRIGGER_NODE_TYPES = ['schedule', 'webhook', 'event'] as const;
+
+async function runTriggerNode({ input }: NodeExecutionContext): Promise<unknown> {
+  return input[DEFAULT_INPUT_HANDLE] ?? null;
+}
+
+export const NODE_EXECUTORS: Record<string, NodeExecutor> = {
+  ai: runAiNode,
+  api: runApiNode,
+  code: runCodeNode,
+  ...Object.fromEntries(TRIGGER_NODE_TYPES.map(type => [type, runTriggerNode])),
+};
+
+// Topological order of the nodes; throws when the edges form a cycle
+export function orderNodes(workflow: Pick<Workflow, 'nodes' | 'edges'>): WorkflowNode[] {
+  const incoming = new Map(workflow.nodes.map(node => [node.id, 0]));
+  for (const edge of workflow.edges) {
+    incoming.set(edge.target, (incoming.get(edge.target) ?? 0) + 1);
+  }
+
+  const ready = workflow.nodes.filter(node => incoming.get(node.id) === 0);
+  const ordered: WorkflowNode[] = [];
+  while (ready.length > 0) {
+    const node = ready.shift()!;
+    ordered.push(node);
+    for (const edge of workflow.edges.filter(edge => edge.source === node.id)) {
+      const remaining = incoming.get(edge.target)! - 1;
+      incoming.set(edge.target, remaining);
+      if (remaining === 0) {
+        ready.push(workflow.nodes.find(candidate => candidate.id === edge.target)!);
+      }
+    }
+  }
+
+  if (ordered.length < workflow.nodes.length) {
+    const cyclic = workflow.nodes.filter(node => !ordered.includes(node)).map(node => node.id);
+    throw new WorkflowExecutionError(`Workflow contains a cycle through nodes: ${cyclic.join(', ')}`, 400);
+  }
+  return ordered;
+}
+
+function numberSetting(node: WorkflowNode, field: string, fallback: number, max: number): number {
+  const value = node.data[field];
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? Math.min(value, max) : fallback;
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+// Run one attempt, aborting it after `timeoutMs`
+async function runWithTimeout(executor: NodeExecutor, context: Omit<NodeExecutionContext, 'signal'>, signal: AbortSignal): Promise<unknown> {
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  signal.addEventListener('abort', abort, { once: true });
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    return await Promise.race([
+      executor({ ...context, signal: controller.signal }),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+          controller.abort();
+          reject(new Error(`Timed out after ${context.timeoutMs}ms`));
+        }, context.timeoutMs);
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+    signal.removeEventListener('abort', abort);
+  }
+}
+
+// The value an edge carries, or undefined when it is not taken
+function edgeValue(edge: WorkflowEdge, source: NodeState | undefined): unknown {
+  if (!source) {
+    return undefined;
+  }
+  if (source.status === 'failed') {
+    return edge.sourceHandle === ERROR_HANDLE ? { nodeId: edge.source, message: source.error } : undefined;
+  }
+  if (source.status !== 'succeeded' || edge.sourceHandle === ERROR_HANDLE) {
+    return undefined;
+  }
+  if (!edge.sourceHandle || edge.sourceHandle === DEFAULT_HANDLE) {
+    return source.output ?? null;
+  }
+  return isRecord(source.output) ? source.output[edge.sourceHandle] : undefined;
+}
+
+interface NodeState {
+  status: RunStatus;
+  output?: unknown;
+  error?: string;
+}
+
+export interface ExecuteWorkflowOptions {
+  userId: string;
+  // Handed to the root nodes on their `input` handle
+  input?: unknown;
+  // Recorded on the run: the saved version the graph comes from
+  version?: number;
+  // The trigger that started the run: only its nodes receive `input`, and
+  // the branches of other trigger nodes are skipped
+  trigger?: { id: string; nodeIds: string[] };
+  client?: ClaudeClient;
+  // Tier of the API key the run was started with
+  usageTier?: UsageTier;
+  // Extra or replacement node types
+  executors?: Record<string, NodeExecutor>;
+  signal?: AbortSignal;
+  onEvent?: (event: WorkflowRunEvent) => void | Promise<void>;
+  store?: WorkflowRunStore;
+  // A run already created in the store, e.g. by a trigger that recorded it
+  // before replying; executed instead of a new one
+  run?: WorkflowRun;
+}
+
+// Check a workflow can run before starting it: no cycles and a known type
+// for every node
+export function validateWorkflowForRun(workflow: Pick<Workflow, 'nodes' | 'edges'>, executors: Record<string, NodeExecutor> = NODE_EXECUTORS): WorkflowNode[] {
+  if (workflow.nodes.length === 0) {
+    throw new WorkflowExecutionError('Workflow has no nodes', 400);
+  }
+  const unknown = Array.from(new Set(workflow.nodes.map(node => node.type).filter(type => !executors[type])));
+  if (unknown.length > 0) {
+    throw new WorkflowExecutionError(`Unknown node types: ${unknown.join(', ')}`, 400);
+  }
+  return orderNodes(workflow);
+}
+
+// Execute a workflow, saving the run and each node's input, output and
+// duration. Resolves with the finished run, including failed ones.
+export async function executeWorkflow(workflow: Workflow, options: ExecuteWorkflowOptions): Promise<WorkflowRun> {
+  const executors = { ...NODE_EXECUTORS, ...options.executors };
+  const ordered = validateWorkflowForRun(workflow, executors);
+  const store = options.store ?? getWorkflowRunStore();
+  // Aborted when the run is cancelled or has taken MAX_RUN_DURATION_MS
+  const cutOff = AbortSignal.timeout(MAX_RUN_DURATION_MS);
+  const timeoutError = `Run took longer than ${MAX_RUN_DURATION_MS / 60000} minutes`;
+  const signal = options.signal ? AbortSignal.any([options.signal, cutOff]) : cutOff;
+  const emit = async (event: WorkflowRunEvent) => {
+    await options.onEvent?.(event);
+  };
+
+  const run = options.run ?? await store.create({
+    workflowId: workflow.id,
+    ...(options.version !== undefined && { version: options.version }),
+    ...(options.trigger && { triggerId: options.trigger.id }),
+    userId: options.userId,
+    input: options.input,
+  });
+  await emit({ type: 'run_start', run });
+
+  const states = new Map<string, NodeState>();
+  let failure: string | undefined;
+
+  for (const node of ordered) {
+    const startedAt = new Date();
+    const incoming = workflow.edges.filter(edge => edge.target === node.id);
+    const received: Record<string, unknown[]> = {};
+    for (const edge of incoming) {
+      const value = edgeValue(edge, states.get(edge.source));
+      if (value !== undefined) {
+        (received[edge.targetHandle || DEFAULT_INPUT_HANDLE] ??= []).push(value);
+      }
+    }
+    // Several edges into one handle arrive as a list
+    const input: Record<string, unknown> = Object.fromEntries(
+      Object.entries(received).map(([handle, values]) => [handle, values.length === 1 ? values[0] : values])
+    );
+    if (incoming.length === 0 && options.input !== undefined) {
+      input[DEFAULT_INPUT_HANDLE] = options.input;
+    }
+
+    const otherTrigger = !!options.trigger &&
+      (TRIGGER_NODE_TYPES as readonly string[]).includes(node.type) &&
+      !options.trigger.nodeIds.includes(node.id);
+    const skip = failure || signal.aborted || otherTrigger || (incoming.length > 0 && Object.keys(input).length === 0);
+    if (skip) {
+      states.set(node.id, { status: 'skipped' });
+      const nodeRun = await store.saveNodeRun(run.id, { nodeId: node.id, nodeType: node.type, status: 'skipped', attempts: 0, startedAt });
+      await emit({ type: 'node_complete', nodeRun });
+      continue;
+    }
+
+    const timeoutMs = numberSetting(node, 'timeoutMs', DEFAULT_NODE_TIMEOUT_MS, MAX_NODE_TIMEOUT_MS);
+    const retries = Math.floor(numberSetting(node, 'retries', 0, MAX_RETRIES));
+    const retryDelayMs = numberSetting(node, 'retryDelayMs', DEFAULT_RETRY_DELAY_MS, MAX_NODE_TIMEOUT_MS);
+    let state: NodeState = { status: 'failed' };
+    let attempts = 0;
+
+    while (attempts <= retries && !signal.aborted) {
+      attempts++;
+      await emit({ type: 'node_start', nodeId: node.id, attempt: attempts });
+      try {
+        const output = await runWithTimeout(executors[node.type], {
+          node,
+          input,
+          userId: options.userId,
+          client: options.client,
+          usageTier: options.usageTier,
+          timeoutMs,
+        }, signal);
+        state = { status: 'succeeded', output };
+        break;
+      } catch (error) {
+        state = { status: 'failed', error: errorMessage(error) };
+        if (attempts <= retries && !signal.aborted) {
+          await emit({ type: 'node_retry', nodeId: node.id, attempt: attempts, error: state.error! });
+          // Back off exponentially between attempts
+          await sleep(retryDelayMs * 2 ** (attempts - 1), signal);
+        }
+      }
+    }
+    if (signal.aborted) {
+      state = { status: 'cancelled', error: options.signal?.aborted ? 'Run was cancelled' : timeoutError };
+    }
+
+    states.set(node.id, state);
+    const finishedAt = new Date();
+    const nodeRun = await store.saveNodeRun(run.id, {
+      nodeId: node.id,
+      nodeType: node.type,
+      status: state.status,
+      input,
+      ...(state.output !== undefined && { output: state.output }),
+      ...(state.error && { error: state.error }),
+      attempts,
+      durationMs: finishedAt.getTime() - startedAt.getTime(),
+      startedAt,
+      finishedAt,
+    });
+    await emit({ type: 'node_complete', nodeRun });
+
+    const handled = workflow.edges.some(edge => edge.source === node.id && edge.sourceHandle === ERROR_HANDLE);
+    if (state.status === 'failed' && !handled) {
+      failure = `Node ${node.id} failed: ${state.error}`;
+    }
+  }
+
+  const sinks = workflow.nodes.filter(node => !workflow.edges.some(edge => edge.source === node.id));
+  const output = Object.fromEntries(
+    sinks.flatMap(node => {
+      const state = states.get(node.id);
+      return state?.status === 'succeeded' ? [[node.id, state.output ?? null]] : [];
+    })
+  );
+  if (signal.aborted && !options.signal?.aborted) {
+    failure = timeoutError;
+  }
+  const finished = await store.finish(run.id, {
+    status: options.signal?.aborted ? 'cancelled' : failure ? 'failed' : 'succeeded',
+    output,
+    ...(failure && { error: failure }),
+  });
+  await emit({ type: 'run_complete', run: finished });
+  return finished;
+}
+
+// Fail the runs left running past the cut-off, e.g. because the request or
+// process executing them was stopped
+export async function failStaleRuns(now: Date = new Date(), store: WorkflowRunStore = getWorkflowRunStore()): Promise<number> {
+  const startedBefore = new Date(now.getTime() - MAX_RUN_DURATION_MS - STALE_RUN_GRACE_MS);
+  return store.failStale(startedBefore, 'Run stopped before it finished');
+}
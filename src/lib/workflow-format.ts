@@ -0,0 +1,292 @@
+import { z, ZodError } from 'zod';
+import { formatValidationErrors } from './security/validation';
+import { NODE_EXECUTORS } from './workflow-engine';
+import { WorkflowError } from './workflows';
+import type { Workflow, WorkflowGraph, WorkflowNode } from './workflows';
+
+// Portable JSON file for sharing a workflow between accounts and
+// installations. Secrets found in node data are replaced with
+// `{{secrets.NAME}}` placeholders on export and listed in `secrets`, so a
+// file never carries credentials; they are filled in again on import.
+//
+// FORMAT_VERSION follows semver: files with a newer minor version import
+// (unknown fields are ignored), older files are migrated forward, and a
+// newer major version is refused.
+export const WORKFLOW_FILE_FORMAT = 'nex7.workflow';
+export const FORMAT_VERSION = '2.0.0';
+
+const SECRET_FIELD_PATTERN = /(token|secret|password|passwd|api[-_]?key|authorization|credential)/i;
+const SECRET_PLACEHOLDER_PATTERN = /^\{\{\s*secrets\.([A-Z0-9_]+)\s*\}\}$/;
+
+const recordSchema = z.record(z.string(), z.unknown());
+
+const nodeSchema = z.object({
+  id: z.string().min(1).max(200),
+  type: z.string().min(1).max(100),
+  position: z.object({ x: z.number().finite(), y: z.number().finite() }),
+  data: recordSchema.default({}),
+});
+
+const edgeSchema = z.object({
+  id: z.string().min(1).max(200),
+  source: z.string().min(1).max(200),
+  target: z.string().min(1).max(200),
+  sourceHandle: z.string().max(200).nullish(),
+  targetHandle: z.string().max(200).nullish(),
+  type: z.string().max(100).optional(),
+  data: recordSchema.nullish(),
+});
+
+const secretSchema = z.object({
+  name: z.string().regex(/^[A-Z0-9_]+$/, 'Secret names use A-Z, 0-9 and _'),
+  // Where the placeholder appears, e.g. `data.headers.Authorization`
+  nodeId: z.string(),
+  path: z.string(),
+});
+
+export const workflowFileSchema = z.object({
+  format: z.literal(WORKFLOW_FILE_FORMAT),
+  formatVersion: z.string().regex(/^\d+\.\d+\.\d+$/, 'formatVersion must look like 2.0.0'),
+  exportedAt: z.string().optional(),
+  workflow: z.object({
+    name: z.string().min(1).max(200),
+    description: z.string().max(1000).optional(),
+    metadata: recordSchema.optional(),
+    nodes: z.array(nodeSchema).max(500),
+    edges: z.array(edgeSchema).max(2000),
+  }).superRefine((workflow, context) => {
+    const nodeIds = new Set(workflow.nodes.map(node => node.id));
+    if (nodeIds.size !== workflow.nodes.length) {
+      context.addIssue({ code: 'custom', path: ['nodes'], message: 'Node ids must be unique' });
+    }
+    if (new Set(workflow.edges.map(edge => edge.id)).size !== workflow.edges.length) {
+      context.addIssue({ code: 'custom', path: ['edges'], message: 'Edge ids must be unique' });
+    }
+    workflow.edges.forEach((edge, index) => {
+      if (!nodeIds.has(edge.source) || !nodeIds.has(edge.target)) {
+        context.addIssue({ code: 'custom', path: ['edges', index], message: `Edge ${edge.id} must connect two nodes of the workflow` });
+      }
+    });
+  }),
+  requires: z.object({ nodeTypes: z.array(z.string()) }),
+  secrets: z.array(secretSchema).default([]),
+});
+
+export type WorkflowFile = z.infer<typeof workflowFileSchema>;
+
+export class WorkflowFormatError extends WorkflowError {
+  constructor(message: string, public errors?: Record<string, string[]>) {
+    super(message, 400);
+    this.name = 'WorkflowFormatError';
+  }
+}
+
+export interface ImportedWorkflow {
+  name: string;
+  description?: string;
+  graph: WorkflowGraph;
+  // Secrets the file references that were not supplied
+  missingSecrets: string[];
+}
+
+function parseVersion(version: string): [number, number, number] {
+  const [major, minor, patch] = version.split('.').map(Number);
+  return [major || 0, minor || 0, patch || 0];
+}
+
+// Each migration turns a file of one major version into the next
+const MIGRATIONS: Record<number, (file: Record<string, unknown>) => Record<string, unknown>> = {
+  // 1.x: the canvas' bare { version, nodes, edges } export
+  1: (file) => {
+    const nodes = Array.isArray(file.nodes) ? file.nodes : [];
+    return {
+      format: WORKFLOW_FILE_FORMAT,
+      formatVersion: '2.0.0',
+      workflow: {
+        name: typeof file.name === 'string' && file.name ? file.name : 'Imported workflow',
+        ...(typeof file.description === 'string' && { description: file.description }),
+        ...(file.viewport !== undefined && { metadata: { viewport: file.viewport } }),
+        nodes,
+        edges: Array.isArray(file.edges) ? file.edges : [],
+      },
+      requires: {
+        nodeTypes: Array.from(new Set(nodes.map(node => (node as { type?: unknown })?.type).filter(type => typeof type === 'string'))),
+      },
+      secrets: [],
+    };
+  },
+};
+
+// Bring a file of any supported format version up to FORMAT_VERSION
+export function migrateWorkflowFile(raw: unknown): Record<string, unknown> {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new WorkflowFormatError('A workflow file must be a JSON object');
+  }
+  let file = raw as Record<string, unknown>;
+  const declared = file.formatVersion ?? file.version;
+  if (typeof declared !== 'string' || !/^\d+(\.\d+){0,2}$/.test(declared)) {
+    throw new WorkflowFormatError('The file does not declare a formatVersion');
+  }
+
+  const [currentMajor] = parseVersion(FORMAT_VERSION);
+  let [major] = parseVersion(declared);
+  if (major > currentMajor) {
+    throw new WorkflowFormatError(
+      `The file uses format ${declared}, made by a newer version of the app; this version reads up to ${currentMajor}.x`
+    );
+  }
+  while (major < currentMajor) {
+    const migrate = MIGRATIONS[major];
+    if (!migrate) {
+      throw new WorkflowFormatError(`Format ${declared} is no longer supported`);
+    }
+    file = migrate(file);
+    major = parseVersion(String(file.formatVersion))[0];
+  }
+  return file;
+}
+
+function secretName(node: WorkflowNode, path: string[]): string {
+  return [node.type, ...path].join('_').replace(/[^A-Za-z0-9]+/g, '_').toUpperCase();
+}
+
+// Replace secret-looking string values with placeholders, recording where
+// each one was. The same value always gets the same name.
+function extractSecrets(
+  node: WorkflowNode,
+  secrets: WorkflowFile['secrets'],
+  names: Map<string, string>
+): Record<string, unknown> {
+  const nameFor = (value: string, path: string[]) => {
+    const existing = value.match(SECRET_PLACEHOLDER_PATTERN)?.[1] ?? names.get(value);
+    if (existing) {
+      return existing;
+    }
+    const base = secretName(node, path);
+    const taken = new Set(names.values());
+    let name = base;
+    for (let suffix = 2; taken.has(name); suffix++) {
+      name = `${base}_${suffix}`;
+    }
+    names.set(value, name);
+    return name;
+  };
+
+  const visit = (value: unknown, path: string[]): unknown => {
+    if (Array.isArray(value)) {
+      return value.map((item, index) => visit(item, [...path, String(index)]));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, visit(item, [...path, key])]));
+    }
+    const key = path[path.length - 1] ?? '';
+    if (typeof value === 'string' && value && SECRET_FIELD_PATTERN.test(key)) {
+      const name = nameFor(value, path);
+      secrets.push({ name, nodeId: node.id, path: ['data', ...path].join('.') });
+      return `{{secrets.${name}}}`;
+    }
+    return value;
+  };
+  return visit(node.data, []) as Record<string, unknown>;
+}
+
+// Fill placeholders with supplied secrets; unsupplied ones stay as placeholders
+function fillSecrets(data: Record<string, unknown>, secrets: Record<string, string>, missing: Set<string>): Record<string, unknown> {
+  const visit = (value: unknown): unknown => {
+    if (Array.isArray(value)) {
+      return value.map(visit);
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, visit(item)]));
+    }
+    const match = typeof value === 'string' ? value.match(SECRET_PLACEHOLDER_PATTERN) : null;
+    if (!match) {
+      return value;
+    }
+    if (secrets[match[1]] === undefined) {
+      missing.add(match[1]);
+      return value;
+    }
+    return secrets[match[1]];
+  };
+  return visit(data) as Record<string, unknown>;
+}
+
+// The graph with secret-looking values replaced by placeholders, as other
+// people see a public workflow
+export function redactWorkflowSecrets<T extends { nodes: WorkflowNode[] }>(graph: T): T {
+  const names = new Map<string, string>();
+  return { ...graph, nodes: graph.nodes.map(node => ({ ...node, data: extractSecrets(node, [], names) })) };
+}
+
+export function exportWorkflow(workflow: Pick<Workflow, 'name' | 'description' | 'metadata' | 'nodes' | 'edges'>): WorkflowFile {
+  const secrets: WorkflowFile['secrets'] = [];
+  const names = new Map<string, string>();
+  const nodes = workflow.nodes.map(node => ({ ...node, data: extractSecrets(node, secrets, names) }));
+  return {
+    format: WORKFLOW_FILE_FORMAT,
+    formatVersion: FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    workflow: {
+      name: workflow.name,
+      ...(workflow.description && { description: workflow.description }),
+      ...(workflow.metadata && { metadata: workflow.metadata }),
+      nodes,
+      edges: workflow.edges,
+    },
+    requires: { nodeTypes: Array.from(new Set(workflow.nodes.map(node => node.type))).sort() },
+    secrets,
+  };
+}
+
+// Validate a workflow file, migrating older formats, and turn it into a
+// graph ready to save. Ids are kept as in the file; saving gives them new
+// ones so imports never collide with existing nodes.
+export function importWorkflow(raw: unknown, secrets: Record<string, string> = {}): ImportedWorkflow {
+  let file: WorkflowFile;
+  try {
+    file = workflowFileSchema.parse(migrateWorkflowFile(raw));
+  } catch (error) {
+    if (error instanceof ZodError) {
+      throw new WorkflowFormatError('Invalid workflow file', formatValidationErrors(error));
+    }
+    throw error;
+  }
+
+  const supported = Object.keys(NODE_EXECUTORS);
+  const used = new Set([...file.requires.nodeTypes, ...file.workflow.nodes.map(node => node.type)]);
+  const unknown = Array.from(used).filter(type => !supported.includes(type));
+  if (unknown.length > 0) {
+    throw new WorkflowFormatError(
+      `Unknown node types: ${unknown.join(', ')}. Supported types are ${supported.join(', ')}`,
+      { 'requires.nodeTypes': unknown.map(type => `Unknown node type: ${type}`) }
+    );
+  }
+
+  const missing = new Set<string>();
+  const graph: WorkflowGraph = {
+    nodes: file.workflow.nodes.map(node => ({ ...node, data: fillSecrets(node.data, secrets, missing) })),
+    edges: file.workflow.edges.map(edge => ({
+      id: edge.id,
+      source: edge.source,
+      target: edge.target,
+      ...(edge.sourceHandle && { sourceHandle: edge.sourceHandle }),
+      ...(edge.targetHandle && { targetHandle: edge.targetHandle }),
+      ...(edge.type && { type: edge.type }),
+      ...(edge.data && { data: edge.data }),
+    })),
+    ...(file.workflow.metadata && { metadata: file.workflow.metadata }),
+  };
+  return {
+    name: file.workflow.name,
+    description: file.workflow.description,
+    graph,
+    missingSecrets: Array.from(missing),
+  };
+}
+
+// Download name such as `workflow-summarize-issues.json`
+export function exportFilename(name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60);
+  return `workflow${slug ? `-${slug}` : ''}.json`;
+}
@@ -0,0 +1,547 @@
+import crypto from 'crypto';
+import { Prisma, WorkflowTriggerType as PrismaTriggerType } from '@prisma/client';
+import { prisma } from './prisma';
+import { ClaudeClient, getClaudeClient } from './claude-client';
+import { UsageBudgetError, assertWithinBudget } from './usage';
+import { WorkflowRun, executeWorkflow, getWorkflowRunStore, validateWorkflowForRun } from './workflow-engine';
+import { getMatchingVersion } from './workflow-versions';
+import { Workflow, WorkflowError, WorkflowGraph, getWorkflowStore } from './workflows';
+
+// Triggers start a workflow without anyone pressing run. They come from the
+// workflow's trigger nodes and are registered each time it is saved:
+// - `schedule` nodes ({ cron }, evaluated in UTC) fire when the cron route
+//   is called at or after their next time
+// - `webhook` nodes each get a URL and signing secret
+// - `event` nodes ({ event, project? }) fire on internal events such as a
+//   Vercel deployment becoming ready
+// Identical schedule and event nodes of a workflow share one trigger. Each
+// firing is recorded under a dedupe key, so a retried delivery or repeated
+// event starts one run, and the run gets the payload as its input. The run
+// is recorded with the firing and executed afterwards, so callers can reply
+// before it finishes; one whose execution is lost is failed by
+// failStaleRuns.
+export type TriggerType = 'schedule' | 'webhook' | 'event';
+
+export const WORKFLOW_EVENTS = ['deployment.ready', 'deployment.error'] as const;
+
+export type WorkflowEventName = typeof WORKFLOW_EVENTS[number];
+
+export interface TriggerConfig {
+  cron?: string;
+  event?: WorkflowEventName;
+  // Only deployments of this Vercel project
+  project?: string;
+}
+
+export interface WorkflowTrigger {
+  id: string;
+  workflowId: string;
+  // Owner of the workflow; runs are started as them
+  userId: string;
+  type: TriggerType;
+  key: string;
+  // Trigger nodes that receive the payload
+  nodeIds: string[];
+  config: TriggerConfig;
+  // Webhook signing secret
+  secret?: string;
+  nextRunAt?: Date;
+  lastFiredAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type TriggerDefinition = Pick<WorkflowTrigger, 'type' | 'key' | 'nodeIds' | 'config'>;
+
+export interface TriggerFiring {
+  triggerId: string;
+  // A firing with the same dedupe key already happened; nothing was run
+  duplicate: boolean;
+  // The recorded run, running until `execute` finishes it
+  run?: WorkflowRun;
+  // Executes the run; resolves with it finished, failures included
+  execute?: () => Promise<WorkflowRun>;
+  // Why no run was started
+  error?: string;
+}
+
+// Schedule triggers fired per call of the cron route
+const MAX_DUE_PER_TICK = 20;
+
+const CRON_FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 },
+];
+
+const CRON_ALIASES: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+};
+
+// Far enough to reach a 29 February
+const MAX_CRON_LOOKAHEAD_MS = 8 * 366 * 24 * 60 * 60 * 1000;
+
+interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  anyDay: boolean;
+  anyWeekday: boolean;
+}
+
+function parseCronField(field: string, index: number, expression: string): Set<number> {
+  const { name, min, max } = CRON_FIELDS[index];
+  const values = new Set<number>();
+  for (const item of field.split(',')) {
+    const match = item.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    const start = match?.[1] === '*' ? min : Number(match?.[2]);
+    const end = match?.[1] === '*' || (match?.[4] && match[3] === undefined) ? max : Number(match?.[3] ?? start);
+    const step = Number(match?.[4] ?? 1);
+    if (!match || start < min || end > max || start > end || step < 1) {
+      throw new WorkflowError(`Invalid ${name} "${item}" in cron expression "${expression}"`, 400);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+// Standard five-field cron: minute hour day-of-month month day-of-week, with
+// `*`, lists, ranges and steps, plus @hourly, @daily, @weekly and @monthly
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const fields = (CRON_ALIASES[trimmed] ?? trimmed).split(/\s+/);
+  if (fields.length !== 5) {
+    throw new WorkflowError(`Invalid cron expression "${expression}": expected 5 fields`, 400);
+  }
+  const [minutes, hours, days, months, weekdays] = fields.map((field, index) => parseCronField(field, index, expression));
+  return {
+    minutes,
+    hours,
+    days,
+    months,
+    // 7 is Sunday as well as 0
+    weekdays: new Set(Array.from(weekdays).map(day => day % 7)),
+    anyDay: fields[2] === '*',
+    anyWeekday: fields[4] === '*',
+  };
+}
+
+// When both day fields are restricted a day matching either one runs, as in cron
+function dayMatches(schedule: CronSchedule, time: Date): boolean {
+  const day = schedule.days.has(time.getUTCDate());
+  const weekday = schedule.weekdays.has(time.getUTCDay());
+  if (!schedule.anyDay && !schedule.anyWeekday) {
+    return day || weekday;
+  }
+  return schedule.anyDay ? weekday : day;
+}
+
+// First minute after `after` the expression matches, in UTC
+export function nextCronTime(expression: string, after: Date): Date {
+  const schedule = parseCron(expression);
+  const time = new Date(after);
+  time.setUTCSeconds(0, 0);
+  time.setUTCMinutes(time.getUTCMinutes() + 1);
+
+  while (time.getTime() - after.getTime() <= MAX_CRON_LOOKAHEAD_MS) {
+    if (!schedule.months.has(time.getUTCMonth() + 1)) {
+      time.setUTCMonth(time.getUTCMonth() + 1, 1);
+      time.setUTCHours(0, 0, 0, 0);
+    } else if (!dayMatches(schedule, time)) {
+      time.setUTCDate(time.getUTCDate() + 1);
+      time.setUTCHours(0, 0, 0, 0);
+    } else if (!schedule.hours.has(time.getUTCHours())) {
+      time.setUTCHours(time.getUTCHours() + 1, 0, 0, 0);
+    } else if (!schedule.minutes.has(time.getUTCMinutes())) {
+      time.setUTCMinutes(time.getUTCMinutes() + 1, 0, 0);
+    } else {
+      return time;
+    }
+  }
+  throw new WorkflowError(`Cron expression "${expression}" never matches`, 400);
+}
+
+function isWorkflowEvent(value: unknown): value is WorkflowEventName {
+  return typeof value === 'string' && (WORKFLOW_EVENTS as readonly string[]).includes(value);
+}
+
+// The triggers a graph's trigger nodes define; throws a 400 WorkflowError
+// for a node with an invalid cron expression or event
+export function triggersFromWorkflow(graph: Pick<WorkflowGraph, 'nodes'>): TriggerDefinition[] {
+  const triggers = new Map<string, TriggerDefinition>();
+  for (const node of graph.nodes) {
+    let definition: Omit<TriggerDefinition, 'nodeIds'>;
+    if (node.type === 'schedule') {
+      const cron = typeof node.data.cron === 'string' ? node.data.cron.trim() : '';
+      if (!cron) {
+        throw new WorkflowError(`Schedule node ${node.id} needs a cron expression`, 400);
+      }
+      parseCron(cron);
+      definition = { type: 'schedule', key: `schedule:${cron}`, config: { cron } };
+    } else if (node.type === 'event') {
+      if (!isWorkflowEvent(node.data.event)) {
+        throw new WorkflowError(`Event node ${node.id} needs an event: ${WORKFLOW_EVENTS.join(', ')}`, 400);
+      }
+      const project = typeof node.data.project === 'string' && node.data.project.trim() ? node.data.project.trim() : undefined;
+      definition = {
+        type: 'event',
+        key: `event:${node.data.event}:${project ?? '*'}`,
+        config: { event: node.data.event, ...(project && { project }) },
+      };
+    } else if (node.type === 'webhook') {
+      // Every webhook node has its own URL
+      definition = { type: 'webhook', key: `webhook:${node.id}`, config: {} };
+    } else {
+      continue;
+    }
+
+    const existing = triggers.get(definition.key);
+    if (existing) {
+      existing.nodeIds.push(node.id);
+    } else {
+      triggers.set(definition.key, { ...definition, nodeIds: [node.id] });
+    }
+  }
+  return Array.from(triggers.values());
+}
+
+export interface WorkflowTriggerStore {
+  // Replace a workflow's triggers; those whose key is unchanged keep their
+  // id, webhook secret and next scheduled time
+  sync(workflowId: string, userId: string, definitions: TriggerDefinition[], now: Date): Promise<WorkflowTrigger[]>;
+  list(workflowId: string, userId: string): Promise<WorkflowTrigger[]>;
+  get(id: string): Promise<WorkflowTrigger | null>;
+  listForEvent(userId: string, event: WorkflowEventName): Promise<WorkflowTrigger[]>;
+  // Schedule triggers due at `now`, each moved on to its next time so only
+  // one caller claims it
+  claimDue(now: Date, limit: number): Promise<Array<{ trigger: WorkflowTrigger; dueAt: Date }>>;
+  // Null when a firing with this dedupe key was already recorded
+  recordFiring(triggerId: string, dedupeKey: string): Promise<string | null>;
+  finishFiring(firingId: string, result: { runId?: string; error?: string }): Promise<void>;
+}
+
+function generateId(prefix: string): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+function generateSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+}
+
+// Fields set when a trigger is first registered
+function initialState(definition: TriggerDefinition, now: Date): Pick<WorkflowTrigger, 'secret' | 'nextRunAt'> {
+  return {
+    ...(definition.type === 'webhook' && { secret: generateSecret() }),
+    ...(definition.type === 'schedule' && { nextRunAt: nextCronTime(definition.config.cron!, now) }),
+  };
+}
+
+// Process-local store, used when no database is configured
+export class InMemoryWorkflowTriggerStore implements WorkflowTriggerStore {
+  private triggers: Map<string, WorkflowTrigger> = new Map();
+  private firings: Map<string, { id: string; triggerId: string; dedupeKey: string; runId?: string; error?: string }> = new Map();
+
+  async sync(workflowId: string, userId: string, definitions: TriggerDefinition[], now: Date): Promise<WorkflowTrigger[]> {
+    const existing = Array.from(this.triggers.values()).filter(trigger => trigger.workflowId === workflowId);
+    const keys = new Set(definitions.map(definition => definition.key));
+    for (const trigger of existing.filter(trigger => !keys.has(trigger.key))) {
+      this.triggers.delete(trigger.id);
+    }
+
+    return definitions.map(definition => {
+      const current = existing.find(trigger => trigger.key === definition.key);
+      const trigger: WorkflowTrigger = current
+        ? { ...current, ...structuredClone(definition), updatedAt: now }
+        : {
+            id: generateId('wft'),
+            workflowId,
+            userId,
+            ...structuredClone(definition),
+            ...initialState(definition, now),
+            createdAt: now,
+            updatedAt: now,
+          };
+      this.triggers.set(trigger.id, trigger);
+      return structuredClone(trigger);
+    });
+  }
+
+  async list(workflowId: string, userId: string): Promise<WorkflowTrigger[]> {
+    return Array.from(this.triggers.values())
+      .filter(trigger => trigger.workflowId === workflowId && trigger.userId === userId)
+      .map(trigger => structuredClone(trigger));
+  }
+
+  async get(id: string): Promise<WorkflowTrigger | null> {
+    const trigger = this.triggers.get(id);
+    return trigger ? structuredClone(trigger) : null;
+  }
+
+  async listForEvent(userId: string, event: WorkflowEventName): Promise<WorkflowTrigger[]> {
+    return Array.from(this.triggers.values())
+      .filter(trigger => trigger.userId === userId && trigger.type === 'event' && trigger.config.event === event)
+      .map(trigger => structuredClone(trigger));
+  }
+
+  async claimDue(now: Date, limit: number): Promise<Array<{ trigger: WorkflowTrigger; dueAt: Date }>> {
+    const due = Array.from(this.triggers.values())
+      .filter(trigger => trigger.type === 'schedule' && trigger.nextRunAt && trigger.nextRunAt <= now)
+      .sort((a, b) => a.nextRunAt!.getTime() - b.nextRunAt!.getTime())
+      .slice(0, limit);
+    return due.map(trigger => {
+      const dueAt = trigger.nextRunAt!;
+      trigger.nextRunAt = nextCronTime(trigger.config.cron!, now);
+      return { trigger: structuredClone(trigger), dueAt };
+    });
+  }
+
+  async recordFiring(triggerId: string, dedupeKey: string): Promise<string | null> {
+    const key = `${triggerId}:${dedupeKey}`;
+    if (this.firings.has(key)) {
+      return null;
+    }
+    const id = generateId('wff');
+    this.firings.set(key, { id, triggerId, dedupeKey });
+    const trigger = this.triggers.get(triggerId);
+    if (trigger) {
+      trigger.lastFiredAt = new Date();
+    }
+    return id;
+  }
+
+  async finishFiring(firingId: string, result: { runId?: string; error?: string }): Promise<void> {
+    const firing = Array.from(this.firings.values()).find(entry => entry.id === firingId);
+    if (firing) {
+      Object.assign(firing, result);
+    }
+  }
+}
+
+type TriggerRow = Prisma.WorkflowTriggerGetPayload<object>;
+
+function toTrigger(row: TriggerRow): WorkflowTrigger {
+  return {
+    id: row.id,
+    workflowId: row.workflowId,
+    userId: row.userId,
+    type: row.type.toLowerCase() as TriggerType,
+    key: row.key,
+    nodeIds: row.nodeIds,
+    config: row.config as TriggerConfig,
+    secret: row.secret ?? undefined,
+    nextRunAt: row.nextRunAt ?? undefined,
+    lastFiredAt: row.lastFiredAt ?? undefined,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+// Durable store backed by the WorkflowTrigger and WorkflowTriggerFiring tables
+export class PrismaWorkflowTriggerStore implements WorkflowTriggerStore {
+  async sync(workflowId: string, userId: string, definitions: TriggerDefinition[], now: Date): Promise<WorkflowTrigger[]> {
+    const rows = await prisma.$transaction(async (tx) => {
+      await tx.workflowTrigger.deleteMany({
+        where: { workflowId, key: { notIn: definitions.map(definition => definition.key) } },
+      });
+      const existing = new Set(
+        (await tx.workflowTrigger.findMany({ where: { workflowId }, select: { key: true } })).map(row => row.key)
+      );
+      return Promise.all(definitions.map(definition => {
+        const data = { nodeIds: definition.nodeIds, config: definition.config as Prisma.InputJsonValue };
+        return existing.has(definition.key)
+          ? tx.workflowTrigger.update({ where: { workflowId_key: { workflowId, key: definition.key } }, data })
+          : tx.workflowTrigger.create({
+              data: {
+                ...data,
+                ...initialState(definition, now),
+                workflowId,
+                userId,
+                type: definition.type.toUpperCase() as PrismaTriggerType,
+                key: definition.key,
+              },
+            });
+      }));
+    });
+    return rows.map(toTrigger);
+  }
+
+  async list(workflowId: string, userId: string): Promise<WorkflowTrigger[]> {
+    const rows = await prisma.workflowTrigger.findMany({ where: { workflowId, userId }, orderBy: { createdAt: 'asc' } });
+    return rows.map(toTrigger);
+  }
+
+  async get(id: string): Promise<WorkflowTrigger | null> {
+    const row = await prisma.workflowTrigger.findUnique({ where: { id } });
+    return row ? toTrigger(row) : null;
+  }
+
+  async listForEvent(userId: string, event: WorkflowEventName): Promise<WorkflowTrigger[]> {
+    const rows = await prisma.workflowTrigger.findMany({
+      where: { userId, type: 'EVENT', config: { path: ['event'], equals: event } },
+    });
+    return rows.map(toTrigger);
+  }
+
+  async claimDue(now: Date, limit: number): Promise<Array<{ trigger: WorkflowTrigger; dueAt: Date }>> {
+    const due = await prisma.workflowTrigger.findMany({
+      where: { type: 'SCHEDULE', nextRunAt: { lte: now } },
+      orderBy: { nextRunAt: 'asc' },
+      take: limit,
+    });
+    const claimed: Array<{ trigger: WorkflowTrigger; dueAt: Date }> = [];
+    for (const row of due) {
+      const trigger = toTrigger(row);
+      const nextRunAt = nextCronTime(trigger.config.cron!, now);
+      // Only the caller that still sees the old time moves it on
+      const { count } = await prisma.workflowTrigger.updateMany({
+        where: { id: row.id, nextRunAt: row.nextRunAt },
+        data: { nextRunAt },
+      });
+      if (count === 1) {
+        claimed.push({ trigger: { ...trigger, nextRunAt }, dueAt: row.nextRunAt! });
+      }
+    }
+    return claimed;
+  }
+
+  async recordFiring(triggerId: string, dedupeKey: string): Promise<string | null> {
+    try {
+      const [firing] = await prisma.$transaction([
+        prisma.workflowTriggerFiring.create({ data: { triggerId, dedupeKey } }),
+        prisma.workflowTrigger.update({ where: { id: triggerId }, data: { lastFiredAt: new Date() } }),
+      ]);
+      return firing.id;
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async finishFiring(firingId: string, result: { runId?: string; error?: string }): Promise<void> {
+    await prisma.workflowTriggerFiring.update({ where: { id: firingId }, data: result });
+  }
+}
+
+let storeInstance: WorkflowTriggerStore | null = null;
+
+export function getWorkflowTriggerStore(): WorkflowTriggerStore {
+  if (!storeInstance) {
+    storeInstance = process.env.DATABASE_URL
+      ? new PrismaWorkflowTriggerStore()
+      : new InMemoryWorkflowTriggerStore();
+  }
+  return storeInstance;
+}
+
+// Register a saved workflow's triggers, replacing those of its previous graph
+export async function syncWorkflowTriggers(workflow: Workflow): Promise<WorkflowTrigger[]> {
+  return getWorkflowTriggerStore().sync(workflow.id, workflow.userId, triggersFromWorkflow(workflow), new Date());
+}
+
+export async function removeWorkflowTriggers(workflowId: string, userId: string): Promise<void> {
+  await getWorkflowTriggerStore().sync(workflowId, userId, [], new Date());
+}
+
+// Record a run of the trigger's workflow with `payload` as input, unless a
+// firing with the same dedupe key already happened. The run is executed by
+// the firing's `execute`. Failures to start are recorded on the firing
+// rather than thrown.
+export async function fireTrigger(trigger: WorkflowTrigger, payload: unknown, dedupeKey: string): Promise<TriggerFiring> {
+  const store = getWorkflowTriggerStore();
+  const firingId = await store.recordFiring(trigger.id, dedupeKey);
+  if (!firingId) {
+    return { triggerId: trigger.id, duplicate: true };
+  }
+
+  try {
+    const workflow = await getWorkflowStore().get(trigger.workflowId, trigger.userId);
+    if (!workflow) {
+      throw new WorkflowError('Workflow not found', 404);
+    }
+    validateWorkflowForRun(workflow);
+
+    // AI nodes need a client and count against the owner's budget
+    let client: ClaudeClient | undefined;
+    if (workflow.nodes.some(node => node.type === 'ai')) {
+      const apiKey = process.env.ANTHROPIC_API_KEY;
+      if (!apiKey) {
+        throw new WorkflowError('API key not configured', 500);
+      }
+      client = getClaudeClient(apiKey);
+      await assertWithinBudget(trigger.userId);
+    }
+
+    const version = await getMatchingVersion(workflow);
+    const runStore = getWorkflowRunStore();
+    const run = await runStore.create({
+      workflowId: workflow.id,
+      ...(version !== undefined && { version }),
+      triggerId: trigger.id,
+      userId: trigger.userId,
+      input: payload,
+    });
+    await store.finishFiring(firingId, { runId: run.id });
+
+    const options = { userId: trigger.userId, input: payload, trigger: { id: trigger.id, nodeIds: trigger.nodeIds }, client, run };
+    const execute = () => executeWorkflow(workflow, options).catch(error => {
+      console.error(`Workflow run ${run.id} failed:`, error);
+      return runStore.finish(run.id, { status: 'failed', error: error instanceof Error ? error.message : String(error) });
+    });
+    return { triggerId: trigger.id, duplicate: false, run, execute };
+  } catch (error) {
+    const message = error instanceof UsageBudgetError
+      ? 'Monthly token budget exceeded'
+      : error instanceof Error ? error.message : String(error);
+    console.error(`Workflow trigger ${trigger.id} failed to start:`, message);
+    await store.finishFiring(firingId, { error: message });
+    return { triggerId: trigger.id, duplicate: false, error: message };
+  }
+}
+
+// Execute the runs of several firings side by side
+export async function executeFirings(firings: TriggerFiring[]): Promise<void> {
+  await Promise.all(firings.map(firing => firing.execute?.()));
+}
+
+// Fire the schedule triggers that are due, recording their runs. Missed
+// times are not caught up: a trigger fires once and moves on to its next
+// time after `now`.
+export async function runDueSchedules(now: Date = new Date()): Promise<TriggerFiring[]> {
+  const due = await getWorkflowTriggerStore().claimDue(now, MAX_DUE_PER_TICK);
+  const firings: TriggerFiring[] = [];
+  for (const { trigger, dueAt } of due) {
+    const payload = { trigger: 'schedule', cron: trigger.config.cron, scheduledAt: dueAt.toISOString(), firedAt: now.toISOString() };
+    firings.push(await fireTrigger(trigger, payload, `schedule:${dueAt.toISOString()}`));
+  }
+  return firings;
+}
+
+// Fire the user's triggers for an internal event, recording their runs.
+// `dedupeKey` identifies the occurrence, e.g. a deployment id and state.
+export async function emitWorkflowEvent(
+  userId: string,
+  event: WorkflowEventName,
+  data: { project?: string } & Record<string, unknown>,
+  dedupeKey: string
+): Promise<TriggerFiring[]> {
+  const triggers = await getWorkflowTriggerStore().listForEvent(userId, event);
+  const firings: TriggerFiring[] = [];
+  for (const trigger of triggers) {
+    if (trigger.config.project && trigger.config.project !== data.project) {
+      continue;
+    }
+    firings.push(await fireTrigger(trigger, { trigger: 'event', event, data }, `event:${dedupeKey}`));
+  }
+  return firings;
+}
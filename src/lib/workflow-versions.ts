@@ -0,0 +1,379 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import {
+  Workflow,
+  WorkflowEdge,
+  WorkflowError,
+  WorkflowGraph,
+  WorkflowNode,
+  getWorkflowStore,
+} from './workflows';
+import { redactWorkflowSecrets } from './workflow-format';
+
+// Saved versions of a workflow. Saving a version snapshots the current
+// graph and canvas metadata; versions are never changed afterwards. Nodes
+// and edges keep their ids across saves, so two versions can be compared
+// node by node.
+export interface WorkflowVersion {
+  id: string;
+  workflowId: string;
+  version: number;
+  label?: string;
+  snapshot: WorkflowGraph;
+  createdById: string;
+  createdAt: Date;
+}
+
+export type WorkflowVersionSummary = Omit<WorkflowVersion, 'snapshot'> & {
+  nodeCount: number;
+  edgeCount: number;
+};
+
+export interface FieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+type EdgeEnds = Pick<WorkflowEdge, 'source' | 'target' | 'sourceHandle' | 'targetHandle'>;
+
+export interface WorkflowDiff {
+  nodes: {
+    added: WorkflowNode[];
+    removed: WorkflowNode[];
+    moved: Array<{ id: string; from: WorkflowNode['position']; to: WorkflowNode['position'] }>;
+    // Changed `type` or top-level `data` fields
+    changed: Array<{ id: string; changes: FieldChange[] }>;
+  };
+  edges: {
+    added: WorkflowEdge[];
+    removed: WorkflowEdge[];
+    rewired: Array<{ id: string; from: EdgeEnds; to: EdgeEnds }>;
+    // Changed `type` or `data` fields
+    changed: Array<{ id: string; changes: FieldChange[] }>;
+  };
+  metadataChanged: boolean;
+}
+
+const MAX_LABEL_LENGTH = 200;
+
+// Versions a run's graph is compared with to find the one it matches
+const MATCH_RECENT_VERSIONS = 10;
+
+export interface WorkflowVersionStore {
+  // Numbered one after the workflow's latest version
+  create(workflowId: string, userId: string, snapshot: WorkflowGraph, label?: string): Promise<WorkflowVersion>;
+  get(workflowId: string, version: number): Promise<WorkflowVersion | null>;
+  // Newest first, with their snapshots
+  recent(workflowId: string, limit: number): Promise<WorkflowVersion[]>;
+  // Newest first
+  list(workflowId: string): Promise<WorkflowVersionSummary[]>;
+}
+
+function generateId(): string {
+  return `wfv_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+function toSummary({ snapshot, ...version }: WorkflowVersion): WorkflowVersionSummary {
+  return { ...version, nodeCount: snapshot.nodes.length, edgeCount: snapshot.edges.length };
+}
+
+// Process-local store, used when no database is configured
+export class InMemoryWorkflowVersionStore implements WorkflowVersionStore {
+  private versions: Map<string, WorkflowVersion[]> = new Map();
+
+  async create(workflowId: string, userId: string, snapshot: WorkflowGraph, label?: string): Promise<WorkflowVersion> {
+    const versions = this.versions.get(workflowId) ?? [];
+    const saved: WorkflowVersion = {
+      id: generateId(),
+      workflowId,
+      version: versions.length + 1,
+      ...(label && { label }),
+      snapshot: structuredClone(snapshot),
+      createdById: userId,
+      createdAt: new Date(),
+    };
+    this.versions.set(workflowId, [...versions, saved]);
+    return structuredClone(saved);
+  }
+
+  async get(workflowId: string, version: number): Promise<WorkflowVersion | null> {
+    const saved = this.versions.get(workflowId)?.find(entry => entry.version === version);
+    return saved ? structuredClone(saved) : null;
+  }
+
+  async recent(workflowId: string, limit: number): Promise<WorkflowVersion[]> {
+    return structuredClone((this.versions.get(workflowId) ?? []).slice(-limit).reverse());
+  }
+
+  async list(workflowId: string): Promise<WorkflowVersionSummary[]> {
+    return (this.versions.get(workflowId) ?? []).map(toSummary).reverse();
+  }
+}
+
+type VersionRow = Prisma.WorkflowVersionGetPayload<object>;
+
+function toVersion(row: VersionRow): WorkflowVersion {
+  return {
+    id: row.id,
+    workflowId: row.workflowId,
+    version: row.version,
+    label: row.label ?? undefined,
+    snapshot: row.snapshot as unknown as WorkflowGraph,
+    createdById: row.createdById,
+    createdAt: row.createdAt,
+  };
+}
+
+// Durable store backed by the WorkflowVersion table
+export class PrismaWorkflowVersionStore implements WorkflowVersionStore {
+  async create(workflowId: string, userId: string, snapshot: WorkflowGraph, label?: string): Promise<WorkflowVersion> {
+    // The unique (workflowId, version) index rejects a concurrent save of the same number
+    const row = await prisma.$transaction(async (tx) => {
+      const latest = await tx.workflowVersion.findFirst({
+        where: { workflowId },
+        orderBy: { version: 'desc' },
+        select: { version: true },
+      });
+      return tx.workflowVersion.create({
+        data: {
+          workflowId,
+          version: (latest?.version ?? 0) + 1,
+          label,
+          snapshot: snapshot as unknown as Prisma.InputJsonValue,
+          createdById: userId,
+        },
+      });
+    });
+    return toVersion(row);
+  }
+
+  async get(workflowId: string, version: number): Promise<WorkflowVersion | null> {
+    const row = await prisma.workflowVersion.findUnique({ where: { workflowId_version: { workflowId, version } } });
+    return row ? toVersion(row) : null;
+  }
+
+  async recent(workflowId: string, limit: number): Promise<WorkflowVersion[]> {
+    const rows = await prisma.workflowVersion.findMany({ where: { workflowId }, orderBy: { version: 'desc' }, take: limit });
+    return rows.map(toVersion);
+  }
+
+  async list(workflowId: string): Promise<WorkflowVersionSummary[]> {
+    const rows = await prisma.workflowVersion.findMany({ where: { workflowId }, orderBy: { version: 'desc' } });
+    return rows.map(row => toSummary(toVersion(row)));
+  }
+}
+
+let storeInstance: WorkflowVersionStore | null = null;
+
+export function getWorkflowVersionStore(): WorkflowVersionStore {
+  if (!storeInstance) {
+    storeInstance = process.env.DATABASE_URL
+      ? new PrismaWorkflowVersionStore()
+      : new InMemoryWorkflowVersionStore();
+  }
+  return storeInstance;
+}
+
+function sameJson(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function fieldChanges(from: Record<string, unknown> = {}, to: Record<string, unknown> = {}): FieldChange[] {
+  const fields = Array.from(new Set([...Object.keys(from), ...Object.keys(to)]));
+  return fields
+    .filter(field => !sameJson(from[field], to[field]))
+    .map(field => ({ field, from: from[field], to: to[field] }));
+}
+
+function edgeEnds(edge: WorkflowEdge): EdgeEnds {
+  return {
+    source: edge.source,
+    target: edge.target,
+    ...(edge.sourceHandle && { sourceHandle: edge.sourceHandle }),
+    ...(edge.targetHandle && { targetHandle: edge.targetHandle }),
+  };
+}
+
+// What changed from one graph to another, matching nodes and edges by id
+export function diffWorkflowGraphs(from: WorkflowGraph, to: WorkflowGraph): WorkflowDiff {
+  const fromNodes = new Map(from.nodes.map(node => [node.id, node]));
+  const toNodes = new Map(to.nodes.map(node => [node.id, node]));
+  const fromEdges = new Map(from.edges.map(edge => [edge.id, edge]));
+  const toEdges = new Map(to.edges.map(edge => [edge.id, edge]));
+
+  const diff: WorkflowDiff = {
+    nodes: {
+      added: to.nodes.filter(node => !fromNodes.has(node.id)),
+      removed: from.nodes.filter(node => !toNodes.has(node.id)),
+      moved: [],
+      changed: [],
+    },
+    edges: {
+      added: to.edges.filter(edge => !fromEdges.has(edge.id)),
+      removed: from.edges.filter(edge => !toEdges.has(edge.id)),
+      rewired: [],
+      changed: [],
+    },
+    metadataChanged: !sameJson(from.metadata, to.metadata),
+  };
+
+  for (const node of to.nodes) {
+    const before = fromNodes.get(node.id);
+    if (!before) {
+      continue;
+    }
+    if (before.position.x !== node.position.x || before.position.y !== node.position.y) {
+      diff.nodes.moved.push({ id: node.id, from: before.position, to: node.position });
+    }
+    const changes = [
+      ...(before.type !== node.type ? [{ field: 'type', from: before.type, to: node.type }] : []),
+      ...fieldChanges(before.data, node.data).map(change => ({ ...change, field: `data.${change.field}` })),
+    ];
+    if (changes.length > 0) {
+      diff.nodes.changed.push({ id: node.id, changes });
+    }
+  }
+
+  for (const edge of to.edges) {
+    const before = fromEdges.get(edge.id);
+    if (!before) {
+      continue;
+    }
+    if (!sameJson(edgeEnds(before), edgeEnds(edge))) {
+      diff.edges.rewired.push({ id: edge.id, from: edgeEnds(before), to: edgeEnds(edge) });
+    }
+    const changes = [
+      ...((before.type || 'default') !== (edge.type || 'default') ? [{ field: 'type', from: before.type, to: edge.type }] : []),
+      ...fieldChanges(before.data, edge.data).map(change => ({ ...change, field: `data.${change.field}` })),
+    ];
+    if (changes.length > 0) {
+      diff.edges.changed.push({ id: edge.id, changes });
+    }
+  }
+  return diff;
+}
+
+export function isEmptyDiff(diff: WorkflowDiff): boolean {
+  return (
+    !diff.metadataChanged &&
+    Object.values(diff.nodes).every(list => list.length === 0) &&
+    Object.values(diff.edges).every(list => list.length === 0)
+  );
+}
+
+function toGraph(workflow: Workflow): WorkflowGraph {
+  return {
+    nodes: workflow.nodes,
+    edges: workflow.edges,
+    ...(workflow.metadata && { metadata: workflow.metadata }),
+  };
+}
+
+// A workflow the user may change; public workflows of others are refused
+async function getOwnedWorkflow(workflowId: string, userId: string): Promise<Workflow> {
+  const workflow = await getWorkflowStore().get(workflowId, userId);
+  if (!workflow) {
+    throw new WorkflowError('Workflow not found', 404);
+  }
+  if (workflow.userId !== userId) {
+    throw new WorkflowError('Only the owner can change this workflow', 403);
+  }
+  return workflow;
+}
+
+export function parseVersionLabel(value: unknown): string | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  if (typeof value !== 'string' || value.length > MAX_LABEL_LENGTH) {
+    throw new WorkflowError(`label must be a string of up to ${MAX_LABEL_LENGTH} characters`, 400);
+  }
+  return value.trim() || undefined;
+}
+
+// Snapshot the workflow's saved graph as its next version
+export async function saveWorkflowVersion(workflowId: string, userId: string, label?: string): Promise<WorkflowVersion> {
+  const workflow = await getOwnedWorkflow(workflowId, userId);
+  return getWorkflowVersionStore().create(workflowId, userId, toGraph(workflow), label);
+}
+
+// Versions of a workflow the user can open
+export async function listWorkflowVersions(workflowId: string, userId: string): Promise<WorkflowVersionSummary[] | null> {
+  const workflow = await getWorkflowStore().get(workflowId, userId);
+  return workflow ? getWorkflowVersionStore().list(workflowId) : null;
+}
+
+// Secrets in a public workflow's versions are only shown to its owner
+export async function getWorkflowVersion(workflowId: string, userId: string, version: number): Promise<WorkflowVersion | null> {
+  const workflow = await getWorkflowStore().get(workflowId, userId);
+  const saved = workflow ? await getWorkflowVersionStore().get(workflowId, version) : null;
+  if (!saved || workflow!.userId === userId) {
+    return saved;
+  }
+  return { ...saved, snapshot: redactWorkflowSecrets(saved.snapshot) };
+}
+
+// Compare two versions, or a version with the current graph when `to` is unset
+export async function diffWorkflowVersions(
+  workflowId: string,
+  userId: string,
+  from: number,
+  to?: number
+): Promise<WorkflowDiff> {
+  const workflow = await getWorkflowStore().get(workflowId, userId);
+  if (!workflow) {
+    throw new WorkflowError('Workflow not found', 404);
+  }
+  const store = getWorkflowVersionStore();
+  const [before, after] = await Promise.all([store.get(workflowId, from), to === undefined ? null : store.get(workflowId, to)]);
+  if (!before || (to !== undefined && !after)) {
+    throw new WorkflowError(`Version ${before ? to : from} not found`, 404);
+  }
+  const visible = (graph: WorkflowGraph) => (workflow.userId === userId ? graph : redactWorkflowSecrets(graph));
+  return diffWorkflowGraphs(visible(before.snapshot), visible(after ? after.snapshot : toGraph(workflow)));
+}
+
+// Make a past version the current graph. Node and edge ids are those of
+// the version, so the restored graph compares cleanly with it.
+export async function restoreWorkflowVersion(workflowId: string, userId: string, version: number): Promise<Workflow> {
+  await getOwnedWorkflow(workflowId, userId);
+  const saved = await getWorkflowVersionStore().get(workflowId, version);
+  if (!saved) {
+    throw new WorkflowError(`Version ${version} not found`, 404);
+  }
+  const restored = await getWorkflowStore().saveGraph(workflowId, userId, saved.snapshot, { keepIds: true });
+  if (!restored) {
+    throw new WorkflowError('Workflow not found', 404);
+  }
+  return restored.workflow;
+}
+
+// Start a new workflow of the user's own from a version of any workflow
+// they can open, including other people's public workflows (without their
+// secrets)
+export async function forkWorkflowVersion(
+  workflowId: string,
+  userId: string,
+  version: number,
+  name?: string
+): Promise<Workflow> {
+  const workflow = await getWorkflowStore().get(workflowId, userId);
+  const saved = workflow ? await getWorkflowVersionStore().get(workflowId, version) : null;
+  if (!workflow || !saved) {
+    throw new WorkflowError(workflow ? `Version ${version} not found` : 'Workflow not found', 404);
+  }
+  const { workflow: fork } = await getWorkflowStore().create(userId, {
+    name: name || `${workflow.name} (v${version})`,
+    description: workflow.description,
+    ...(workflow.userId === userId ? saved.snapshot : redactWorkflowSecrets(saved.snapshot)),
+  });
+  return fork;
+}
+
+// The most recent version the workflow's current graph is identical to
+// (e.g. after saving or restoring it), so a run can record what it executed
+export async function getMatchingVersion(workflow: Workflow): Promise<number | undefined> {
+  const versions = await getWorkflowVersionStore().recent(workflow.id, MATCH_RECENT_VERSIONS);
+  return versions.find(saved => isEmptyDiff(diffWorkflowGraphs(saved.snapshot, toGraph(workflow))))?.version;
+}
@@ -1,7 +1,19 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+
+// Canvas workflows: a graph of typed nodes joined by edges. Edges connect
+// named handles on their nodes (e.g. an `error` output) and may carry data.
+// A workflow belongs to its creator; public workflows can be opened, but
+// not changed, by everyone.
 export interface Workflow {
   id: string;
+  userId: string;
+  projectId?: string;
   name: string;
   description?: string;
+  isPublic: boolean;
+  // Canvas state such as the viewport and zoom
+  metadata?: Record<string, unknown>;
   nodes: WorkflowNode[];
   edges: WorkflowEdge[];
   createdAt: Date;
@@ -12,35 +24,558 @@ export interface WorkflowNode {
   id: string;
   type: string;
   position: { x: number; y: number };
-  data: any;
+  data: Record<string, unknown>;
 }
 
 export interface WorkflowEdge {
   id: string;
   source: string;
   target: string;
+  sourceHandle?: string;
+  targetHandle?: string;
   type?: string;
+  data?: Record<string, unknown>;
 }
 
-export async function getWorkflows(): Promise<Workflow[]> {
-  return [];
-}
+// A workflow in a listing, without its graph
+export type WorkflowSummary = Omit<Workflow, 'nodes' | 'edges'> & {
+  nodeCount: number;
+  edgeCount: number;
+};
 
-export async function getWorkflowById(id: string): Promise<Workflow | null> {
-  return null;
+export interface WorkflowGraph {
+  nodes: WorkflowNode[];
+  edges: WorkflowEdge[];
+  metadata?: Record<string, unknown>;
 }
 
-export async function createWorkflow(data: {
+export interface CreateWorkflowData extends Partial<WorkflowGraph> {
   name: string;
   description?: string;
-}): Promise<Workflow> {
+  projectId?: string;
+  isPublic?: boolean;
+}
+
+export type UpdateWorkflowData = Partial<Pick<CreateWorkflowData, 'name' | 'description' | 'isPublic'>>;
+
+// New nodes and edges are given server ids; `idMap` maps the ids the
+// client sent to the saved ones
+export interface SavedWorkflowGraph {
+  workflow: Workflow;
+  idMap: Record<string, string>;
+}
+
+export class WorkflowError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'WorkflowError';
+  }
+}
+
+const MAX_NODES = 500;
+const MAX_EDGES = 2000;
+
+function isString(value: unknown, maxLength: number): value is string {
+  return typeof value === 'string' && value.trim().length > 0 && value.length <= maxLength;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function parseNode(value: unknown): WorkflowNode {
+  const node = isRecord(value) ? value : {};
+  const position = isRecord(node.position) ? node.position : {};
+  if (
+    !isString(node.id, 200) ||
+    !isString(node.type, 100) ||
+    typeof position.x !== 'number' || !Number.isFinite(position.x) ||
+    typeof position.y !== 'number' || !Number.isFinite(position.y) ||
+    (node.data !== undefined && !isRecord(node.data))
+  ) {
+    throw new WorkflowError('Each node needs an id, a type and a position { x, y }', 400);
+  }
+  return { id: node.id, type: node.type, position: { x: position.x, y: position.y }, data: (node.data as Record<string, unknown>) ?? {} };
+}
+
+function parseEdge(value: unknown): WorkflowEdge {
+  const edge = isRecord(value) ? value : {};
+  const optional = (field: string) => edge[field] === undefined || edge[field] === null || isString(edge[field], 200);
+  if (
+    !isString(edge.id, 200) ||
+    !isString(edge.source, 200) ||
+    !isString(edge.target, 200) ||
+    !optional('sourceHandle') || !optional('targetHandle') || !optional('type') ||
+    (edge.data !== undefined && edge.data !== null && !isRecord(edge.data))
+  ) {
+    throw new WorkflowError('Each edge needs an id, a source and a target', 400);
+  }
   return {
-    id: Math.random().toString(36).substr(2, 9),
-    name: data.name,
-    description: data.description,
-    nodes: [],
-    edges: [],
-    createdAt: new Date(),
-    updatedAt: new Date(),
+    id: edge.id,
+    source: edge.source,
+    target: edge.target,
+    ...(edge.sourceHandle && { sourceHandle: edge.sourceHandle as string }),
+    ...(edge.targetHandle && { targetHandle: edge.targetHandle as string }),
+    ...(edge.type && { type: edge.type as string }),
+    ...(edge.data && { data: edge.data as Record<string, unknown> }),
+  };
+}
+
+// Validate a graph from a request body: ids must be unique and every edge
+// must join two nodes of the graph
+export function parseWorkflowGraph(body: Record<string, unknown>): WorkflowGraph {
+  const { nodes = [], edges = [], metadata } = body;
+  if (!Array.isArray(nodes) || nodes.length > MAX_NODES) {
+    throw new WorkflowError(`nodes must be a list of up to ${MAX_NODES} nodes`, 400);
+  }
+  if (!Array.isArray(edges) || edges.length > MAX_EDGES) {
+    throw new WorkflowError(`edges must be a list of up to ${MAX_EDGES} edges`, 400);
+  }
+  if (metadata !== undefined && !isRecord(metadata)) {
+    throw new WorkflowError('metadata must be an object', 400);
+  }
+
+  const graph: WorkflowGraph = {
+    nodes: nodes.map(parseNode),
+    edges: edges.map(parseEdge),
+    ...(metadata !== undefined && { metadata: metadata as Record<string, unknown> }),
   };
+
+  const nodeIds = new Set(graph.nodes.map(node => node.id));
+  if (nodeIds.size !== graph.nodes.length) {
+    throw new WorkflowError('Node ids must be unique', 400);
+  }
+  if (new Set(graph.edges.map(edge => edge.id)).size !== graph.edges.length) {
+    throw new WorkflowError('Edge ids must be unique', 400);
+  }
+  const dangling = graph.edges.find(edge => !nodeIds.has(edge.source) || !nodeIds.has(edge.target));
+  if (dangling) {
+    throw new WorkflowError(`Edge ${dangling.id} must connect two nodes of the workflow`, 400);
+  }
+  return graph;
+}
+
+// Validate a request body for creating (or, when `partial`, updating) a workflow
+export function parseWorkflowData(body: Record<string, unknown>, partial: true): UpdateWorkflowData;
+export function parseWorkflowData(body: Record<string, unknown>, partial?: false): CreateWorkflowData;
+export function parseWorkflowData(body: Record<string, unknown>, partial = false): UpdateWorkflowData | CreateWorkflowData {
+  const data: Partial<CreateWorkflowData> = {};
+
+  if (!partial || body.name !== undefined) {
+    if (!isString(body.name, 200)) {
+      throw new WorkflowError('A name of up to 200 characters is required', 400);
+    }
+    data.name = body.name.trim();
+  }
+  if (body.description !== undefined) {
+    if (body.description !== null && (typeof body.description !== 'string' || body.description.length > 1000)) {
+      throw new WorkflowError('description must be a string of up to 1000 characters', 400);
+    }
+    data.description = (body.description as string | null) || '';
+  }
+  if (body.isPublic !== undefined) {
+    if (typeof body.isPublic !== 'boolean') {
+      throw new WorkflowError('isPublic must be a boolean', 400);
+    }
+    data.isPublic = body.isPublic;
+  }
+  if (!partial) {
+    if (body.projectId !== undefined && !isString(body.projectId, 200)) {
+      throw new WorkflowError('projectId must be a string', 400);
+    }
+    Object.assign(data, parseWorkflowGraph(body));
+    if (body.projectId !== undefined) {
+      data.projectId = body.projectId as string;
+    }
+  }
+  return data;
+}
+
+export interface ListWorkflowsOptions {
+  projectId?: string;
+  // Everyone's public workflows instead of the user's own
+  publicOnly?: boolean;
+}
+
+export interface SaveGraphOptions {
+  keepIds?: boolean;
+}
+
+export interface WorkflowStore {
+  list(userId: string, options?: ListWorkflowsOptions): Promise<WorkflowSummary[]>;
+  // The user's own workflow, or anyone's public one
+  get(id: string, userId: string): Promise<Workflow | null>;
+  create(userId: string, data: CreateWorkflowData): Promise<SavedWorkflowGraph>;
+  update(id: string, userId: string, data: UpdateWorkflowData): Promise<Workflow | null>;
+  // Replace the graph, keeping nodes and edges whose ids are already saved
+  // (or, with `keepIds`, every id, e.g. when restoring a version)
+  saveGraph(id: string, userId: string, graph: WorkflowGraph, options?: SaveGraphOptions): Promise<SavedWorkflowGraph | null>;
+  delete(id: string, userId: string): Promise<boolean>;
+}
+
+function generateId(prefix: string): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+function sameJson(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+// Give nodes and edges not yet saved in the workflow new ids and point
+// edges at the saved node ids
+function assignIds(graph: WorkflowGraph, savedNodeIds: Set<string>, savedEdgeIds: Set<string>) {
+  const idMap: Record<string, string> = {};
+  const nodes = graph.nodes.map(node => {
+    const id = savedNodeIds.has(node.id) ? node.id : generateId('wfn');
+    idMap[node.id] = id;
+    return { ...node, id };
+  });
+  const edges = graph.edges.map(edge => {
+    const id = savedEdgeIds.has(edge.id) ? edge.id : generateId('wfe');
+    idMap[edge.id] = id;
+    return { ...edge, id, source: idMap[edge.source], target: idMap[edge.target] };
+  });
+  return { nodes, edges, idMap };
+}
+
+// Refuse changes to someone else's workflow; private ones stay hidden
+function assertOwner(workflow: { userId: string; isPublic: boolean } | null, userId: string): boolean {
+  if (!workflow) {
+    return false;
+  }
+  if (workflow.userId !== userId) {
+    if (workflow.isPublic) {
+      throw new WorkflowError('Only the owner can change this workflow', 403);
+    }
+    return false;
+  }
+  return true;
+}
+
+function toSummary({ nodes, edges, ...workflow }: Workflow): WorkflowSummary {
+  return { ...workflow, nodeCount: nodes.length, edgeCount: edges.length };
+}
+
+// Process-local store, used when no database is configured. Project ids
+// are stored as given since the Project table is not available.
+export class InMemoryWorkflowStore implements WorkflowStore {
+  private workflows: Map<string, Workflow> = new Map();
+
+  async list(userId: string, options: ListWorkflowsOptions = {}): Promise<WorkflowSummary[]> {
+    return Array.from(this.workflows.values())
+      .filter(workflow =>
+        (options.publicOnly ? workflow.isPublic : workflow.userId === userId) &&
+        (!options.projectId || workflow.projectId === options.projectId)
+      )
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+      .map(workflow => toSummary(structuredClone(workflow)));
+  }
+
+  async get(id: string, userId: string): Promise<Workflow | null> {
+    const workflow = this.workflows.get(id);
+    return workflow && (workflow.userId === userId || workflow.isPublic) ? structuredClone(workflow) : null;
+  }
+
+  async create(userId: string, data: CreateWorkflowData): Promise<SavedWorkflowGraph> {
+    const now = new Date();
+    const { nodes, edges, idMap } = assignIds({ nodes: data.nodes ?? [], edges: data.edges ?? [] }, new Set(), new Set());
+    const workflow: Workflow = {
+      id: generateId('wf'),
+      userId,
+      projectId: data.projectId,
+      name: data.name,
+      description: data.description || undefined,
+      isPublic: data.isPublic ?? false,
+      metadata: data.metadata,
+      nodes,
+      edges,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.workflows.set(workflow.id, structuredClone(workflow));
+    return { workflow, idMap };
+  }
+
+  async update(id: string, userId: string, data: UpdateWorkflowData): Promise<Workflow | null> {
+    const workflow = this.workflows.get(id) ?? null;
+    if (!assertOwner(workflow, userId)) {
+      return null;
+    }
+    Object.assign(workflow!, {
+      ...(data.name && { name: data.name }),
+      ...(data.description !== undefined && { description: data.description || undefined }),
+      ...(data.isPublic !== undefined && { isPublic: data.isPublic }),
+      updatedAt: new Date(),
+    });
+    return structuredClone(workflow!);
+  }
+
+  async saveGraph(id: string, userId: string, graph: WorkflowGraph, options: SaveGraphOptions = {}): Promise<SavedWorkflowGraph | null> {
+    const workflow = this.workflows.get(id) ?? null;
+    if (!assertOwner(workflow, userId)) {
+      return null;
+    }
+    const { nodes, edges, idMap } = assignIds(
+      graph,
+      new Set(options.keepIds ? graph.nodes.map(node => node.id) : workflow!.nodes.map(node => node.id)),
+      new Set(options.keepIds ? graph.edges.map(edge => edge.id) : workflow!.edges.map(edge => edge.id))
+    );
+    Object.assign(workflow!, {
+      nodes: structuredClone(nodes),
+      edges: structuredClone(edges),
+      ...(graph.metadata !== undefined && { metadata: structuredClone(graph.metadata) }),
+      updatedAt: new Date(),
+    });
+    return { workflow: structuredClone(workflow!), idMap };
+  }
+
+  async delete(id: string, userId: string): Promise<boolean> {
+    return assertOwner(this.workflows.get(id) ?? null, userId) && this.workflows.delete(id);
+  }
+}
+
+const graphInclude = {
+  nodes: { orderBy: { createdAt: 'asc' } },
+  edges: { orderBy: { createdAt: 'asc' } },
+} satisfies Prisma.WorkflowInclude;
+
+type WorkflowRow = Prisma.WorkflowGetPayload<object>;
+type WorkflowWithGraph = Prisma.WorkflowGetPayload<{ include: typeof graphInclude }>;
+type NodeRow = Prisma.WorkflowNodeGetPayload<object>;
+type EdgeRow = Prisma.WorkflowEdgeGetPayload<object>;
+
+function toNode(row: NodeRow): WorkflowNode {
+  return {
+    id: row.id,
+    type: row.type,
+    position: row.position as WorkflowNode['position'],
+    data: (row.data as Record<string, unknown> | null) ?? {},
+  };
+}
+
+function toEdge(row: EdgeRow): WorkflowEdge {
+  return {
+    id: row.id,
+    source: row.sourceId,
+    target: row.targetId,
+    ...(row.sourceHandle && { sourceHandle: row.sourceHandle }),
+    ...(row.targetHandle && { targetHandle: row.targetHandle }),
+    type: row.type,
+    ...(row.data && { data: row.data as Record<string, unknown> }),
+  };
+}
+
+function toWorkflowFields(row: WorkflowRow): Omit<Workflow, 'nodes' | 'edges'> {
+  return {
+    id: row.id,
+    userId: row.userId,
+    projectId: row.projectId ?? undefined,
+    name: row.name,
+    description: row.description ?? undefined,
+    isPublic: row.isPublic,
+    metadata: (row.metadata as Record<string, unknown> | null) ?? undefined,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+function toWorkflow(row: WorkflowWithGraph): Workflow {
+  return { ...toWorkflowFields(row), nodes: row.nodes.map(toNode), edges: row.edges.map(toEdge) };
+}
+
+function nodeData(node: WorkflowNode) {
+  return {
+    type: node.type,
+    position: node.position as Prisma.InputJsonValue,
+    data: node.data as Prisma.InputJsonValue,
+  };
+}
+
+function edgeData(edge: WorkflowEdge) {
+  return {
+    sourceId: edge.source,
+    targetId: edge.target,
+    sourceHandle: edge.sourceHandle ?? null,
+    targetHandle: edge.targetHandle ?? null,
+    type: edge.type || 'default',
+    data: (edge.data as Prisma.InputJsonValue | undefined) ?? Prisma.DbNull,
+  };
+}
+
+function edgeChanged(row: EdgeRow, edge: WorkflowEdge): boolean {
+  const saved = toEdge(row);
+  return (
+    saved.source !== edge.source ||
+    saved.target !== edge.target ||
+    saved.sourceHandle !== edge.sourceHandle ||
+    saved.targetHandle !== edge.targetHandle ||
+    saved.type !== (edge.type || 'default') ||
+    !sameJson(saved.data, edge.data)
+  );
+}
+
+// Durable store backed by the Workflow, WorkflowNode and WorkflowEdge tables
+export class PrismaWorkflowStore implements WorkflowStore {
+  async list(userId: string, options: ListWorkflowsOptions = {}): Promise<WorkflowSummary[]> {
+    const rows = await prisma.workflow.findMany({
+      where: {
+        ...(options.publicOnly ? { isPublic: true } : { userId }),
+        ...(options.projectId && { projectId: options.projectId }),
+      },
+      include: { _count: { select: { nodes: true, edges: true } } },
+      orderBy: { updatedAt: 'desc' },
+    });
+    return rows.map(({ _count, ...row }) => ({
+      ...toWorkflowFields(row),
+      nodeCount: _count.nodes,
+      edgeCount: _count.edges,
+    }));
+  }
+
+  async get(id: string, userId: string): Promise<Workflow | null> {
+    const row = await prisma.workflow.findFirst({
+      where: { id, OR: [{ userId }, { isPublic: true }] },
+      include: graphInclude,
+    });
+    return row ? toWorkflow(row) : null;
+  }
+
+  async create(userId: string, data: CreateWorkflowData): Promise<SavedWorkflowGraph> {
+    if (data.projectId) {
+      const project = await prisma.project.findFirst({ where: { id: data.projectId, userId }, select: { id: true } });
+      if (!project) {
+        throw new WorkflowError('Project not found', 404);
+      }
+    }
+    const { nodes, edges, idMap } = assignIds({ nodes: data.nodes ?? [], edges: data.edges ?? [] }, new Set(), new Set());
+    const row = await prisma.$transaction(async (tx) => {
+      const workflow = await tx.workflow.create({
+        data: {
+          userId,
+          projectId: data.projectId,
+          name: data.name,
+          description: data.description || null,
+          isPublic: data.isPublic ?? false,
+          metadata: (data.metadata as Prisma.InputJsonValue | undefined) ?? Prisma.DbNull,
+        },
+      });
+      // Nodes first, so the edges' foreign keys resolve
+      await tx.workflowNode.createMany({
+        data: nodes.map(node => ({ id: node.id, workflowId: workflow.id, ...nodeData(node) })),
+      });
+      await tx.workflowEdge.createMany({
+        data: edges.map(edge => ({ id: edge.id, workflowId: workflow.id, ...edgeData(edge) })),
+      });
+      return tx.workflow.findUniqueOrThrow({ where: { id: workflow.id }, include: graphInclude });
+    });
+    return { workflow: toWorkflow(row), idMap };
+  }
+
+  async update(id: string, userId: string, data: UpdateWorkflowData): Promise<Workflow | null> {
+    const existing = await prisma.workflow.findUnique({ where: { id }, select: { userId: true, isPublic: true } });
+    if (!assertOwner(existing, userId)) {
+      return null;
+    }
+    const row = await prisma.workflow.update({
+      where: { id },
+      data: {
+        ...(data.name && { name: data.name }),
+        ...(data.description !== undefined && { description: data.description || null }),
+        ...(data.isPublic !== undefined && { isPublic: data.isPublic }),
+      },
+      include: graphInclude,
+    });
+    return toWorkflow(row);
+  }
+
+  // Diff the graph against the saved one so unchanged rows are left alone
+  async saveGraph(id: string, userId: string, graph: WorkflowGraph, options: SaveGraphOptions = {}): Promise<SavedWorkflowGraph | null> {
+    return prisma.$transaction(async (tx) => {
+      const existing = await tx.workflow.findUnique({ where: { id }, include: graphInclude });
+      if (!assertOwner(existing, userId)) {
+        return null;
+      }
+
+      const savedNodes = new Map(existing!.nodes.map(row => [row.id, row]));
+      const savedEdges = new Map(existing!.edges.map(row => [row.id, row]));
+      const { nodes, edges, idMap } = assignIds(
+        graph,
+        new Set(options.keepIds ? graph.nodes.map(node => node.id) : savedNodes.keys()),
+        new Set(options.keepIds ? graph.edges.map(edge => edge.id) : savedEdges.keys())
+      );
+      const keptNodes = new Set(nodes.map(node => node.id));
+      const keptEdges = new Set(edges.map(edge => edge.id));
+
+      // Removing a node also removes its edges
+      await tx.workflowEdge.deleteMany({
+        where: { workflowId: id, id: { in: existing!.edges.filter(row => !keptEdges.has(row.id)).map(row => row.id) } },
+      });
+      await tx.workflowNode.deleteMany({
+        where: { workflowId: id, id: { in: existing!.nodes.filter(row => !keptNodes.has(row.id)).map(row => row.id) } },
+      });
+
+      await tx.workflowNode.createMany({
+        data: nodes.filter(node => !savedNodes.has(node.id)).map(node => ({ id: node.id, workflowId: id, ...nodeData(node) })),
+      });
+      for (const node of nodes) {
+        const row = savedNodes.get(node.id);
+        if (row && (row.type !== node.type || !sameJson(row.position, node.position) || !sameJson(row.data, node.data))) {
+          await tx.workflowNode.update({ where: { id: node.id }, data: nodeData(node) });
+        }
+      }
+
+      await tx.workflowEdge.createMany({
+        data: edges.filter(edge => !savedEdges.has(edge.id)).map(edge => ({ id: edge.id, workflowId: id, ...edgeData(edge) })),
+      });
+      for (const edge of edges) {
+        const row = savedEdges.get(edge.id);
+        if (row && edgeChanged(row, edge)) {
+          await tx.workflowEdge.update({ where: { id: edge.id }, data: edgeData(edge) });
+        }
+      }
+
+      const row = await tx.workflow.update({
+        where: { id },
+        data: {
+          ...(graph.metadata !== undefined && { metadata: graph.metadata as Prisma.InputJsonValue }),
+          // Bump updatedAt even when only nodes or edges changed
+          updatedAt: new Date(),
+        },
+        include: graphInclude,
+      });
+      return { workflow: toWorkflow(row), idMap };
+    });
+  }
+
+  async delete(id: string, userId: string): Promise<boolean> {
+    const existing = await prisma.workflow.findUnique({ where: { id }, select: { userId: true, isPublic: true } });
+    if (!assertOwner(existing, userId)) {
+      return false;
+    }
+    const { count } = await prisma.workflow.deleteMany({ where: { id, userId } });
+    return count > 0;
+  }
+}
+
+let storeInstance: WorkflowStore | null = null;
+
+export function getWorkflowStore(): WorkflowStore {
+  if (!storeInstance) {
+    storeInstance = process.env.DATABASE_URL
+      ? new PrismaWorkflowStore()
+      : new InMemoryWorkflowStore();
+  }
+  return storeInstance;
+}
+
+export async function getWorkflows(userId: string, options?: ListWorkflowsOptions): Promise<WorkflowSummary[]> {
+  return getWorkflowStore().list(userId, options);
+}
+
+export async function getWorkflowById(id: string, userId: string): Promise<Workflow | null> {
+  return getWorkflowStore().get(id, userId);
+}
+
+export async function createWorkflow(userId: string, data: CreateWorkflowData): Promise<Workflow> {
+  return (await getWorkflowStore().create(userId, data)).workflow;
 }
@@ -0,0 +1,192 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { prisma } from './prisma';
+
+// Per-project overrides, read from Project.settings.workspace
+export interface WorkspaceSettings {
+  allow?: string[];
+  deny?: string[];
+  maxFileSize?: number;
+}
+
+export interface WorkspacePolicy {
+  root: string;
+  allow: string[];
+  deny: string[];
+  maxFileSize: number;
+}
+
+export type WorkspaceViolation =
+  | 'INVALID_PATH'
+  | 'PATH_OUTSIDE_WORKSPACE'
+  | 'PATH_DENIED'
+  | 'PATH_NOT_ALLOWED'
+  | 'FILE_TOO_LARGE';
+
+export class WorkspacePolicyError extends Error {
+  constructor(
+    public code: WorkspaceViolation,
+    message: string,
+    public path?: string
+  ) {
+    super(message);
+    this.name = 'WorkspacePolicyError';
+  }
+}
+
+export const DEFAULT_WORKSPACE_DENY = ['**/.env', '**/.env.*', '**/.git', '**/.git/**', '**/*.pem', '**/*.key'];
+export const DEFAULT_MAX_FILE_SIZE = 1024 * 1024; // 1 MB
+
+function getWorkspacesBaseDir(): string {
+  return process.env.WORKSPACES_ROOT || path.join(os.tmpdir(), 'nex7-workspaces');
+}
+
+// Convert a glob (`*`, `**`, `?`) into an anchored regular expression
+export function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        // `**/` matches zero or more directories
+        if (glob[i + 2] === '/') {
+          pattern += '(?:.*/)?';
+          i += 2;
+        } else {
+          pattern += '.*';
+          i += 1;
+        }
+      } else {
+        pattern += '[^/]*';
+      }
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+export function matchesGlob(relativePath: string, patterns: string[]): boolean {
+  return patterns.some(pattern => globToRegExp(pattern).test(relativePath));
+}
+
+function isInside(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+// Resolve symlinks on the deepest part of the path that already exists
+async function realpathOfExisting(target: string): Promise<string> {
+  let current = target;
+  const missing: string[] = [];
+  while (true) {
+    try {
+      const real = await fs.realpath(current);
+      return path.join(real, ...missing.reverse());
+    } catch (error) {
+      const parent = path.dirname(current);
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT' || parent === current) {
+        throw error;
+      }
+      missing.push(path.basename(current));
+      current = parent;
+    }
+  }
+}
+
+// Build the policy for a user's project workspace. Each project gets its own
+// directory under WORKSPACES_ROOT; only the filters can be tuned per project.
+export function createWorkspacePolicy(
+  userId: string,
+  projectId?: string,
+  settings: WorkspaceSettings = {}
+): WorkspacePolicy {
+  const segment = (value: string) => value.replace(/[^a-zA-Z0-9_-]/g, '_');
+  return {
+    root: path.join(getWorkspacesBaseDir(), segment(userId), segment(projectId || 'default')),
+    allow: settings.allow && settings.allow.length > 0 ? settings.allow : ['**'],
+    deny: [...DEFAULT_WORKSPACE_DENY, ...(settings.deny || [])],
+    maxFileSize: settings.maxFileSize || DEFAULT_MAX_FILE_SIZE,
+  };
+}
+
+// Load the workspace policy for a user, applying the project's settings when
+// a project is given. Returns null if the project does not belong to the user.
+export async function getWorkspacePolicy(userId: string, projectId?: string): Promise<WorkspacePolicy | null> {
+  let settings: WorkspaceSettings | undefined;
+
+  if (projectId) {
+    const project = await prisma.project.findFirst({
+      where: { id: projectId, userId },
+      select: { settings: true },
+    });
+    if (!project) {
+      return null;
+    }
+    settings = (project.settings as { workspace?: WorkspaceSettings } | null)?.workspace;
+  }
+
+  const policy = createWorkspacePolicy(userId, projectId, settings);
+  await fs.mkdir(policy.root, { recursive: true });
+  return policy;
+}
+
+// Resolve a tool-supplied path to an absolute path inside the workspace,
+// throwing a WorkspacePolicyError if it escapes the root or is filtered out
+export async function resolveWorkspacePath(policy: WorkspacePolicy, inputPath: string): Promise<string> {
+  if (typeof inputPath !== 'string' || inputPath.length === 0 || inputPath.includes('\0')) {
+    throw new WorkspacePolicyError('INVALID_PATH', 'A non-empty path is required', inputPath);
+  }
+
+  if (inputPath.split(/[\\/]/).includes('..')) {
+    throw new WorkspacePolicyError('PATH_OUTSIDE_WORKSPACE', 'Parent directory references are not allowed', inputPath);
+  }
+
+  const root = await fs.realpath(policy.root);
+  let resolved: string;
+  if (path.isAbsolute(inputPath)) {
+    // Absolute paths are accepted against either the configured or the real root
+    const normalized = path.resolve(inputPath);
+    const base = isInside(root, normalized) ? root : isInside(policy.root, normalized) ? policy.root : null;
+    if (!base) {
+      throw new WorkspacePolicyError('PATH_OUTSIDE_WORKSPACE', `Path is outside the workspace: ${inputPath}`, inputPath);
+    }
+    resolved = path.join(root, path.relative(base, normalized));
+  } else {
+    resolved = path.resolve(root, inputPath);
+  }
+
+  const real = await realpathOfExisting(resolved);
+  if (!isInside(root, real)) {
+    throw new WorkspacePolicyError('PATH_OUTSIDE_WORKSPACE', `Path resolves outside the workspace: ${inputPath}`, inputPath);
+  }
+
+  const relative = path.relative(root, real);
+  if (relative && matchesGlob(relative, policy.deny)) {
+    throw new WorkspacePolicyError('PATH_DENIED', `Access to this path is denied: ${relative}`, relative);
+  }
+  if (relative && !matchesGlob(relative, policy.allow)) {
+    throw new WorkspacePolicyError('PATH_NOT_ALLOWED', `Path is not in the workspace allow list: ${relative}`, relative);
+  }
+
+  return real;
+}
+
+// Path of a resolved file relative to the workspace root, for display
+export async function toWorkspaceRelative(policy: WorkspacePolicy, absolutePath: string): Promise<string> {
+  const root = await fs.realpath(policy.root);
+  return path.relative(root, absolutePath) || '.';
+}
+
+export function assertFileSize(policy: WorkspacePolicy, size: number, displayPath: string): void {
+  if (size > policy.maxFileSize) {
+    throw new WorkspacePolicyError(
+      'FILE_TOO_LARGE',
+      `File exceeds the workspace limit of ${policy.maxFileSize} bytes: ${displayPath}`,
+      displayPath
+    );
+  }
+}